@@ -0,0 +1,179 @@
+import { appendFileSync, closeSync, fstatSync, mkdirSync, openSync, readdirSync, readFileSync, renameSync, rmSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+
+import { type RequestOrigin } from "./origin.js";
+
+const ACCESS_LOG_RELATIVE_DIR = path.join(".tailserve", "logs");
+const ACCESS_LOG_MAX_BYTES = 1024 * 1024;
+const ACCESS_LOG_GENERATIONS = 3;
+export const ACCESS_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface AccessLogEntry {
+  time: string;
+  method: string;
+  path: string;
+  status: number;
+  bytes: number;
+  durationMs: number;
+  login?: string;
+  origin: RequestOrigin;
+}
+
+export function getAccessLogDirectory(): string {
+  return path.join(homedir(), ACCESS_LOG_RELATIVE_DIR);
+}
+
+// <id>.jsonl is the live file; <id>.1.jsonl is the most recent rotation.
+function getAccessLogPath(shareId: string, generation = 0): string {
+  return path.join(getAccessLogDirectory(), generation === 0 ? `${shareId}.jsonl` : `${shareId}.${generation}.jsonl`);
+}
+
+function readFileSize(filePath: string): number {
+  try {
+    return statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+function rotateAccessLog(shareId: string): void {
+  rmSync(getAccessLogPath(shareId, ACCESS_LOG_GENERATIONS), { force: true });
+  for (let generation = ACCESS_LOG_GENERATIONS - 1; generation >= 0; generation -= 1) {
+    try {
+      renameSync(getAccessLogPath(shareId, generation), getAccessLogPath(shareId, generation + 1));
+    } catch {
+      // Missing generations are skipped.
+    }
+  }
+}
+
+export function appendAccessLogEntry(shareId: string, entry: AccessLogEntry): void {
+  const logPath = getAccessLogPath(shareId);
+  mkdirSync(path.dirname(logPath), { recursive: true });
+  if (readFileSize(logPath) >= ACCESS_LOG_MAX_BYTES) {
+    rotateAccessLog(shareId);
+  }
+
+  appendFileSync(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+}
+
+function parseAccessLogLines(contents: string): AccessLogEntry[] {
+  const entries: AccessLogEntry[] = [];
+  for (const line of contents.split("\n")) {
+    if (line.length === 0) {
+      continue;
+    }
+
+    try {
+      entries.push(JSON.parse(line) as AccessLogEntry);
+    } catch {
+      // A torn line from a crash should not hide the rest of the log.
+    }
+  }
+
+  return entries;
+}
+
+export function hasAccessLog(shareId: string): boolean {
+  return Array.from({ length: ACCESS_LOG_GENERATIONS + 1 }, (_unused, generation) => getAccessLogPath(shareId, generation)).some(
+    (logPath) => readFileSize(logPath) > 0,
+  );
+}
+
+// Where a follow read stopped: the file, which keeps its inode when it is
+// rotated, and the byte offset in it.
+export interface AccessLogPosition {
+  ino?: number;
+  offset: number;
+}
+
+function readLogFile(filePath: string): { contents: Buffer; ino: number } | undefined {
+  let fd: number;
+  try {
+    fd = openSync(filePath, "r");
+  } catch {
+    return undefined;
+  }
+
+  try {
+    return { contents: readFileSync(fd), ino: fstatSync(fd).ino };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Only complete lines are read; one still being appended is picked up by the
+// next read.
+function readCompleteLines(contents: Buffer, start: number): { entries: AccessLogEntry[]; offset: number } {
+  const lastNewline = contents.lastIndexOf("\n");
+  if (lastNewline < start) {
+    return { entries: [], offset: start };
+  }
+
+  return { entries: parseAccessLogLines(contents.subarray(start, lastNewline).toString("utf8")), offset: lastNewline + 1 };
+}
+
+// Without a position, reads rotated generations oldest first, then the live
+// file. With one, reads on from where the last read stopped: if that file has
+// been rotated since, the rest of it and any newer generations come first.
+export function readAccessLog(
+  shareId: string,
+  position?: AccessLogPosition,
+): { entries: AccessLogEntry[]; position: AccessLogPosition } {
+  const entries: AccessLogEntry[] = [];
+  const live = readLogFile(getAccessLogPath(shareId));
+  let start = 0;
+  if (position !== undefined && live !== undefined && live.ino === position.ino) {
+    start = live.contents.length < position.offset ? 0 : position.offset;
+  } else {
+    const rotated: Array<{ contents: Buffer; ino: number }> = [];
+    for (let generation = ACCESS_LOG_GENERATIONS; generation >= 1; generation -= 1) {
+      const file = readLogFile(getAccessLogPath(shareId, generation));
+      if (file) {
+        rotated.push(file);
+      }
+    }
+
+    const stoppedAt = position === undefined ? -1 : rotated.findIndex((file) => file.ino === position.ino);
+    for (const [index, file] of rotated.entries()) {
+      if (index === stoppedAt) {
+        entries.push(...readCompleteLines(file.contents, position?.offset ?? 0).entries);
+      } else if (index > stoppedAt) {
+        entries.push(...parseAccessLogLines(file.contents.toString("utf8")));
+      }
+    }
+  }
+
+  if (!live) {
+    return { entries, position: { offset: 0 } };
+  }
+
+  const next = readCompleteLines(live.contents, start);
+  entries.push(...next.entries);
+  return { entries, position: { ino: live.ino, offset: next.offset } };
+}
+
+export function pruneAccessLogs(nowMs = Date.now()): number {
+  let names: string[];
+  try {
+    names = readdirSync(getAccessLogDirectory());
+  } catch {
+    return 0;
+  }
+
+  let removedCount = 0;
+  for (const name of names) {
+    const logPath = path.join(getAccessLogDirectory(), name);
+    try {
+      if (name.endsWith(".jsonl") && nowMs - statSync(logPath).mtimeMs > ACCESS_LOG_RETENTION_MS) {
+        rmSync(logPath, { force: true });
+        removedCount += 1;
+      }
+    } catch {
+      // Removed concurrently.
+    }
+  }
+
+  return removedCount;
+}
@@ -0,0 +1,176 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+
+const ANALYTICS_RELATIVE_PATH = path.join(".tailserve", "analytics.json");
+// Bounds the file for links that get passed around widely; the count stops growing too.
+const MAX_TRACKED_VIEWERS = 500;
+
+export type RouteKind = "shares" | "projects";
+
+export interface RouteStats {
+  requests: number;
+  viewers: string[];
+  bytesSent: number;
+  firstAccessAt: string;
+  lastAccessAt: string;
+}
+
+export interface RouteAnalytics {
+  shares: Record<string, RouteStats>;
+  projects: Record<string, RouteStats>;
+}
+
+export interface RouteHit {
+  viewer?: string;
+  bytes: number;
+  at: string;
+}
+
+export interface RouteStatsSummary {
+  requests: number;
+  uniqueViewers: number;
+  bytesSent: number;
+  firstAccessAt: string;
+  lastAccessAt: string;
+}
+
+function getAnalyticsPath(): string {
+  return path.join(homedir(), ANALYTICS_RELATIVE_PATH);
+}
+
+function toObjectRecord(value: unknown): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return {};
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function parseRouteStats(value: unknown): RouteStats | undefined {
+  const raw = toObjectRecord(value);
+  if (
+    typeof raw.requests !== "number" ||
+    typeof raw.bytesSent !== "number" ||
+    typeof raw.firstAccessAt !== "string" ||
+    typeof raw.lastAccessAt !== "string"
+  ) {
+    return undefined;
+  }
+
+  const viewers = Array.isArray(raw.viewers) ? raw.viewers.filter((viewer): viewer is string => typeof viewer === "string") : [];
+  return {
+    requests: raw.requests,
+    viewers,
+    bytesSent: raw.bytesSent,
+    firstAccessAt: raw.firstAccessAt,
+    lastAccessAt: raw.lastAccessAt,
+  };
+}
+
+function parseRouteStatsRecord(value: unknown): Record<string, RouteStats> {
+  const parsed: Record<string, RouteStats> = {};
+  for (const [key, rawStats] of Object.entries(toObjectRecord(value))) {
+    const stats = parseRouteStats(rawStats);
+    if (stats) {
+      parsed[key] = stats;
+    }
+  }
+
+  return parsed;
+}
+
+export function readRouteAnalytics(): RouteAnalytics {
+  try {
+    const parsed = toObjectRecord(JSON.parse(readFileSync(getAnalyticsPath(), "utf8")));
+    return { shares: parseRouteStatsRecord(parsed.shares), projects: parseRouteStatsRecord(parsed.projects) };
+  } catch {
+    return { shares: {}, projects: {} };
+  }
+}
+
+function writeRouteAnalytics(analytics: RouteAnalytics): void {
+  const analyticsPath = getAnalyticsPath();
+  mkdirSync(path.dirname(analyticsPath), { recursive: true });
+  const temporaryPath = `${analyticsPath}.tmp`;
+  writeFileSync(temporaryPath, `${JSON.stringify(analytics, null, 2)}\n`, "utf8");
+  renameSync(temporaryPath, analyticsPath);
+}
+
+function applyHit(stats: RouteStats | undefined, hit: RouteHit): RouteStats {
+  const next: RouteStats = stats
+    ? { ...stats, viewers: [...stats.viewers] }
+    : { requests: 0, viewers: [], bytesSent: 0, firstAccessAt: hit.at, lastAccessAt: hit.at };
+  next.requests += 1;
+  next.bytesSent += hit.bytes;
+  if (hit.at < next.firstAccessAt) {
+    next.firstAccessAt = hit.at;
+  }
+
+  if (hit.at > next.lastAccessAt) {
+    next.lastAccessAt = hit.at;
+  }
+
+  if (hit.viewer !== undefined && next.viewers.length < MAX_TRACKED_VIEWERS && !next.viewers.includes(hit.viewer)) {
+    next.viewers.push(hit.viewer);
+  }
+
+  return next;
+}
+
+export function summarizeRouteStats(stats: RouteStats | undefined): RouteStatsSummary | undefined {
+  if (!stats) {
+    return undefined;
+  }
+
+  return {
+    requests: stats.requests,
+    uniqueViewers: stats.viewers.length,
+    bytesSent: stats.bytesSent,
+    firstAccessAt: stats.firstAccessAt,
+    lastAccessAt: stats.lastAccessAt,
+  };
+}
+
+// The server is the only writer. Hits are buffered in memory and merged into
+// analytics.json on an interval, so serving a request never touches the disk.
+export class RouteAnalyticsRecorder {
+  private pending: RouteAnalytics = { shares: {}, projects: {} };
+
+  record(kind: RouteKind, key: string, hit: RouteHit): void {
+    this.pending[kind][key] = applyHit(this.pending[kind][key], hit);
+  }
+
+  hasPending(): boolean {
+    return Object.keys(this.pending.shares).length > 0 || Object.keys(this.pending.projects).length > 0;
+  }
+
+  // Routes missing from `activeKeys` are dropped, so deleted shares do not linger.
+  flush(activeKeys: { shares: Set<string>; projects: Set<string> }): void {
+    const pending = this.pending;
+    this.pending = { shares: {}, projects: {} };
+    const analytics = readRouteAnalytics();
+    for (const kind of ["shares", "projects"] as const) {
+      for (const [key, stats] of Object.entries(pending[kind])) {
+        const existing = analytics[kind][key];
+        analytics[kind][key] = existing
+          ? {
+              requests: existing.requests + stats.requests,
+              viewers: [...new Set([...existing.viewers, ...stats.viewers])].slice(0, MAX_TRACKED_VIEWERS),
+              bytesSent: existing.bytesSent + stats.bytesSent,
+              firstAccessAt: existing.firstAccessAt < stats.firstAccessAt ? existing.firstAccessAt : stats.firstAccessAt,
+              lastAccessAt: existing.lastAccessAt > stats.lastAccessAt ? existing.lastAccessAt : stats.lastAccessAt,
+            }
+          : stats;
+      }
+
+      for (const key of Object.keys(analytics[kind])) {
+        if (!activeKeys[kind].has(key)) {
+          delete analytics[kind][key];
+        }
+      }
+    }
+
+    writeRouteAnalytics(analytics);
+  }
+}
@@ -0,0 +1,426 @@
+import { createReadStream, type Stats } from "node:fs";
+import { readdir, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { createGzip } from "node:zlib";
+
+export type ArchiveFormat = "zip" | "tgz";
+
+export interface ArchiveEntry {
+  archivePath: string;
+  absolutePath: string;
+  type: "file" | "dir";
+  stats: Stats;
+}
+
+interface ZipCentralRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  mtime: Date;
+  mode: number;
+  isDirectory: boolean;
+}
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP_DESCRIPTOR_UTF8_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const ZIP64_VERSION = 45;
+const ZIP_UNIX_HOST = 3;
+const ZIP_MAX_32 = 0xffffffff;
+const ZIP_MAX_16 = 0xffff;
+const TAR_BLOCK_SIZE = 512;
+const TAR_MAX_OCTAL_SIZE = 0o77777777777;
+const CRC32_TABLE = buildCrc32Table();
+
+function buildCrc32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+
+    table[index] = value >>> 0;
+  }
+
+  return table;
+}
+
+function updateCrc32(crc: number, chunk: Buffer): number {
+  let value = crc ^ 0xffffffff;
+  for (let index = 0; index < chunk.length; index += 1) {
+    value = CRC32_TABLE[(value ^ chunk[index]) & 0xff] ^ (value >>> 8);
+  }
+
+  return (value ^ 0xffffffff) >>> 0;
+}
+
+export function isArchiveFormat(value: unknown): value is ArchiveFormat {
+  return value === "zip" || value === "tgz";
+}
+
+export function toArchiveFilename(baseName: string, format: ArchiveFormat): string {
+  return `${baseName}${format === "zip" ? ".zip" : ".tar.gz"}`;
+}
+
+export function toArchiveContentType(format: ArchiveFormat): string {
+  return format === "zip" ? "application/zip" : "application/gzip";
+}
+
+function isWithinRoot(rootPath: string, candidatePath: string): boolean {
+  const relativePath = path.relative(rootPath, candidatePath);
+  return relativePath === "" || (!relativePath.startsWith("..") && !path.isAbsolute(relativePath));
+}
+
+async function* walkArchiveEntries(
+  realRootPath: string,
+  directoryPath: string,
+  archivePrefix: string,
+  isHiddenName: (name: string) => boolean,
+  visitedDirectories: Set<string>,
+): AsyncGenerator<ArchiveEntry> {
+  const dirents = (await readdir(directoryPath, { withFileTypes: true }))
+    .filter((entry) => !isHiddenName(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const dirent of dirents) {
+    const absolutePath = path.join(directoryPath, dirent.name);
+    const archivePath = `${archivePrefix}/${dirent.name}`;
+
+    let resolvedPath: string;
+    let stats: Stats;
+    try {
+      resolvedPath = await realpath(absolutePath);
+      stats = await stat(resolvedPath);
+    } catch {
+      continue;
+    }
+
+    // Symlinks are followed only while they stay inside the share root.
+    if (!isWithinRoot(realRootPath, resolvedPath)) {
+      continue;
+    }
+
+    if (stats.isDirectory()) {
+      if (visitedDirectories.has(resolvedPath)) {
+        continue;
+      }
+
+      visitedDirectories.add(resolvedPath);
+      yield { archivePath: `${archivePath}/`, absolutePath: resolvedPath, type: "dir", stats };
+      yield* walkArchiveEntries(realRootPath, resolvedPath, archivePath, isHiddenName, visitedDirectories);
+      continue;
+    }
+
+    if (stats.isFile()) {
+      yield { archivePath, absolutePath: resolvedPath, type: "file", stats };
+    }
+  }
+}
+
+export async function* listArchiveEntries(
+  rootPath: string,
+  directoryPath: string,
+  archiveName: string,
+  isHiddenName: (name: string) => boolean,
+): AsyncGenerator<ArchiveEntry> {
+  const realRootPath = await realpath(rootPath);
+  const realDirectoryPath = await realpath(directoryPath);
+  if (!isWithinRoot(realRootPath, realDirectoryPath)) {
+    return;
+  }
+
+  const stats = await stat(realDirectoryPath);
+  yield { archivePath: `${archiveName}/`, absolutePath: realDirectoryPath, type: "dir", stats };
+  yield* walkArchiveEntries(realRootPath, realDirectoryPath, archiveName, isHiddenName, new Set([realDirectoryPath]));
+}
+
+async function* readFileChunks(entry: ArchiveEntry, onChunk: (chunk: Buffer) => void): AsyncGenerator<Buffer> {
+  let bytesRead = 0;
+  if (entry.stats.size > 0) {
+    for await (const chunk of createReadStream(entry.absolutePath, { start: 0, end: entry.stats.size - 1 })) {
+      const buffer = chunk as Buffer;
+      bytesRead += buffer.length;
+      onChunk(buffer);
+      yield buffer;
+    }
+  }
+
+  // Headers already promised this many bytes; a short read would corrupt the archive.
+  if (bytesRead !== entry.stats.size) {
+    throw new Error(`File changed while archiving: ${entry.archivePath}`);
+  }
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function buildZipLocalHeader(name: Buffer, mtime: Date, zip64: boolean): Buffer {
+  const extra = zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+  if (zip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(16, 2);
+  }
+
+  const header = Buffer.alloc(30);
+  const dos = toDosDateTime(mtime);
+  header.writeUInt32LE(ZIP_LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(zip64 ? ZIP64_VERSION : ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_DESCRIPTOR_UTF8_FLAGS, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(dos.time, 10);
+  header.writeUInt16LE(dos.date, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(zip64 ? ZIP_MAX_32 : 0, 18);
+  header.writeUInt32LE(zip64 ? ZIP_MAX_32 : 0, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, name, extra]);
+}
+
+function buildZipDataDescriptor(crc: number, size: number, zip64: boolean): Buffer {
+  if (zip64) {
+    const descriptor = Buffer.alloc(24);
+    descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeBigUInt64LE(BigInt(size), 8);
+    descriptor.writeBigUInt64LE(BigInt(size), 16);
+    return descriptor;
+  }
+
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  descriptor.writeUInt32LE(size, 8);
+  descriptor.writeUInt32LE(size, 12);
+  return descriptor;
+}
+
+function buildZipCentralHeader(record: ZipCentralRecord): Buffer {
+  const sizeOverflow = record.size >= ZIP_MAX_32;
+  const offsetOverflow = record.offset >= ZIP_MAX_32;
+  const zip64Fields: bigint[] = [];
+  if (sizeOverflow) {
+    zip64Fields.push(BigInt(record.size), BigInt(record.size));
+  }
+  if (offsetOverflow) {
+    zip64Fields.push(BigInt(record.offset));
+  }
+
+  let extra = Buffer.alloc(0);
+  if (zip64Fields.length > 0) {
+    extra = Buffer.alloc(4 + zip64Fields.length * 8);
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(zip64Fields.length * 8, 2);
+    zip64Fields.forEach((value, index) => {
+      extra.writeBigUInt64LE(value, 4 + index * 8);
+    });
+  }
+
+  const version = zip64Fields.length > 0 ? ZIP64_VERSION : ZIP_VERSION;
+  const header = Buffer.alloc(46);
+  const dos = toDosDateTime(record.mtime);
+  const fileType = record.isDirectory ? 0o040000 : 0o100000;
+  header.writeUInt32LE(ZIP_CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE((ZIP_UNIX_HOST << 8) | version, 4);
+  header.writeUInt16LE(version, 6);
+  header.writeUInt16LE(ZIP_DESCRIPTOR_UTF8_FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(dos.time, 12);
+  header.writeUInt16LE(dos.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(sizeOverflow ? ZIP_MAX_32 : record.size, 20);
+  header.writeUInt32LE(sizeOverflow ? ZIP_MAX_32 : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt16LE(0, 32);
+  header.writeUInt16LE(0, 34);
+  header.writeUInt16LE(0, 36);
+  header.writeUInt32LE((((fileType | (record.mode & 0o7777)) << 16) | (record.isDirectory ? 0x10 : 0)) >>> 0, 38);
+  header.writeUInt32LE(offsetOverflow ? ZIP_MAX_32 : record.offset, 42);
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function buildZipEnd(entryCount: number, centralSize: number, centralOffset: number): Buffer {
+  const needsZip64 = entryCount >= ZIP_MAX_16 || centralSize >= ZIP_MAX_32 || centralOffset >= ZIP_MAX_32;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(ZIP_END_SIGNATURE, 0);
+  end.writeUInt16LE(needsZip64 ? ZIP_MAX_16 : entryCount, 8);
+  end.writeUInt16LE(needsZip64 ? ZIP_MAX_16 : entryCount, 10);
+  end.writeUInt32LE(needsZip64 ? ZIP_MAX_32 : centralSize, 12);
+  end.writeUInt32LE(needsZip64 ? ZIP_MAX_32 : centralOffset, 16);
+  if (!needsZip64) {
+    return end;
+  }
+
+  const zip64End = Buffer.alloc(56);
+  zip64End.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+  zip64End.writeBigUInt64LE(44n, 4);
+  zip64End.writeUInt16LE((ZIP_UNIX_HOST << 8) | ZIP64_VERSION, 12);
+  zip64End.writeUInt16LE(ZIP64_VERSION, 14);
+  zip64End.writeBigUInt64LE(BigInt(entryCount), 24);
+  zip64End.writeBigUInt64LE(BigInt(entryCount), 32);
+  zip64End.writeBigUInt64LE(BigInt(centralSize), 40);
+  zip64End.writeBigUInt64LE(BigInt(centralOffset), 48);
+
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+  locator.writeBigUInt64LE(BigInt(centralOffset + centralSize), 8);
+  locator.writeUInt32LE(1, 16);
+  return Buffer.concat([zip64End, locator, end]);
+}
+
+// Entries are stored rather than deflated: sizes are then known up front and
+// the artifacts people archive (builds, checkpoints, media) rarely shrink.
+async function* generateZip(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Buffer> {
+  const records: ZipCentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.archivePath, "utf8");
+    const size = entry.type === "file" ? entry.stats.size : 0;
+    const zip64 = size >= ZIP_MAX_32 || offset >= ZIP_MAX_32;
+    const localHeader = buildZipLocalHeader(name, entry.stats.mtime, zip64);
+    const entryOffset = offset;
+    yield localHeader;
+    offset += localHeader.length;
+
+    let crc = 0;
+    if (entry.type === "file") {
+      yield* readFileChunks(entry, (chunk) => {
+        crc = updateCrc32(crc, chunk);
+      });
+      offset += size;
+    }
+
+    const descriptor = buildZipDataDescriptor(crc, size, zip64);
+    yield descriptor;
+    offset += descriptor.length;
+
+    records.push({
+      name,
+      crc,
+      size,
+      offset: entryOffset,
+      mtime: entry.stats.mtime,
+      mode: entry.stats.mode,
+      isDirectory: entry.type === "dir",
+    });
+  }
+
+  const centralOffset = offset;
+  let centralSize = 0;
+  for (const record of records) {
+    const header = buildZipCentralHeader(record);
+    centralSize += header.length;
+    yield header;
+  }
+
+  yield buildZipEnd(records.length, centralSize, centralOffset);
+}
+
+function writeTarString(block: Buffer, value: string, offset: number, length: number): void {
+  block.write(value, offset, Math.min(length, Buffer.byteLength(value, "utf8")), "utf8");
+}
+
+function writeTarOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function buildTarHeader(name: string, size: number, mode: number, mtime: Date, typeFlag: string): Buffer {
+  const block = Buffer.alloc(TAR_BLOCK_SIZE);
+  writeTarString(block, name, 0, 100);
+  writeTarOctal(block, mode & 0o7777, 100, 8);
+  writeTarOctal(block, 0, 108, 8);
+  writeTarOctal(block, 0, 116, 8);
+  writeTarOctal(block, size > TAR_MAX_OCTAL_SIZE ? 0 : size, 124, 12);
+  writeTarOctal(block, Math.floor(mtime.getTime() / 1000), 136, 12);
+  block.fill(" ", 148, 156);
+  block.write(typeFlag, 156, 1, "ascii");
+  block.write("ustar\0", 257, 6, "ascii");
+  block.write("00", 263, 2, "ascii");
+
+  let checksum = 0;
+  for (const byte of block) {
+    checksum += byte;
+  }
+
+  block.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return block;
+}
+
+function buildPaxRecord(key: string, value: string): string {
+  // The length prefix counts its own digits, so settle it by iteration.
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body, "utf8");
+  let length = bodyLength;
+  while (String(length).length + bodyLength !== length) {
+    length = String(length).length + bodyLength;
+  }
+
+  return `${length}${body}`;
+}
+
+function padTarBlock(size: number): Buffer {
+  const remainder = size % TAR_BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : TAR_BLOCK_SIZE - remainder);
+}
+
+function buildTarEntryHeaders(entry: ArchiveEntry): Buffer {
+  const size = entry.type === "file" ? entry.stats.size : 0;
+  const paxRecords: string[] = [];
+  if (Buffer.byteLength(entry.archivePath, "utf8") > 100) {
+    paxRecords.push(buildPaxRecord("path", entry.archivePath));
+  }
+  if (size > TAR_MAX_OCTAL_SIZE) {
+    paxRecords.push(buildPaxRecord("size", String(size)));
+  }
+
+  const header = buildTarHeader(entry.archivePath, size, entry.stats.mode, entry.stats.mtime, entry.type === "dir" ? "5" : "0");
+  if (paxRecords.length === 0) {
+    return header;
+  }
+
+  const paxBody = Buffer.from(paxRecords.join(""), "utf8");
+  const paxHeader = buildTarHeader(`PaxHeader/${path.posix.basename(entry.archivePath)}`, paxBody.length, 0o644, entry.stats.mtime, "x");
+  return Buffer.concat([paxHeader, paxBody, padTarBlock(paxBody.length), header]);
+}
+
+async function* generateTar(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Buffer> {
+  for await (const entry of entries) {
+    yield buildTarEntryHeaders(entry);
+    if (entry.type === "file") {
+      yield* readFileChunks(entry, () => {
+        return;
+      });
+      yield padTarBlock(entry.stats.size);
+    }
+  }
+
+  yield Buffer.alloc(TAR_BLOCK_SIZE * 2);
+}
+
+export function createArchiveStream(format: ArchiveFormat, entries: AsyncIterable<ArchiveEntry>): Readable {
+  if (format === "zip") {
+    return Readable.from(generateZip(entries), { objectMode: false });
+  }
+
+  const tarStream = Readable.from(generateTar(entries), { objectMode: false });
+  const gzip = createGzip();
+  tarStream.on("error", (error) => {
+    gzip.destroy(error);
+  });
+  return tarStream.pipe(gzip);
+}
@@ -0,0 +1,343 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { type IncomingHttpHeaders } from "node:http";
+import { homedir } from "node:os";
+import path from "node:path";
+
+import { classifyRequestOrigin, isInternetOrigin, readSingleHeader } from "./origin.js";
+
+// Hidden segments are never served from shares, so the login endpoint cannot shadow a real file.
+export const LOGIN_SEGMENT = ".tailserve-login";
+
+// Allow-list entry for requests without a tailnet identity (localhost, tunnels, Funnel).
+export const ANONYMOUS_ALLOW_ENTRY = "anonymous";
+
+const AUTH_SECRET_RELATIVE_PATH = path.join(".tailserve", "auth-secret");
+const HASH_ALGORITHM = "scrypt";
+const HASH_KEY_BYTES = 32;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export interface AccessCredentials {
+  passwordHash?: string;
+  tokenHash?: string;
+}
+
+export interface AccessScope {
+  cookieName: string;
+  cookiePath: string;
+  credentials: AccessCredentials;
+}
+
+export interface PresentedCredentials {
+  password?: string;
+  token?: string;
+}
+
+export interface TailscaleIdentity {
+  login: string;
+  name?: string;
+}
+
+export interface ForbiddenPageContext {
+  title: string;
+  login?: string;
+}
+
+export interface LoginPageContext {
+  title: string;
+  action: string;
+  next: string;
+  error?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+export function hashSecret(secret: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(secret, salt, HASH_KEY_BYTES);
+  return `${HASH_ALGORITHM}$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+export function verifySecret(secret: string, storedHash: string): boolean {
+  const [algorithm, encodedSalt, encodedKey] = storedHash.split("$");
+  if (algorithm !== HASH_ALGORITHM || encodedSalt === undefined || encodedKey === undefined) {
+    return false;
+  }
+
+  const expected = Buffer.from(encodedKey, "base64url");
+  if (expected.length !== HASH_KEY_BYTES) {
+    return false;
+  }
+
+  return timingSafeEqual(scryptSync(secret, Buffer.from(encodedSalt, "base64url"), HASH_KEY_BYTES), expected);
+}
+
+export function isHashedSecret(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(`${HASH_ALGORITHM}$`);
+}
+
+export function generateAccessToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+export function isProtected(credentials: AccessCredentials): boolean {
+  return credentials.passwordHash !== undefined || credentials.tokenHash !== undefined;
+}
+
+// Cookies are signed with a per-install key so they survive server restarts.
+function readAuthSecret(): Buffer {
+  const secretPath = path.join(homedir(), AUTH_SECRET_RELATIVE_PATH);
+  try {
+    const existing = readFileSync(secretPath);
+    if (existing.length >= 32) {
+      return existing;
+    }
+  } catch {
+    // Created below.
+  }
+
+  const secret = randomBytes(32);
+  mkdirSync(path.dirname(secretPath), { recursive: true });
+  writeFileSync(secretPath, secret, { mode: 0o600 });
+  return secret;
+}
+
+function signSession(scope: AccessScope, expiresAtMs: number): string {
+  // Binding the credential hashes means changing a password revokes existing sessions.
+  return createHmac("sha256", readAuthSecret())
+    .update([scope.cookieName, String(expiresAtMs), scope.credentials.passwordHash ?? "", scope.credentials.tokenHash ?? ""].join("|"))
+    .digest("base64url");
+}
+
+export function createSessionCookie(scope: AccessScope, secure: boolean, nowMs = Date.now()): string {
+  const expiresAtMs = nowMs + SESSION_TTL_MS;
+  const attributes = [
+    `${scope.cookieName}=${expiresAtMs}.${signSession(scope, expiresAtMs)}`,
+    `Path=${scope.cookiePath}`,
+    `Max-Age=${Math.floor(SESSION_TTL_MS / 1000)}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+  if (secure) {
+    attributes.push("Secure");
+  }
+
+  return attributes.join("; ");
+}
+
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const pair of (header ?? "").split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+
+  return cookies;
+}
+
+export function hasValidSession(headers: IncomingHttpHeaders | undefined, scope: AccessScope, nowMs = Date.now()): boolean {
+  const value = parseCookies(headers?.cookie).get(scope.cookieName);
+  const match = value === undefined ? null : /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(value);
+  if (!match) {
+    return false;
+  }
+
+  const expiresAtMs = Number(match[1]);
+  if (!Number.isSafeInteger(expiresAtMs) || expiresAtMs <= nowMs) {
+    return false;
+  }
+
+  const presented = Buffer.from(match[2], "base64url");
+  const expected = Buffer.from(signSession(scope, expiresAtMs), "base64url");
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+export function readPresentedCredentials(headers: IncomingHttpHeaders | undefined, searchParams: URLSearchParams): PresentedCredentials {
+  const presented: PresentedCredentials = {};
+  const queryToken = searchParams.get("t");
+  if (queryToken !== null && queryToken.length > 0) {
+    presented.token = queryToken;
+  }
+
+  const authorization = headers?.authorization ?? "";
+  const bearer = /^Bearer\s+(\S+)$/i.exec(authorization);
+  if (bearer) {
+    presented.token = bearer[1];
+  }
+
+  const basic = /^Basic\s+([A-Za-z0-9+/=]+)$/i.exec(authorization);
+  if (basic) {
+    // The username is ignored; curl -u any:secret works for both passwords and tokens.
+    const decoded = Buffer.from(basic[1], "base64").toString("utf8");
+    presented.password = decoded.slice(decoded.indexOf(":") + 1);
+  }
+
+  return presented;
+}
+
+export function verifyPresentedCredentials(credentials: AccessCredentials, presented: PresentedCredentials): boolean {
+  const candidates = [presented.password, presented.token].filter((value): value is string => value !== undefined);
+  return candidates.some((candidate) => {
+    return (
+      (credentials.passwordHash !== undefined && verifySecret(candidate, credentials.passwordHash)) ||
+      (credentials.tokenHash !== undefined && verifySecret(candidate, credentials.tokenHash))
+    );
+  });
+}
+
+// tailscale serve sets these headers for tailnet requests. Anything relayed from
+// the public internet could forge them, so those requests count as anonymous.
+export function readTailscaleIdentity(headers: IncomingHttpHeaders | undefined): TailscaleIdentity | undefined {
+  if (isInternetOrigin(classifyRequestOrigin(headers, {}))) {
+    return undefined;
+  }
+
+  const login = readSingleHeader(headers, "tailscale-user-login");
+  if (login === undefined) {
+    return undefined;
+  }
+
+  const name = readSingleHeader(headers, "tailscale-user-name");
+  return name === undefined ? { login } : { login, name };
+}
+
+function matchesLogin(entry: string, login: string): boolean {
+  const normalizedLogin = login.toLowerCase();
+  if (entry.startsWith("*@")) {
+    return normalizedLogin.endsWith(entry.slice(1));
+  }
+
+  return normalizedLogin === entry;
+}
+
+export function isIdentityAllowed(
+  allow: string[],
+  identity: TailscaleIdentity | undefined,
+  groups: Record<string, string[]> = {},
+): boolean {
+  return allow.some((rawEntry) => {
+    const entry = rawEntry.toLowerCase();
+    if (entry === ANONYMOUS_ALLOW_ENTRY) {
+      return identity === undefined;
+    }
+
+    if (identity === undefined) {
+      return false;
+    }
+
+    if (entry.startsWith("group:")) {
+      const members = groups[entry.slice("group:".length)] ?? [];
+      return members.some((member) => matchesLogin(member.toLowerCase(), identity.login));
+    }
+
+    return matchesLogin(entry, identity.login);
+  });
+}
+
+function renderAccessPage(title: string, content: string[]): string {
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <meta name=\"robots\" content=\"noindex\">",
+    "  <style>",
+    "    :root {",
+    "      color-scheme: light;",
+    "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+    "    }",
+    "    body {",
+    "      margin: 0;",
+    "      background: #f3f5fa;",
+    "      color: #0f172a;",
+    "    }",
+    "    main {",
+    "      box-sizing: border-box;",
+    "      width: min(380px, 100vw - 2rem);",
+    "      margin: 18vh auto 0;",
+    "      padding: 1.5rem;",
+    "      background: #ffffff;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 12px;",
+    "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+    "    }",
+    "    h1 {",
+    "      margin: 0 0 1rem;",
+    "      font-size: 1.15rem;",
+    "    }",
+    "    input {",
+    "      box-sizing: border-box;",
+    "      width: 100%;",
+    "      padding: 0.55rem 0.7rem;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 8px;",
+    "      font: inherit;",
+    "    }",
+    "    button {",
+    "      width: 100%;",
+    "      margin-top: 0.85rem;",
+    "      padding: 0.55rem 1rem;",
+    "      border: 1px solid #1d4ed8;",
+    "      border-radius: 8px;",
+    "      background: #1d4ed8;",
+    "      color: #ffffff;",
+    "      font: inherit;",
+    "      cursor: pointer;",
+    "    }",
+    "    p {",
+    "      margin: 0 0 0.75rem;",
+    "      color: #475569;",
+    "      line-height: 1.5;",
+    "    }",
+    "    code {",
+    "      font-family: \"SFMono-Regular\", Menlo, Consolas, monospace;",
+    "      color: #0f172a;",
+    "    }",
+    "    .error {",
+    "      margin: 0 0 0.85rem;",
+    "      color: #b91c1c;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    `    <h1>${escapeHtml(title)}</h1>`,
+    ...content,
+    "  </main>",
+    "</body>",
+    "</html>",
+  ]
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+export function renderLoginPage(context: LoginPageContext): string {
+  return renderAccessPage(context.title, [
+    context.error === undefined ? "" : `    <p class="error" role="alert">${escapeHtml(context.error)}</p>`,
+    `    <form method="post" action="${escapeHtml(context.action)}">`,
+    `      <input type="hidden" name="next" value="${escapeHtml(context.next)}">`,
+    "      <input type=\"password\" name=\"password\" placeholder=\"Password\" aria-label=\"Password\" autocomplete=\"current-password\" autofocus required>",
+    "      <button type=\"submit\">Unlock</button>",
+    "    </form>",
+  ]);
+}
+
+export function renderForbiddenPage(context: ForbiddenPageContext): string {
+  const who =
+    context.login === undefined
+      ? "This link is limited to specific tailnet users, and your request did not come with a tailnet identity."
+      : `You are signed in to the tailnet as <code>${escapeHtml(context.login)}</code>, which is not on this link's allow list.`;
+  return renderAccessPage(context.title, [`    <p>${who}</p>`, "    <p>Ask whoever shared it to add you.</p>"]);
+}
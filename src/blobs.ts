@@ -0,0 +1,166 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readSync,
+  renameSync,
+  rmdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+
+import { type TailserveState } from "./state.js";
+
+const BLOB_RELATIVE_DIR = path.join(".tailserve", "blobs");
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+// Content copied under blobs/ but not yet placed at `path`; see placeBlob.
+export interface StagedBlob {
+  stagingPath: string;
+  path: string;
+  digest: string;
+}
+
+export function getBlobDirectory(): string {
+  return path.join(homedir(), BLOB_RELATIVE_DIR);
+}
+
+function toStagingPath(): string {
+  return path.join(getBlobDirectory(), `.staging-${process.pid}-${randomBytes(4).toString("hex")}`);
+}
+
+// Blobs live at blobs/<sha256>/<name>: the digest dedupes identical content and
+// the name keeps extension-based content types and previews working.
+function toStagedBlob(stagingPath: string, digest: string, name: string): StagedBlob {
+  return { stagingPath, path: path.join(getBlobDirectory(), digest, name), digest };
+}
+
+// Must run in the same updateState call that saves the share pointing at the
+// blob. releaseBlob also runs under the state lock, so a share with the same
+// content being deleted meanwhile cannot remove the blob this one reuses.
+export function placeBlob(blob: StagedBlob): void {
+  if (existsSync(blob.path)) {
+    discardStagedBlob(blob);
+    return;
+  }
+
+  mkdirSync(path.dirname(blob.path), { recursive: true });
+  renameSync(blob.stagingPath, blob.path);
+}
+
+export function discardStagedBlob(blob: StagedBlob): void {
+  rmSync(blob.stagingPath, { recursive: true, force: true });
+}
+
+export function stageBlob(contents: Buffer, name: string): StagedBlob {
+  const stagingPath = toStagingPath();
+  mkdirSync(path.dirname(stagingPath), { recursive: true });
+  writeFileSync(stagingPath, contents);
+  return toStagedBlob(stagingPath, createHash("sha256").update(contents).digest("hex"), name);
+}
+
+function hashFile(filePath: string): string {
+  const hash = createHash("sha256");
+  const buffer = Buffer.allocUnsafe(HASH_CHUNK_BYTES);
+  const descriptor = openSync(filePath, "r");
+  try {
+    let bytesRead: number;
+    while ((bytesRead = readSync(descriptor, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    closeSync(descriptor);
+  }
+
+  return hash.digest("hex");
+}
+
+// Symlinks are followed so the copy never points back at live content;
+// sockets, FIFOs and unreadable entries are left out.
+function copySnapshotTree(sourcePath: string, targetPath: string): void {
+  mkdirSync(targetPath);
+  for (const name of readdirSync(sourcePath)) {
+    const entrySource = path.join(sourcePath, name);
+    let stats;
+    try {
+      stats = statSync(entrySource);
+    } catch {
+      continue;
+    }
+
+    if (stats.isDirectory()) {
+      copySnapshotTree(entrySource, path.join(targetPath, name));
+    } else if (stats.isFile()) {
+      copyFileSync(entrySource, path.join(targetPath, name));
+    }
+  }
+}
+
+function hashSnapshotTree(rootPath: string, relativePath = ""): string[] {
+  const lines: string[] = [];
+  for (const name of readdirSync(path.join(rootPath, relativePath)).sort()) {
+    const entryPath = relativePath.length === 0 ? name : `${relativePath}/${name}`;
+    if (statSync(path.join(rootPath, entryPath)).isDirectory()) {
+      lines.push(`dir ${entryPath}`, ...hashSnapshotTree(rootPath, entryPath));
+    } else {
+      lines.push(`file ${entryPath} ${hashFile(path.join(rootPath, entryPath))}`);
+    }
+  }
+
+  return lines;
+}
+
+// The digest is taken from the copy, so it always describes what is served
+// even if the source changes while it is being copied.
+export function stageSnapshot(sourcePath: string): StagedBlob {
+  const stagingPath = toStagingPath();
+  mkdirSync(path.dirname(stagingPath), { recursive: true });
+  try {
+    let digest: string;
+    if (statSync(sourcePath).isDirectory()) {
+      copySnapshotTree(sourcePath, stagingPath);
+      digest = createHash("sha256").update(hashSnapshotTree(stagingPath).join("\n")).digest("hex");
+    } else {
+      copyFileSync(sourcePath, stagingPath);
+      digest = hashFile(stagingPath);
+    }
+
+    return toStagedBlob(stagingPath, digest, path.basename(sourcePath));
+  } catch (error: unknown) {
+    rmSync(stagingPath, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export function isBlobPath(filePath: string): boolean {
+  const relativePath = path.relative(getBlobDirectory(), filePath);
+  return relativePath.length > 0 && !relativePath.startsWith("..") && !path.isAbsolute(relativePath);
+}
+
+// Called with the share already removed from `state`; the blob stays while any
+// other share still points at it.
+export function releaseBlob(state: Pick<TailserveState, "shares">, filePath: string | undefined): boolean {
+  if (filePath === undefined || !isBlobPath(filePath)) {
+    return false;
+  }
+
+  if (Object.values(state.shares).some((share) => share.path === filePath)) {
+    return false;
+  }
+
+  rmSync(filePath, { recursive: true, force: true });
+  try {
+    rmdirSync(path.dirname(filePath));
+  } catch {
+    // Another name for the same content is still stored.
+  }
+
+  return true;
+}
@@ -0,0 +1,97 @@
+import { type IncomingHttpHeaders } from "node:http";
+
+import { type CachePolicy } from "./state.js";
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = "revalidate";
+
+const IMMUTABLE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+export interface FileValidators {
+  etag: string;
+  lastModified: string;
+  lastModifiedMs: number;
+}
+
+export function buildFileValidators(stats: { size: number; mtimeMs: number }, encoding?: string): FileValidators {
+  const mtimeMs = Math.floor(stats.mtimeMs);
+  const encodingSuffix = typeof encoding === "string" ? `-${encoding}` : "";
+  return {
+    etag: `"${stats.size.toString(16)}-${mtimeMs.toString(16)}${encodingSuffix}"`,
+    lastModified: new Date(mtimeMs).toUTCString(),
+    // HTTP dates only carry whole seconds, so comparisons must too.
+    lastModifiedMs: Math.floor(mtimeMs / 1000) * 1000,
+  };
+}
+
+export function toCacheControl(policy: CachePolicy): string {
+  if (policy === "no-store") {
+    return "no-store";
+  }
+
+  if (policy === "immutable") {
+    return `public, max-age=${IMMUTABLE_MAX_AGE_SECONDS}, immutable`;
+  }
+
+  return "no-cache";
+}
+
+function toSingleHeader(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+
+  return value;
+}
+
+function stripWeakPrefix(etag: string): string {
+  return etag.startsWith("W/") ? etag.slice(2) : etag;
+}
+
+function matchesEntityTagList(header: string, etag: string): boolean {
+  const candidates = header.split(",").map((candidate) => candidate.trim());
+  if (candidates.includes("*")) {
+    return true;
+  }
+
+  const normalizedEtag = stripWeakPrefix(etag);
+  return candidates.some((candidate) => stripWeakPrefix(candidate) === normalizedEtag);
+}
+
+function parseHttpDate(value: string): number | undefined {
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function isNotModified(headers: IncomingHttpHeaders, validators: FileValidators): boolean {
+  const ifNoneMatch = toSingleHeader(headers["if-none-match"]);
+  if (typeof ifNoneMatch === "string" && ifNoneMatch.trim().length > 0) {
+    return matchesEntityTagList(ifNoneMatch, validators.etag);
+  }
+
+  const ifModifiedSince = toSingleHeader(headers["if-modified-since"]);
+  if (typeof ifModifiedSince !== "string") {
+    return false;
+  }
+
+  const sinceMs = parseHttpDate(ifModifiedSince);
+  return sinceMs !== undefined && validators.lastModifiedMs <= sinceMs;
+}
+
+export function isRangeStillValid(headers: IncomingHttpHeaders, validators: FileValidators | undefined): boolean {
+  const ifRange = toSingleHeader(headers["if-range"])?.trim();
+  if (ifRange === undefined || ifRange.length === 0) {
+    return true;
+  }
+
+  if (!validators) {
+    return false;
+  }
+
+  if (ifRange.startsWith("\"") || ifRange.startsWith("W/")) {
+    // If-Range requires a strong comparison; weak tags never match.
+    return !ifRange.startsWith("W/") && ifRange === validators.etag;
+  }
+
+  const sinceMs = parseHttpDate(ifRange);
+  return sinceMs !== undefined && sinceMs === validators.lastModifiedMs;
+}
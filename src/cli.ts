@@ -5,15 +5,41 @@ import path from "node:path";
 import { createInterface } from "node:readline/promises";
 import { fileURLToPath } from "node:url";
 
+import { type AccessLogEntry, type AccessLogPosition, hasAccessLog, readAccessLog } from "./access-log.js";
+import { readRouteAnalytics, type RouteAnalytics, type RouteStatsSummary, summarizeRouteStats } from "./analytics.js";
+import { ANONYMOUS_ALLOW_ENTRY, generateAccessToken, hashSecret } from "./auth.js";
+import { releaseBlob } from "./blobs.js";
+import { formatCollectionSummary } from "./collection.js";
 import { runDoctor } from "./doctor.js";
+import { readEditSnapshot, saveEditContent } from "./edit-sync.js";
+import { type EditHistoryShare, listEditRevisions, readEditRevision, readHistoryPath } from "./history.js";
+import { readInboxUploads, sanitizeUploadName } from "./inbox.js";
 import { installTailserveLaunchAgent, uninstallTailserveLaunchAgent } from "./launch-agent.js";
+import { formatByteSize } from "./listing.js";
+import { renderQrTerminal } from "./qr.js";
 import { ensureTailserveServerRunning, readTailserveServerStatus, reconcileStatePortWithRunningServer, stopTailserveServer } from "./server-process.js";
-import { createEditShare, createFileShare, createProxyShare, removeEphemeralShares, removeShareById } from "./shares.js";
+import { isShareId } from "./share-id.js";
 import {
+  addCollectionItems,
+  createBlobShare,
+  createCollectionShare,
+  createEditShare,
+  createFileShare,
+  createInboxShare,
+  createProxyShare,
+  formatDownloadsLeft,
+  removeEphemeralShares,
+  removeShareById,
+  toDownloadsLeft,
+} from "./shares.js";
+import {
+  type CachePolicy,
   getStatePath,
+  isCachePolicy,
   type NamedTunnelConfig,
   readState,
   type ShareRecord,
+  type SiteMode,
   type TailserveState,
   type TunnelRecord,
   toShareOrigin,
@@ -46,10 +72,27 @@ import {
 
 type OutputWriter = Pick<NodeJS.WriteStream, "write">;
 interface ShareCommandOptions {
+  add?: string;
+  title?: string;
+  name?: string;
+  type?: string;
+  slug?: string;
   ttl?: string;
   persist?: boolean;
   public?: boolean;
   tunnel?: boolean;
+  cache?: string;
+  compress?: boolean;
+  site?: boolean;
+  spa?: boolean;
+  live?: boolean;
+  snapshot?: boolean;
+  maxDownloads?: string;
+  once?: boolean;
+  password?: string;
+  token?: string | boolean;
+  allow?: string;
+  qr?: boolean;
 }
 
 interface EditCommandOptions {
@@ -57,12 +100,41 @@ interface EditCommandOptions {
   ttl?: string;
   persist?: boolean;
   public?: boolean;
+  password?: string;
+  token?: string | boolean;
+  allow?: string;
+  qr?: boolean;
+  git?: boolean;
+  history?: string;
+  historyMaxAge?: string;
+}
+
+interface EditHistoryCommandOptions {
+  json?: boolean;
+}
+
+interface InboxCommandOptions {
+  ttl?: string;
+  persist?: boolean;
+  public?: boolean;
+  maxSize?: string;
+  ext?: string;
+  wait?: boolean;
+  count?: string;
+  password?: string;
+  token?: string | boolean;
+  allow?: string;
 }
 
 interface ListCommandOptions {
   json?: boolean;
 }
 
+interface LogsCommandOptions {
+  follow?: boolean;
+  json?: boolean;
+}
+
 interface StopCommandOptions {
   all?: boolean;
   tunnels?: boolean;
@@ -77,15 +149,34 @@ interface ProjectCommandOptions {
   port?: string;
   start?: string;
   json?: boolean;
+  site?: boolean;
+  spa?: boolean;
+  live?: boolean;
+  password?: string;
+  token?: string | boolean;
+  allow?: string;
+  qr?: boolean;
 }
 
 interface ProxyCommandOptions {
   name?: string;
   public?: boolean;
+  password?: string;
+  token?: string | boolean;
+  allow?: string;
+  qr?: boolean;
+}
+
+interface AccessFlags {
+  passwordHash?: string;
+  tokenHash?: string;
+  token?: string;
+  allow?: string[];
 }
 
 interface FunnelCommandOptions {
   name?: string;
+  qr?: boolean;
 }
 
 interface TunnelSetupCommandOptions {
@@ -109,6 +200,8 @@ interface ListShareRow {
   access: "tailnet" | "public";
   status: string;
   expires: string;
+  downloadsLeft?: number;
+  stats?: RouteStatsSummary;
 }
 
 interface ProjectRecord {
@@ -133,6 +226,7 @@ interface CliRuntime {
   openUrl: (url: string) => void;
   isInteractiveInput?: () => boolean;
   promptLine?: (query: string) => Promise<string>;
+  readStdin?: () => Promise<Buffer>;
 }
 
 interface BrowserOpenCommand {
@@ -146,6 +240,16 @@ const TTL_MULTIPLIER_MS: Record<string, number> = {
   d: 24 * 60 * 60 * 1000,
 };
 
+const BYTE_SIZE_MULTIPLIER: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  m: 1024 * 1024,
+  g: 1024 * 1024 * 1024,
+};
+
+const INBOX_POLL_INTERVAL_MS = 500;
+const LOGS_POLL_INTERVAL_MS = 500;
+
 function resolveBrowserOpenCommand(platform: NodeJS.Platform): BrowserOpenCommand {
   if (platform === "darwin") {
     return { command: "open", args: [] };
@@ -173,6 +277,19 @@ function openUrlInDefaultBrowser(url: string): void {
   }
 }
 
+async function readProcessStdin(): Promise<Buffer> {
+  if (process.stdin.isTTY) {
+    throw new Error("Nothing piped to stdin (e.g. some-cmd | ts share - --name output.txt)");
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+}
+
 const defaultCliRuntime: CliRuntime = {
   openUrl: openUrlInDefaultBrowser,
   isInteractiveInput: () => Boolean(process.stdin.isTTY && process.stderr.isTTY),
@@ -187,8 +304,18 @@ const defaultCliRuntime: CliRuntime = {
       prompt.close();
     }
   },
+  readStdin: readProcessStdin,
 };
 
+function parseContentType(value: string): string {
+  const contentType = value.trim();
+  if (!/^[\w.+-]+\/[\w.+-]+(?:\s*;.*)?$/.test(contentType)) {
+    throw new Error(`Invalid content type: ${value} (e.g. text/html)`);
+  }
+
+  return contentType;
+}
+
 function formatTable(rows: string[][]): string {
   const columnCount = rows[0]?.length ?? 0;
   const columnWidths = Array.from({ length: columnCount }, (_, columnIndex) =>
@@ -274,6 +401,14 @@ function formatUptime(uptimeMs: number): string {
 }
 
 function getSharePath(share: ShareRecord): string {
+  if (share.type === "collection") {
+    return formatCollectionSummary(share);
+  }
+
+  if (share.sourcePath !== undefined && share.snapshot !== undefined) {
+    return `${share.sourcePath} @${share.snapshot.slice(0, 12)}`;
+  }
+
   if (typeof share.path === "string" && share.path.length > 0) {
     return share.path;
   }
@@ -289,7 +424,7 @@ function getAccessLabel(isPublic: unknown): "tailnet" | "public" {
   return isPublic === true ? "public" : "tailnet";
 }
 
-function toListShareRow(state: TailserveState, share: ShareRecord, nowMs: number): ListShareRow {
+function toListShareRow(state: TailserveState, share: ShareRecord, nowMs: number, analytics: RouteAnalytics): ListShareRow {
   return {
     id: share.id,
     type: share.type,
@@ -298,6 +433,8 @@ function toListShareRow(state: TailserveState, share: ShareRecord, nowMs: number
     access: getAccessLabel(share.public),
     status: getShareStatus(share, nowMs),
     expires: share.expiresAt ?? "never",
+    downloadsLeft: toDownloadsLeft(share),
+    stats: summarizeRouteStats(analytics.shares[share.id]),
   };
 }
 
@@ -305,7 +442,12 @@ function isProjectRecord(value: unknown): value is ProjectRecord {
   return typeof value === "object" && value !== null;
 }
 
-function toListProjectRow(state: TailserveState, projectKey: string, project: ProjectRecord): ListShareRow {
+function toListProjectRow(
+  state: TailserveState,
+  projectKey: string,
+  project: ProjectRecord,
+  analytics: RouteAnalytics,
+): ListShareRow {
   const name = getProjectName(projectKey, project);
   const projectPath = getProjectPath(project);
 
@@ -317,6 +459,7 @@ function toListProjectRow(state: TailserveState, projectKey: string, project: Pr
     access: getAccessLabel(project.public),
     status: getProjectStatus(project),
     expires: "never",
+    stats: summarizeRouteStats(analytics.projects[projectKey]),
   };
 }
 
@@ -388,6 +531,282 @@ function parseShareTtl(ttl: string): number {
   return amount * multiplier;
 }
 
+function parseByteSize(rawSize: string): number {
+  const match = /^(\d+)\s*([bkmg])?b?$/.exec(rawSize.trim().toLowerCase());
+  if (!match) {
+    throw new Error(`Invalid size: ${rawSize} (e.g. 500k, 25mb, 1g)`);
+  }
+
+  const bytes = Number(match[1]) * BYTE_SIZE_MULTIPLIER[match[2] ?? "b"];
+  if (!Number.isSafeInteger(bytes) || bytes <= 0) {
+    throw new Error(`Invalid size: ${rawSize}`);
+  }
+
+  return bytes;
+}
+
+function parseExtensionList(rawList: string): string[] {
+  const extensions = rawList
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase().replace(/^\.?/, "."))
+    .filter((entry) => entry.length > 1);
+  if (extensions.length === 0 || extensions.some((entry) => !/^\.[a-z0-9][a-z0-9._-]*$/.test(entry))) {
+    throw new Error(`Invalid extension list: ${rawList} (e.g. png,jpg,pdf)`);
+  }
+
+  return [...new Set(extensions)];
+}
+
+function parseAllowList(rawList: string): string[] {
+  const entries = rawList
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+  const isValidEntry = (entry: string): boolean =>
+    entry === ANONYMOUS_ALLOW_ENTRY || /^group:[a-z0-9._-]+$/.test(entry) || /^[^\s@,]*@[^\s@,]+$/.test(entry);
+  if (entries.length === 0 || entries.some((entry) => !isValidEntry(entry))) {
+    throw new Error(`Invalid allow list: ${rawList} (e.g. alice@example.com,*@example.com,group:eng,anonymous)`);
+  }
+
+  return [...new Set(entries)];
+}
+
+function toMaxDownloads(options: ShareCommandOptions): number | undefined {
+  if (options.once === true && typeof options.maxDownloads === "string") {
+    throw new Error("Use either --once or --max-downloads");
+  }
+
+  if (options.once === true) {
+    return 1;
+  }
+
+  if (typeof options.maxDownloads !== "string") {
+    return undefined;
+  }
+
+  const maxDownloads = Number(options.maxDownloads);
+  if (!Number.isSafeInteger(maxDownloads) || maxDownloads <= 0) {
+    throw new Error(`Invalid download limit: ${options.maxDownloads}`);
+  }
+
+  return maxDownloads;
+}
+
+function parseHistoryLimit(rawLimit: string): number {
+  const limit = Number(rawLimit);
+  if (rawLimit.trim().length === 0 || !Number.isSafeInteger(limit) || limit < 0) {
+    throw new Error(`Invalid history limit: ${rawLimit}`);
+  }
+
+  return limit;
+}
+
+function toEditHistoryOptions(options: EditCommandOptions): { historyLimit?: number; historyMaxAgeMs?: number } {
+  if (options.git === true && (typeof options.history === "string" || typeof options.historyMaxAge === "string")) {
+    throw new Error("--history and --history-max-age do not apply with --git; the repository keeps every commit");
+  }
+
+  return {
+    historyLimit: typeof options.history === "string" ? parseHistoryLimit(options.history) : undefined,
+    historyMaxAgeMs: typeof options.historyMaxAge === "string" ? parseShareTtl(options.historyMaxAge) : undefined,
+  };
+}
+
+// History outlives its share, so a stopped share can still be listed and restored
+// until its --history-max-age (default 30 days) has passed since the last save.
+function resolveEditHistoryShare(id: string): { shareId: string; share: EditHistoryShare } {
+  const shareId = id.trim();
+  if (shareId.length === 0) {
+    throw new Error("Share id is required");
+  }
+
+  if (!isShareId(shareId)) {
+    throw new Error(`Invalid share id: ${shareId}`);
+  }
+
+  const share = readState().shares[shareId];
+  if (share) {
+    if (share.type !== "edit" || typeof share.path !== "string") {
+      throw new Error(`Not an edit share: ${shareId}`);
+    }
+
+    return { shareId, share: { ...share, path: share.path } };
+  }
+
+  const historyPath = readHistoryPath(shareId);
+  if (historyPath === undefined) {
+    throw new Error(`Share not found: ${shareId}`);
+  }
+
+  return { shareId, share: { path: historyPath } };
+}
+
+function parseUploadCount(rawCount: string): number {
+  const count = Number(rawCount);
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error(`Invalid upload count: ${rawCount}`);
+  }
+
+  return count;
+}
+
+// Prints one JSON line per upload until `count` files arrive or the inbox share goes away.
+async function followInboxUploads(shareId: string, stdout: OutputWriter, count: number | undefined): Promise<void> {
+  let offset = 0;
+  let received = 0;
+  for (;;) {
+    const next = readInboxUploads(shareId, offset);
+    offset = next.offset;
+    for (const upload of next.uploads) {
+      stdout.write(`${JSON.stringify(upload)}\n`);
+      received += 1;
+      if (count !== undefined && received >= count) {
+        return;
+      }
+    }
+
+    if (!(shareId in readState().shares)) {
+      return;
+    }
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, INBOX_POLL_INTERVAL_MS);
+    });
+  }
+}
+
+function formatAccessLogEntry(entry: AccessLogEntry): string {
+  return [
+    entry.time,
+    `${entry.method} ${entry.path}`,
+    String(entry.status),
+    formatByteSize(entry.bytes),
+    `${entry.durationMs}ms`,
+    entry.login ?? "-",
+    entry.origin,
+  ].join("  ");
+}
+
+// Prints the whole log, then with `follow` keeps printing new entries until the share goes away.
+async function printAccessLog(shareId: string, stdout: OutputWriter, options: LogsCommandOptions): Promise<void> {
+  let position: AccessLogPosition | undefined;
+  for (;;) {
+    const next = readAccessLog(shareId, position);
+    position = next.position;
+    for (const entry of next.entries) {
+      stdout.write(`${options.json === true ? JSON.stringify(entry) : formatAccessLogEntry(entry)}\n`);
+    }
+
+    if (options.follow !== true || !(shareId in readState().shares)) {
+      return;
+    }
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, LOGS_POLL_INTERVAL_MS);
+    });
+  }
+}
+
+function resolveAccessFlags(options: { password?: string; token?: string | boolean; allow?: string }): AccessFlags {
+  const flags: AccessFlags = {};
+  if (typeof options.password === "string") {
+    if (options.password.length === 0) {
+      throw new Error("Password must not be empty");
+    }
+
+    flags.passwordHash = hashSecret(options.password);
+  }
+
+  if (options.token !== undefined) {
+    const token = options.token === true ? generateAccessToken() : String(options.token);
+    if (token.length === 0) {
+      throw new Error("Token must not be empty");
+    }
+
+    flags.token = token;
+    flags.tokenHash = hashSecret(token);
+  }
+
+  if (typeof options.allow === "string") {
+    flags.allow = parseAllowList(options.allow);
+  }
+
+  return flags;
+}
+
+// Token-protected URLs are printed ready to share.
+// Agents read the URL from stdout, so the QR code goes to stderr.
+function writeShareUrl(stdout: OutputWriter, stderr: OutputWriter, url: string, qr: boolean | undefined): void {
+  stdout.write(`${url}\n`);
+  if (qr === true) {
+    stderr.write(renderQrTerminal(url));
+  }
+}
+
+// Flags that only make sense for a single file or directory.
+function toSinglePathFlag(options: ShareCommandOptions): string | undefined {
+  if (options.site === true) {
+    return "--site";
+  }
+
+  if (options.spa === true) {
+    return "--spa";
+  }
+
+  if (options.live === true) {
+    return "--live";
+  }
+
+  if (options.snapshot === true) {
+    return "--snapshot";
+  }
+
+  if (typeof options.maxDownloads === "string") {
+    return "--max-downloads";
+  }
+
+  if (options.once === true) {
+    return "--once";
+  }
+
+  if (typeof options.name === "string") {
+    return "--name";
+  }
+
+  return typeof options.type === "string" ? "--type" : undefined;
+}
+
+function withAccessToken(url: string, token: string | undefined): string {
+  if (token === undefined) {
+    return url;
+  }
+
+  const parsed = new URL(url);
+  parsed.searchParams.set("t", token);
+  return parsed.toString();
+}
+
+function parseCachePolicy(rawPolicy: string): CachePolicy {
+  const normalized = rawPolicy.trim().toLowerCase();
+  if (!isCachePolicy(normalized)) {
+    throw new Error(`Invalid cache policy: ${rawPolicy} (expected no-store, revalidate, or immutable)`);
+  }
+
+  return normalized;
+}
+
+function toSiteMode(options: { site?: boolean; spa?: boolean }): SiteMode | undefined {
+  if (options.site === true && options.spa === true) {
+    throw new Error("Do not use --site with --spa");
+  }
+
+  if (options.spa === true) {
+    return "spa";
+  }
+
+  return options.site === true ? "site" : undefined;
+}
+
 function parseProjectPort(rawPort: string): number {
   const normalized = rawPort.trim();
   if (!/^\d+$/.test(normalized)) {
@@ -655,21 +1074,104 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
 
   program
     .command("share")
-    .description("Share a file or directory")
-    .argument("<targetPath>")
+    .description("Share a file or directory, - to share stdin, or several paths as a collection")
+    .argument("<targetPaths...>")
+    .option("--title <title>", "Share the paths as a collection with this title on its index page")
+    .option("--add <id>", "Add the paths to an existing collection share")
+    .option("--name <name>", "File name for content read from stdin (default stdin)")
+    .option("--type <type>", "Content-Type for content read from stdin (e.g. text/html)")
+    .option("--slug <slug>", "Use a readable id in the URL instead of a random one (e.g. q3-report)")
     .option("--ttl <ttl>", "Override share TTL (e.g. 30m, 2h, 1d, 7d)")
     .option("--persist", "Create a persistent share with no expiry")
     .option("--public", "Use the configured named tunnel hostname for this share URL")
     .option("--tunnel", "Expose this share through a cloudflared tunnel URL")
-    .action(async (targetPath: string, options: ShareCommandOptions) => {
+    .option("--cache <policy>", "Browser cache policy: no-store, revalidate (default), or immutable")
+    .option("--no-compress", "Disable gzip/brotli compression for this share")
+    .option("--site", "Serve a directory as a static site (index.html, clean URLs, 404.html)")
+    .option("--spa", "Like --site, but fall back to index.html for unknown paths")
+    .option("--live", "Reload open browser tabs when the shared files change")
+    .option("--snapshot", "Serve a copy taken now, so later edits to the path are not shared")
+    .option("--max-downloads <n>", "Remove the share after n complete downloads")
+    .option("--once", "Remove the share after its first complete download (same as --max-downloads 1)")
+    .option("--password <password>", "Require this password (login form or HTTP Basic auth)")
+    .option("--token [token]", "Require this token as ?t= or a bearer header (generated when omitted)")
+    .option("--allow <entries>", "Only allow these tailnet logins, *@domain patterns, group:<name> entries or anonymous")
+    .option("--qr", "Also print the URL as a QR code on stderr")
+    .action(async (targetPaths: string[], options: ShareCommandOptions) => {
+      if (typeof options.add === "string") {
+        const { add: collectionId, qr, compress, ...otherOptions } = options;
+        if (compress === false || Object.values(otherOptions).some((value) => value !== undefined)) {
+          throw new Error("--add only takes paths; the collection keeps its own settings");
+        }
+
+        const added = addCollectionItems(collectionId, targetPaths);
+        const collectionUrl = toShareUrl(readState(), collectionId);
+        for (const item of added) {
+          writeShareUrl(stdout, stderr, `${collectionUrl}/${encodeURIComponent(item.name)}`, qr);
+        }
+        return;
+      }
+
+      const isCollection = targetPaths.length > 1 || typeof options.title === "string";
+      if (isCollection) {
+        const singlePathFlag = toSinglePathFlag(options);
+        if (singlePathFlag !== undefined) {
+          throw new Error(`${singlePathFlag} does not apply to collection shares`);
+        }
+
+        if (targetPaths.includes("-")) {
+          throw new Error("stdin (-) cannot be part of a collection share");
+        }
+      }
+
+      const targetPath = targetPaths[0];
+      const site = toSiteMode(options);
       const publicHostname = options.public === true ? resolveNamedTunnelPublicHostname(readState()) : undefined;
       const ttlMs = typeof options.ttl === "string" ? parseShareTtl(options.ttl) : undefined;
-      const { id, url, warning } = createFileShare(targetPath, {
+      const cache = typeof options.cache === "string" ? parseCachePolicy(options.cache) : undefined;
+      const maxDownloads = toMaxDownloads(options);
+      const access = resolveAccessFlags(options);
+      const isStdin = targetPath === "-";
+      if (!isStdin && (typeof options.name === "string" || typeof options.type === "string")) {
+        throw new Error("--name and --type only apply to stdin (ts share -)");
+      }
+
+      const shareOptions = {
+        slug: options.slug,
         ttlMs,
         persist: options.persist === true,
-      });
-
-      if (options.public === true) {
+        cache,
+        compress: options.compress,
+        site,
+        live: options.live === true,
+        snapshot: options.snapshot === true,
+        maxDownloads,
+        passwordHash: access.passwordHash,
+        tokenHash: access.tokenHash,
+        allow: access.allow,
+      };
+      const contentType = typeof options.type === "string" ? parseContentType(options.type) : undefined;
+      const { id, url, warning } = isCollection
+        ? createCollectionShare(targetPaths, {
+            slug: options.slug,
+            title: options.title,
+            ttlMs,
+            persist: options.persist === true,
+            cache,
+            compress: options.compress,
+            passwordHash: access.passwordHash,
+            tokenHash: access.tokenHash,
+            allow: access.allow,
+          })
+        : isStdin
+          ? createBlobShare(await (runtime.readStdin ?? readProcessStdin)(), sanitizeUploadName(options.name ?? "stdin"), {
+              ...shareOptions,
+              contentType,
+            })
+          : createFileShare(targetPath, shareOptions);
+
+      // Internet origins only see public shares, and a quick tunnel is one.
+      if (options.public === true || options.tunnel === true) {
         updateState((state) => {
           const share = state.shares[id];
           if (share) {
@@ -696,7 +1198,7 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
               createdAt: new Date().toISOString(),
             };
           });
-          stdout.write(`${tunnelUrl}\n`);
+          writeShareUrl(stdout, stderr, withAccessToken(`${tunnelUrl}/s/${id}`, access.token), options.qr);
           return;
         } catch (error: unknown) {
           if (typeof tunnelPid === "number" && Number.isInteger(tunnelPid) && tunnelPid > 0) {
@@ -709,8 +1211,10 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
 
           try {
             updateState((currentState) => {
+              const share = currentState.shares[id];
               delete currentState.shares[id];
               delete currentState.tunnels[id];
+              releaseBlob(currentState, share?.path);
             });
           } catch {
             // Preserve the original error from tunnel startup.
@@ -721,14 +1225,14 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
       }
 
       if (publicHostname) {
-        stdout.write(`${toNamedTunnelShareUrl(publicHostname, id)}\n`);
+        writeShareUrl(stdout, stderr, withAccessToken(toNamedTunnelShareUrl(publicHostname, id), access.token), options.qr);
         return;
       }
 
-      stdout.write(`${url}\n`);
+      writeShareUrl(stdout, stderr, withAccessToken(url, access.token), options.qr);
     });
 
-  program
+  const editCommand = program
     .command("edit")
     .description("Share a file with browser editing support")
     .argument("<targetPath>")
@@ -736,14 +1240,29 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
     .option("--persist", "Persistent share")
     .option("--ttl <ttl>", "Override TTL")
     .option("--public", "Use the configured named tunnel hostname for this share URL")
+    .option("--password <password>", "Require this password (login form or HTTP Basic auth)")
+    .option("--token [token]", "Require this token as ?t= or a bearer header (generated when omitted)")
+    .option("--allow <entries>", "Only allow these tailnet logins, *@domain patterns, group:<name> entries or anonymous")
+    .option("--qr", "Also print the URL as a QR code on stderr")
+    .option("--git", "Commit each save to the git repository containing the file")
+    .option("--history <count>", "Revisions to keep under ~/.tailserve/history (default 50, 0 turns history off)")
+    .option("--history-max-age <ttl>", "Drop revisions older than this, and a stopped share's whole history once its last save is this old, e.g. 7d (default 30d)")
     .action((targetPath: string, options: EditCommandOptions) => {
       const publicHostname = options.public === true ? resolveNamedTunnelPublicHostname(readState()) : undefined;
       const ttlMs = typeof options.ttl === "string" ? parseShareTtl(options.ttl) : undefined;
       const resolvedPath = path.resolve(targetPath);
+      const access = resolveAccessFlags(options);
+      const history = toEditHistoryOptions(options);
       const { id, url, warning } = createEditShare(resolvedPath, {
         readonly: options.readonly === true,
         persist: options.persist === true,
         ttlMs,
+        passwordHash: access.passwordHash,
+        tokenHash: access.tokenHash,
+        allow: access.allow,
+        git: options.git === true,
+        historyLimit: history.historyLimit,
+        historyMaxAgeMs: history.historyMaxAgeMs,
       });
 
       if (options.public === true) {
@@ -760,11 +1279,106 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
       }
 
       if (publicHostname) {
-        stdout.write(`${toNamedTunnelShareUrl(publicHostname, id)}\n`);
+        writeShareUrl(stdout, stderr, withAccessToken(toNamedTunnelShareUrl(publicHostname, id), access.token), options.qr);
+        return;
+      }
+
+      writeShareUrl(stdout, stderr, withAccessToken(url, access.token), options.qr);
+    });
+
+  editCommand
+    .command("history")
+    .description("List the saved revisions of an edit share")
+    .argument("<id>")
+    .option("--json", "Output as JSON array")
+    .action((id: string, options: EditHistoryCommandOptions) => {
+      const { shareId, share } = resolveEditHistoryShare(id);
+      const revisions = listEditRevisions(shareId, share);
+      if (options.json === true) {
+        stdout.write(`${JSON.stringify(revisions)}\n`);
         return;
       }
 
-      stdout.write(`${url}\n`);
+      const tableRows: string[][] = [
+        ["Rev", "Time", "Size", "Author", "Summary"],
+        ...revisions.map((revision) => [
+          revision.rev,
+          revision.time,
+          revision.size === null ? "-" : formatByteSize(revision.size),
+          revision.author ?? "-",
+          revision.summary,
+        ]),
+      ];
+      stdout.write(`${formatTable(tableRows)}\n`);
+    });
+
+  editCommand
+    .command("restore")
+    .description("Write a saved revision back to the shared file")
+    .argument("<id>")
+    .argument("<rev>")
+    .action((id: string, rev: string) => {
+      const { shareId, share } = resolveEditHistoryShare(id);
+      const revision = rev.trim();
+      const content = readEditRevision(shareId, share, revision);
+      const result = saveEditContent(shareId, share, content, readEditSnapshot(share.path).version, {
+        summary: `Restored revision ${revision}`,
+      });
+      if (result.status === "conflict") {
+        throw new Error(`File changed while restoring: ${share.path}`);
+      }
+
+      stderr.write(`✓ Restored ${share.path} to revision ${revision}\n`);
+    });
+
+  program
+    .command("inbox")
+    .description("Share an upload page that saves files from viewers into a directory")
+    .argument("<targetPath>")
+    .option("--ttl <ttl>", "Override share TTL (e.g. 30m, 2h, 1d, 7d)")
+    .option("--persist", "Create a persistent inbox with no expiry")
+    .option("--public", "Use the configured named tunnel hostname for this inbox URL")
+    .option("--max-size <size>", "Maximum size per uploaded file (default 100mb)")
+    .option("--ext <list>", "Comma-separated file extensions to accept (e.g. png,jpg,pdf)")
+    .option("--wait", "Keep running and print each upload as a JSON line")
+    .option("--count <n>", "Exit after n uploads (implies --wait)")
+    .option("--password <password>", "Require this password (login form or HTTP Basic auth)")
+    .option("--token [token]", "Require this token as ?t= or a bearer header (generated when omitted)")
+    .option("--allow <entries>", "Only allow these tailnet logins, *@domain patterns, group:<name> entries or anonymous")
+    .action(async (targetPath: string, options: InboxCommandOptions) => {
+      const publicHostname = options.public === true ? resolveNamedTunnelPublicHostname(readState()) : undefined;
+      const ttlMs = typeof options.ttl === "string" ? parseShareTtl(options.ttl) : undefined;
+      const maxBytes = typeof options.maxSize === "string" ? parseByteSize(options.maxSize) : undefined;
+      const allowedExtensions = typeof options.ext === "string" ? parseExtensionList(options.ext) : undefined;
+      const count = typeof options.count === "string" ? parseUploadCount(options.count) : undefined;
+      const access = resolveAccessFlags(options);
+      const { id, url, warning } = createInboxShare(targetPath, {
+        ttlMs,
+        persist: options.persist === true,
+        maxBytes,
+        allowedExtensions,
+        passwordHash: access.passwordHash,
+        tokenHash: access.tokenHash,
+        allow: access.allow,
+      });
+
+      if (options.public === true) {
+        updateState((state) => {
+          const share = state.shares[id];
+          if (share) {
+            share.public = true;
+          }
+        });
+      }
+
+      if (warning) {
+        stderr.write(`${warning}\n`);
+      }
+
+      stdout.write(`${withAccessToken(publicHostname ? toNamedTunnelShareUrl(publicHostname, id) : url, access.token)}\n`);
+      if (options.wait === true || count !== undefined) {
+        await followInboxUploads(id, stdout, count);
+      }
     });
 
   program
@@ -773,8 +1387,13 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
     .argument("<port>")
     .option("--name <name>", "Project route name")
     .option("--public", "Use the configured named tunnel hostname for this proxy URL")
+    .option("--password <password>", "Require this password (login form or HTTP Basic auth)")
+    .option("--token [token]", "Require this token as ?t= or a bearer header (generated when omitted)")
+    .option("--allow <entries>", "Only allow these tailnet logins, *@domain patterns, group:<name> entries or anonymous")
+    .option("--qr", "Also print the URL as a QR code on stderr")
     .action((portValue: string, options: ProxyCommandOptions) => {
       const port = parseProjectPort(portValue);
+      const access = resolveAccessFlags(options);
 
       if (typeof options.name === "string") {
         const state = readState();
@@ -793,6 +1412,9 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
           createdAt: new Date().toISOString(),
           status: "online",
           public: options.public === true ? true : undefined,
+          passwordHash: access.passwordHash,
+          tokenHash: access.tokenHash,
+          allow: access.allow,
         };
         writeState(state);
 
@@ -800,16 +1422,20 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
           stderr.write(`${firstRouteSetup.warning}\n`);
         }
         if (publicHostname) {
-          stdout.write(`${toNamedTunnelProjectUrl(publicHostname, name)}\n`);
+          writeShareUrl(stdout, stderr, withAccessToken(toNamedTunnelProjectUrl(publicHostname, name), access.token), options.qr);
           return;
         }
 
-        stdout.write(`${toProjectUrl(state, name)}\n`);
+        writeShareUrl(stdout, stderr, withAccessToken(toProjectUrl(state, name), access.token), options.qr);
         return;
       }
 
       const publicHostname = options.public === true ? resolveNamedTunnelPublicHostname(readState()) : undefined;
-      const { id, url, warning } = createProxyShare(port);
+      const { id, url, warning } = createProxyShare(port, {
+        passwordHash: access.passwordHash,
+        tokenHash: access.tokenHash,
+        allow: access.allow,
+      });
 
       if (options.public === true) {
         updateState((state) => {
@@ -825,11 +1451,11 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
       }
 
       if (publicHostname) {
-        stdout.write(`${toNamedTunnelShareUrl(publicHostname, id)}\n`);
+        writeShareUrl(stdout, stderr, withAccessToken(toNamedTunnelShareUrl(publicHostname, id), access.token), options.qr);
         return;
       }
 
-      stdout.write(`${url}\n`);
+      writeShareUrl(stdout, stderr, withAccessToken(url, access.token), options.qr);
     });
 
   program
@@ -837,6 +1463,7 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
     .description("Share a local HTTP server publicly by port")
     .argument("<port>")
     .option("--name <name>", "Project route name")
+    .option("--qr", "Also print the URL as a QR code on stderr")
     .action((portValue: string, options: FunnelCommandOptions) => {
       const port = parseProjectPort(portValue);
       const state = readState();
@@ -858,7 +1485,7 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
         if (funnelSetup.warning) {
           stderr.write(`${funnelSetup.warning}\n`);
         }
-        stdout.write(`${toProjectUrl(state, name)}\n`);
+        writeShareUrl(stdout, stderr, toProjectUrl(state, name), options.qr);
         return;
       }
 
@@ -873,7 +1500,7 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
       } else if (warning) {
         stderr.write(`${warning}\n`);
       }
-      stdout.write(`${url}\n`);
+      writeShareUrl(stdout, stderr, url, options.qr);
     });
 
   const tunnelCommand = program.command("tunnel").description("Manage Cloudflare tunnels");
@@ -1001,6 +1628,13 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
     .option("--port <port>", "Project backend port")
     .option("--start <cmd>", "Project start command for boot recovery")
     .option("--json", "Output as JSON array")
+    .option("--site", "Serve the project directory as a static site (index.html, clean URLs, 404.html)")
+    .option("--spa", "Like --site, but fall back to index.html for unknown paths")
+    .option("--live", "Reload open browser tabs when project files change")
+    .option("--password <password>", "Require this password (login form or HTTP Basic auth)")
+    .option("--token [token]", "Require this token as ?t= or a bearer header (generated when omitted)")
+    .option("--allow <entries>", "Only allow these tailnet logins, *@domain patterns, group:<name> entries or anonymous")
+    .option("--qr", "Also print the URL as a QR code on stderr")
     .action((targetPath: string | undefined, projectName: string | undefined, options: ProjectCommandOptions) => {
       if (targetPath === "rm") {
         if (typeof options.name === "string" || typeof options.port === "string" || typeof options.start === "string" || options.json === true) {
@@ -1070,6 +1704,16 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
         throw new Error(`Not a directory: ${targetPath}`);
       }
 
+      const site = toSiteMode(options);
+      if (site !== undefined && typeof options.port === "string") {
+        throw new Error(`Do not use --${site} with --port`);
+      }
+
+      if (options.live === true && typeof options.port === "string") {
+        throw new Error("Do not use --live with --port");
+      }
+
+      const access = resolveAccessFlags(options);
       const state = readState();
       ensureTailserveServerRunning({ state });
       const firstRouteSetup =
@@ -1086,6 +1730,11 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
         path: absolutePath,
         port,
         startCmd,
+        site,
+        live: options.live === true ? true : undefined,
+        passwordHash: access.passwordHash,
+        tokenHash: access.tokenHash,
+        allow: access.allow,
         createdAt: new Date().toISOString(),
         status: "online",
       };
@@ -1094,7 +1743,7 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
       if (firstRouteSetup.warning) {
         stderr.write(`${firstRouteSetup.warning}\n`);
       }
-      stdout.write(`${toProjectUrl(state, name)}\n`);
+      writeShareUrl(stdout, stderr, withAccessToken(toProjectUrl(state, name), access.token), options.qr);
     });
 
   program
@@ -1105,9 +1754,12 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
       const state = readState();
       reconcileStatePortWithRunningServer(state);
       const nowMs = Date.now();
-      const shares = Object.values(state.shares).filter((share) => !isShareExpired(share, nowMs)).map((share) => toListShareRow(state, share, nowMs));
+      const analytics = readRouteAnalytics();
+      const shares = Object.values(state.shares)
+        .filter((share) => !isShareExpired(share, nowMs))
+        .map((share) => toListShareRow(state, share, nowMs, analytics));
       const projects = Object.entries(state.projects).flatMap(([projectKey, project]) =>
-        isProjectRecord(project) ? [toListProjectRow(state, projectKey, project)] : [],
+        isProjectRecord(project) ? [toListProjectRow(state, projectKey, project, analytics)] : [],
       );
       const tunnels = Object.entries(state.tunnels).map(([tunnelId, tunnel]) => toListTunnelRow(tunnelId, tunnel));
       const rows = [...shares, ...projects, ...tunnels].sort((a, b) => a.id.localeCompare(b.id));
@@ -1119,12 +1771,44 @@ export function buildProgram(stdout: OutputWriter, stderr: OutputWriter, runtime
 
       const tableRows: string[][] = [
         ["ID", "Type", "Path", "URL", "Access", "Status", "Expires"],
-        ...rows.map((share) => [share.id, share.type, share.path, share.url, share.access, share.status, share.expires]),
+        ...rows.map((share) => [
+          share.id,
+          share.type,
+          share.path,
+          share.url,
+          share.access,
+          share.status,
+          share.downloadsLeft === undefined ? share.expires : `${share.expires} (${formatDownloadsLeft(share.downloadsLeft)})`,
+        ]),
       ];
 
       stdout.write(`${formatTable(tableRows)}\n`);
     });
 
+  program
+    .command("logs")
+    .description("Show who opened a share and when")
+    .argument("<id>")
+    .option("--follow", "Keep printing new entries until the share is removed")
+    .option("--json", "Output one JSON object per line")
+    .action(async (id: string, options: LogsCommandOptions) => {
+      const shareId = id.trim();
+      if (shareId.length === 0) {
+        throw new Error("Share id is required");
+      }
+
+      if (!isShareId(shareId)) {
+        throw new Error(`Invalid share id: ${shareId}`);
+      }
+
+      // Logs outlive their share, so a consumed --once link can still be checked.
+      if (!(shareId in readState().shares) && !hasAccessLog(shareId)) {
+        throw new Error(`Share not found: ${shareId}`);
+      }
+
+      await printAccessLog(shareId, stdout, options);
+    });
+
   program
     .command("stop")
     .description("Remove a share by id or remove all ephemeral shares")
@@ -0,0 +1,304 @@
+import { closeSync, openSync, readSync, statSync } from "node:fs";
+import path from "node:path";
+
+import { lookup as lookupMimeType } from "mime-types";
+
+import { detectLanguageFromName, isTextSample } from "./highlight.js";
+import { buildRouteHref, formatByteSize } from "./listing.js";
+import { type CollectionItem, type ShareRecord } from "./state.js";
+
+const EXCERPT_BYTES = 2 * 1024;
+const EXCERPT_MAX_LINES = 12;
+
+export type CollectionPreview = "image" | "video" | "audio" | "pdf" | "text";
+
+export interface CollectionEntry {
+  name: string;
+  type: "file" | "dir";
+  size: number | null;
+  mimeType: string | null;
+  href: string;
+  missing: boolean;
+  preview?: CollectionPreview;
+  excerpt?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function formatItemCount(count: number): string {
+  return `${count} item${count === 1 ? "" : "s"}`;
+}
+
+export function formatCollectionSummary(share: Pick<ShareRecord, "title" | "items">): string {
+  const itemCount = formatItemCount(share.items?.length ?? 0);
+  return share.title === undefined ? itemCount : `${share.title} (${itemCount})`;
+}
+
+// Members are addressed by name, so a second "run.txt" becomes "run-2.txt".
+export function allocateCollectionItemName(takenNames: ReadonlySet<string>, fileName: string): string {
+  if (!takenNames.has(fileName)) {
+    return fileName;
+  }
+
+  const extension = path.extname(fileName);
+  const stem = fileName.slice(0, fileName.length - extension.length);
+  for (let suffix = 2; ; suffix += 1) {
+    const candidate = `${stem}-${suffix}${extension}`;
+    if (!takenNames.has(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+export function findCollectionItem(items: CollectionItem[], name: string): CollectionItem | undefined {
+  return items.find((item) => item.name === name);
+}
+
+function readExcerpt(filePath: string): string | undefined {
+  let fd: number | undefined;
+  try {
+    fd = openSync(filePath, "r");
+    const sample = Buffer.alloc(EXCERPT_BYTES);
+    const bytesRead = readSync(fd, sample, 0, sample.length, 0);
+    if (bytesRead === 0 || !isTextSample(sample.subarray(0, bytesRead))) {
+      return undefined;
+    }
+
+    return sample.subarray(0, bytesRead).toString("utf8").split(/\r?\n/).slice(0, EXCERPT_MAX_LINES).join("\n");
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) {
+      closeSync(fd);
+    }
+  }
+}
+
+function toMediaPreview(mimeType: string | null): CollectionPreview | undefined {
+  if (mimeType === null) {
+    return undefined;
+  }
+
+  if (mimeType === "application/pdf") {
+    return "pdf";
+  }
+
+  const kind = mimeType.split("/")[0];
+  return kind === "image" || kind === "video" || kind === "audio" ? kind : undefined;
+}
+
+export function readCollectionEntries(routePrefix: string, items: CollectionItem[]): CollectionEntry[] {
+  return items.map((item) => {
+    let stats;
+    try {
+      stats = statSync(item.path);
+    } catch {
+      return { name: item.name, type: "file", size: null, mimeType: null, href: buildRouteHref(routePrefix, [item.name], false), missing: true };
+    }
+
+    if (stats.isDirectory()) {
+      return { name: item.name, type: "dir", size: null, mimeType: null, href: buildRouteHref(routePrefix, [item.name], true), missing: false };
+    }
+
+    const detectedType = lookupMimeType(item.path);
+    const mimeType = typeof detectedType === "string" ? detectedType : null;
+    const entry: CollectionEntry = {
+      name: item.name,
+      type: "file",
+      size: stats.size,
+      mimeType,
+      href: buildRouteHref(routePrefix, [item.name], false),
+      missing: false,
+    };
+
+    // Known source extensions win over mime-types, which maps ".ts" to MPEG-TS video.
+    const mediaPreview = detectLanguageFromName(item.path) === undefined ? toMediaPreview(mimeType) : undefined;
+    if (mediaPreview !== undefined) {
+      entry.preview = mediaPreview;
+      return entry;
+    }
+
+    const excerpt = readExcerpt(item.path);
+    if (excerpt !== undefined) {
+      entry.preview = "text";
+      entry.excerpt = excerpt;
+    }
+
+    return entry;
+  });
+}
+
+export function toCollectionJson(title: string, entries: CollectionEntry[]): string {
+  return JSON.stringify({
+    title,
+    items: entries.map((entry) => ({
+      name: entry.name,
+      type: entry.type,
+      size: entry.size,
+      mimeType: entry.mimeType,
+      href: entry.href,
+      missing: entry.missing,
+    })),
+  });
+}
+
+function renderPreview(entry: CollectionEntry): string[] {
+  const href = escapeHtml(entry.href);
+  switch (entry.preview) {
+    case "image":
+      return [`        <a href="${href}"><img class="preview" src="${href}" alt="${escapeHtml(entry.name)}" loading="lazy"></a>`];
+    case "video":
+      return [`        <video class="preview" src="${href}" controls preload="metadata"></video>`];
+    case "audio":
+      return [`        <audio src="${href}" controls preload="none"></audio>`];
+    case "pdf":
+      return [`        <iframe class="preview" src="${href}" title="${escapeHtml(entry.name)}" loading="lazy"></iframe>`];
+    case "text":
+      return [`        <pre class="excerpt">${escapeHtml(entry.excerpt ?? "")}</pre>`];
+    default:
+      return [];
+  }
+}
+
+function describeEntry(entry: CollectionEntry): string {
+  if (entry.missing) {
+    return "missing";
+  }
+
+  if (entry.type === "dir") {
+    return "directory";
+  }
+
+  const size = formatByteSize(entry.size ?? 0);
+  return entry.mimeType === null ? size : `${size} · ${entry.mimeType}`;
+}
+
+export function renderCollectionPage(title: string, entries: CollectionEntry[], jsonHref: string): string {
+  const items = entries.map((entry) => {
+    const displayName = entry.type === "dir" ? `${entry.name}/` : entry.name;
+    return [
+      `      <li class="item${entry.missing ? " missing" : ""}">`,
+      "        <div class=\"item-header\">",
+      entry.missing
+        ? `          <span class="name">${escapeHtml(displayName)}</span>`
+        : `          <a class="name" href="${escapeHtml(entry.href)}">${escapeHtml(displayName)}</a>`,
+      `          <span class="meta">${escapeHtml(describeEntry(entry))}</span>`,
+      "        </div>",
+      ...(entry.missing ? [] : renderPreview(entry)),
+      "      </li>",
+    ].join("\n");
+  });
+
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    "    :root {",
+    "      color-scheme: light;",
+    "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+    "    }",
+    "    body {",
+    "      margin: 0;",
+    "      background: #f3f5fa;",
+    "      color: #0f172a;",
+    "    }",
+    "    main {",
+    "      box-sizing: border-box;",
+    "      width: min(960px, 100vw - 2rem);",
+    "      margin: 2rem auto;",
+    "      padding: 1.25rem;",
+    "      background: #ffffff;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 12px;",
+    "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+    "    }",
+    "    h1 {",
+    "      margin: 0;",
+    "      font-size: 1.25rem;",
+    "      line-height: 1.4;",
+    "    }",
+    "    .summary {",
+    "      margin: 0.5rem 0 1rem;",
+    "      color: #475569;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    .summary a {",
+    "      color: #1d4ed8;",
+    "    }",
+    "    .items {",
+    "      margin: 0;",
+    "      padding: 0;",
+    "      list-style: none;",
+    "    }",
+    "    .item {",
+    "      padding: 0.85rem 0;",
+    "      border-top: 1px solid #e2e8f0;",
+    "    }",
+    "    .item-header {",
+    "      display: flex;",
+    "      flex-wrap: wrap;",
+    "      gap: 0.25rem 0.75rem;",
+    "      align-items: baseline;",
+    "    }",
+    "    .item .name {",
+    "      font-weight: 600;",
+    "      color: #1d4ed8;",
+    "      word-break: break-all;",
+    "    }",
+    "    .item.missing .name {",
+    "      color: #94a3b8;",
+    "      text-decoration: line-through;",
+    "    }",
+    "    .item .meta {",
+    "      color: #64748b;",
+    "      font-size: 0.88rem;",
+    "    }",
+    "    .preview {",
+    "      display: block;",
+    "      max-width: 100%;",
+    "      max-height: 360px;",
+    "      margin-top: 0.6rem;",
+    "      border-radius: 8px;",
+    "    }",
+    "    iframe.preview {",
+    "      width: 100%;",
+    "      height: 360px;",
+    "      border: 1px solid #d7deea;",
+    "    }",
+    "    audio {",
+    "      display: block;",
+    "      margin-top: 0.6rem;",
+    "    }",
+    "    .excerpt {",
+    "      overflow-x: auto;",
+    "      margin: 0.6rem 0 0;",
+    "      padding: 0.75rem;",
+    "      background: #f8fafc;",
+    "      border-radius: 8px;",
+    "      font-size: 0.85rem;",
+    "    }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    `    <h1>${escapeHtml(title)}</h1>`,
+    `    <p class="summary">${formatItemCount(entries.length)} · <a href="${escapeHtml(jsonHref)}">JSON</a></p>`,
+    "    <ul class=\"items\">",
+    ...items,
+    "    </ul>",
+    "  </main>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
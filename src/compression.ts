@@ -0,0 +1,154 @@
+import { statSync, type Stats } from "node:fs";
+import { type IncomingHttpHeaders } from "node:http";
+import { type Transform } from "node:stream";
+import { brotliCompressSync, constants as zlibConstants, createBrotliCompress, createGzip, gzipSync } from "node:zlib";
+
+export type ContentEncoding = "br" | "gzip";
+
+export interface PrecompressedSibling {
+  encoding: ContentEncoding;
+  filePath: string;
+  stats: Stats;
+}
+
+export const COMPRESSION_THRESHOLD_BYTES = 1024;
+
+const SUPPORTED_ENCODINGS: ReadonlyArray<ContentEncoding> = ["br", "gzip"];
+const PRECOMPRESSED_EXTENSIONS: Record<ContentEncoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+// Quality 4 keeps on-the-fly brotli close to gzip speed while still beating
+// it on size; the default (11) is meant for build-time precompression.
+const BROTLI_STREAMING_QUALITY = 4;
+const COMPRESSIBLE_APPLICATION_TYPES = new Set([
+  "application/javascript",
+  "application/json",
+  "application/ld+json",
+  "application/manifest+json",
+  "application/ndjson",
+  "application/x-ndjson",
+  "application/sql",
+  "application/wasm",
+  "application/x-javascript",
+  "application/x-sh",
+  "application/x-yaml",
+  "application/xml",
+  "application/yaml",
+  "image/svg+xml",
+]);
+
+function toMediaType(contentType: string): string {
+  return contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+}
+
+export function isCompressibleType(contentType: string | undefined): boolean {
+  if (typeof contentType !== "string") {
+    return false;
+  }
+
+  const mediaType = toMediaType(contentType);
+  if (mediaType.startsWith("text/")) {
+    return true;
+  }
+
+  return COMPRESSIBLE_APPLICATION_TYPES.has(mediaType) || mediaType.endsWith("+json") || mediaType.endsWith("+xml");
+}
+
+function parseAcceptEncoding(header: string): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const rawEntry of header.split(",")) {
+    const [rawCoding, ...params] = rawEntry.trim().split(";");
+    const coding = rawCoding?.trim().toLowerCase() ?? "";
+    if (coding.length === 0) {
+      continue;
+    }
+
+    let weight = 1;
+    for (const param of params) {
+      const match = /^\s*q\s*=\s*([0-9.]+)\s*$/i.exec(param);
+      if (match) {
+        const parsed = Number.parseFloat(match[1]);
+        weight = Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 1) : 0;
+      }
+    }
+
+    weights.set(coding, weight);
+  }
+
+  return weights;
+}
+
+// Acceptable encodings in preference order: the client's q-values first,
+// then brotli ahead of gzip on ties.
+export function negotiateEncodings(headers: IncomingHttpHeaders): ContentEncoding[] {
+  const rawHeader = headers["accept-encoding"];
+  const header = Array.isArray(rawHeader) ? rawHeader.join(",") : rawHeader;
+  if (typeof header !== "string" || header.trim().length === 0) {
+    return [];
+  }
+
+  const weights = parseAcceptEncoding(header);
+  const wildcardWeight = weights.get("*");
+  return SUPPORTED_ENCODINGS.map((encoding, index) => ({
+    encoding,
+    index,
+    weight: weights.get(encoding) ?? wildcardWeight ?? 0,
+  }))
+    .filter((candidate) => candidate.weight > 0)
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .map((candidate) => candidate.encoding);
+}
+
+// A sibling older than the source was built from an earlier version of it,
+// so it is skipped rather than served as the current content.
+export function findPrecompressedSibling(
+  filePath: string,
+  sourceStats: Stats,
+  encodings: ReadonlyArray<ContentEncoding>,
+): PrecompressedSibling | undefined {
+  for (const encoding of encodings) {
+    const siblingPath = `${filePath}${PRECOMPRESSED_EXTENSIONS[encoding]}`;
+    try {
+      const stats = statSync(siblingPath);
+      if (stats.isFile() && stats.mtimeMs >= sourceStats.mtimeMs) {
+        return {
+          encoding,
+          filePath: siblingPath,
+          stats,
+        };
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return undefined;
+}
+
+export function createCompressionStream(encoding: ContentEncoding, sizeHint?: number): Transform {
+  if (encoding === "gzip") {
+    return createGzip();
+  }
+
+  const params: Record<number, number> = {
+    [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_STREAMING_QUALITY,
+  };
+  if (typeof sizeHint === "number" && sizeHint > 0) {
+    params[zlibConstants.BROTLI_PARAM_SIZE_HINT] = sizeHint;
+  }
+
+  return createBrotliCompress({ params });
+}
+
+export function compressBuffer(encoding: ContentEncoding, input: Buffer): Buffer {
+  if (encoding === "gzip") {
+    return gzipSync(input);
+  }
+
+  return brotliCompressSync(input, {
+    params: {
+      [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_STREAMING_QUALITY,
+    },
+  });
+}
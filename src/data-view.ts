@@ -0,0 +1,570 @@
+import { createReadStream } from "node:fs";
+import path from "node:path";
+
+export type DataFormat = "csv" | "tsv" | "ndjson" | "json";
+
+export interface DataPageOptions {
+  page: number;
+  query?: string;
+  pageSize?: number;
+}
+
+export interface DataPage {
+  columns: string[];
+  rows: string[][];
+  page: number;
+  pageSize: number;
+  hasNextPage: boolean;
+}
+
+export interface DataViewContext {
+  title: string;
+  fileName: string;
+  format: DataFormat;
+  rawHref: string;
+  documentHref: string;
+  query?: string;
+}
+
+const DATA_FORMAT_BY_EXTENSION: Record<string, DataFormat> = {
+  ".csv": "csv",
+  ".tsv": "tsv",
+  ".tab": "tsv",
+  ".ndjson": "ndjson",
+  ".jsonl": "ndjson",
+  ".json": "json",
+};
+
+const DEFAULT_PAGE_SIZE = 200;
+const READ_CHUNK_BYTES = 64 * 1024;
+const NDJSON_VALUE_COLUMN = "value";
+
+export const JSON_TREE_MAX_BYTES = 5 * 1024 * 1024;
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+export function detectDataFormat(filePath: string): DataFormat | undefined {
+  return DATA_FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+export function parsePageNumber(value: string | null): number {
+  const parsed = value !== null && /^\d+$/.test(value) ? Number.parseInt(value, 10) : 1;
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : 1;
+}
+
+// Incremental RFC 4180 parser: records may span chunk boundaries and quoted
+// fields may contain delimiters, quotes ("") and newlines.
+class DelimitedRecordParser {
+  private readonly delimiter: string;
+  private field = "";
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+
+  constructor(delimiter: string) {
+    this.delimiter = delimiter;
+  }
+
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    for (const character of chunk) {
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (character === "\"") {
+            this.field += "\"";
+            continue;
+          }
+
+          this.inQuotes = false;
+        } else if (character === "\"") {
+          this.quotePending = true;
+          continue;
+        } else {
+          this.field += character;
+          continue;
+        }
+      }
+
+      if (character === "\"" && this.field.length === 0) {
+        this.inQuotes = true;
+      } else if (character === this.delimiter) {
+        this.record.push(this.field);
+        this.field = "";
+      } else if (character === "\n") {
+        this.emit(records);
+      } else if (character !== "\r") {
+        this.field += character;
+      }
+    }
+
+    return records;
+  }
+
+  flush(): string[][] {
+    const records: string[][] = [];
+    if (this.field.length > 0 || this.record.length > 0) {
+      this.emit(records);
+    }
+
+    return records;
+  }
+
+  private emit(records: string[][]): void {
+    this.record.push(this.field);
+    if (this.record.length > 1 || this.record[0] !== "") {
+      records.push(this.record);
+    }
+
+    this.record = [];
+    this.field = "";
+    this.inQuotes = false;
+    this.quotePending = false;
+  }
+}
+
+class LineParser {
+  private buffered = "";
+
+  push(chunk: string): string[][] {
+    const lines = (this.buffered + chunk).split("\n");
+    this.buffered = lines.pop() ?? "";
+    return lines.map((line) => [line.replace(/\r$/, "")]).filter(([line]) => line.trim().length > 0);
+  }
+
+  flush(): string[][] {
+    const line = this.buffered.replace(/\r$/, "");
+    this.buffered = "";
+    return line.trim().length > 0 ? [[line]] : [];
+  }
+}
+
+function matchesQuery(record: string[], query: string | undefined): boolean {
+  if (query === undefined) {
+    return true;
+  }
+
+  return record.some((cell) => cell.toLowerCase().includes(query));
+}
+
+function formatJsonCell(value: unknown): string {
+  if (value === undefined) {
+    return "";
+  }
+
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function toNdjsonTable(lines: string[]): { columns: string[]; rows: string[][] } {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  const addColumn = (column: string): void => {
+    if (!seen.has(column)) {
+      seen.add(column);
+      columns.push(column);
+    }
+  };
+
+  const values = lines.map((line): Record<string, unknown> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      parsed = line;
+    }
+
+    if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+      Object.keys(parsed).forEach(addColumn);
+      return parsed as Record<string, unknown>;
+    }
+
+    addColumn(NDJSON_VALUE_COLUMN);
+    return { [NDJSON_VALUE_COLUMN]: parsed };
+  });
+
+  return {
+    columns,
+    rows: values.map((value) => columns.map((column) => formatJsonCell(value[column]))),
+  };
+}
+
+// Reads just enough of the file to fill the requested page, so paging
+// through a very large export never holds more than one page in memory.
+export async function readDataPage(filePath: string, format: Exclude<DataFormat, "json">, options: DataPageOptions): Promise<DataPage> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const query = options.query?.trim().toLowerCase() || undefined;
+  const skip = (options.page - 1) * pageSize;
+  const parser = format === "ndjson" ? new LineParser() : new DelimitedRecordParser(format === "tsv" ? "\t" : ",");
+  const stream = createReadStream(filePath, { encoding: "utf8", highWaterMark: READ_CHUNK_BYTES });
+
+  let header: string[] | undefined = format === "ndjson" ? [] : undefined;
+  let matched = 0;
+  let hasNextPage = false;
+  let firstChunk = true;
+  const pageRecords: string[][] = [];
+
+  const accept = (record: string[]): boolean => {
+    if (header === undefined) {
+      header = record;
+      return false;
+    }
+
+    if (!matchesQuery(record, query)) {
+      return false;
+    }
+
+    matched += 1;
+    if (matched <= skip) {
+      return false;
+    }
+
+    if (pageRecords.length < pageSize) {
+      pageRecords.push(record);
+      return false;
+    }
+
+    hasNextPage = true;
+    return true;
+  };
+
+  let done = false;
+  try {
+    for await (const rawChunk of stream) {
+      let chunk = rawChunk as string;
+      if (firstChunk) {
+        chunk = chunk.replace(/^\uFEFF/, "");
+        firstChunk = false;
+      }
+
+      for (const record of parser.push(chunk)) {
+        if (accept(record)) {
+          done = true;
+          break;
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+
+    if (!done) {
+      for (const record of parser.flush()) {
+        if (accept(record)) {
+          break;
+        }
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  if (format === "ndjson") {
+    const table = toNdjsonTable(pageRecords.map(([line]) => line ?? ""));
+    return { ...table, page: options.page, pageSize, hasNextPage };
+  }
+
+  const columns = header ?? [];
+  const width = Math.max(columns.length, ...pageRecords.map((record) => record.length));
+  return {
+    columns: Array.from({ length: width }, (_unused, index) => columns[index] ?? `column ${index + 1}`),
+    rows: pageRecords.map((record) => Array.from({ length: width }, (_unused, index) => record[index] ?? "")),
+    page: options.page,
+    pageSize,
+    hasNextPage,
+  };
+}
+
+const PAGE_STYLES = [
+  "    :root {",
+  "      color-scheme: light;",
+  "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+  "    }",
+  "    body {",
+  "      margin: 0;",
+  "      background: #f3f5fa;",
+  "      color: #0f172a;",
+  "    }",
+  "    main {",
+  "      box-sizing: border-box;",
+  "      width: min(1200px, 100vw - 2rem);",
+  "      margin: 2rem auto;",
+  "      padding: 1.25rem;",
+  "      background: #ffffff;",
+  "      border: 1px solid #d7deea;",
+  "      border-radius: 12px;",
+  "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+  "    }",
+  "    .doc-header {",
+  "      display: flex;",
+  "      flex-wrap: wrap;",
+  "      justify-content: space-between;",
+  "      align-items: baseline;",
+  "      gap: 0.5rem 1rem;",
+  "      padding-bottom: 0.75rem;",
+  "      border-bottom: 1px solid #e2e8f0;",
+  "    }",
+  "    .path {",
+  "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
+  "      font-size: 0.95rem;",
+  "      font-weight: 600;",
+  "      word-break: break-all;",
+  "    }",
+  "    .meta {",
+  "      color: #475569;",
+  "      font-size: 0.92rem;",
+  "    }",
+  "    .download {",
+  "      color: #1d4ed8;",
+  "    }",
+];
+
+function renderHeader(context: DataViewContext, summary: string): string[] {
+  return [
+    "    <header class=\"doc-header\">",
+    `      <span class="path">${escapeHtml(context.title)}</span>`,
+    [
+      `      <span class="meta">${escapeHtml(summary)} · `,
+      `<a class="download" href="${escapeHtml(context.rawHref)}">Raw</a> · `,
+      `<a class="download" href="${escapeHtml(context.rawHref)}" download="${escapeHtml(context.fileName)}">Download</a></span>`,
+    ].join(""),
+    "    </header>",
+  ];
+}
+
+function buildPageHref(context: DataViewContext, page: number): string {
+  const params = new URLSearchParams();
+  if (page > 1) {
+    params.set("page", String(page));
+  }
+
+  if (context.query !== undefined && context.query.length > 0) {
+    params.set("q", context.query);
+  }
+
+  const search = params.toString();
+  return search.length === 0 ? context.documentHref : `${context.documentHref}?${search}`;
+}
+
+export function renderDataTableHtml(context: DataViewContext, page: DataPage): string {
+  const firstRowNumber = (page.page - 1) * page.pageSize + 1;
+  const summary =
+    page.rows.length === 0
+      ? `${context.format.toUpperCase()} · no rows`
+      : `${context.format.toUpperCase()} · rows ${firstRowNumber}–${firstRowNumber + page.rows.length - 1}`;
+  const headerCells = page.columns.map((column, index) => {
+    return `<th data-column="${index + 1}"><button class="sort" type="button">${escapeHtml(column)}</button></th>`;
+  });
+  const bodyRows = page.rows.map((row, rowIndex) => {
+    const cells = row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("");
+    return `<tr><td class="row-number">${firstRowNumber + rowIndex}</td>${cells}</tr>`;
+  });
+  const pager: string[] = [];
+  if (page.page > 1) {
+    pager.push(`<a class="download" href="${escapeHtml(buildPageHref(context, page.page - 1))}" rel="prev">← Previous</a>`);
+  }
+
+  if (page.hasNextPage) {
+    pager.push(`<a class="download" href="${escapeHtml(buildPageHref(context, page.page + 1))}" rel="next">Next →</a>`);
+  }
+
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(context.title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    ...PAGE_STYLES,
+    "    .filter-form {",
+    "      display: flex;",
+    "      gap: 0.5rem;",
+    "      margin: 0.85rem 0;",
+    "    }",
+    "    .filter-form input {",
+    "      flex: 1;",
+    "      padding: 0.5rem 0.7rem;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 8px;",
+    "      font: inherit;",
+    "    }",
+    "    .filter-form button {",
+    "      padding: 0.5rem 0.9rem;",
+    "      border: 1px solid #1d4ed8;",
+    "      border-radius: 8px;",
+    "      background: #1d4ed8;",
+    "      color: #ffffff;",
+    "      font: inherit;",
+    "      cursor: pointer;",
+    "    }",
+    "    .table-wrap {",
+    "      overflow: auto;",
+    "      max-height: 75vh;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 10px;",
+    "    }",
+    "    .data {",
+    "      border-collapse: collapse;",
+    "      font-size: 0.88rem;",
+    "      min-width: 100%;",
+    "    }",
+    "    .data th {",
+    "      position: sticky;",
+    "      top: 0;",
+    "      background: #f8fafc;",
+    "      border-bottom: 1px solid #d7deea;",
+    "      text-align: left;",
+    "    }",
+    "    .data th, .data td {",
+    "      padding: 0.4rem 0.7rem;",
+    "      white-space: nowrap;",
+    "      max-width: 40ch;",
+    "      overflow: hidden;",
+    "      text-overflow: ellipsis;",
+    "    }",
+    "    .data td {",
+    "      border-top: 1px solid #e2e8f0;",
+    "    }",
+    "    .data .row-number {",
+    "      color: #94a3b8;",
+    "      text-align: right;",
+    "    }",
+    "    .sort {",
+    "      padding: 0;",
+    "      border: 0;",
+    "      background: none;",
+    "      color: #475569;",
+    "      font: inherit;",
+    "      font-weight: 600;",
+    "      cursor: pointer;",
+    "    }",
+    "    .pager {",
+    "      display: flex;",
+    "      justify-content: space-between;",
+    "      margin-top: 0.75rem;",
+    "    }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    ...renderHeader(context, summary),
+    `    <form class="filter-form" method="get" action="${escapeHtml(context.documentHref)}">`,
+    `      <input type="search" name="q" value="${escapeHtml(context.query ?? "")}" placeholder="Filter rows (searches the whole file)" aria-label="Filter rows">`,
+    "      <button type=\"submit\">Filter</button>",
+    "    </form>",
+    "    <div class=\"table-wrap\">",
+    "      <table class=\"data\" id=\"data\">",
+    `        <thead><tr><th class="row-number">#</th>${headerCells.join("")}</tr></thead>`,
+    `        <tbody>${bodyRows.join("")}</tbody>`,
+    "      </table>",
+    "    </div>",
+    `    <nav class="pager">${pager.join("")}</nav>`,
+    "  </main>",
+    "  <script>",
+    "    // Sorting reorders the rows of the current page only.",
+    "    const table = document.getElementById(\"data\");",
+    "    const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: \"base\" });",
+    "    for (const header of table.querySelectorAll(\"th[data-column]\")) {",
+    "      header.querySelector(\".sort\").addEventListener(\"click\", () => {",
+    "        const column = Number(header.dataset.column);",
+    "        const ascending = header.getAttribute(\"aria-sort\") !== \"ascending\";",
+    "        for (const other of table.querySelectorAll(\"th[aria-sort]\")) {",
+    "          other.removeAttribute(\"aria-sort\");",
+    "        }",
+    "        header.setAttribute(\"aria-sort\", ascending ? \"ascending\" : \"descending\");",
+    "        const body = table.tBodies[0];",
+    "        const rows = Array.from(body.rows);",
+    "        rows.sort((a, b) => {",
+    "          const left = a.cells[column].textContent;",
+    "          const right = b.cells[column].textContent;",
+    "          const numeric = left !== \"\" && right !== \"\" && !Number.isNaN(Number(left)) && !Number.isNaN(Number(right));",
+    "          const order = numeric ? Number(left) - Number(right) : collator.compare(left, right);",
+    "          return ascending ? order : -order;",
+    "        });",
+    "        body.append(...rows);",
+    "      });",
+    "    }",
+    "  </script>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+function renderJsonValue(value: unknown): string {
+  if (typeof value === "string") {
+    return `<span class="json-string">${escapeHtml(JSON.stringify(value))}</span>`;
+  }
+
+  if (typeof value === "number") {
+    return `<span class="json-number">${String(value)}</span>`;
+  }
+
+  return `<span class="json-literal">${String(value)}</span>`;
+}
+
+function renderJsonNode(value: unknown, label: string, depth: number): string {
+  const labelHtml = label.length > 0 ? `<span class="json-key">${escapeHtml(label)}</span>: ` : "";
+  if (typeof value !== "object" || value === null) {
+    return `<li>${labelHtml}${renderJsonValue(value)}</li>`;
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const summary = Array.isArray(value)
+    ? `[${entries.length} item${entries.length === 1 ? "" : "s"}]`
+    : `{${entries.length} key${entries.length === 1 ? "" : "s"}}`;
+  const children = entries.map(([key, child]) => renderJsonNode(child, key, depth + 1)).join("");
+  const open = depth < 2 ? " open" : "";
+  return `<li><details${open}><summary>${labelHtml}<span class="json-summary">${summary}</span></summary><ul>${children}</ul></details></li>`;
+}
+
+export function renderJsonTreeHtml(context: DataViewContext, value: unknown): string {
+  const summary = Array.isArray(value) ? `JSON · ${value.length} items` : "JSON";
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(context.title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    ...PAGE_STYLES,
+    "    .json-tree {",
+    "      margin: 0.85rem 0 0;",
+    "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
+    "      font-size: 0.85rem;",
+    "      line-height: 1.6;",
+    "    }",
+    "    .json-tree ul {",
+    "      margin: 0;",
+    "      padding-left: 1.25rem;",
+    "      list-style: none;",
+    "    }",
+    "    .json-tree > ul {",
+    "      padding-left: 0;",
+    "    }",
+    "    .json-tree summary {",
+    "      cursor: pointer;",
+    "    }",
+    "    .json-key { color: #7c3aed; }",
+    "    .json-string { color: #047857; }",
+    "    .json-number, .json-literal { color: #b45309; }",
+    "    .json-summary { color: #64748b; }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    ...renderHeader(context, summary),
+    `    <div class="json-tree"><ul>${renderJsonNode(value, "", 0)}</ul></div>`,
+    "  </main>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
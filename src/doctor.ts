@@ -119,6 +119,11 @@ function isValidPort(port: number): boolean {
 }
 
 function isSharePathValid(share: ShareRecord): boolean {
+  if (share.type === "collection") {
+    // The index marks missing members; only a collection with none left is broken.
+    return (share.items ?? []).some((item) => existsSync(item.path));
+  }
+
   if (typeof share.path !== "string" || share.path.length === 0) {
     return false;
   }
@@ -134,7 +139,7 @@ function isSharePathValid(share: ShareRecord): boolean {
     return stats.isFile();
   }
 
-  if (share.type === "dir") {
+  if (share.type === "dir" || share.type === "inbox") {
     return stats.isDirectory();
   }
 
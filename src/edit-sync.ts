@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { readFileSync, statSync, writeFileSync } from "node:fs";
+
+import { type EditHistoryShare, recordEditRevision, type RevisionDetails } from "./history.js";
+import { isShareExpired } from "./shares.js";
+import { readState } from "./state.js";
+import { type WebSocketConnection } from "./websocket.js";
+
+const EDIT_SYNC_HEARTBEAT_MS = 25_000;
+
+export interface EditSnapshot {
+  content: string;
+  version: string;
+}
+
+export type EditSaveResult = { status: "saved"; version: string } | { status: "conflict"; current: EditSnapshot };
+
+export interface EditPeer {
+  connection: WebSocketConnection;
+  viewer: string;
+}
+
+function send(peer: EditPeer, payload: Record<string, unknown>): void {
+  peer.connection.send(JSON.stringify(payload));
+}
+
+// The mtime alone misses two writes within its resolution and the hash alone
+// misses a revert, so a version names both.
+function toEditVersion(content: string, mtimeMs: number): string {
+  const hash = createHash("sha256").update(content, "utf8").digest("hex").slice(0, 16);
+  return `${Math.trunc(mtimeMs).toString(36)}-${hash}`;
+}
+
+export function readEditSnapshot(filePath: string): EditSnapshot {
+  const content = readFileSync(filePath, "utf8");
+  return { content, version: toEditVersion(content, statSync(filePath).mtimeMs) };
+}
+
+// Writes only when the file is still at the version the editor started from;
+// otherwise the caller gets the current content back to merge against.
+export function saveEditContent(
+  shareId: string,
+  share: EditHistoryShare,
+  content: string,
+  baseVersion: string,
+  details: RevisionDetails,
+): EditSaveResult {
+  const current = readEditSnapshot(share.path);
+  if (current.version !== baseVersion) {
+    return { status: "conflict", current };
+  }
+
+  writeFileSync(share.path, content, "utf8");
+  const version = toEditVersion(content, statSync(share.path).mtimeMs);
+  try {
+    recordEditRevision(shareId, share, current.content, content, details);
+  } catch {
+    // The save already happened; a full disk or a failing git hook only costs the revision.
+  }
+
+  return { status: "saved", version };
+}
+
+function parseSaveMessage(message: string): { content: string; version: string } | undefined {
+  try {
+    const parsed = JSON.parse(message) as unknown;
+    if (typeof parsed !== "object" || parsed === null) {
+      return undefined;
+    }
+
+    const { type, content, version } = parsed as Record<string, unknown>;
+    return type === "save" && typeof content === "string" && typeof version === "string" ? { content, version } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Open editors for an edit share, keyed by share id. A save from one editor is
+// written to disk and pushed to the others, a save based on an older version is
+// answered with the current content instead, and every join or leave sends the
+// current viewer list to everyone still connected.
+export class EditSyncHub {
+  private readonly channels = new Map<string, Set<EditPeer>>();
+  private readonly heartbeat: NodeJS.Timeout;
+
+  constructor() {
+    this.heartbeat = setInterval(() => {
+      for (const peers of this.channels.values()) {
+        for (const peer of peers) {
+          peer.connection.ping();
+        }
+      }
+    }, EDIT_SYNC_HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  join(shareId: string, connection: WebSocketConnection, viewer: string): void {
+    let peers = this.channels.get(shareId);
+    if (!peers) {
+      peers = new Set();
+      this.channels.set(shareId, peers);
+    }
+
+    const peer: EditPeer = { connection, viewer };
+    const activePeers = peers;
+    activePeers.add(peer);
+    connection.onMessage((message) => {
+      this.handleMessage(shareId, peer, message);
+    });
+    connection.onClose(() => {
+      activePeers.delete(peer);
+      if (activePeers.size === 0 && this.channels.get(shareId) === activePeers) {
+        this.channels.delete(shareId);
+      }
+
+      this.broadcastPresence(shareId);
+    });
+    this.broadcastPresence(shareId);
+  }
+
+  // Saves that arrive over HTTP reach open editors the same way.
+  publish(shareId: string, snapshot: EditSnapshot, source?: EditPeer): void {
+    for (const peer of this.channels.get(shareId) ?? []) {
+      if (peer !== source) {
+        send(peer, { type: "update", content: snapshot.content, version: snapshot.version });
+      }
+    }
+  }
+
+  viewers(shareId: string): string[] {
+    return [...(this.channels.get(shareId) ?? [])].map((peer) => peer.viewer);
+  }
+
+  prune(activeIds: Set<string>): void {
+    for (const shareId of [...this.channels.keys()]) {
+      if (!activeIds.has(shareId)) {
+        this.close(shareId);
+      }
+    }
+  }
+
+  closeAll(): void {
+    clearInterval(this.heartbeat);
+    for (const shareId of [...this.channels.keys()]) {
+      this.close(shareId);
+    }
+  }
+
+  private close(shareId: string): void {
+    const peers = this.channels.get(shareId);
+    this.channels.delete(shareId);
+    for (const peer of peers ?? []) {
+      peer.connection.close();
+    }
+  }
+
+  private broadcastPresence(shareId: string): void {
+    const viewers = this.viewers(shareId);
+    for (const peer of this.channels.get(shareId) ?? []) {
+      send(peer, { type: "presence", count: viewers.length, viewers: [...new Set(viewers)] });
+    }
+  }
+
+  // The share is looked up again on every save, so a stopped or expired share
+  // stops accepting writes even before the reaper closes its sockets.
+  private handleMessage(shareId: string, peer: EditPeer, message: string): void {
+    const save = parseSaveMessage(message);
+    if (save === undefined) {
+      send(peer, { type: "error", error: "invalid_message" });
+      return;
+    }
+
+    const share = readState().shares[shareId];
+    if (share?.type !== "edit" || typeof share.path !== "string" || isShareExpired(share, Date.now())) {
+      send(peer, { type: "error", error: "not_found" });
+      peer.connection.close();
+      return;
+    }
+
+    if (share.readonly) {
+      send(peer, { type: "error", error: "readonly" });
+      return;
+    }
+
+    let result: EditSaveResult;
+    try {
+      result = saveEditContent(shareId, { ...share, path: share.path }, save.content, save.version, {
+        summary: "Saved in the browser",
+        author: peer.viewer,
+      });
+    } catch {
+      send(peer, { type: "error", error: "write_failed" });
+      return;
+    }
+
+    if (result.status === "conflict") {
+      send(peer, { type: "conflict", content: result.current.content, version: result.current.version });
+      return;
+    }
+
+    send(peer, { type: "saved", version: result.version });
+    this.publish(shareId, { content: save.content, version: result.version }, peer);
+  }
+}
@@ -7,6 +7,417 @@ function escapeHtml(value: string): string {
     .replaceAll("'", "&#39;");
 }
 
+// The merge view is shared by both editors: a stale save comes back with the
+// current file, and the user settles base, mine and theirs before retrying.
+const MERGE_VIEW_STYLES = `    #merge {
+      position: fixed;
+      inset: 0;
+      z-index: 100;
+      display: flex;
+      justify-content: center;
+      padding: 16px;
+      background: rgba(0, 0, 0, 0.6);
+      overflow-y: auto;
+    }
+    #merge[hidden] { display: none; }
+    #merge-panel {
+      width: min(1200px, 100%);
+      margin: auto 0;
+      padding: 16px;
+      background: #242424;
+      border: 0.5px solid rgba(255, 255, 255, 0.1);
+      border-radius: 10px;
+    }
+    #merge h2 {
+      margin: 12px 0 6px;
+      font-size: 12px;
+      font-weight: 600;
+      color: rgba(232, 232, 227, 0.55);
+      text-transform: uppercase;
+      letter-spacing: 0.04em;
+    }
+    #merge-summary { font-size: 14px; }
+    #merge-sources {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(240px, 1fr));
+      gap: 12px;
+    }
+    #merge pre, #merge textarea {
+      width: 100%;
+      padding: 8px;
+      background: #1D1D1D;
+      color: #E8E8E3;
+      border: 0.5px solid rgba(255, 255, 255, 0.1);
+      border-radius: 6px;
+      font-family: "SF Mono", Monaco, "Cascadia Code", "Fira Code", monospace;
+      font-size: 12px;
+      line-height: 1.5;
+    }
+    #merge pre {
+      height: 200px;
+      overflow: auto;
+      white-space: pre;
+    }
+    #merge textarea {
+      height: 260px;
+      resize: vertical;
+    }
+    #merge-actions {
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: flex-end;
+      gap: 8px;
+      margin-top: 12px;
+    }
+    #merge button {
+      padding: 6px 12px;
+      background: transparent;
+      color: #E8E8E3;
+      border: 0.5px solid rgba(255, 255, 255, 0.25);
+      border-radius: 6px;
+      font: inherit;
+      font-size: 13px;
+      cursor: pointer;
+    }
+    #merge button.primary {
+      background: #D9544F;
+      border-color: #D9544F;
+    }`;
+
+const MERGE_VIEW_MARKUP = `  <div id="merge" hidden>
+    <div id="merge-panel">
+      <p id="merge-summary"></p>
+      <div id="merge-sources">
+        <section><h2>Base</h2><pre id="merge-base"></pre></section>
+        <section><h2>Mine</h2><pre id="merge-mine"></pre></section>
+        <section><h2>Theirs</h2><pre id="merge-theirs"></pre></section>
+      </div>
+      <h2>Result</h2>
+      <textarea id="merge-result" spellcheck="false"></textarea>
+      <div id="merge-actions">
+        <button type="button" id="merge-use-mine">Keep mine</button>
+        <button type="button" id="merge-use-theirs">Take theirs</button>
+        <button type="button" id="merge-save" class="primary">Save merged</button>
+      </div>
+    </div>
+  </div>`;
+
+const MERGE_VIEW_SCRIPT = `    const MERGE_MAX_CELLS = 4000000;
+
+    const mergeEl = document.getElementById("merge");
+    const mergeSummary = document.getElementById("merge-summary");
+    const mergeBase = document.getElementById("merge-base");
+    const mergeMine = document.getElementById("merge-mine");
+    const mergeTheirs = document.getElementById("merge-theirs");
+    const mergeResult = document.getElementById("merge-result");
+    let mergeResolve = null;
+
+    function parseVersion(etag) {
+      return (etag || "").replace(/^W\\//, "").replace(/"/g, "");
+    }
+
+    // For each line of a, the index of the line it matches in b (longest common subsequence), or -1.
+    function matchLines(a, b) {
+      const matches = new Array(a.length).fill(-1);
+      if (a.length * b.length > MERGE_MAX_CELLS) {
+        return matches;
+      }
+      const table = [];
+      for (let i = 0; i <= a.length; i += 1) {
+        table.push(new Uint32Array(b.length + 1));
+      }
+      for (let i = a.length - 1; i >= 0; i -= 1) {
+        for (let j = b.length - 1; j >= 0; j -= 1) {
+          table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+      }
+      let i = 0;
+      let j = 0;
+      while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+          matches[i] = j;
+          i += 1;
+          j += 1;
+        } else if (table[i + 1][j] >= table[i][j + 1]) {
+          i += 1;
+        } else {
+          j += 1;
+        }
+      }
+      return matches;
+    }
+
+    function sameLines(a, b) {
+      return a.length === b.length && a.every((line, index) => line === b[index]);
+    }
+
+    // Base lines kept by both sides anchor the merge; between anchors a side that
+    // left base alone takes the other side's change, and two different changes
+    // become a conflict block.
+    function mergeThreeWay(base, mine, theirs) {
+      const baseLines = base.split("\\n");
+      const mineLines = mine.split("\\n");
+      const theirsLines = theirs.split("\\n");
+      const toMine = matchLines(baseLines, mineLines);
+      const toTheirs = matchLines(baseLines, theirsLines);
+      const output = [];
+      let conflicts = 0;
+      let baseStart = 0;
+      let mineStart = 0;
+      let theirsStart = 0;
+
+      function mergeChunk(baseEnd, mineEnd, theirsEnd) {
+        const baseChunk = baseLines.slice(baseStart, baseEnd);
+        const mineChunk = mineLines.slice(mineStart, mineEnd);
+        const theirsChunk = theirsLines.slice(theirsStart, theirsEnd);
+        if (sameLines(mineChunk, baseChunk)) {
+          output.push(...theirsChunk);
+        } else if (sameLines(theirsChunk, baseChunk) || sameLines(mineChunk, theirsChunk)) {
+          output.push(...mineChunk);
+        } else {
+          conflicts += 1;
+          output.push("<<<<<<< mine", ...mineChunk, "=======", ...theirsChunk, ">>>>>>> theirs");
+        }
+      }
+
+      for (let index = 0; index < baseLines.length; index += 1) {
+        if (toMine[index] === -1 || toTheirs[index] === -1) {
+          continue;
+        }
+        mergeChunk(index, toMine[index], toTheirs[index]);
+        output.push(baseLines[index]);
+        baseStart = index + 1;
+        mineStart = toMine[index] + 1;
+        theirsStart = toTheirs[index] + 1;
+      }
+      mergeChunk(baseLines.length, mineLines.length, theirsLines.length);
+      return { text: output.join("\\n"), conflicts };
+    }
+
+    function openMergeView(base, mine, theirs, onResolve) {
+      const merged = mergeThreeWay(base, mine, theirs);
+      mergeBase.textContent = base;
+      mergeMine.textContent = mine;
+      mergeTheirs.textContent = theirs;
+      mergeResult.value = merged.text;
+      mergeSummary.textContent =
+        "This file changed while you were editing. " +
+        (merged.conflicts === 0
+          ? "Both sets of changes merged cleanly; review the result and save."
+          : merged.conflicts + (merged.conflicts === 1 ? " conflict is" : " conflicts are") + " marked in the result.");
+      mergeResolve = onResolve;
+      mergeEl.hidden = false;
+    }
+
+    document.getElementById("merge-use-mine").addEventListener("click", () => {
+      mergeResult.value = mergeMine.textContent;
+    });
+    document.getElementById("merge-use-theirs").addEventListener("click", () => {
+      mergeResult.value = mergeTheirs.textContent;
+    });
+    document.getElementById("merge-save").addEventListener("click", () => {
+      const resolve = mergeResolve;
+      mergeResolve = null;
+      mergeEl.hidden = true;
+      if (resolve) {
+        resolve(mergeResult.value);
+      }
+    });`;
+
+// Saved revisions of the file, compared line by line with the current version.
+const HISTORY_VIEW_STYLES = `    #status-history {
+      margin-right: 12px;
+      padding: 2px 8px;
+      background: transparent;
+      color: rgba(232, 232, 227, 0.75);
+      border: 0.5px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      font: inherit;
+      cursor: pointer;
+    }
+    #history {
+      position: fixed;
+      inset: 0;
+      z-index: 100;
+      display: flex;
+      justify-content: center;
+      padding: 16px;
+      background: rgba(0, 0, 0, 0.6);
+    }
+    #history[hidden] { display: none; }
+    #history-panel {
+      display: grid;
+      grid-template-columns: minmax(200px, 280px) 1fr;
+      grid-template-rows: auto 1fr auto;
+      gap: 12px;
+      width: min(1200px, 100%);
+      max-height: 100%;
+      padding: 16px;
+      background: #242424;
+      border: 0.5px solid rgba(255, 255, 255, 0.1);
+      border-radius: 10px;
+    }
+    #history-summary { grid-column: 1 / -1; font-size: 14px; }
+    #history-list {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      overflow-y: auto;
+      font-size: 13px;
+    }
+    .history-item {
+      padding: 6px 8px;
+      background: transparent;
+      color: #E8E8E3;
+      border: 0.5px solid transparent;
+      border-radius: 6px;
+      font: inherit;
+      text-align: left;
+      cursor: pointer;
+    }
+    .history-item.selected { border-color: #D9544F; }
+    .history-item small { display: block; color: rgba(232, 232, 227, 0.55); }
+    #history-diff {
+      min-height: 200px;
+      margin: 0;
+      padding: 8px;
+      overflow: auto;
+      background: #1D1D1D;
+      border: 0.5px solid rgba(255, 255, 255, 0.1);
+      border-radius: 6px;
+      font-family: "SF Mono", Monaco, "Cascadia Code", "Fira Code", monospace;
+      font-size: 12px;
+      line-height: 1.5;
+      white-space: pre;
+    }
+    #history-diff .diff-add { background: rgba(74, 160, 96, 0.2); }
+    #history-diff .diff-del { background: rgba(217, 84, 79, 0.2); }
+    #history-actions {
+      grid-column: 1 / -1;
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+    }
+    #history-actions button {
+      padding: 6px 12px;
+      background: transparent;
+      color: #E8E8E3;
+      border: 0.5px solid rgba(255, 255, 255, 0.25);
+      border-radius: 6px;
+      font: inherit;
+      font-size: 13px;
+      cursor: pointer;
+    }
+    #history-actions button.primary {
+      background: #D9544F;
+      border-color: #D9544F;
+    }`;
+
+const HISTORY_VIEW_MARKUP = `  <div id="history" hidden>
+    <div id="history-panel">
+      <p id="history-summary">Pick a revision to compare it with the current version (+ only in the revision, - only in the current file).</p>
+      <div id="history-list"></div>
+      <pre id="history-diff"></pre>
+      <div id="history-actions">
+        <button type="button" id="history-close">Close</button>
+        <button type="button" id="history-restore" class="primary" hidden>Restore this revision</button>
+      </div>
+    </div>
+  </div>`;
+
+const HISTORY_VIEW_SCRIPT = `    const historyEl = document.getElementById("history");
+    const historyList = document.getElementById("history-list");
+    const historyDiff = document.getElementById("history-diff");
+    const historyRestore = document.getElementById("history-restore");
+    let historyCurrent = "";
+    let historySelection = null;
+    let historyOnRestore = null;
+
+    function appendDiffLine(prefix, text, className) {
+      const line = document.createElement("div");
+      line.className = className;
+      line.textContent = prefix + text;
+      historyDiff.appendChild(line);
+    }
+
+    function renderLineDiff(current, revision) {
+      const currentLines = current.split("\\n");
+      const revisionLines = revision.split("\\n");
+      const matches = matchLines(currentLines, revisionLines);
+      let revisionIndex = 0;
+      historyDiff.textContent = "";
+      currentLines.forEach((line, index) => {
+        if (matches[index] === -1) {
+          appendDiffLine("- ", line, "diff-del");
+          return;
+        }
+        for (; revisionIndex < matches[index]; revisionIndex += 1) {
+          appendDiffLine("+ ", revisionLines[revisionIndex], "diff-add");
+        }
+        appendDiffLine("  ", line, "");
+        revisionIndex = matches[index] + 1;
+      });
+      for (; revisionIndex < revisionLines.length; revisionIndex += 1) {
+        appendDiffLine("+ ", revisionLines[revisionIndex], "diff-add");
+      }
+    }
+
+    function selectRevision(revision, item) {
+      historyList.querySelectorAll(".history-item").forEach((entry) => entry.classList.remove("selected"));
+      item.classList.add("selected");
+      historyRestore.hidden = true;
+      historyDiff.textContent = "Loading...";
+      fetch(sharePrefix + "/api/history/" + encodeURIComponent(revision.rev), { cache: "no-store" })
+        .then((response) => (response.ok ? response.text() : Promise.reject(new Error("load-failed"))))
+        .then((content) => {
+          historySelection = { rev: revision.rev, content };
+          renderLineDiff(historyCurrent, content);
+          historyRestore.hidden = READONLY;
+        })
+        .catch(() => {
+          historyDiff.textContent = "Could not load this revision.";
+        });
+    }
+
+    function openHistoryView(current, onRestore) {
+      historyCurrent = current;
+      historySelection = null;
+      historyOnRestore = onRestore;
+      historyList.textContent = "Loading...";
+      historyDiff.textContent = "";
+      historyRestore.hidden = true;
+      historyEl.hidden = false;
+      fetch(sharePrefix + "/api/history", { cache: "no-store" })
+        .then((response) => (response.ok ? response.json() : Promise.reject(new Error("load-failed"))))
+        .then((data) => {
+          historyList.textContent = data.revisions.length === 0 ? "No saved revisions yet." : "";
+          for (const revision of data.revisions) {
+            const item = document.createElement("button");
+            const meta = document.createElement("small");
+            item.type = "button";
+            item.className = "history-item";
+            item.textContent = revision.summary;
+            meta.textContent = [revision.rev, new Date(revision.time).toLocaleString(), revision.author].filter(Boolean).join(" · ");
+            item.appendChild(meta);
+            item.addEventListener("click", () => selectRevision(revision, item));
+            historyList.appendChild(item);
+          }
+        })
+        .catch(() => {
+          historyList.textContent = "History is unavailable.";
+        });
+    }
+
+    document.getElementById("history-close").addEventListener("click", () => {
+      historyEl.hidden = true;
+    });
+    historyRestore.addEventListener("click", () => {
+      historyEl.hidden = true;
+      if (historySelection && historyOnRestore) {
+        historyOnRestore(historySelection.rev, historySelection.content);
+      }
+    });`;
+
 export type EditorMode = "markdown-editor" | "code-editor";
 
 export function getEditorMode(filename: string): EditorMode {
@@ -89,6 +500,12 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
       z-index: 50;
     }
     #status-text { white-space: nowrap; }
+    #status-presence {
+      margin-left: auto;
+      padding-right: 12px;
+      white-space: nowrap;
+      color: rgba(232, 232, 227, 0.75);
+    }
     #status-filename {
       overflow: hidden;
       text-overflow: ellipsis;
@@ -98,6 +515,8 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
     #status.saving #status-text { color: rgba(232, 168, 56, 0.8); }
     #status.saved #status-text { color: rgba(217, 84, 79, 0.7); }
     #status.readonly #status-text { color: rgba(232, 232, 227, 0.75); }
+${MERGE_VIEW_STYLES}
+${HISTORY_VIEW_STYLES}
   </style>
   <script type="importmap">
   {
@@ -125,9 +544,13 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
     </div>
     <div id="status">
       <span id="status-filename">${escapedFilename}</span>
+      <span id="status-presence"></span>
+      <button type="button" id="status-history">History</button>
       <span id="status-text">Loading...</span>
     </div>
   </div>
+${MERGE_VIEW_MARKUP}
+${HISTORY_VIEW_MARKUP}
 
   <script type="module">
     import { EditorState } from "@codemirror/state";
@@ -151,19 +574,42 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
     let ws = null;
     let saveTimeout = null;
     let socketConnected = false;
+    let baseContent = "";
+    let baseVersion = "";
+    let pendingContent = null;
+    let merging = false;
+    let applyingRemoteUpdate = false;
 
     const statusEl = document.getElementById("status");
     const statusFilename = document.getElementById("status-filename");
     const statusText = document.getElementById("status-text");
+    const statusPresence = document.getElementById("status-presence");
 
     statusFilename.textContent = FILE_NAME;
     document.title = FILE_NAME;
 
+${MERGE_VIEW_SCRIPT}
+
+${HISTORY_VIEW_SCRIPT}
+
     function updateStatus(text, cls) {
       statusText.textContent = text;
       statusEl.className = cls || "";
     }
 
+    function updatePresence(count, viewers) {
+      statusPresence.textContent = count > 1 ? count + " viewing" : "";
+      statusPresence.title = viewers.join(", ");
+    }
+
+    function updateIdleStatus() {
+      if (READONLY) {
+        updateStatus("Read-only", "readonly");
+      } else {
+        updateStatus("Ready", "saved");
+      }
+    }
+
     function resolveSharePrefix() {
       const match = window.location.pathname.match(/^\\/s\\/([A-Za-z0-9_-]+)/);
       if (!match) {
@@ -212,7 +658,7 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
           { dark: true }
         ),
         EditorView.updateListener.of((update) => {
-          if (update.docChanged) {
+          if (update.docChanged && !applyingRemoteUpdate) {
             debouncedSave();
           }
         })
@@ -237,33 +683,131 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
       return editorView.state.doc.toString();
     }
 
+    function replaceContent(content) {
+      if (!editorView || content === getContent()) {
+        return;
+      }
+      const head = Math.min(editorView.state.selection.main.head, content.length);
+      applyingRemoteUpdate = true;
+      editorView.dispatch({
+        changes: { from: 0, to: editorView.state.doc.length, insert: content },
+        selection: { anchor: head }
+      });
+      applyingRemoteUpdate = false;
+    }
+
+    // Edits from other viewers replace the document unless local changes are
+    // unsaved; those keep the old base so their save comes back as a conflict.
+    function applyRemoteContent(content, version) {
+      if (saveTimeout || pendingContent !== null || merging) {
+        return;
+      }
+      baseContent = content;
+      baseVersion = version;
+      replaceContent(content);
+      updateIdleStatus();
+    }
+
+    function handleSaved(version) {
+      if (pendingContent !== null) {
+        baseContent = pendingContent;
+      }
+      baseVersion = version;
+      pendingContent = null;
+      updateStatus("Saved", "saved");
+    }
+
+    function handleConflict(content, version) {
+      pendingContent = null;
+      if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        saveTimeout = null;
+      }
+      const mine = getContent();
+      if (mine === content) {
+        baseContent = content;
+        baseVersion = version;
+        updateStatus("Saved", "saved");
+        return;
+      }
+      merging = true;
+      updateStatus("Conflict", "saving");
+      openMergeView(baseContent, mine, content, (result) => {
+        merging = false;
+        baseContent = content;
+        baseVersion = version;
+        replaceContent(result);
+        if (result === content) {
+          updateIdleStatus();
+          return;
+        }
+        save();
+      });
+    }
+
     function saveWithHttpFallback(content) {
       return fetch(saveUrl, {
         method: "POST",
         cache: "no-store",
-        headers: { "Content-Type": "text/plain; charset=utf-8" },
+        headers: { "Content-Type": "text/plain; charset=utf-8", "If-Match": "\\"" + baseVersion + "\\"" },
         body: content
       })
-        .then((response) => {
+        .then((response) => response.json().then((data) => {
+          if (response.status === 409) {
+            handleConflict(data.content, data.version);
+            return;
+          }
           if (!response.ok) {
             throw new Error("save-failed");
           }
-          updateStatus("Saved", "saved");
-        })
+          handleSaved(data.version);
+        }))
         .catch(() => {
+          pendingContent = null;
           updateStatus("Save failed", "saving");
         });
     }
 
+    function restoreRevision(rev, content) {
+      if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        saveTimeout = null;
+      }
+      updateStatus("Restoring...", "saving");
+      fetch(sharePrefix + "/api/history/" + encodeURIComponent(rev) + "/restore", {
+        method: "POST",
+        cache: "no-store",
+        headers: { "If-Match": "\\"" + baseVersion + "\\"" }
+      })
+        .then((response) => response.json().then((data) => {
+          if (response.status === 409) {
+            handleConflict(data.content, data.version);
+            return;
+          }
+          if (!response.ok) {
+            throw new Error("restore-failed");
+          }
+          baseContent = content;
+          baseVersion = data.version;
+          replaceContent(content);
+          updateStatus("Restored", "saved");
+        }))
+        .catch(() => {
+          updateStatus("Restore failed", "saving");
+        });
+    }
+
     function save() {
-      if (READONLY) {
+      if (READONLY || merging) {
         return;
       }
+      saveTimeout = null;
       const content = getContent();
+      pendingContent = content;
       updateStatus("Saving...", "saving");
 
       if (socketConnected && ws && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: "save", content }));
+        ws.send(JSON.stringify({ type: "save", content, version: baseVersion }));
         return;
       }
 
@@ -271,7 +815,7 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
     }
 
     function debouncedSave() {
-      if (READONLY) {
+      if (READONLY || merging) {
         return;
       }
       if (saveTimeout) {
@@ -282,7 +826,7 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
     }
 
     function connectWebSocket() {
-      if (READONLY || sharePrefix.length === 0) {
+      if (sharePrefix.length === 0) {
         return;
       }
       const socketUrl = new URL(window.location.href);
@@ -294,19 +838,29 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
       ws = new WebSocket(socketUrl.toString());
       ws.onopen = () => {
         socketConnected = true;
-        updateStatus("Ready", "saved");
+        updateIdleStatus();
       };
       ws.onclose = () => {
         socketConnected = false;
-        updateStatus("Offline - HTTP save", "saving");
+        updatePresence(0, []);
+        if (!READONLY) {
+          updateStatus("Offline - HTTP save", "saving");
+        }
         setTimeout(connectWebSocket, 3000);
       };
       ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
           if (data.type === "saved") {
-            updateStatus("Saved", "saved");
+            handleSaved(data.version);
+          } else if (data.type === "conflict" && typeof data.content === "string") {
+            handleConflict(data.content, data.version);
+          } else if (data.type === "update" && typeof data.content === "string") {
+            applyRemoteContent(data.content, data.version);
+          } else if (data.type === "presence" && Array.isArray(data.viewers)) {
+            updatePresence(data.count, data.viewers);
           } else if (data.type === "error") {
+            pendingContent = null;
             updateStatus("Save failed", "saving");
           }
         } catch {
@@ -315,6 +869,10 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
       };
     }
 
+    document.getElementById("status-history").addEventListener("click", () => {
+      openHistoryView(baseContent, restoreRevision);
+    });
+
     function initEditor(content) {
       editorView = new EditorView({
         state: EditorState.create({
@@ -324,11 +882,10 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
         parent: document.getElementById("editor")
       });
 
-      if (READONLY) {
-        updateStatus("Read-only", "readonly");
-      } else if (!socketConnected) {
-        updateStatus("Ready", "saved");
+      if (READONLY || !socketConnected) {
+        updateIdleStatus();
       }
+      connectWebSocket();
     }
 
     const sharePrefix = resolveSharePrefix();
@@ -336,8 +893,15 @@ export function generateCodeEditorHtml(filename: string, readonly: boolean): str
     const saveUrl = sharePrefix + "/api/save";
 
     fetch(contentUrl, { cache: "no-store" })
-      .then((response) => (response.ok ? response.text() : Promise.reject(new Error("load-failed"))))
+      .then((response) => {
+        if (!response.ok) {
+          return Promise.reject(new Error("load-failed"));
+        }
+        baseVersion = parseVersion(response.headers.get("ETag"));
+        return response.text();
+      })
       .then((content) => {
+        baseContent = content;
         initEditor(content);
       })
       .catch(() => {
@@ -556,6 +1120,12 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
       z-index: 50;
     }
     #status-text { white-space: nowrap; }
+    #status-presence {
+      margin-left: auto;
+      padding-right: 12px;
+      white-space: nowrap;
+      color: rgba(232, 232, 227, 0.75);
+    }
     #status-filename {
       overflow: hidden;
       text-overflow: ellipsis;
@@ -568,6 +1138,8 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
     @media (max-width: 600px) {
       .ProseMirror { font-size: 17px; padding: 16px; }
     }
+${MERGE_VIEW_STYLES}
+${HISTORY_VIEW_STYLES}
   </style>
   <script type="importmap">
   {
@@ -590,9 +1162,13 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
     </div>
     <div id="status">
       <span id="status-filename">${escapedFilename}</span>
+      <span id="status-presence"></span>
+      <button type="button" id="status-history">History</button>
       <span id="status-text">Loading...</span>
     </div>
   </div>
+${MERGE_VIEW_MARKUP}
+${HISTORY_VIEW_MARKUP}
 
   <script type="module">
     import { Editor } from "@tiptap/core";
@@ -646,19 +1222,41 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
     let ws = null;
     let saveTimeout = null;
     let socketConnected = false;
+    let baseContent = "";
+    let baseVersion = "";
+    let pendingContent = null;
+    let merging = false;
 
     const statusEl = document.getElementById("status");
     const statusFilename = document.getElementById("status-filename");
     const statusText = document.getElementById("status-text");
+    const statusPresence = document.getElementById("status-presence");
 
     statusFilename.textContent = FILE_NAME;
     document.title = FILE_NAME;
 
+${MERGE_VIEW_SCRIPT}
+
+${HISTORY_VIEW_SCRIPT}
+
     function updateStatus(text, cls) {
       statusText.textContent = text;
       statusEl.className = cls || "";
     }
 
+    function updatePresence(count, viewers) {
+      statusPresence.textContent = count > 1 ? count + " viewing" : "";
+      statusPresence.title = viewers.join(", ");
+    }
+
+    function updateIdleStatus() {
+      if (READONLY) {
+        updateStatus("Read-only", "readonly");
+      } else {
+        updateStatus("Ready", "saved");
+      }
+    }
+
     function resolveSharePrefix() {
       const match = window.location.pathname.match(/^\\/s\\/([A-Za-z0-9_-]+)/);
       if (!match) {
@@ -676,32 +1274,124 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
       return turndownService.turndown(editor.getHTML());
     }
 
+    function replaceContent(content) {
+      if (!editor || content === getMarkdown()) {
+        return;
+      }
+      editor.commands.setContent(marked.parse(content), false);
+    }
+
+    // Edits from other viewers replace the document unless local changes are
+    // unsaved; those keep the old base so their save comes back as a conflict.
+    function applyRemoteContent(content, version) {
+      if (saveTimeout || pendingContent !== null || merging) {
+        return;
+      }
+      baseContent = content;
+      baseVersion = version;
+      replaceContent(content);
+      updateIdleStatus();
+    }
+
+    function handleSaved(version) {
+      if (pendingContent !== null) {
+        baseContent = pendingContent;
+      }
+      baseVersion = version;
+      pendingContent = null;
+      updateStatus("Saved", "saved");
+    }
+
+    function handleConflict(content, version) {
+      pendingContent = null;
+      if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        saveTimeout = null;
+      }
+      const mine = getMarkdown();
+      if (mine === content) {
+        baseContent = content;
+        baseVersion = version;
+        updateStatus("Saved", "saved");
+        return;
+      }
+      merging = true;
+      updateStatus("Conflict", "saving");
+      openMergeView(baseContent, mine, content, (result) => {
+        merging = false;
+        baseContent = content;
+        baseVersion = version;
+        replaceContent(result);
+        if (result === content) {
+          updateIdleStatus();
+          return;
+        }
+        save();
+      });
+    }
+
     function saveWithHttpFallback(content) {
       return fetch(saveUrl, {
         method: "POST",
         cache: "no-store",
-        headers: { "Content-Type": "text/plain; charset=utf-8" },
+        headers: { "Content-Type": "text/plain; charset=utf-8", "If-Match": "\\"" + baseVersion + "\\"" },
         body: content
       })
-        .then((response) => {
+        .then((response) => response.json().then((data) => {
+          if (response.status === 409) {
+            handleConflict(data.content, data.version);
+            return;
+          }
           if (!response.ok) {
             throw new Error("save-failed");
           }
-          updateStatus("Saved", "saved");
-        })
+          handleSaved(data.version);
+        }))
         .catch(() => {
+          pendingContent = null;
           updateStatus("Save failed", "saving");
         });
     }
 
+    function restoreRevision(rev, content) {
+      if (saveTimeout) {
+        clearTimeout(saveTimeout);
+        saveTimeout = null;
+      }
+      updateStatus("Restoring...", "saving");
+      fetch(sharePrefix + "/api/history/" + encodeURIComponent(rev) + "/restore", {
+        method: "POST",
+        cache: "no-store",
+        headers: { "If-Match": "\\"" + baseVersion + "\\"" }
+      })
+        .then((response) => response.json().then((data) => {
+          if (response.status === 409) {
+            handleConflict(data.content, data.version);
+            return;
+          }
+          if (!response.ok) {
+            throw new Error("restore-failed");
+          }
+          baseContent = content;
+          baseVersion = data.version;
+          replaceContent(content);
+          updateStatus("Restored", "saved");
+        }))
+        .catch(() => {
+          updateStatus("Restore failed", "saving");
+        });
+    }
+
     function save() {
-      if (READONLY) {
+      if (READONLY || merging) {
         return;
       }
+      saveTimeout = null;
       updateStatus("Saving...", "saving");
       const content = getMarkdown();
+      pendingContent = content;
       if (socketConnected && ws && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: "save", content }));
+        ws.send(JSON.stringify({ type: "save", content, version: baseVersion }));
         return;
       }
 
@@ -709,7 +1399,7 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
     }
 
     function debouncedSave() {
-      if (READONLY) {
+      if (READONLY || merging) {
         return;
       }
       if (saveTimeout) {
@@ -720,7 +1410,7 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
     }
 
     function connectWebSocket() {
-      if (READONLY || sharePrefix.length === 0) {
+      if (sharePrefix.length === 0) {
         return;
       }
       const socketUrl = new URL(window.location.href);
@@ -732,19 +1422,29 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
       ws = new WebSocket(socketUrl.toString());
       ws.onopen = () => {
         socketConnected = true;
-        updateStatus("Ready", "saved");
+        updateIdleStatus();
       };
       ws.onclose = () => {
         socketConnected = false;
-        updateStatus("Disconnected", "saving");
+        updatePresence(0, []);
+        if (!READONLY) {
+          updateStatus("Disconnected", "saving");
+        }
         setTimeout(connectWebSocket, 3000);
       };
       ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
           if (data.type === "saved") {
-            updateStatus("Saved", "saved");
+            handleSaved(data.version);
+          } else if (data.type === "conflict" && typeof data.content === "string") {
+            handleConflict(data.content, data.version);
+          } else if (data.type === "update" && typeof data.content === "string") {
+            applyRemoteContent(data.content, data.version);
+          } else if (data.type === "presence" && Array.isArray(data.viewers)) {
+            updatePresence(data.count, data.viewers);
           } else if (data.type === "error") {
+            pendingContent = null;
             updateStatus("Save failed", "saving");
           }
         } catch {
@@ -753,6 +1453,10 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
       };
     }
 
+    document.getElementById("status-history").addEventListener("click", () => {
+      openHistoryView(baseContent, restoreRevision);
+    });
+
     function initEditor(contentMarkdown) {
       marked.setOptions({
         gfm: true,
@@ -795,18 +1499,24 @@ export function generateMarkdownEditorHtml(filename: string, readonly: boolean):
         }
       });
 
-      if (READONLY) {
-        updateStatus("Read-only", "readonly");
-      } else if (!socketConnected) {
-        updateStatus("Ready", "saved");
+      if (READONLY || !socketConnected) {
+        updateIdleStatus();
       }
+      connectWebSocket();
     }
 
     const contentUrl = sharePrefix + "/api/content";
     const saveUrl = sharePrefix + "/api/save";
     fetch(contentUrl, { cache: "no-store" })
-      .then((response) => response.ok ? response.text() : Promise.reject(new Error("load-failed")))
+      .then((response) => {
+        if (!response.ok) {
+          return Promise.reject(new Error("load-failed"));
+        }
+        baseVersion = parseVersion(response.headers.get("ETag"));
+        return response.text();
+      })
       .then((content) => {
+        baseContent = content;
         initEditor(content);
       })
       .catch(() => {
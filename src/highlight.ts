@@ -0,0 +1,483 @@
+import path from "node:path";
+
+export type TokenType =
+  | "comment"
+  | "string"
+  | "number"
+  | "keyword"
+  | "literal"
+  | "variable"
+  | "added"
+  | "removed"
+  | "hunk"
+  | "meta"
+  | "error"
+  | "warn"
+  | "info"
+  | "debug";
+
+interface LanguageSyntax {
+  lineComments: string[];
+  blockComments: Array<[string, string]>;
+  quotes: string[];
+  // Quotes whose strings may span lines (template literals, triple quotes).
+  multilineQuotes: string[];
+  keywords: Set<string>;
+  literals: Set<string>;
+  caseInsensitive?: boolean;
+  variables?: RegExp;
+}
+
+interface Token {
+  type?: TokenType;
+  text: string;
+}
+
+export const TEXT_SAMPLE_BYTES = 8 * 1024;
+
+const C_LIKE_LITERALS = ["true", "false", "null", "undefined", "nil", "None", "True", "False", "NaN", "Infinity"];
+
+function words(value: string): Set<string> {
+  return new Set(value.split(/\s+/).filter((word) => word.length > 0));
+}
+
+function cLike(keywords: string, overrides: Partial<LanguageSyntax> = {}): LanguageSyntax {
+  return {
+    lineComments: ["//"],
+    blockComments: [["/*", "*/"]],
+    quotes: ["\"", "'"],
+    multilineQuotes: [],
+    keywords: words(keywords),
+    literals: new Set(C_LIKE_LITERALS),
+    ...overrides,
+  };
+}
+
+function hashCommented(keywords: string, overrides: Partial<LanguageSyntax> = {}): LanguageSyntax {
+  return {
+    lineComments: ["#"],
+    blockComments: [],
+    quotes: ["\"", "'"],
+    multilineQuotes: [],
+    keywords: words(keywords),
+    literals: new Set(C_LIKE_LITERALS),
+    ...overrides,
+  };
+}
+
+const JS_KEYWORDS =
+  "abstract as async await break case catch class const constructor continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield";
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  javascript: cLike(JS_KEYWORDS, { quotes: ["\"", "'"], multilineQuotes: ["`"] }),
+  typescript: cLike(JS_KEYWORDS, { quotes: ["\"", "'"], multilineQuotes: ["`"] }),
+  json: cLike("", { lineComments: [], blockComments: [], quotes: ["\""], literals: words("true false null") }),
+  python: hashCommented(
+    "and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case self",
+    { multilineQuotes: ["\"\"\"", "'''"] },
+  ),
+  ruby: hashCommented(
+    "alias and begin break case class def defined? do else elsif end ensure for if in module next not or redo rescue retry return self super then undef unless until when while yield require attr_accessor",
+  ),
+  shell: hashCommented(
+    "if then else elif fi for while until do done case esac function in return export local readonly declare set unset shift exit source alias echo",
+    { variables: /^\$(?:\{[^}\n]*\}|[A-Za-z_][A-Za-z0-9_]*|[0-9@#?*$!-])/ },
+  ),
+  go: cLike(
+    "break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var",
+    { multilineQuotes: ["`"] },
+  ),
+  rust: cLike(
+    "as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while",
+  ),
+  java: cLike(
+    "abstract assert boolean break byte case catch char class const continue default do double else enum extends final finally float for goto if implements import instanceof int interface long native new package private protected public return short static strictfp super switch synchronized this throw throws transient try void volatile while var record",
+  ),
+  kotlin: cLike(
+    "as break class continue do else false for fun if in interface is null object package return super this throw true try typealias val var when while data sealed override open private public internal protected companion import",
+    { multilineQuotes: ["\"\"\""] },
+  ),
+  swift: cLike(
+    "associatedtype class deinit enum extension fileprivate func import init inout internal let open operator private protocol public rethrows static struct subscript typealias var break case continue default defer do else fallthrough for guard if in repeat return switch where while as catch is super self Self throw throws try async await",
+  ),
+  c: cLike(
+    "auto break case char const continue default do double else enum extern float for goto if inline int long register restrict return short signed sizeof static struct switch typedef union unsigned void volatile while #include #define #ifdef #ifndef #endif #if #else #pragma",
+  ),
+  cpp: cLike(
+    "auto break case catch char class const constexpr continue default delete do double else enum explicit extern float for friend goto if inline int long namespace new noexcept operator private protected public return short signed sizeof static struct switch template this throw try typedef typename union unsigned using virtual void volatile while #include #define #ifdef #ifndef #endif #if #else #pragma",
+  ),
+  csharp: cLike(
+    "abstract as base bool break byte case catch char checked class const continue decimal default delegate do double else enum event explicit extern finally fixed float for foreach goto if implicit in int interface internal is lock long namespace new object operator out override params private protected public readonly ref return sbyte sealed short sizeof static string struct switch this throw try typeof uint ulong unchecked unsafe ushort using var virtual void volatile while async await",
+  ),
+  php: cLike(
+    "abstract and array as break callable case catch class clone const continue declare default do echo else elseif empty enddeclare endfor endforeach endif endswitch endwhile extends final finally fn for foreach function global if implements include instanceof interface isset list match namespace new or print private protected public require return static switch throw trait try unset use var while yield",
+    { lineComments: ["//", "#"], variables: /^\$[A-Za-z_][A-Za-z0-9_]*/ },
+  ),
+  sql: {
+    lineComments: ["--"],
+    blockComments: [["/*", "*/"]],
+    quotes: ["'", "\""],
+    multilineQuotes: [],
+    keywords: words(
+      "select from where and or not insert into values update set delete create table drop alter add column index primary key foreign references join left right inner outer full on group by order having limit offset as distinct union all case when then else end is null in exists between like view returning with begin commit rollback",
+    ),
+    literals: words("true false null"),
+    caseInsensitive: true,
+  },
+  css: {
+    lineComments: [],
+    blockComments: [["/*", "*/"]],
+    quotes: ["\"", "'"],
+    multilineQuotes: [],
+    keywords: words("@media @import @keyframes @font-face @supports !important"),
+    literals: new Set(),
+  },
+  yaml: hashCommented("", { literals: words("true false null yes no on off ~") }),
+  toml: hashCommented("", { literals: words("true false"), multilineQuotes: ["\"\"\"", "'''"] }),
+  ini: hashCommented("", { lineComments: [";", "#"], literals: words("true false yes no on off") }),
+  dockerfile: hashCommented(
+    "FROM RUN CMD LABEL EXPOSE ENV ADD COPY ENTRYPOINT VOLUME USER WORKDIR ARG ONBUILD STOPSIGNAL HEALTHCHECK SHELL AS",
+    { variables: /^\$(?:\{[^}\n]*\}|[A-Za-z_][A-Za-z0-9_]*)/ },
+  ),
+  makefile: hashCommented("ifeq ifneq ifdef ifndef else endif include define endef export override .PHONY", {
+    variables: /^\$(?:\([^)\n]*\)|\{[^}\n]*\}|[@<^?*%])/,
+  }),
+  xml: {
+    lineComments: [],
+    blockComments: [["<!--", "-->"]],
+    quotes: ["\"", "'"],
+    multilineQuotes: [],
+    keywords: new Set(),
+    literals: new Set(),
+  },
+};
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "javascript",
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "typescript",
+  ".json": "json",
+  ".jsonc": "javascript",
+  ".py": "python",
+  ".pyi": "python",
+  ".rb": "ruby",
+  ".sh": "shell",
+  ".bash": "shell",
+  ".zsh": "shell",
+  ".fish": "shell",
+  ".go": "go",
+  ".rs": "rust",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".kts": "kotlin",
+  ".swift": "swift",
+  ".c": "c",
+  ".h": "c",
+  ".cc": "cpp",
+  ".cpp": "cpp",
+  ".cxx": "cpp",
+  ".hpp": "cpp",
+  ".cs": "csharp",
+  ".php": "php",
+  ".sql": "sql",
+  ".css": "css",
+  ".scss": "css",
+  ".less": "css",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".toml": "toml",
+  ".ini": "ini",
+  ".cfg": "ini",
+  ".conf": "ini",
+  ".env": "shell",
+  ".xml": "xml",
+  ".plist": "xml",
+  ".diff": "diff",
+  ".patch": "diff",
+  ".log": "log",
+  ".txt": "plaintext",
+  ".text": "plaintext",
+  ".csv": "plaintext",
+  ".tsv": "plaintext",
+};
+
+const LANGUAGE_BY_FILENAME: Record<string, string> = {
+  dockerfile: "dockerfile",
+  containerfile: "dockerfile",
+  makefile: "makefile",
+  gnumakefile: "makefile",
+  gemfile: "ruby",
+  rakefile: "ruby",
+  ".bashrc": "shell",
+  ".zshrc": "shell",
+  ".profile": "shell",
+  ".gitignore": "plaintext",
+  ".npmrc": "ini",
+  ".editorconfig": "ini",
+};
+
+const SHEBANG_LANGUAGES: Array<[RegExp, string]> = [
+  [/\b(?:ba|z|k|da)?sh\b/, "shell"],
+  [/\bpython[0-9.]*\b/, "python"],
+  [/\b(?:node|deno|bun)\b/, "javascript"],
+  [/\bruby\b/, "ruby"],
+  [/\bphp\b/, "php"],
+];
+
+export function isTextSample(sample: Buffer): boolean {
+  if (sample.includes(0)) {
+    return false;
+  }
+
+  const text = sample.toString("utf8");
+  let replacementCount = 0;
+  let controlCount = 0;
+  for (const character of text) {
+    const code = character.codePointAt(0) ?? 0;
+    if (code === 0xfffd) {
+      replacementCount += 1;
+    } else if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d && code !== 0x0c && code !== 0x1b) {
+      controlCount += 1;
+    }
+  }
+
+  // A multi-byte character cut off at the end of the sample decodes as one
+  // replacement character; anything beyond that means the bytes are not UTF-8.
+  return replacementCount <= 1 && controlCount <= text.length / 20;
+}
+
+function detectShebangLanguage(sample: Buffer): string | undefined {
+  const firstLine = sample.toString("utf8").split("\n", 1)[0] ?? "";
+  if (!firstLine.startsWith("#!")) {
+    return undefined;
+  }
+
+  return SHEBANG_LANGUAGES.find(([pattern]) => pattern.test(firstLine))?.[1];
+}
+
+export function detectLanguageFromName(filePath: string): string | undefined {
+  const baseName = path.basename(filePath).toLowerCase();
+  return LANGUAGE_BY_FILENAME[baseName] ?? LANGUAGE_BY_EXTENSION[path.extname(baseName)];
+}
+
+// Picks a highlighter from the file name first and the content second, so
+// extension-less scripts and unknown text formats still get the viewer.
+// Returns undefined for content that does not look like text.
+export function detectLanguage(filePath: string, sample: Buffer): string | undefined {
+  if (!isTextSample(sample)) {
+    return undefined;
+  }
+
+  const byName = detectLanguageFromName(filePath);
+  if (byName !== undefined) {
+    return byName;
+  }
+
+  return detectShebangLanguage(sample) ?? "plaintext";
+}
+
+function matchQuoted(source: string, index: number, quote: string, multiline: boolean): number {
+  let cursor = index + quote.length;
+  while (cursor < source.length) {
+    if (source[cursor] === "\\") {
+      cursor += 2;
+      continue;
+    }
+
+    if (source.startsWith(quote, cursor)) {
+      return cursor + quote.length;
+    }
+
+    if (!multiline && source[cursor] === "\n") {
+      return cursor;
+    }
+
+    cursor += 1;
+  }
+
+  return source.length;
+}
+
+function tokenizeWithSyntax(source: string, syntax: LanguageSyntax): Token[] {
+  const tokens: Token[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  const push = (type: TokenType, end: number): void => {
+    if (plainStart < index) {
+      tokens.push({ text: source.slice(plainStart, index) });
+    }
+
+    tokens.push({ type, text: source.slice(index, end) });
+    index = end;
+    plainStart = end;
+  };
+
+  while (index < source.length) {
+    const rest = source.slice(index, index + 8);
+    const previous = index > 0 ? source[index - 1] ?? "" : "";
+
+    const blockComment = syntax.blockComments.find(([open]) => rest.startsWith(open));
+    if (blockComment) {
+      const close = source.indexOf(blockComment[1], index + blockComment[0].length);
+      push("comment", close === -1 ? source.length : close + blockComment[1].length);
+      continue;
+    }
+
+    const lineComment = syntax.lineComments.find((marker) => rest.startsWith(marker));
+    // "#" only starts a comment at a word boundary, so "$#" or "a#b" stay code.
+    if (lineComment && (lineComment !== "#" || previous === "" || /\s/.test(previous))) {
+      const newline = source.indexOf("\n", index);
+      push("comment", newline === -1 ? source.length : newline);
+      continue;
+    }
+
+    const multilineQuote = syntax.multilineQuotes.find((quote) => rest.startsWith(quote));
+    if (multilineQuote) {
+      push("string", matchQuoted(source, index, multilineQuote, true));
+      continue;
+    }
+
+    const quote = syntax.quotes.find((candidate) => rest.startsWith(candidate));
+    if (quote && !/[A-Za-z0-9]/.test(previous)) {
+      push("string", matchQuoted(source, index, quote, false));
+      continue;
+    }
+
+    if (syntax.variables) {
+      const variable = syntax.variables.exec(source.slice(index, index + 256));
+      if (variable) {
+        push("variable", index + variable[0].length);
+        continue;
+      }
+    }
+
+    if (!/[\w$.]/.test(previous)) {
+      const number = /^(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(source.slice(index, index + 64));
+      if (number) {
+        push("number", index + number[0].length);
+        continue;
+      }
+
+      const word = /^[#@!.]?[A-Za-z_][\w$]*\??/.exec(source.slice(index, index + 128));
+      if (word) {
+        const candidate = word[0];
+        const lookup = syntax.caseInsensitive ? candidate.toLowerCase() : candidate;
+        if (syntax.keywords.has(lookup)) {
+          push("keyword", index + candidate.length);
+          continue;
+        }
+
+        if (syntax.literals.has(lookup)) {
+          push("literal", index + candidate.length);
+          continue;
+        }
+
+        index += candidate.length;
+        continue;
+      }
+    }
+
+    index += 1;
+  }
+
+  if (plainStart < source.length) {
+    tokens.push({ text: source.slice(plainStart) });
+  }
+
+  return tokens;
+}
+
+function classifyDiffLine(line: string): TokenType | undefined {
+  if (line.startsWith("+++") || line.startsWith("---") || line.startsWith("diff ") || line.startsWith("index ")) {
+    return "meta";
+  }
+
+  if (line.startsWith("@@")) {
+    return "hunk";
+  }
+
+  if (line.startsWith("+")) {
+    return "added";
+  }
+
+  return line.startsWith("-") ? "removed" : undefined;
+}
+
+function classifyLogLine(line: string): TokenType | undefined {
+  if (/\b(?:ERROR|FATAL|CRITICAL|PANIC)\b|\berror:/i.test(line)) {
+    return "error";
+  }
+
+  if (/\bWARN(?:ING)?\b/i.test(line)) {
+    return "warn";
+  }
+
+  if (/\bINFO\b/.test(line)) {
+    return "info";
+  }
+
+  return /\b(?:DEBUG|TRACE)\b/.test(line) ? "debug" : undefined;
+}
+
+function tokenizeByLine(source: string, classify: (line: string) => TokenType | undefined): Token[] {
+  return source.split("\n").flatMap((line, index): Token[] => {
+    const lineToken: Token = { type: classify(line), text: line };
+    return index === 0 ? [lineToken] : [{ text: "\n" }, lineToken];
+  });
+}
+
+function tokenize(source: string, language: string): Token[] {
+  if (language === "diff") {
+    return tokenizeByLine(source, classifyDiffLine);
+  }
+
+  if (language === "log") {
+    return tokenizeByLine(source, classifyLogLine);
+  }
+
+  const syntax = LANGUAGE_SYNTAX[language];
+  return syntax ? tokenizeWithSyntax(source, syntax) : [{ text: source }];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// Returns one HTML fragment per source line. Tokens that span lines (block
+// comments, template strings) are split so every line is self-contained.
+export function highlightLines(source: string, language: string): string[] {
+  const lines: string[] = [""];
+  for (const token of tokenize(source.replace(/\r\n?/g, "\n"), language)) {
+    const parts = token.text.split("\n");
+    parts.forEach((part, index) => {
+      if (index > 0) {
+        lines.push("");
+      }
+
+      if (part.length === 0) {
+        return;
+      }
+
+      const escaped = escapeHtml(part);
+      lines[lines.length - 1] += token.type === undefined ? escaped : `<span class="tok-${token.type}">${escaped}</span>`;
+    });
+  }
+
+  // A trailing newline ends the last line rather than starting an empty one.
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+
+  return lines;
+}
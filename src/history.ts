@@ -0,0 +1,275 @@
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+
+import { type ShareRecord } from "./state.js";
+
+const HISTORY_RELATIVE_DIR = path.join(".tailserve", "history");
+const HISTORY_INDEX_NAME = "index.json";
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const DEFAULT_HISTORY_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type EditHistoryShare = Pick<ShareRecord, "git" | "historyLimit" | "historyMaxAgeMs"> & { path: string };
+
+export interface RevisionDetails {
+  summary: string;
+  author?: string;
+}
+
+export interface EditRevision {
+  rev: string;
+  time: string;
+  size: number | null;
+  author: string | null;
+  summary: string;
+}
+
+interface StoredRevision extends EditRevision {
+  digest: string;
+}
+
+// Revision numbers keep counting after old ones are pruned, so a number never
+// names two different revisions. `maxAgeMs` is the share's --history-max-age,
+// kept here so the history of a stopped share is pruned by it.
+interface HistoryIndex {
+  path: string;
+  nextRev: number;
+  maxAgeMs?: number;
+  revisions: StoredRevision[];
+}
+
+export function getHistoryDirectory(): string {
+  return path.join(homedir(), HISTORY_RELATIVE_DIR);
+}
+
+function getShareHistoryDirectory(shareId: string): string {
+  return path.join(getHistoryDirectory(), shareId);
+}
+
+function toDigest(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+function isStoredRevision(value: unknown): value is StoredRevision {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const revision = value as Record<string, unknown>;
+  return (
+    typeof revision.rev === "string" &&
+    /^\d+$/.test(revision.rev) &&
+    typeof revision.time === "string" &&
+    typeof revision.size === "number" &&
+    (revision.author === null || typeof revision.author === "string") &&
+    typeof revision.summary === "string" &&
+    typeof revision.digest === "string"
+  );
+}
+
+function readHistoryIndex(shareId: string): HistoryIndex | undefined {
+  try {
+    const parsed = JSON.parse(readFileSync(path.join(getShareHistoryDirectory(shareId), HISTORY_INDEX_NAME), "utf8")) as Record<string, unknown>;
+    if (typeof parsed.path !== "string" || typeof parsed.nextRev !== "number" || !Array.isArray(parsed.revisions)) {
+      return undefined;
+    }
+
+    return {
+      path: parsed.path,
+      nextRev: parsed.nextRev,
+      maxAgeMs: typeof parsed.maxAgeMs === "number" ? parsed.maxAgeMs : undefined,
+      revisions: parsed.revisions.filter(isStoredRevision),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function writeHistoryIndex(shareId: string, index: HistoryIndex): void {
+  const indexPath = path.join(getShareHistoryDirectory(shareId), HISTORY_INDEX_NAME);
+  const temporaryPath = `${indexPath}.tmp`;
+  writeFileSync(temporaryPath, `${JSON.stringify(index, null, 2)}\n`, "utf8");
+  renameSync(temporaryPath, indexPath);
+}
+
+function getRevisionPath(shareId: string, rev: string): string {
+  return path.join(getShareHistoryDirectory(shareId), `${rev}.gz`);
+}
+
+function appendRevision(shareId: string, index: HistoryIndex, content: string, details: RevisionDetails, nowMs: number): void {
+  const rev = String(index.nextRev);
+  writeFileSync(getRevisionPath(shareId, rev), gzipSync(Buffer.from(content, "utf8")));
+  index.nextRev += 1;
+  index.revisions.push({
+    rev,
+    time: new Date(nowMs).toISOString(),
+    size: Buffer.byteLength(content, "utf8"),
+    author: details.author ?? null,
+    summary: details.summary,
+    digest: toDigest(content),
+  });
+}
+
+// The newest revision is always kept, however old, so the history never loses
+// the last saved content.
+function pruneRevisions(shareId: string, index: HistoryIndex, limit: number, maxAgeMs: number, nowMs: number): void {
+  const newest = index.revisions.at(-1);
+  const kept = index.revisions
+    .slice(-limit)
+    .filter((revision) => revision === newest || nowMs - Date.parse(revision.time) <= maxAgeMs);
+  for (const revision of index.revisions) {
+    if (!kept.includes(revision)) {
+      rmSync(getRevisionPath(shareId, revision.rev), { force: true });
+    }
+  }
+
+  index.revisions = kept;
+}
+
+function runGit(filePath: string, args: string[]): string {
+  const result = spawnSync("git", args, { cwd: path.dirname(filePath), encoding: "utf8" });
+  if (result.error || result.status !== 0) {
+    const message = typeof result.stderr === "string" ? result.stderr.trim() : "";
+    throw new Error(message.length > 0 ? message : `git ${args[0]} failed`);
+  }
+
+  return result.stdout;
+}
+
+export function isInsideGitRepository(filePath: string): boolean {
+  try {
+    return runGit(filePath, ["rev-parse", "--is-inside-work-tree"]).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+function commitEditRevision(filePath: string, details: RevisionDetails): void {
+  const fileName = path.basename(filePath);
+  const summary = `${fileName}: ${details.summary.charAt(0).toLowerCase()}${details.summary.slice(1)}`;
+  runGit(filePath, ["add", "--", fileName]);
+  runGit(filePath, ["commit", "--quiet", "-m", details.author === undefined ? summary : `${summary} by ${details.author}`, "--", fileName]);
+}
+
+// Called after a save replaced `previous` with `content`. Content that reached
+// the file some other way (the original, or an agent editing on disk) is
+// stored first so a restore can bring it back.
+export function recordEditRevision(
+  shareId: string,
+  share: EditHistoryShare,
+  previous: string,
+  content: string,
+  details: RevisionDetails,
+  nowMs = Date.now(),
+): void {
+  if (share.git === true) {
+    if (previous !== content) {
+      commitEditRevision(share.path, details);
+    }
+    return;
+  }
+
+  const limit = share.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+  if (limit === 0) {
+    return;
+  }
+
+  mkdirSync(getShareHistoryDirectory(shareId), { recursive: true });
+  const index = readHistoryIndex(shareId) ?? { path: share.path, nextRev: 1, revisions: [] };
+  index.path = share.path;
+  index.maxAgeMs = share.historyMaxAgeMs ?? DEFAULT_HISTORY_MAX_AGE_MS;
+  const latestDigest = index.revisions.at(-1)?.digest;
+  if (latestDigest !== toDigest(previous) && previous !== content) {
+    appendRevision(shareId, index, previous, { summary: latestDigest === undefined ? "Original file" : "Changed on disk" }, nowMs);
+  }
+
+  if (index.revisions.at(-1)?.digest !== toDigest(content)) {
+    appendRevision(shareId, index, content, details, nowMs);
+  }
+
+  pruneRevisions(shareId, index, limit, index.maxAgeMs, nowMs);
+  writeHistoryIndex(shareId, index);
+}
+
+function listGitRevisions(filePath: string): EditRevision[] {
+  const output = runGit(filePath, ["log", `-n${DEFAULT_HISTORY_LIMIT}`, "--format=%h%x00%cI%x00%an%x00%s", "--", path.basename(filePath)]);
+  return output
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [rev, time, author, summary] = line.split("\0");
+      return { rev, time, size: null, author: author.length > 0 ? author : null, summary };
+    });
+}
+
+// Newest first.
+export function listEditRevisions(shareId: string, share: EditHistoryShare): EditRevision[] {
+  if (share.git === true) {
+    return listGitRevisions(share.path);
+  }
+
+  return (readHistoryIndex(shareId)?.revisions ?? [])
+    .map(({ digest: _digest, ...revision }) => revision)
+    .reverse();
+}
+
+export function readEditRevision(shareId: string, share: EditHistoryShare, rev: string): string {
+  if (share.git === true) {
+    if (!/^[0-9a-f]{4,40}$/.test(rev)) {
+      throw new Error(`Revision not found: ${rev}`);
+    }
+
+    try {
+      return runGit(share.path, ["show", `${rev}:./${path.basename(share.path)}`]);
+    } catch {
+      throw new Error(`Revision not found: ${rev}`);
+    }
+  }
+
+  if (!readHistoryIndex(shareId)?.revisions.some((revision) => revision.rev === rev)) {
+    throw new Error(`Revision not found: ${rev}`);
+  }
+
+  return gunzipSync(readFileSync(getRevisionPath(shareId, rev))).toString("utf8");
+}
+
+// History outlives its share so a stopped share can still be restored, until
+// pruneEditHistory removes it; this is the path it was recorded for.
+export function readHistoryPath(shareId: string): string | undefined {
+  return readHistoryIndex(shareId)?.path;
+}
+
+// The history of a stopped share is removed once its last save is older than
+// the share's --history-max-age (30 days by default), the same age after which
+// its revisions would have been dropped one by one.
+export function pruneEditHistory(activeShareIds: ReadonlySet<string>, nowMs = Date.now()): number {
+  let names: string[];
+  try {
+    names = readdirSync(getHistoryDirectory());
+  } catch {
+    return 0;
+  }
+
+  let removedCount = 0;
+  for (const name of names) {
+    if (activeShareIds.has(name)) {
+      continue;
+    }
+
+    const directory = path.join(getHistoryDirectory(), name);
+    try {
+      const maxAgeMs = readHistoryIndex(name)?.maxAgeMs ?? DEFAULT_HISTORY_MAX_AGE_MS;
+      if (nowMs - statSync(directory).mtimeMs > maxAgeMs) {
+        rmSync(directory, { recursive: true, force: true });
+        removedCount += 1;
+      }
+    } catch {
+      // Removed concurrently.
+    }
+  }
+
+  return removedCount;
+}
@@ -0,0 +1,513 @@
+import { randomBytes } from "node:crypto";
+import { appendFileSync, closeSync, linkSync, mkdirSync, openSync, readFileSync, unlinkSync, writeSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+
+import { formatByteSize } from "./listing.js";
+
+export const DEFAULT_INBOX_MAX_BYTES = 100 * 1024 * 1024;
+
+const INBOX_EVENTS_RELATIVE_DIR = path.join(".tailserve", "inbox");
+const MAX_PART_HEADER_BYTES = 16 * 1024;
+const MAX_UPLOAD_NAME_LENGTH = 200;
+const FALLBACK_UPLOAD_NAME = "upload";
+
+export interface InboxLimits {
+  directory: string;
+  maxBytes: number;
+  allowedExtensions?: string[];
+}
+
+export interface InboxUpload {
+  name: string;
+  path: string;
+  size: number;
+  receivedAt: string;
+}
+
+export interface InboxPageContext {
+  title: string;
+  uploadHref: string;
+  maxBytes: number;
+  allowedExtensions?: string[];
+}
+
+interface MultipartPartSink {
+  write(chunk: Buffer): void;
+  end(): void;
+}
+
+type MultipartState = "preamble" | "boundary" | "headers" | "body" | "done";
+
+export class InboxUploadError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(statusCode: number, code: string, message: string) {
+    super(message);
+    this.name = "InboxUploadError";
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// Keeps only the final path segment and strips anything that could escape the
+// inbox directory, hide the file, or trip up other filesystems.
+export function sanitizeUploadName(rawName: string): string {
+  const baseName = rawName.split(/[\\/]/).pop() ?? "";
+  let name = baseName
+    .normalize("NFC")
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .replace(/[<>:"|?*]/g, "_")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+
+  if (name.length > MAX_UPLOAD_NAME_LENGTH) {
+    const extension = path.extname(name).slice(0, 16);
+    name = `${name.slice(0, MAX_UPLOAD_NAME_LENGTH - extension.length)}${extension}`;
+  }
+
+  return name.length === 0 ? FALLBACK_UPLOAD_NAME : name;
+}
+
+export function isAllowedUploadName(name: string, allowedExtensions: string[] | undefined): boolean {
+  if (allowedExtensions === undefined || allowedExtensions.length === 0) {
+    return true;
+  }
+
+  return allowedExtensions.includes(path.extname(name).toLowerCase());
+}
+
+export function parseMultipartBoundary(contentType: string | undefined): string | undefined {
+  if (contentType === undefined || !/^multipart\/form-data\s*;/i.test(contentType)) {
+    return undefined;
+  }
+
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  const boundary = match?.[1] ?? match?.[2];
+  return boundary === undefined || boundary.length > 200 ? undefined : boundary;
+}
+
+export function parseContentDispositionFileName(header: string | undefined): string | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+
+  const params = new Map<string, string>();
+  for (const match of header.matchAll(/;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g)) {
+    params.set(match[1].toLowerCase(), match[2]?.replace(/\\(.)/g, "$1") ?? match[3]?.trim() ?? "");
+  }
+
+  const extended = params.get("filename*");
+  if (extended !== undefined) {
+    const encoded = /^utf-8''(.*)$/i.exec(extended)?.[1];
+    if (encoded !== undefined) {
+      try {
+        return decodeURIComponent(encoded);
+      } catch {
+        // Fall back to the plain filename parameter.
+      }
+    }
+  }
+
+  return params.get("filename");
+}
+
+// Streams one upload into a hidden temp file; nothing appears under its real
+// name until commit(), so agents watching the inbox never see partial files.
+export class InboxFileWriter {
+  readonly name: string;
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly tempPath: string;
+  private fd: number | undefined;
+  private size = 0;
+
+  constructor(limits: InboxLimits, rawName: string) {
+    const name = sanitizeUploadName(rawName);
+    if (!isAllowedUploadName(name, limits.allowedExtensions)) {
+      throw new InboxUploadError(415, "extension_not_allowed", `File type not allowed: ${name}`);
+    }
+
+    this.name = name;
+    this.directory = limits.directory;
+    this.maxBytes = limits.maxBytes;
+    this.tempPath = path.join(limits.directory, `.tailserve-upload-${randomBytes(8).toString("hex")}.part`);
+    this.fd = openSync(this.tempPath, "wx");
+  }
+
+  write(chunk: Buffer): void {
+    if (this.fd === undefined) {
+      return;
+    }
+
+    this.size += chunk.length;
+    if (this.size > this.maxBytes) {
+      throw new InboxUploadError(413, "too_large", `File exceeds the ${formatByteSize(this.maxBytes)} limit: ${this.name}`);
+    }
+
+    writeSync(this.fd, chunk);
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  commit(): InboxUpload {
+    this.close();
+    const extension = path.extname(this.name);
+    const stem = this.name.slice(0, this.name.length - extension.length);
+    for (let attempt = 0; ; attempt += 1) {
+      const candidate = path.join(this.directory, attempt === 0 ? this.name : `${stem} (${attempt})${extension}`);
+      try {
+        // link() fails instead of overwriting, so concurrent uploads of the same name never clobber each other.
+        linkSync(this.tempPath, candidate);
+      } catch (error: unknown) {
+        if (error instanceof Error && "code" in error && error.code === "EEXIST") {
+          continue;
+        }
+
+        throw error;
+      }
+
+      unlinkSync(this.tempPath);
+      return {
+        name: path.basename(candidate),
+        path: candidate,
+        size: this.size,
+        receivedAt: new Date().toISOString(),
+      };
+    }
+  }
+
+  abort(): void {
+    try {
+      this.close();
+    } catch {
+      // The temp file is removed below either way.
+    }
+
+    try {
+      unlinkSync(this.tempPath);
+    } catch {
+      return;
+    }
+  }
+}
+
+// Incremental multipart/form-data parser: part bodies are handed to their sink
+// as they arrive, so uploads are never buffered whole in memory.
+export class MultipartParser {
+  private readonly delimiter: Buffer;
+  private readonly onPart: (headers: Record<string, string>) => MultipartPartSink | undefined;
+  private buffer: Buffer;
+  private state: MultipartState = "preamble";
+  private sink: MultipartPartSink | undefined;
+
+  constructor(boundary: string, onPart: (headers: Record<string, string>) => MultipartPartSink | undefined) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    this.onPart = onPart;
+    // The leading CRLF lets the first boundary match the same delimiter as the rest.
+    this.buffer = Buffer.from("\r\n");
+  }
+
+  push(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    while (this.step()) {
+      // Keep consuming until more input is needed.
+    }
+  }
+
+  end(): void {
+    if (this.state !== "done") {
+      throw new InboxUploadError(400, "malformed_upload", "Multipart body ended before the closing boundary");
+    }
+  }
+
+  private step(): boolean {
+    if (this.state === "done") {
+      this.buffer = Buffer.alloc(0);
+      return false;
+    }
+
+    if (this.state === "boundary") {
+      if (this.buffer.length < 2) {
+        return false;
+      }
+
+      const suffix = this.buffer.subarray(0, 2).toString("latin1");
+      if (suffix === "--") {
+        this.state = "done";
+        return true;
+      }
+
+      if (suffix !== "\r\n") {
+        throw new InboxUploadError(400, "malformed_upload", "Malformed multipart boundary");
+      }
+
+      this.buffer = this.buffer.subarray(2);
+      this.state = "headers";
+      return true;
+    }
+
+    if (this.state === "headers") {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) {
+        if (this.buffer.length > MAX_PART_HEADER_BYTES) {
+          throw new InboxUploadError(400, "malformed_upload", "Multipart headers are too large");
+        }
+
+        return false;
+      }
+
+      const headers: Record<string, string> = {};
+      for (const line of this.buffer.subarray(0, headerEnd).toString("utf8").split("\r\n")) {
+        const separator = line.indexOf(":");
+        if (separator > 0) {
+          headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+        }
+      }
+
+      this.buffer = this.buffer.subarray(headerEnd + 4);
+      this.sink = this.onPart(headers);
+      this.state = "body";
+      return true;
+    }
+
+    const delimiterIndex = this.buffer.indexOf(this.delimiter);
+    if (delimiterIndex === -1) {
+      // Hold back enough bytes to recognise a delimiter split across chunks.
+      const safeLength = Math.max(0, this.buffer.length - (this.delimiter.length - 1));
+      if (this.state === "body" && safeLength > 0) {
+        this.sink?.write(this.buffer.subarray(0, safeLength));
+      }
+
+      this.buffer = this.buffer.subarray(safeLength);
+      return false;
+    }
+
+    if (this.state === "body") {
+      if (delimiterIndex > 0) {
+        this.sink?.write(this.buffer.subarray(0, delimiterIndex));
+      }
+
+      this.sink?.end();
+      this.sink = undefined;
+    }
+
+    this.buffer = this.buffer.subarray(delimiterIndex + this.delimiter.length);
+    this.state = "boundary";
+    return true;
+  }
+}
+
+function getInboxEventsPath(shareId: string): string {
+  return path.join(homedir(), INBOX_EVENTS_RELATIVE_DIR, `${shareId}.jsonl`);
+}
+
+export function appendInboxUploads(shareId: string, uploads: InboxUpload[]): void {
+  const eventsPath = getInboxEventsPath(shareId);
+  mkdirSync(path.dirname(eventsPath), { recursive: true });
+  appendFileSync(eventsPath, uploads.map((upload) => `${JSON.stringify(upload)}\n`).join(""), "utf8");
+}
+
+export function readInboxUploads(shareId: string, offset: number): { uploads: InboxUpload[]; offset: number } {
+  let contents: Buffer;
+  try {
+    contents = readFileSync(getInboxEventsPath(shareId));
+  } catch {
+    return { uploads: [], offset };
+  }
+
+  const lastNewline = contents.lastIndexOf("\n");
+  if (lastNewline < offset) {
+    return { uploads: [], offset };
+  }
+
+  const uploads = contents
+    .subarray(offset, lastNewline)
+    .toString("utf8")
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line) as InboxUpload);
+  return { uploads, offset: lastNewline + 1 };
+}
+
+export function renderInboxPage(context: InboxPageContext): string {
+  const limits = [`Up to ${formatByteSize(context.maxBytes)} per file`];
+  if (context.allowedExtensions !== undefined && context.allowedExtensions.length > 0) {
+    limits.push(`Accepted: ${context.allowedExtensions.join(", ")}`);
+  }
+
+  const accept = context.allowedExtensions?.join(",") ?? "";
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(context.title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    "    :root {",
+    "      color-scheme: light;",
+    "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+    "    }",
+    "    body {",
+    "      margin: 0;",
+    "      background: #f3f5fa;",
+    "      color: #0f172a;",
+    "    }",
+    "    main {",
+    "      box-sizing: border-box;",
+    "      width: min(640px, 100vw - 2rem);",
+    "      margin: 3rem auto;",
+    "      padding: 1.5rem;",
+    "      background: #ffffff;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 12px;",
+    "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+    "    }",
+    "    h1 {",
+    "      margin: 0 0 0.35rem;",
+    "      font-size: 1.25rem;",
+    "    }",
+    "    .limits {",
+    "      margin: 0 0 1rem;",
+    "      color: #475569;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    .dropzone {",
+    "      display: block;",
+    "      padding: 2rem 1rem;",
+    "      border: 2px dashed #94a3b8;",
+    "      border-radius: 10px;",
+    "      text-align: center;",
+    "      color: #475569;",
+    "      cursor: pointer;",
+    "    }",
+    "    .dropzone.active {",
+    "      border-color: #1d4ed8;",
+    "      background: #eff6ff;",
+    "    }",
+    "    .dropzone input {",
+    "      display: block;",
+    "      margin: 0.75rem auto 0;",
+    "    }",
+    "    button {",
+    "      margin-top: 1rem;",
+    "      padding: 0.55rem 1rem;",
+    "      border: 1px solid #1d4ed8;",
+    "      border-radius: 8px;",
+    "      background: #1d4ed8;",
+    "      color: #ffffff;",
+    "      font: inherit;",
+    "      cursor: pointer;",
+    "    }",
+    "    progress {",
+    "      display: block;",
+    "      width: 100%;",
+    "      margin-top: 1rem;",
+    "    }",
+    "    #status {",
+    "      margin-top: 0.75rem;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    #status .error {",
+    "      color: #b91c1c;",
+    "    }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    `    <h1>${escapeHtml(context.title)}</h1>`,
+    `    <p class="limits">${escapeHtml(limits.join(" · "))}</p>`,
+    `    <form id="upload-form" method="post" action="${escapeHtml(context.uploadHref)}" enctype="multipart/form-data">`,
+    "      <label class=\"dropzone\" id=\"dropzone\">",
+    "        Drop files here or choose them",
+    `        <input type="file" name="file" id="files" multiple${accept.length > 0 ? ` accept="${escapeHtml(accept)}"` : ""}>`,
+    "      </label>",
+    "      <button type=\"submit\">Upload</button>",
+    "    </form>",
+    "    <progress id=\"progress\" max=\"1\" value=\"0\" hidden></progress>",
+    "    <div id=\"status\" role=\"status\"></div>",
+    "  </main>",
+    "  <script>",
+    "    const form = document.getElementById(\"upload-form\");",
+    "    const input = document.getElementById(\"files\");",
+    "    const dropzone = document.getElementById(\"dropzone\");",
+    "    const progress = document.getElementById(\"progress\");",
+    "    const status = document.getElementById(\"status\");",
+    "    const showStatus = (message, isError) => {",
+    "      const line = document.createElement(\"div\");",
+    "      line.textContent = message;",
+    "      if (isError) {",
+    "        line.className = \"error\";",
+    "      }",
+    "      status.append(line);",
+    "    };",
+    "    for (const type of [\"dragenter\", \"dragover\"]) {",
+    "      dropzone.addEventListener(type, (event) => {",
+    "        event.preventDefault();",
+    "        dropzone.classList.add(\"active\");",
+    "      });",
+    "    }",
+    "    for (const type of [\"dragleave\", \"drop\"]) {",
+    "      dropzone.addEventListener(type, () => {",
+    "        dropzone.classList.remove(\"active\");",
+    "      });",
+    "    }",
+    "    dropzone.addEventListener(\"drop\", (event) => {",
+    "      event.preventDefault();",
+    "      input.files = event.dataTransfer.files;",
+    "    });",
+    "    form.addEventListener(\"submit\", (event) => {",
+    "      event.preventDefault();",
+    "      if (input.files.length === 0) {",
+    "        showStatus(\"Choose at least one file.\", true);",
+    "        return;",
+    "      }",
+    "      const request = new XMLHttpRequest();",
+    "      request.open(\"POST\", form.action);",
+    "      progress.hidden = false;",
+    "      request.upload.addEventListener(\"progress\", (progressEvent) => {",
+    "        if (progressEvent.lengthComputable) {",
+    "          progress.value = progressEvent.loaded / progressEvent.total;",
+    "        }",
+    "      });",
+    "      request.addEventListener(\"load\", () => {",
+    "        progress.hidden = true;",
+    "        let payload = {};",
+    "        try {",
+    "          payload = JSON.parse(request.responseText);",
+    "        } catch {}",
+    "        if (payload.ok) {",
+    "          for (const file of payload.files) {",
+    "            showStatus(`Uploaded ${file.name}`, false);",
+    "          }",
+    "          form.reset();",
+    "          return;",
+    "        }",
+    "        showStatus(payload.message || `Upload failed (${request.status})`, true);",
+    "      });",
+    "      request.addEventListener(\"error\", () => {",
+    "        progress.hidden = true;",
+    "        showStatus(\"Upload failed: connection lost\", true);",
+    "      });",
+    "      request.send(new FormData(form));",
+    "    });",
+    "  </script>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
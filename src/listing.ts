@@ -0,0 +1,398 @@
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+
+import { lookup as lookupMimeType } from "mime-types";
+
+import { renderMarkdown } from "./markdown.js";
+import { createShareUrlResolver } from "./preview.js";
+
+export type ListingSortKey = "name" | "size" | "mtime" | "type";
+export type ListingSortOrder = "asc" | "desc";
+
+export interface ListingSort {
+  key: ListingSortKey;
+  order: ListingSortOrder;
+}
+
+export interface DirectoryListingEntry {
+  name: string;
+  type: "dir" | "file";
+  size: number | null;
+  modified: string | null;
+  mimeType: string | null;
+  href: string;
+}
+
+export interface DirectoryListing {
+  routePrefix: string;
+  segments: string[];
+  title: string;
+  path: string;
+  parentHref?: string;
+  entries: DirectoryListingEntry[];
+  readme?: string;
+}
+
+export interface DirectoryListingOptions {
+  routePrefix: string;
+  shareRootPath: string;
+  directoryPath: string;
+  segments: string[];
+  sort: ListingSort;
+}
+
+const DEFAULT_LISTING_SORT: ListingSort = { key: "name", order: "asc" };
+const LISTING_SORT_KEYS: ReadonlyArray<ListingSortKey> = ["name", "size", "mtime", "type"];
+const README_MAX_BYTES = 512 * 1024;
+const SORT_COLUMNS: ReadonlyArray<{ key: ListingSortKey; label: string }> = [
+  { key: "name", label: "Name" },
+  { key: "size", label: "Size" },
+  { key: "mtime", label: "Modified" },
+  { key: "type", label: "Type" },
+];
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+export function buildRouteHref(routePrefix: string, segments: string[], isDirectory: boolean): string {
+  const encodedPath = segments.map((segment) => encodeURIComponent(segment)).join("/");
+  if (encodedPath.length === 0) {
+    return isDirectory ? `${routePrefix}/` : routePrefix;
+  }
+
+  return isDirectory ? `${routePrefix}/${encodedPath}/` : `${routePrefix}/${encodedPath}`;
+}
+
+export function isHiddenPathSegment(segment: string): boolean {
+  return segment.startsWith(".");
+}
+
+export function parseListingSort(searchParams: URLSearchParams): ListingSort {
+  const rawKey = searchParams.get("sort");
+  const key = LISTING_SORT_KEYS.find((candidate) => candidate === rawKey) ?? DEFAULT_LISTING_SORT.key;
+  const order: ListingSortOrder = searchParams.get("order") === "desc" ? "desc" : "asc";
+  return { key, order };
+}
+
+function compareNames(a: DirectoryListingEntry, b: DirectoryListingEntry): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: "base", numeric: true });
+}
+
+function compareEntries(a: DirectoryListingEntry, b: DirectoryListingEntry, key: ListingSortKey): number {
+  if (key === "size") {
+    return (a.size ?? -1) - (b.size ?? -1);
+  }
+
+  if (key === "mtime") {
+    return (a.modified ?? "").localeCompare(b.modified ?? "");
+  }
+
+  if (key === "type") {
+    return (a.mimeType ?? "").localeCompare(b.mimeType ?? "");
+  }
+
+  return compareNames(a, b);
+}
+
+function sortEntries(entries: DirectoryListingEntry[], sort: ListingSort): DirectoryListingEntry[] {
+  const direction = sort.order === "desc" ? -1 : 1;
+  // Directories stay above files whichever column is sorted; ties fall back
+  // to the name so the order is stable across refreshes.
+  return [...entries].sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === "dir" ? -1 : 1;
+    }
+
+    return direction * compareEntries(a, b, sort.key) || compareNames(a, b);
+  });
+}
+
+function readReadme(directoryPath: string, entries: DirectoryListingEntry[]): string | undefined {
+  const readme = entries.find((entry) => entry.type === "file" && entry.name.toLowerCase() === "readme.md");
+  if (!readme || readme.size === null || readme.size > README_MAX_BYTES) {
+    return undefined;
+  }
+
+  try {
+    return readFileSync(path.join(directoryPath, readme.name), "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export function readDirectoryListing(options: DirectoryListingOptions): DirectoryListing | undefined {
+  const { routePrefix, shareRootPath, directoryPath, segments } = options;
+  try {
+    const entries = readdirSync(directoryPath, { withFileTypes: true })
+      .filter((entry) => !isHiddenPathSegment(entry.name))
+      .map((entry): DirectoryListingEntry => {
+        let stats;
+        try {
+          stats = statSync(path.join(directoryPath, entry.name));
+        } catch {
+          stats = undefined;
+        }
+
+        const isDirectory = stats ? stats.isDirectory() : entry.isDirectory();
+        const mimeType = lookupMimeType(entry.name);
+        return {
+          name: entry.name,
+          type: isDirectory ? "dir" : "file",
+          size: isDirectory || !stats ? null : stats.size,
+          modified: stats ? stats.mtime.toISOString() : null,
+          mimeType: isDirectory ? null : typeof mimeType === "string" ? mimeType : "application/octet-stream",
+          href: buildRouteHref(routePrefix, [...segments, entry.name], isDirectory),
+        };
+      });
+
+    const rootName = path.basename(shareRootPath) || shareRootPath;
+    return {
+      routePrefix,
+      segments,
+      title: segments.length === 0 ? rootName : `${rootName}/${segments.join("/")}`,
+      path: segments.length === 0 ? "/" : `/${segments.join("/")}/`,
+      parentHref: segments.length > 0 ? buildRouteHref(routePrefix, segments.slice(0, -1), true) : undefined,
+      entries: sortEntries(entries, options.sort),
+      readme: readReadme(directoryPath, entries),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export function toDirectoryListingJson(listing: DirectoryListing, sort: ListingSort): string {
+  return JSON.stringify({
+    path: listing.path,
+    title: listing.title,
+    parent: listing.parentHref ?? null,
+    sort,
+    entries: listing.entries,
+  });
+}
+
+export function formatByteSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+
+  return `${Number.isInteger(value) ? value : value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+}
+
+function formatModified(modified: string | null): string {
+  if (modified === null) {
+    return "—";
+  }
+
+  return `<time datetime="${escapeHtml(modified)}">${escapeHtml(modified.slice(0, 16).replace("T", " "))}</time>`;
+}
+
+function buildSortHeader(directoryHref: string, column: { key: ListingSortKey; label: string }, sort: ListingSort): string {
+  const active = sort.key === column.key;
+  const nextOrder: ListingSortOrder = active && sort.order === "asc" ? "desc" : "asc";
+  const indicator = active ? (sort.order === "asc" ? " ▲" : " ▼") : "";
+  const ariaSort = active ? ` aria-sort="${sort.order === "asc" ? "ascending" : "descending"}"` : "";
+  const href = `${directoryHref}?sort=${column.key}&order=${nextOrder}`;
+  return `<th class="col-${column.key}"${ariaSort}><a href="${escapeHtml(href)}">${column.label}${indicator}</a></th>`;
+}
+
+export function renderDirectoryListingHtml(
+  listing: DirectoryListing,
+  directoryHref: string,
+  sort: ListingSort,
+  showArchiveLinks = false,
+): string {
+  const rows: string[] = [];
+  if (listing.parentHref !== undefined) {
+    rows.push(
+      `<tr class="entry entry-up"><td class="col-name" colspan="4"><a href="${escapeHtml(listing.parentHref)}">../</a></td></tr>`,
+    );
+  }
+
+  for (const entry of listing.entries) {
+    const displayName = entry.type === "dir" ? `${entry.name}/` : entry.name;
+    rows.push(
+      [
+        `<tr class="entry entry-${entry.type}" data-name="${escapeHtml(entry.name.toLowerCase())}">`,
+        `<td class="col-name"><a href="${escapeHtml(entry.href)}">${escapeHtml(displayName)}</a></td>`,
+        `<td class="col-size">${entry.size === null ? "—" : formatByteSize(entry.size)}</td>`,
+        `<td class="col-mtime">${formatModified(entry.modified)}</td>`,
+        `<td class="col-type">${escapeHtml(entry.mimeType ?? "directory")}</td>`,
+        "</tr>",
+      ].join(""),
+    );
+  }
+
+  const entryCountText = `${listing.entries.length} item${listing.entries.length === 1 ? "" : "s"}`;
+  const archiveLinks = showArchiveLinks
+    ? ` · <a class="download" href="${escapeHtml(`${directoryHref}?archive=zip`)}">Download all (.zip)</a> · <a class="download" href="${escapeHtml(`${directoryHref}?archive=tgz`)}">.tar.gz</a>`
+    : "";
+  const jsonLink = ` · <a class="download" href="${escapeHtml(`${directoryHref}?format=json`)}">JSON</a>`;
+  const readmeSection =
+    listing.readme === undefined
+      ? []
+      : [
+          "    <article class=\"readme\">",
+          "      <h2 class=\"readme-title\">README.md</h2>",
+          `      ${renderMarkdown(listing.readme, { resolveUrl: createShareUrlResolver(listing.routePrefix, listing.segments) }).html}`,
+          "    </article>",
+        ];
+
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>Index of ${escapeHtml(listing.title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    "    :root {",
+    "      color-scheme: light;",
+    "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+    "    }",
+    "    body {",
+    "      margin: 0;",
+    "      background: #f3f5fa;",
+    "      color: #0f172a;",
+    "    }",
+    "    main {",
+    "      box-sizing: border-box;",
+    "      width: min(960px, 100vw - 2rem);",
+    "      margin: 2rem auto;",
+    "      padding: 1.25rem;",
+    "      background: #ffffff;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 12px;",
+    "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+    "    }",
+    "    h1 {",
+    "      margin: 0;",
+    "      font-size: 1.25rem;",
+    "      line-height: 1.4;",
+    "      font-weight: 700;",
+    "    }",
+    "    .path {",
+    "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
+    "      font-size: 0.95em;",
+    "    }",
+    "    .meta {",
+    "      margin: 0.5rem 0 1rem;",
+    "      color: #475569;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    .filter {",
+    "      box-sizing: border-box;",
+    "      width: 100%;",
+    "      margin: 0 0 0.75rem;",
+    "      padding: 0.5rem 0.7rem;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 8px;",
+    "      font: inherit;",
+    "    }",
+    "    .entries {",
+    "      width: 100%;",
+    "      border-collapse: collapse;",
+    "      border: 1px solid #d7deea;",
+    "      font-size: 0.95rem;",
+    "    }",
+    "    .entries th {",
+    "      padding: 0.5rem 0.85rem;",
+    "      background: #f8fafc;",
+    "      text-align: left;",
+    "      font-weight: 600;",
+    "      color: #475569;",
+    "    }",
+    "    .entries th a {",
+    "      color: inherit;",
+    "      text-decoration: none;",
+    "    }",
+    "    .entries td {",
+    "      padding: 0.55rem 0.85rem;",
+    "      border-top: 1px solid #e2e8f0;",
+    "      white-space: nowrap;",
+    "    }",
+    "    .entries .col-name {",
+    "      width: 100%;",
+    "      white-space: normal;",
+    "      word-break: break-all;",
+    "    }",
+    "    .entries .col-size,",
+    "    .entries .col-mtime,",
+    "    .entries .col-type {",
+    "      color: #64748b;",
+    "    }",
+    "    .entries .col-size {",
+    "      text-align: right;",
+    "    }",
+    "    .entry a {",
+    "      color: inherit;",
+    "      text-decoration: none;",
+    "    }",
+    "    .entry:hover {",
+    "      background: #eff6ff;",
+    "    }",
+    "    .download {",
+    "      color: #1d4ed8;",
+    "    }",
+    "    .readme {",
+    "      margin-top: 1.5rem;",
+    "      padding-top: 0.5rem;",
+    "      border-top: 1px solid #d7deea;",
+    "      line-height: 1.6;",
+    "    }",
+    "    .readme-title {",
+    "      font-size: 0.85rem;",
+    "      color: #64748b;",
+    "      text-transform: uppercase;",
+    "      letter-spacing: 0.04em;",
+    "    }",
+    "    .readme pre {",
+    "      overflow-x: auto;",
+    "      padding: 0.75rem;",
+    "      background: #f8fafc;",
+    "      border-radius: 8px;",
+    "    }",
+    "    .readme img {",
+    "      max-width: 100%;",
+    "    }",
+    "    @media (max-width: 640px) {",
+    "      .entries .col-mtime,",
+    "      .entries .col-type {",
+    "        display: none;",
+    "      }",
+    "    }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    `    <h1>Index of <span class="path">${escapeHtml(listing.title)}</span></h1>`,
+    `    <p class="meta">${entryCountText}${archiveLinks}${jsonLink}</p>`,
+    "    <input class=\"filter\" id=\"filter\" type=\"search\" placeholder=\"Filter by name\" aria-label=\"Filter entries by name\" autocomplete=\"off\">",
+    "    <table class=\"entries\">",
+    `      <thead><tr>${SORT_COLUMNS.map((column) => buildSortHeader(directoryHref, column, sort)).join("")}</tr></thead>`,
+    `      <tbody>${rows.join("")}</tbody>`,
+    "    </table>",
+    ...readmeSection,
+    "  </main>",
+    "  <script>",
+    "    const filterInput = document.getElementById(\"filter\");",
+    "    filterInput.addEventListener(\"input\", () => {",
+    "      const query = filterInput.value.trim().toLowerCase();",
+    "      for (const row of document.querySelectorAll(\"tr[data-name]\")) {",
+    "        row.hidden = query.length > 0 && !row.dataset.name.includes(query);",
+    "      }",
+    "    });",
+    "  </script>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
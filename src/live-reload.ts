@@ -0,0 +1,190 @@
+import { type FSWatcher, watch } from "node:fs";
+import { type ServerResponse } from "node:http";
+import path from "node:path";
+
+// Hidden segments are never served from shares, so the endpoint cannot shadow a real file.
+export const LIVE_RELOAD_SEGMENT = ".tailserve-live";
+
+const LIVE_RELOAD_DEBOUNCE_MS = 150;
+const LIVE_RELOAD_HEARTBEAT_MS = 25_000;
+
+interface LiveReloadChannel {
+  watcher: FSWatcher;
+  clients: Set<ServerResponse>;
+  changedPaths: Set<string>;
+  timer?: NodeJS.Timeout;
+}
+
+export function isLiveReloadPath(segments: string[]): boolean {
+  return segments.length === 1 && segments[0] === LIVE_RELOAD_SEGMENT;
+}
+
+export function toLiveReloadHref(routePrefix: string): string {
+  return `${routePrefix}/${LIVE_RELOAD_SEGMENT}`;
+}
+
+export function renderLiveReloadScript(endpoint: string): string {
+  return [
+    "<script>",
+    "(() => {",
+    `  const source = new EventSource(${JSON.stringify(endpoint)});`,
+    "  source.addEventListener(\"reload\", () => {",
+    "    location.reload();",
+    "  });",
+    "  source.addEventListener(\"css\", () => {",
+    "    for (const link of document.querySelectorAll('link[rel=\"stylesheet\"]')) {",
+    "      const url = new URL(link.href);",
+    "      url.searchParams.set(\"tailserve-live\", String(Date.now()));",
+    "      link.href = url.href;",
+    "    }",
+    "  });",
+    "})();",
+    "</script>",
+  ].join("\n");
+}
+
+export function injectLiveReloadScript(html: string, endpoint: string): string {
+  const script = renderLiveReloadScript(endpoint);
+  const bodyEnd = html.toLowerCase().lastIndexOf("</body>");
+  if (bodyEnd === -1) {
+    return `${html}\n${script}\n`;
+  }
+
+  return `${html.slice(0, bodyEnd)}${script}\n${html.slice(bodyEnd)}`;
+}
+
+function isHiddenChange(relativePath: string): boolean {
+  return relativePath.split(/[\\/]/).some((segment) => segment.startsWith("."));
+}
+
+function writeEvent(response: ServerResponse, event: string, data: unknown): void {
+  response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// One fs.watch per watched route, shared by every open tab and torn down
+// once the last tab disconnects or the route goes away.
+export class LiveReloadHub {
+  private readonly channels = new Map<string, LiveReloadChannel>();
+  private readonly heartbeat: NodeJS.Timeout;
+
+  constructor() {
+    this.heartbeat = setInterval(() => {
+      for (const channel of this.channels.values()) {
+        for (const client of channel.clients) {
+          client.write(": ping\n\n");
+        }
+      }
+    }, LIVE_RELOAD_HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  subscribe(key: string, watchPath: string, isDirectory: boolean, response: ServerResponse): boolean {
+    let channel = this.channels.get(key);
+    if (!channel) {
+      try {
+        channel = this.openChannel(key, watchPath, isDirectory);
+      } catch {
+        return false;
+      }
+
+      this.channels.set(key, channel);
+    }
+
+    response.statusCode = 200;
+    response.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    response.setHeader("Cache-Control", "no-store");
+    response.setHeader("Connection", "keep-alive");
+    response.write("retry: 1000\n\n");
+
+    const activeChannel = channel;
+    activeChannel.clients.add(response);
+    response.on("close", () => {
+      activeChannel.clients.delete(response);
+      if (activeChannel.clients.size === 0 && this.channels.get(key) === activeChannel) {
+        this.close(key);
+      }
+    });
+    return true;
+  }
+
+  keys(): string[] {
+    return [...this.channels.keys()];
+  }
+
+  close(key: string): void {
+    const channel = this.channels.get(key);
+    if (!channel) {
+      return;
+    }
+
+    this.channels.delete(key);
+    clearTimeout(channel.timer);
+    channel.watcher.close();
+    for (const client of channel.clients) {
+      client.end();
+    }
+    channel.clients.clear();
+  }
+
+  prune(activeKeys: Set<string>): void {
+    for (const key of this.keys()) {
+      if (!activeKeys.has(key)) {
+        this.close(key);
+      }
+    }
+  }
+
+  closeAll(): void {
+    clearInterval(this.heartbeat);
+    for (const key of this.keys()) {
+      this.close(key);
+    }
+  }
+
+  private openChannel(key: string, watchPath: string, isDirectory: boolean): LiveReloadChannel {
+    // Editors often replace a file by renaming over it, so single files are
+    // watched through their parent directory.
+    const directory = isDirectory ? watchPath : path.dirname(watchPath);
+    const fileName = isDirectory ? undefined : path.basename(watchPath);
+    const watcher = watch(directory, { recursive: isDirectory, persistent: false }, (_eventType, changed) => {
+      const relativePath = changed === null ? "" : changed.toString();
+      if (fileName !== undefined && relativePath !== fileName) {
+        return;
+      }
+
+      if (isDirectory && isHiddenChange(relativePath)) {
+        return;
+      }
+
+      this.queueChange(key, relativePath);
+    });
+    watcher.on("error", () => {
+      this.close(key);
+    });
+
+    return {
+      watcher,
+      clients: new Set(),
+      changedPaths: new Set(),
+    };
+  }
+
+  private queueChange(key: string, relativePath: string): void {
+    const channel = this.channels.get(key);
+    if (!channel) {
+      return;
+    }
+
+    channel.changedPaths.add(relativePath);
+    clearTimeout(channel.timer);
+    channel.timer = setTimeout(() => {
+      const changedPaths = [...channel.changedPaths];
+      channel.changedPaths.clear();
+      channel.timer = undefined;
+      const cssOnly = changedPaths.every((changedPath) => path.extname(changedPath).toLowerCase() === ".css");
+      for (const client of channel.clients) {
+        writeEvent(client, cssOnly ? "css" : "reload", { paths: changedPaths });
+      }
+    }, LIVE_RELOAD_DEBOUNCE_MS);
+  }
+}
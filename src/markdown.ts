@@ -0,0 +1,398 @@
+export interface MarkdownHeading {
+  level: number;
+  id: string;
+  text: string;
+}
+
+export interface MarkdownRenderOptions {
+  // Rewrites link and image targets, e.g. to anchor relative paths to a share.
+  resolveUrl?: (url: string) => string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  headings: MarkdownHeading[];
+}
+
+const TOKEN_MARKER = "\u0000";
+const SAFE_URL_SCHEMES = new Set(["http:", "https:", "mailto:"]);
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function sanitizeUrl(rawUrl: string, options: MarkdownRenderOptions): string {
+  const url = rawUrl.trim();
+  const scheme = /^([a-z][a-z0-9+.-]*:)/i.exec(url)?.[1]?.toLowerCase();
+  if (scheme !== undefined && !SAFE_URL_SCHEMES.has(scheme)) {
+    return "#";
+  }
+
+  if (scheme !== undefined || options.resolveUrl === undefined) {
+    return url;
+  }
+
+  // The URL arrives HTML-escaped; resolve the real value, then escape again.
+  const unescaped = url.replaceAll("&amp;", "&").replaceAll("&quot;", "\"").replaceAll("&#39;", "'");
+  return escapeHtml(options.resolveUrl(unescaped));
+}
+
+function toSlug(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, "")
+    .replace(/&[a-z0-9#]+;/g, "")
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-");
+  return slug.length > 0 ? slug : "section";
+}
+
+class InlineTokens {
+  private readonly values: string[] = [];
+
+  add(html: string): string {
+    this.values.push(html);
+    return `${TOKEN_MARKER}${this.values.length - 1}${TOKEN_MARKER}`;
+  }
+
+  restore(text: string): string {
+    let restored = text;
+    // Tokens can nest (code inside link text), so keep expanding until none remain.
+    while (restored.includes(TOKEN_MARKER)) {
+      restored = restored.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => this.values[Number(index)] ?? "");
+    }
+
+    return restored;
+  }
+}
+
+function renderEmphasis(text: string): string {
+  return text
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, "<em>$1</em>")
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>");
+}
+
+function renderInline(source: string, options: MarkdownRenderOptions): string {
+  const tokens = new InlineTokens();
+  let text = source.replaceAll(TOKEN_MARKER, "");
+
+  text = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_match, _fence: string, code: string) => {
+    return tokens.add(`<code>${escapeHtml(code.trim())}</code>`);
+  });
+  text = text.replace(/\\([!-/:-@[-`{-~])/g, (_match, character: string) => tokens.add(escapeHtml(character)));
+  text = escapeHtml(text);
+
+  text = text.replace(/!\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+&quot;([^)]*?)&quot;)?\s*\)/g, (_match, alt: string, src: string, title?: string) => {
+    const titleAttribute = title === undefined ? "" : ` title="${title}"`;
+    return tokens.add(`<img src="${sanitizeUrl(src, options)}" alt="${alt}"${titleAttribute}>`);
+  });
+  text = text.replace(/\[([^\]]+)\]\(\s*([^\s)]*)(?:\s+&quot;([^)]*?)&quot;)?\s*\)/g, (_match, label: string, href: string, title?: string) => {
+    const titleAttribute = title === undefined ? "" : ` title="${title}"`;
+    return tokens.add(`<a href="${sanitizeUrl(href, options)}"${titleAttribute}>${renderEmphasis(label)}</a>`);
+  });
+  text = text.replace(/&lt;((?:https?:\/\/|mailto:)[^\s&]+)&gt;/g, (_match, url: string) => {
+    return tokens.add(`<a href="${url}">${url}</a>`);
+  });
+  text = text.replace(/\bhttps?:\/\/[^\s<\u0000]*[^\s<\u0000.,:;"')\]]/g, (url) => tokens.add(`<a href="${url}">${url}</a>`));
+
+  text = renderEmphasis(text);
+  text = text.replace(/(?: {2,}|\\)\n/g, "<br>\n");
+  return tokens.restore(text);
+}
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  start: number;
+  contentIndent: number;
+  content: string;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function parseListMarker(line: string): ListMarker | undefined {
+  const match = /^(\s*)([-*+]|(\d{1,9})[.)])(\s+)(.*)$/.exec(line);
+  if (!match) {
+    return undefined;
+  }
+
+  const indent = match[1].length;
+  return {
+    indent,
+    ordered: match[3] !== undefined,
+    start: match[3] === undefined ? 1 : Number.parseInt(match[3], 10),
+    contentIndent: indent + match[2].length + Math.min(match[4].length, 4),
+    content: match[5],
+  };
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+function toTableAlignment(cell: string): string {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  if (left && right) {
+    return " style=\"text-align: center\"";
+  }
+
+  if (right) {
+    return " style=\"text-align: right\"";
+  }
+
+  return left ? " style=\"text-align: left\"" : "";
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  const header = lines[index] ?? "";
+  const delimiter = lines[index + 1] ?? "";
+  return header.includes("|") && delimiter.includes("-") && TABLE_DELIMITER_PATTERN.test(delimiter);
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index] ?? "";
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    parseListMarker(line) !== undefined ||
+    isTableStart(lines, index)
+  );
+}
+
+class BlockRenderer {
+  public readonly headings: MarkdownHeading[] = [];
+  private readonly usedSlugs = new Map<string, number>();
+  private readonly options: MarkdownRenderOptions;
+
+  constructor(options: MarkdownRenderOptions) {
+    this.options = options;
+  }
+
+  render(lines: string[]): string {
+    const output: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      const line = lines[index] ?? "";
+      if (isBlank(line)) {
+        index += 1;
+        continue;
+      }
+
+      const fence = FENCE_PATTERN.exec(line);
+      if (fence) {
+        const marker = fence[1];
+        const language = fence[2];
+        const codeLines: string[] = [];
+        index += 1;
+        while (index < lines.length && !(lines[index] ?? "").trim().startsWith(marker)) {
+          codeLines.push(lines[index] ?? "");
+          index += 1;
+        }
+
+        index += 1;
+        const languageClass = language.length > 0 ? ` class="language-${escapeHtml(language)}"` : "";
+        output.push(`<pre><code${languageClass}>${escapeHtml(codeLines.join("\n"))}</code></pre>`);
+        continue;
+      }
+
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading) {
+        output.push(this.renderHeading(heading[1].length, heading[2] ?? ""));
+        index += 1;
+        continue;
+      }
+
+      if (RULE_PATTERN.test(line)) {
+        output.push("<hr>");
+        index += 1;
+        continue;
+      }
+
+      if (QUOTE_PATTERN.test(line)) {
+        const quoted: string[] = [];
+        while (index < lines.length && !isBlank(lines[index] ?? "")) {
+          const current = lines[index] ?? "";
+          quoted.push(QUOTE_PATTERN.exec(current)?.[1] ?? current);
+          index += 1;
+        }
+
+        output.push(`<blockquote>\n${this.render(quoted)}\n</blockquote>`);
+        continue;
+      }
+
+      if (parseListMarker(line)) {
+        index = this.renderList(lines, index, output);
+        continue;
+      }
+
+      if (isTableStart(lines, index)) {
+        index = this.renderTable(lines, index, output);
+        continue;
+      }
+
+      const paragraph: string[] = [line.trim()];
+      index += 1;
+      while (index < lines.length && !isBlank(lines[index] ?? "") && !startsBlock(lines, index)) {
+        paragraph.push((lines[index] ?? "").trim());
+        index += 1;
+      }
+
+      const underline = lines[index] ?? "";
+      if (/^ {0,3}=+\s*$/.test(underline) || /^ {0,3}-+\s*$/.test(underline)) {
+        output.push(this.renderHeading(underline.trim().startsWith("=") ? 1 : 2, paragraph.join(" ")));
+        index += 1;
+        continue;
+      }
+
+      output.push(`<p>${renderInline(paragraph.join("\n"), this.options)}</p>`);
+    }
+
+    return output.join("\n");
+  }
+
+  private renderHeading(level: number, text: string): string {
+    const html = renderInline(text.trim(), this.options);
+    const baseSlug = toSlug(html);
+    const seen = this.usedSlugs.get(baseSlug) ?? 0;
+    this.usedSlugs.set(baseSlug, seen + 1);
+    const slug = seen === 0 ? baseSlug : `${baseSlug}-${seen}`;
+    this.headings.push({
+      level,
+      id: slug,
+      text: html.replace(/<[^>]*>/g, ""),
+    });
+    return `<h${level} id="${escapeHtml(slug)}">${html}</h${level}>`;
+  }
+
+  private renderList(lines: string[], startIndex: number, output: string[]): number {
+    const first = parseListMarker(lines[startIndex] ?? "");
+    if (!first) {
+      return startIndex + 1;
+    }
+
+    const items: string[][] = [];
+    let loose = false;
+    let index = startIndex;
+
+    while (index < lines.length) {
+      const marker = parseListMarker(lines[index] ?? "");
+      if (!marker || marker.ordered !== first.ordered || marker.indent >= first.contentIndent) {
+        break;
+      }
+
+      const itemLines = [marker.content];
+      index += 1;
+      while (index < lines.length) {
+        const current = lines[index] ?? "";
+        if (isBlank(current)) {
+          const next = lines[index + 1] ?? "";
+          const indent = next.length - next.trimStart().length;
+          if (isBlank(next) || indent < first.contentIndent) {
+            break;
+          }
+
+          loose = true;
+          itemLines.push("");
+          index += 1;
+          continue;
+        }
+
+        const indent = current.length - current.trimStart().length;
+        if (indent >= first.contentIndent) {
+          itemLines.push(current.slice(first.contentIndent));
+          index += 1;
+          continue;
+        }
+
+        if (parseListMarker(current) || startsBlock(lines, index)) {
+          break;
+        }
+
+        itemLines.push(current.trim());
+        index += 1;
+      }
+
+      items.push(itemLines);
+      const blankFollows = isBlank(lines[index] ?? "");
+      const nextMarker = parseListMarker(lines[index + 1] ?? "");
+      if (blankFollows && nextMarker && nextMarker.ordered === first.ordered && nextMarker.indent < first.contentIndent) {
+        loose = true;
+        index += 1;
+      }
+    }
+
+    const tag = first.ordered ? "ol" : "ul";
+    const startAttribute = first.ordered && first.start !== 1 ? ` start="${first.start}"` : "";
+    const renderedItems = items.map((itemLines) => {
+      const task = /^\[([ xX])\]\s+/.exec(itemLines[0] ?? "");
+      if (task) {
+        itemLines[0] = (itemLines[0] ?? "").slice(task[0].length);
+      }
+
+      let body = this.render(itemLines);
+      if (!loose) {
+        body = body.replace(/^<p>([\s\S]*?)<\/p>/, "$1");
+      }
+
+      const checkbox = task ? `<input type="checkbox" disabled${task[1] === " " ? "" : " checked"}> ` : "";
+      return `<li${task ? " class=\"task\"" : ""}>${checkbox}${body}</li>`;
+    });
+
+    output.push(`<${tag}${startAttribute}>\n${renderedItems.join("\n")}\n</${tag}>`);
+    return index;
+  }
+
+  private renderTable(lines: string[], startIndex: number, output: string[]): number {
+    const headerCells = splitTableRow(lines[startIndex] ?? "");
+    const alignments = splitTableRow(lines[startIndex + 1] ?? "").map(toTableAlignment);
+    const rows: string[] = [];
+    let index = startIndex + 2;
+
+    while (index < lines.length && !isBlank(lines[index] ?? "") && (lines[index] ?? "").includes("|")) {
+      const cells = splitTableRow(lines[index] ?? "");
+      const renderedCells = headerCells.map((_header, column) => {
+        return `<td${alignments[column] ?? ""}>${renderInline(cells[column] ?? "", this.options)}</td>`;
+      });
+      rows.push(`<tr>${renderedCells.join("")}</tr>`);
+      index += 1;
+    }
+
+    const headerRow = headerCells.map((cell, column) => `<th${alignments[column] ?? ""}>${renderInline(cell, this.options)}</th>`).join("");
+    output.push(`<table>\n<thead><tr>${headerRow}</tr></thead>\n<tbody>${rows.join("\n")}</tbody>\n</table>`);
+    return index;
+  }
+}
+
+// Raw HTML in the source is escaped rather than passed through: shared
+// Markdown is rendered on the share's origin, so it must not carry script.
+export function renderMarkdown(source: string, options: MarkdownRenderOptions = {}): RenderedMarkdown {
+  const lines = source.replace(/\r\n?/g, "\n").replaceAll("\t", "    ").split("\n");
+  const renderer = new BlockRenderer(options);
+  const html = renderer.render(lines);
+  return {
+    html,
+    headings: renderer.headings,
+  };
+}
@@ -0,0 +1,76 @@
+import { type IncomingHttpHeaders } from "node:http";
+
+import { type TailserveState } from "./state.js";
+
+export type RequestOrigin = "local" | "tailnet" | "funnel" | "quick-tunnel" | "named-tunnel" | "remote";
+
+export function readSingleHeader(headers: IncomingHttpHeaders | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  const single = Array.isArray(value) ? value[0] : value;
+  return typeof single === "string" && single.trim().length > 0 ? single.trim() : undefined;
+}
+
+export function toRequestHostname(headers: IncomingHttpHeaders | undefined): string | undefined {
+  const host = readSingleHeader(headers, "x-forwarded-host") ?? readSingleHeader(headers, "host");
+  if (host === undefined) {
+    return undefined;
+  }
+
+  try {
+    return new URL(`http://${host.split(",")[0].trim()}`).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+// Browsers send Origin with every WebSocket handshake, so a page on another
+// site could otherwise open a socket carrying the viewer's tailnet identity.
+// Clients without the header are not browsers and are let through.
+export function isSameOriginRequest(headers: IncomingHttpHeaders | undefined): boolean {
+  const origin = readSingleHeader(headers, "origin");
+  if (origin === undefined) {
+    return true;
+  }
+
+  try {
+    return new URL(origin).hostname.toLowerCase() === toRequestHostname(headers);
+  } catch {
+    return false;
+  }
+}
+
+function isLoopbackAddress(address: string): boolean {
+  return address === "::1" || address.startsWith("127.") || address.startsWith("::ffff:127.");
+}
+
+// The server only listens on loopback, so every request is relayed by
+// tailscale serve, tailscale funnel or cloudflared. Each relay marks its
+// requests; an internet client can add these headers but never remove them.
+export function classifyRequestOrigin(
+  headers: IncomingHttpHeaders | undefined,
+  state: Pick<TailserveState, "namedTunnel">,
+  remoteAddress?: string,
+): RequestOrigin {
+  if (remoteAddress !== undefined && !isLoopbackAddress(remoteAddress)) {
+    return "remote";
+  }
+
+  if (readSingleHeader(headers, "tailscale-funnel-request") !== undefined) {
+    return "funnel";
+  }
+
+  if (readSingleHeader(headers, "cf-ray") !== undefined || readSingleHeader(headers, "cf-connecting-ip") !== undefined) {
+    const namedHostname = state.namedTunnel?.hostname.toLowerCase();
+    return namedHostname !== undefined && toRequestHostname(headers) === namedHostname ? "named-tunnel" : "quick-tunnel";
+  }
+
+  if (readSingleHeader(headers, "tailscale-user-login") !== undefined || readSingleHeader(headers, "x-forwarded-for") !== undefined) {
+    return "tailnet";
+  }
+
+  return "local";
+}
+
+export function isInternetOrigin(origin: RequestOrigin): boolean {
+  return origin === "funnel" || origin === "quick-tunnel" || origin === "named-tunnel" || origin === "remote";
+}
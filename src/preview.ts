@@ -0,0 +1,439 @@
+import path from "node:path";
+
+import { highlightLines } from "./highlight.js";
+import { type MarkdownHeading, renderMarkdown } from "./markdown.js";
+
+export interface MarkdownPreviewContext {
+  title: string;
+  source: string;
+  routePrefix: string;
+  // Route segments of the directory holding the document, relative to the share root.
+  baseSegments: string[];
+  rawHref: string;
+}
+
+export interface CodePreviewContext {
+  title: string;
+  fileName: string;
+  source: string;
+  language: string;
+  rawHref: string;
+}
+
+const MARKDOWN_EXTENSIONS = new Set([".md", ".mdx"]);
+const TOC_MAX_LEVEL = 3;
+
+export const MARKDOWN_PREVIEW_MAX_BYTES = 2 * 1024 * 1024;
+export const CODE_PREVIEW_MAX_BYTES = 1024 * 1024;
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+export function isMarkdownPath(filePath: string): boolean {
+  return MARKDOWN_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+// Resolves document-relative and root-relative URLs to share routes. ".."
+// segments stop at the share root, so links cannot walk out of the share.
+export function createShareUrlResolver(routePrefix: string, baseSegments: string[]): (url: string) => string {
+  return (url) => {
+    if (url.length === 0 || url.startsWith("#") || url.startsWith("//")) {
+      return url;
+    }
+
+    const suffixIndex = url.search(/[?#]/);
+    const pathPart = suffixIndex === -1 ? url : url.slice(0, suffixIndex);
+    const suffix = suffixIndex === -1 ? "" : url.slice(suffixIndex);
+    if (pathPart.length === 0) {
+      return url;
+    }
+
+    const segments: string[] = [];
+    for (const segment of [...(pathPart.startsWith("/") ? [] : baseSegments), ...pathPart.split("/")]) {
+      if (segment.length === 0 || segment === ".") {
+        continue;
+      }
+
+      if (segment === "..") {
+        segments.pop();
+        continue;
+      }
+
+      segments.push(segment);
+    }
+
+    const trailingSlash = pathPart.endsWith("/") && segments.length > 0 ? "/" : "";
+    return `${routePrefix}/${segments.join("/")}${trailingSlash}${suffix}`;
+  };
+}
+
+function buildTableOfContents(headings: MarkdownHeading[]): string[] {
+  const entries = headings.filter((heading) => heading.level <= TOC_MAX_LEVEL);
+  if (entries.length < 2) {
+    return [];
+  }
+
+  const minLevel = Math.min(...entries.map((heading) => heading.level));
+  const items = entries.map((heading) => {
+    return `<li class="toc-level-${heading.level - minLevel + 1}"><a href="#${escapeHtml(heading.id)}">${escapeHtml(heading.text)}</a></li>`;
+  });
+
+  return [
+    "    <nav class=\"toc\" aria-label=\"Table of contents\">",
+    "      <p class=\"toc-title\">Contents</p>",
+    `      <ul>${items.join("")}</ul>`,
+    "    </nav>",
+  ];
+}
+
+export function renderMarkdownPreview(context: MarkdownPreviewContext): string {
+  const { html, headings } = renderMarkdown(context.source, {
+    resolveUrl: createShareUrlResolver(context.routePrefix, context.baseSegments),
+  });
+
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(context.title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    "    :root {",
+    "      color-scheme: light;",
+    "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+    "    }",
+    "    body {",
+    "      margin: 0;",
+    "      background: #f3f5fa;",
+    "      color: #0f172a;",
+    "    }",
+    "    main {",
+    "      box-sizing: border-box;",
+    "      width: min(960px, 100vw - 2rem);",
+    "      margin: 2rem auto;",
+    "      padding: 1.25rem 1.5rem;",
+    "      background: #ffffff;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 12px;",
+    "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+    "    }",
+    "    .doc-header {",
+    "      display: flex;",
+    "      justify-content: space-between;",
+    "      align-items: baseline;",
+    "      gap: 1rem;",
+    "      padding-bottom: 0.75rem;",
+    "      border-bottom: 1px solid #e2e8f0;",
+    "    }",
+    "    .path {",
+    "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
+    "      font-size: 0.95rem;",
+    "      font-weight: 600;",
+    "      word-break: break-all;",
+    "    }",
+    "    .download {",
+    "      color: #1d4ed8;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    .toc {",
+    "      margin: 1rem 0;",
+    "      padding: 0.75rem 1rem;",
+    "      background: #f8fafc;",
+    "      border: 1px solid #e2e8f0;",
+    "      border-radius: 10px;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    .toc-title {",
+    "      margin: 0 0 0.35rem;",
+    "      color: #64748b;",
+    "      font-size: 0.8rem;",
+    "      text-transform: uppercase;",
+    "      letter-spacing: 0.04em;",
+    "    }",
+    "    .toc ul {",
+    "      margin: 0;",
+    "      padding: 0;",
+    "      list-style: none;",
+    "    }",
+    "    .toc a {",
+    "      color: #1d4ed8;",
+    "      text-decoration: none;",
+    "    }",
+    "    .toc-level-2 {",
+    "      padding-left: 1rem;",
+    "    }",
+    "    .toc-level-3 {",
+    "      padding-left: 2rem;",
+    "    }",
+    "    .markdown-body {",
+    "      line-height: 1.65;",
+    "    }",
+    "    .markdown-body a {",
+    "      color: #1d4ed8;",
+    "    }",
+    "    .markdown-body h1,",
+    "    .markdown-body h2 {",
+    "      padding-bottom: 0.3rem;",
+    "      border-bottom: 1px solid #e2e8f0;",
+    "    }",
+    "    .markdown-body code {",
+    "      padding: 0.1rem 0.3rem;",
+    "      background: #f1f5f9;",
+    "      border-radius: 4px;",
+    "      font-size: 0.9em;",
+    "    }",
+    "    .markdown-body pre {",
+    "      overflow-x: auto;",
+    "      padding: 0.75rem;",
+    "      background: #f8fafc;",
+    "      border: 1px solid #e2e8f0;",
+    "      border-radius: 8px;",
+    "    }",
+    "    .markdown-body pre code {",
+    "      padding: 0;",
+    "      background: none;",
+    "    }",
+    "    .markdown-body blockquote {",
+    "      margin: 0;",
+    "      padding: 0 1rem;",
+    "      color: #475569;",
+    "      border-left: 3px solid #d7deea;",
+    "    }",
+    "    .markdown-body table {",
+    "      border-collapse: collapse;",
+    "    }",
+    "    .markdown-body th,",
+    "    .markdown-body td {",
+    "      padding: 0.4rem 0.7rem;",
+    "      border: 1px solid #d7deea;",
+    "    }",
+    "    .markdown-body img {",
+    "      max-width: 100%;",
+    "    }",
+    "    .markdown-body .task {",
+    "      list-style: none;",
+    "    }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    "    <header class=\"doc-header\">",
+    `      <span class="path">${escapeHtml(context.title)}</span>`,
+    `      <a class="download" href="${escapeHtml(context.rawHref)}">Raw</a>`,
+    "    </header>",
+    ...buildTableOfContents(headings),
+    "    <article class=\"markdown-body\">",
+    html,
+    "    </article>",
+    "  </main>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+export function renderCodePreview(context: CodePreviewContext): string {
+  const lines = highlightLines(context.source, context.language);
+  const renderedLines = lines.map((line, index) => {
+    const lineNumber = index + 1;
+    return `<div class="line" id="L${lineNumber}"><a class="ln" href="#L${lineNumber}" data-line="${lineNumber}">${lineNumber}</a><span class="lc">${line}</span></div>`;
+  });
+  const lineCountText = `${lines.length} line${lines.length === 1 ? "" : "s"}`;
+
+  return [
+    "<!doctype html>",
+    "<html lang=\"en\">",
+    "<head>",
+    "  <meta charset=\"utf-8\">",
+    `  <title>${escapeHtml(context.title)}</title>`,
+    "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
+    "  <style>",
+    "    :root {",
+    "      color-scheme: light;",
+    "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
+    "    }",
+    "    body {",
+    "      margin: 0;",
+    "      background: #f3f5fa;",
+    "      color: #0f172a;",
+    "    }",
+    "    main {",
+    "      box-sizing: border-box;",
+    "      width: min(1200px, 100vw - 2rem);",
+    "      margin: 2rem auto;",
+    "      background: #ffffff;",
+    "      border: 1px solid #d7deea;",
+    "      border-radius: 12px;",
+    "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
+    "      overflow: hidden;",
+    "    }",
+    "    .doc-header {",
+    "      display: flex;",
+    "      flex-wrap: wrap;",
+    "      justify-content: space-between;",
+    "      align-items: baseline;",
+    "      gap: 0.5rem 1rem;",
+    "      padding: 0.85rem 1.25rem;",
+    "      border-bottom: 1px solid #e2e8f0;",
+    "    }",
+    "    .path {",
+    "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
+    "      font-size: 0.95rem;",
+    "      font-weight: 600;",
+    "      word-break: break-all;",
+    "    }",
+    "    .meta {",
+    "      color: #475569;",
+    "      font-size: 0.92rem;",
+    "    }",
+    "    .download {",
+    "      color: #1d4ed8;",
+    "    }",
+    "    .toggle {",
+    "      padding: 0;",
+    "      border: 0;",
+    "      background: none;",
+    "      color: #1d4ed8;",
+    "      font: inherit;",
+    "      cursor: pointer;",
+    "    }",
+    "    .code {",
+    "      overflow-x: auto;",
+    "      padding: 0.5rem 0;",
+    "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
+    "      font-size: 0.85rem;",
+    "      line-height: 1.55;",
+    "    }",
+    "    .line {",
+    "      display: flex;",
+    "      min-width: max-content;",
+    "    }",
+    "    .code.wrap .line {",
+    "      min-width: 0;",
+    "    }",
+    "    .line.selected {",
+    "      background: #fef9c3;",
+    "    }",
+    "    .ln {",
+    "      flex: 0 0 auto;",
+    "      box-sizing: border-box;",
+    `      width: ${String(lines.length).length + 3}ch;`,
+    "      padding-right: 1ch;",
+    "      color: #94a3b8;",
+    "      text-align: right;",
+    "      text-decoration: none;",
+    "      user-select: none;",
+    "    }",
+    "    .ln:hover {",
+    "      color: #1d4ed8;",
+    "    }",
+    "    .lc {",
+    "      padding: 0 1rem 0 0.5rem;",
+    "      white-space: pre;",
+    "    }",
+    "    .code.wrap .lc {",
+    "      white-space: pre-wrap;",
+    "      overflow-wrap: anywhere;",
+    "    }",
+    "    .tok-comment { color: #64748b; font-style: italic; }",
+    "    .tok-string { color: #047857; }",
+    "    .tok-number, .tok-literal { color: #b45309; }",
+    "    .tok-keyword { color: #7c3aed; }",
+    "    .tok-variable { color: #0369a1; }",
+    "    .tok-added { color: #15803d; }",
+    "    .tok-removed { color: #b91c1c; }",
+    "    .tok-hunk { color: #6d28d9; }",
+    "    .tok-meta { color: #475569; font-weight: 600; }",
+    "    .tok-error { color: #b91c1c; }",
+    "    .tok-warn { color: #b45309; }",
+    "    .tok-info { color: #0f172a; }",
+    "    .tok-debug { color: #64748b; }",
+    "  </style>",
+    "</head>",
+    "<body>",
+    "  <main>",
+    "    <header class=\"doc-header\">",
+    `      <span class="path">${escapeHtml(context.title)}</span>`,
+    [
+      `      <span class="meta">${escapeHtml(context.language)} · ${lineCountText} · `,
+      "<button class=\"toggle\" id=\"wrap-toggle\" type=\"button\" aria-pressed=\"false\">Wrap</button> · ",
+      `<a class="download" href="${escapeHtml(context.rawHref)}">Raw</a> · `,
+      `<a class="download" href="${escapeHtml(context.rawHref)}" download="${escapeHtml(context.fileName)}">Download</a></span>`,
+    ].join(""),
+    "    </header>",
+    `    <div class="code" id="code">${renderedLines.join("")}</div>`,
+    "  </main>",
+    "  <script>",
+    "    const code = document.getElementById(\"code\");",
+    "    const wrapToggle = document.getElementById(\"wrap-toggle\");",
+    "    const WRAP_STORAGE_KEY = \"tailserve.code.wrap\";",
+    "    let anchorLine = null;",
+    "",
+    "    function setWrap(enabled) {",
+    "      code.classList.toggle(\"wrap\", enabled);",
+    "      wrapToggle.setAttribute(\"aria-pressed\", enabled ? \"true\" : \"false\");",
+    "    }",
+    "",
+    "    function parseLineHash() {",
+    "      const match = /^#L(\\d+)(?:-L(\\d+))?$/.exec(window.location.hash);",
+    "      if (!match) {",
+    "        return null;",
+    "      }",
+    "      const start = Number(match[1]);",
+    "      const end = match[2] ? Number(match[2]) : start;",
+    "      return { start: Math.min(start, end), end: Math.max(start, end) };",
+    "    }",
+    "",
+    "    function highlightSelection(scroll) {",
+    "      for (const line of code.querySelectorAll(\".line.selected\")) {",
+    "        line.classList.remove(\"selected\");",
+    "      }",
+    "      const range = parseLineHash();",
+    "      if (!range) {",
+    "        return;",
+    "      }",
+    "      for (let lineNumber = range.start; lineNumber <= range.end; lineNumber += 1) {",
+    "        document.getElementById(\"L\" + lineNumber)?.classList.add(\"selected\");",
+    "      }",
+    "      if (scroll) {",
+    "        document.getElementById(\"L\" + range.start)?.scrollIntoView({ block: \"center\" });",
+    "      }",
+    "    }",
+    "",
+    "    code.addEventListener(\"click\", (event) => {",
+    "      const link = event.target.closest(\".ln\");",
+    "      if (!link) {",
+    "        return;",
+    "      }",
+    "      event.preventDefault();",
+    "      const lineNumber = Number(link.dataset.line);",
+    "      const hash = event.shiftKey && anchorLine !== null && anchorLine !== lineNumber",
+    "        ? \"#L\" + Math.min(anchorLine, lineNumber) + \"-L\" + Math.max(anchorLine, lineNumber)",
+    "        : \"#L\" + lineNumber;",
+    "      if (!event.shiftKey || anchorLine === null) {",
+    "        anchorLine = lineNumber;",
+    "      }",
+    "      history.replaceState(null, \"\", hash);",
+    "      highlightSelection(false);",
+    "    });",
+    "",
+    "    wrapToggle.addEventListener(\"click\", () => {",
+    "      const enabled = !code.classList.contains(\"wrap\");",
+    "      setWrap(enabled);",
+    "      localStorage.setItem(WRAP_STORAGE_KEY, enabled ? \"1\" : \"0\");",
+    "    });",
+    "",
+    "    window.addEventListener(\"hashchange\", () => highlightSelection(true));",
+    "    setWrap(localStorage.getItem(WRAP_STORAGE_KEY) === \"1\");",
+    "    highlightSelection(true);",
+    "  </script>",
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
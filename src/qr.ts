@@ -0,0 +1,484 @@
+// A QR Code Model 2 encoder for share URLs: byte mode, error correction level
+// M, versions 1-40 and automatic mask selection (ISO/IEC 18004).
+
+const QUIET_ZONE_MODULES = 4;
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+// Format bits for error correction level M.
+const ECC_LEVEL_M_FORMAT_BITS = 0;
+
+// Indexed by version; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function toRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+
+  return result;
+}
+
+function toDataCodewords(version: number): number {
+  return Math.floor(toRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+}
+
+function multiplyGf256(x: number, y: number): number {
+  let z = 0;
+  for (let index = 7; index >= 0; index -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> index) & 1) * x;
+  }
+
+  return z;
+}
+
+function toReedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let index = 0; index < degree; index += 1) {
+    for (let term = 0; term < result.length; term += 1) {
+      result[term] = multiplyGf256(result[term], root);
+      if (term + 1 < result.length) {
+        result[term] ^= result[term + 1];
+      }
+    }
+
+    root = multiplyGf256(root, 0x02);
+  }
+
+  return result;
+}
+
+function toReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= multiplyGf256(coefficient, factor);
+    });
+  }
+
+  return result;
+}
+
+function toDataBits(bytes: Buffer, version: number): number[] {
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number): void => {
+    for (let index = length - 1; index >= 0; index -= 1) {
+      bits.push((value >>> index) & 1);
+    }
+  };
+
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, version <= 9 ? 8 : 16);
+  for (const byte of bytes) {
+    appendBits(byte, 8);
+  }
+
+  const capacityBits = toDataCodewords(version) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  return bits;
+}
+
+function toCodewords(bytes: Buffer, version: number): number[] {
+  const dataBits = toDataBits(bytes, version);
+  const data: number[] = [];
+  for (let index = 0; index < dataBits.length; index += 8) {
+    data.push(dataBits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(toRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = toReedSolomonDivisor(blockEccLength);
+  const blocks: number[][] = [];
+  for (let blockIndex = 0, offset = 0; blockIndex < blockCount; blockIndex += 1) {
+    const dataLength = shortBlockLength - blockEccLength + (blockIndex < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    const ecc = toReedSolomonRemainder(block, divisor);
+    if (blockIndex < shortBlockCount) {
+      block.push(0);
+    }
+
+    blocks.push([...block, ...ecc]);
+  }
+
+  // Interleave, skipping the padding byte of the short blocks.
+  const result: number[] = [];
+  for (let index = 0; index < blocks[0].length; index += 1) {
+    blocks.forEach((block, blockIndex) => {
+      if (index !== shortBlockLength - blockEccLength || blockIndex >= shortBlockCount) {
+        result.push(block[index]);
+      }
+    });
+  }
+
+  return result;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(): void {
+    for (let index = 0; index < this.size; index += 1) {
+      this.setFunctionModule(6, index, index % 2 === 0);
+      this.setFunctionModule(index, 6, index % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.toAlignmentPatternPositions();
+    const last = positions.length - 1;
+    positions.forEach((y, row) => {
+      positions.forEach((x, column) => {
+        // The finder patterns already cover three corners.
+        if (!((row === 0 && column === 0) || (row === 0 && column === last) || (row === last && column === 0))) {
+          this.drawAlignmentPattern(x, y);
+        }
+      });
+    });
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let bitIndex = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+
+      for (let vertical = 0; vertical < this.size; vertical += 1) {
+        for (let offset = 0; offset < 2; offset += 1) {
+          const x = right - offset;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.reserved[y][x] && bitIndex < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+            bitIndex += 1;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (!this.reserved[y][x] && isMasked(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECC_LEVEL_M_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let index = 0; index < 10; index += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    for (let index = 0; index <= 5; index += 1) {
+      this.setFunctionModule(8, index, getBit(bits, index));
+    }
+
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let index = 9; index < 15; index += 1) {
+      this.setFunctionModule(14 - index, 8, getBit(bits, index));
+    }
+
+    for (let index = 0; index < 8; index += 1) {
+      this.setFunctionModule(this.size - 1 - index, 8, getBit(bits, index));
+    }
+
+    for (let index = 8; index < 15; index += 1) {
+      this.setFunctionModule(8, this.size - 15 + index, getBit(bits, index));
+    }
+
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  toPenaltyScore(): number {
+    let score = 0;
+    for (let y = 0; y < this.size; y += 1) {
+      score += this.toLinePenalty((index) => this.modules[y][index]);
+    }
+
+    for (let x = 0; x < this.size; x += 1) {
+      score += this.toLinePenalty((index) => this.modules[index][x]);
+    }
+
+    for (let y = 0; y < this.size - 1; y += 1) {
+      for (let x = 0; x < this.size - 1; x += 1) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          score += PENALTY_BLOCK;
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    return score + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+  }
+
+  private toLinePenalty(moduleAt: (index: number) => boolean): number {
+    let score = 0;
+    let runColor = false;
+    let runLength = 0;
+    const runHistory = [0, 0, 0, 0, 0, 0, 0];
+    for (let index = 0; index < this.size; index += 1) {
+      if (moduleAt(index) === runColor) {
+        runLength += 1;
+        if (runLength === 5) {
+          score += PENALTY_RUN;
+        } else if (runLength > 5) {
+          score += 1;
+        }
+      } else {
+        this.addRunHistory(runLength, runHistory);
+        if (!runColor) {
+          score += countFinderLikePatterns(runHistory) * PENALTY_FINDER_LIKE;
+        }
+
+        runColor = moduleAt(index);
+        runLength = 1;
+      }
+    }
+
+    // Close the line with the light border beyond the edge.
+    if (runColor) {
+      this.addRunHistory(runLength, runHistory);
+      runLength = 0;
+    }
+
+    this.addRunHistory(runLength + this.size, runHistory);
+    return score + countFinderLikePatterns(runHistory) * PENALTY_FINDER_LIKE;
+  }
+
+  private addRunHistory(runLength: number, runHistory: number[]): void {
+    runHistory.pop();
+    // The first run borders the light quiet zone.
+    runHistory.unshift(runHistory[0] === 0 ? runLength + this.size : runLength);
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean): void {
+    this.modules[y][x] = isDark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const moduleX = x + dx;
+        const moduleY = y + dy;
+        if (moduleX >= 0 && moduleX < this.size && moduleY >= 0 && moduleY < this.size) {
+          this.setFunctionModule(moduleX, moduleY, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy += 1) {
+      for (let dx = -2; dx <= 2; dx += 1) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+
+    let remainder = this.version;
+    for (let index = 0; index < 12; index += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+
+    const bits = (this.version << 12) | remainder;
+    for (let index = 0; index < 18; index += 1) {
+      const isDark = getBit(bits, index);
+      const a = this.size - 11 + (index % 3);
+      const b = Math.floor(index / 3);
+      this.setFunctionModule(a, b, isDark);
+      this.setFunctionModule(b, a, isDark);
+    }
+  }
+
+  private toAlignmentPatternPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const positions = [6];
+    for (let position = this.size - 7; positions.length < count; position -= step) {
+      positions.splice(1, 0, position);
+    }
+
+    return positions;
+  }
+}
+
+function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// Counts dark-light-dark-light-dark runs in 1:1:3:1:1 proportion with
+// four light modules on one side.
+function countFinderLikePatterns(runHistory: number[]): number {
+  const unit = runHistory[1];
+  const core = unit > 0 && runHistory[2] === unit && runHistory[3] === unit * 3 && runHistory[4] === unit && runHistory[5] === unit;
+  return (
+    (core && runHistory[0] >= unit * 4 && runHistory[6] >= unit ? 1 : 0) +
+    (core && runHistory[6] >= unit * 4 && runHistory[0] >= unit ? 1 : 0)
+  );
+}
+
+// Returns rows of modules, true for dark, without the quiet zone.
+export function encodeQrCode(text: string): boolean[][] {
+  const bytes = Buffer.from(text, "utf8");
+  let version = MIN_VERSION;
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > toDataCodewords(version) * 8) {
+    version += 1;
+    if (version > MAX_VERSION) {
+      throw new Error(`Too long for a QR code: ${bytes.length} bytes`);
+    }
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(toCodewords(bytes, version));
+
+  let bestMask = 0;
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8; mask += 1) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const score = matrix.toPenaltyScore();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+
+    matrix.applyMask(mask);
+  }
+
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return matrix.modules;
+}
+
+function withQuietZone(modules: boolean[][]): boolean[][] {
+  const size = modules.length + QUIET_ZONE_MODULES * 2;
+  return Array.from({ length: size }, (_unused, y) =>
+    Array.from({ length: size }, (_unusedColumn, x) => modules[y - QUIET_ZONE_MODULES]?.[x - QUIET_ZONE_MODULES] === true),
+  );
+}
+
+// Two module rows per text line. Light modules are drawn as blocks so the code
+// reads dark-on-light in a terminal with a dark background.
+export function renderQrTerminal(text: string): string {
+  const modules = withQuietZone(encodeQrCode(text));
+  const lines: string[] = [];
+  for (let y = 0; y < modules.length; y += 2) {
+    let line = "";
+    for (let x = 0; x < modules.length; x += 1) {
+      const topLight = !modules[y][x];
+      const bottomLight = y + 1 < modules.length ? !modules[y + 1][x] : false;
+      line += topLight ? (bottomLight ? "█" : "▀") : bottomLight ? "▄" : " ";
+    }
+
+    lines.push(line);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderQrSvg(text: string): string {
+  const modules = encodeQrCode(text);
+  const size = modules.length + QUIET_ZONE_MODULES * 2;
+  const path: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) {
+        path.push(`M${x + QUIET_ZONE_MODULES} ${y + QUIET_ZONE_MODULES}h1v1h-1z`);
+      }
+    });
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`,
+    `  <rect width="${size}" height="${size}" fill="#fff"/>`,
+    `  <path d="${path.join("")}" fill="#000"/>`,
+    "</svg>",
+  ].join("\n");
+}
@@ -0,0 +1,155 @@
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type ParsedRangeHeader =
+  | { kind: "full" }
+  | { kind: "unsatisfiable" }
+  | { kind: "partial"; ranges: ByteRange[] };
+
+export interface MultipartRangePart {
+  header: string;
+  range: ByteRange;
+}
+
+export interface MultipartRangeBody {
+  parts: MultipartRangePart[];
+  trailer: string;
+  contentLength: number;
+}
+
+const MAX_RANGE_COUNT = 64;
+
+function parseRangeSpec(spec: string, size: number): ByteRange | null | undefined {
+  const match = /^(\d*)-(\d*)$/.exec(spec);
+  if (!match || (match[1].length === 0 && match[2].length === 0)) {
+    return undefined;
+  }
+
+  if (match[1].length === 0) {
+    const suffixLength = Number.parseInt(match[2], 10);
+    if (!Number.isSafeInteger(suffixLength)) {
+      return undefined;
+    }
+
+    if (suffixLength === 0) {
+      return null;
+    }
+
+    return {
+      start: Math.max(0, size - suffixLength),
+      end: size - 1,
+    };
+  }
+
+  const start = Number.parseInt(match[1], 10);
+  const end = match[2].length === 0 ? size - 1 : Number.parseInt(match[2], 10);
+  if (!Number.isSafeInteger(start) || !Number.isSafeInteger(end) || end < start) {
+    return undefined;
+  }
+
+  if (start >= size) {
+    return null;
+  }
+
+  return {
+    start,
+    end: Math.min(end, size - 1),
+  };
+}
+
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+  for (const range of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, range.end);
+      continue;
+    }
+
+    merged.push({ ...range });
+  }
+
+  return merged;
+}
+
+export function parseRangeHeader(header: string | string[] | undefined, size: number): ParsedRangeHeader {
+  if (typeof header !== "string" || size <= 0) {
+    return { kind: "full" };
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    return { kind: "full" };
+  }
+
+  const specs = match[1]
+    .split(",")
+    .map((spec) => spec.trim())
+    .filter((spec) => spec.length > 0);
+  if (specs.length === 0 || specs.length > MAX_RANGE_COUNT) {
+    return { kind: "full" };
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const range = parseRangeSpec(spec, size);
+    if (range === undefined) {
+      return { kind: "full" };
+    }
+
+    if (range !== null) {
+      ranges.push(range);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return { kind: "unsatisfiable" };
+  }
+
+  // Overlapping or adjacent ranges are merged so a client cannot ask for the
+  // same bytes many times over in one multipart response.
+  return {
+    kind: "partial",
+    ranges: coalesceRanges(ranges),
+  };
+}
+
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+export function formatUnsatisfiedContentRange(size: number): string {
+  return `bytes */${size}`;
+}
+
+export function buildMultipartRangeBody(
+  ranges: ByteRange[],
+  size: number,
+  contentType: string,
+  boundary: string,
+): MultipartRangeBody {
+  let contentLength = 0;
+  const parts = ranges.map((range, index) => {
+    const header = [
+      `${index === 0 ? "" : "\r\n"}--${boundary}`,
+      `Content-Type: ${contentType}`,
+      `Content-Range: ${formatContentRange(range, size)}`,
+      "",
+      "",
+    ].join("\r\n");
+    contentLength += Buffer.byteLength(header, "utf8") + (range.end - range.start + 1);
+    return { header, range };
+  });
+
+  const trailer = `\r\n--${boundary}--\r\n`;
+  contentLength += Buffer.byteLength(trailer, "utf8");
+
+  return {
+    parts,
+    trailer,
+    contentLength,
+  };
+}
@@ -1,5 +1,6 @@
 import { spawn } from "node:child_process";
-import { createReadStream, readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+import { closeSync, createReadStream, openSync, readFileSync, readSync, statSync, type Stats } from "node:fs";
 import path from "node:path";
 import {
   createServer,
@@ -14,22 +15,184 @@ import { type Duplex } from "node:stream";
 
 import { lookup as lookupMimeType } from "mime-types";
 
+import { appendAccessLogEntry, pruneAccessLogs } from "./access-log.js";
+import { readRouteAnalytics, RouteAnalyticsRecorder, type RouteKind, type RouteStats } from "./analytics.js";
+import {
+  type ArchiveFormat,
+  createArchiveStream,
+  isArchiveFormat,
+  listArchiveEntries,
+  toArchiveContentType,
+  toArchiveFilename,
+} from "./archive.js";
+import {
+  type AccessScope,
+  createSessionCookie,
+  hasValidSession,
+  isIdentityAllowed,
+  isProtected,
+  LOGIN_SEGMENT,
+  readPresentedCredentials,
+  readTailscaleIdentity,
+  renderForbiddenPage,
+  renderLoginPage,
+  verifyPresentedCredentials,
+} from "./auth.js";
+import { releaseBlob } from "./blobs.js";
+import { buildFileValidators, DEFAULT_CACHE_POLICY, isNotModified, isRangeStillValid, toCacheControl } from "./cache.js";
+import {
+  findCollectionItem,
+  formatCollectionSummary,
+  readCollectionEntries,
+  renderCollectionPage,
+  toCollectionJson,
+} from "./collection.js";
+import {
+  COMPRESSION_THRESHOLD_BYTES,
+  compressBuffer,
+  type ContentEncoding,
+  createCompressionStream,
+  findPrecompressedSibling,
+  isCompressibleType,
+  negotiateEncodings,
+} from "./compression.js";
+import {
+  type DataFormat,
+  type DataViewContext,
+  detectDataFormat,
+  JSON_TREE_MAX_BYTES,
+  parsePageNumber,
+  readDataPage,
+  renderDataTableHtml,
+  renderJsonTreeHtml,
+} from "./data-view.js";
+import { type EditSaveResult, EditSyncHub, readEditSnapshot, saveEditContent } from "./edit-sync.js";
 import { generateCodeEditorHtml, generateMarkdownEditorHtml, getEditorMode } from "./editor.js";
+import { detectLanguage, detectLanguageFromName, isTextSample, TEXT_SAMPLE_BYTES } from "./highlight.js";
+import { listEditRevisions, pruneEditHistory, readEditRevision } from "./history.js";
+import {
+  buildRouteHref,
+  formatByteSize,
+  isHiddenPathSegment,
+  parseListingSort,
+  readDirectoryListing,
+  renderDirectoryListingHtml,
+  toDirectoryListingJson,
+  type ListingSort,
+} from "./listing.js";
+import {
+  appendInboxUploads,
+  DEFAULT_INBOX_MAX_BYTES,
+  InboxFileWriter,
+  type InboxLimits,
+  InboxUploadError,
+  MultipartParser,
+  parseContentDispositionFileName,
+  parseMultipartBoundary,
+  renderInboxPage,
+} from "./inbox.js";
+import { injectLiveReloadScript, isLiveReloadPath, LiveReloadHub, toLiveReloadHref } from "./live-reload.js";
 import { renderOfflinePage } from "./offline.js";
-import { removeExpiredShares, SHARE_ID_LENGTH } from "./shares.js";
-import { readState, type ShareRecord, type ShareType, type TailserveState, toShareOrigin, writeState } from "./state.js";
+import { classifyRequestOrigin, isInternetOrigin, isSameOriginRequest, readSingleHeader, type RequestOrigin, toRequestHostname } from "./origin.js";
+import {
+  CODE_PREVIEW_MAX_BYTES,
+  isMarkdownPath,
+  MARKDOWN_PREVIEW_MAX_BYTES,
+  renderCodePreview,
+  renderMarkdownPreview,
+} from "./preview.js";
+import { renderQrSvg } from "./qr.js";
+import {
+  buildMultipartRangeBody,
+  type ByteRange,
+  formatContentRange,
+  formatUnsatisfiedContentRange,
+  parseRangeHeader,
+} from "./range.js";
+import { SHARE_ID_SOURCE } from "./share-id.js";
+import { formatDownloadsLeft, recordShareDownload, removeExpiredShares, toDownloadsLeft } from "./shares.js";
+import {
+  type CachePolicy,
+  type CollectionItem,
+  isCachePolicy,
+  isSiteMode,
+  isStringList,
+  readState,
+  type ShareRecord,
+  type ShareType,
+  type SiteMode,
+  type StateMutator,
+  type TailserveState,
+  toShareOrigin,
+  updateState,
+} from "./state.js";
 import { cleanupStaleTailscaleServeRoutes, disableTailscaleServe, ensureTailscaleServeForRestoredRoutes } from "./tailscale.js";
 import { killTunnelProcess } from "./tunnel.js";
+import { acceptWebSocket } from "./websocket.js";
 
 export interface ResolvedRequest {
   statusCode: number;
   allow?: string;
   filePath?: string;
   contentType?: string;
+  cachePolicy?: CachePolicy;
+  compress?: boolean;
+  precompressed?: boolean;
+  archive?: ResolvedArchive;
+  table?: ResolvedTableView;
   body?: string;
+  listing?: boolean;
+  vary?: string;
+  etag?: string;
+  location?: string;
+  liveReload?: string;
+  setCookie?: string;
+  wwwAuthenticate?: string;
+}
+
+interface StaticDirectoryOptions {
+  cachePolicy?: CachePolicy;
+  compress?: boolean;
+  allowArchives?: boolean;
+  archive?: string | null;
+  sort?: ListingSort;
+  listingFormat?: "html" | "json";
+  siteMode?: SiteMode;
+  trailingSlash?: boolean;
+  raw?: boolean;
+  acceptsHtml?: boolean;
+  dataView?: DataViewQuery;
+}
+
+interface DataViewQuery {
+  page: number;
+  query?: string;
+}
+
+interface ResolvedTableView {
+  filePath: string;
+  format: Exclude<DataFormat, "json">;
+  page: number;
+  context: DataViewContext;
+}
+
+interface ResolvedArchive {
+  format: ArchiveFormat;
+  rootPath: string;
+  directoryPath: string;
+  name: string;
+}
+
+interface FileRepresentation {
+  filePath: string;
+  stats: Stats;
+  encoding?: ContentEncoding;
+  compressOnTheFly: boolean;
 }
 
 const SHARE_REAPER_INTERVAL_MS = 60 * 1000;
+const ANALYTICS_FLUSH_INTERVAL_MS = 30 * 1000;
+const SHARE_PATH_PATTERN = new RegExp(`^/s/(${SHARE_ID_SOURCE})(?:/(.*))?$`);
 const PROXY_HEALTH_CHECK_INTERVAL_MS = 10 * 1000;
 const PROXY_HEALTH_CHECK_TIMEOUT_MS = 1000;
 
@@ -45,6 +208,14 @@ function isEditShare(share: ShareRecord | undefined): share is ShareRecord & { p
   return share?.type === "edit" && typeof share.path === "string" && share.path.length > 0;
 }
 
+function isInboxShare(share: ShareRecord | undefined): share is ShareRecord & { path: string } {
+  return share?.type === "inbox" && typeof share.path === "string" && share.path.length > 0;
+}
+
+function isCollectionShare(share: ShareRecord | undefined): share is ShareRecord & { items: CollectionItem[] } {
+  return share?.type === "collection" && Array.isArray(share.items);
+}
+
 function isProxyShare(share: ShareRecord | undefined): share is ShareRecord & { port: number } {
   return share?.type === "proxy" && typeof share.port === "number" && Number.isInteger(share.port) && share.port > 0 && share.port <= 65_535;
 }
@@ -59,7 +230,8 @@ function resolveMimeType(filePath: string, fallbackType?: string): string {
     return fallbackType;
   }
 
-  return "application/octet-stream";
+  const sample = readFileSample(filePath);
+  return sample !== undefined && sample.length > 0 && isTextSample(sample) ? "text/plain; charset=utf-8" : "application/octet-stream";
 }
 
 function escapeHtml(value: string): string {
@@ -71,132 +243,6 @@ function escapeHtml(value: string): string {
     .replaceAll("'", "&#39;");
 }
 
-function buildRouteHref(routePrefix: string, segments: string[], isDirectory: boolean): string {
-  const encodedPath = segments.map((segment) => encodeURIComponent(segment)).join("/");
-  if (encodedPath.length === 0) {
-    return isDirectory ? `${routePrefix}/` : routePrefix;
-  }
-
-  return isDirectory ? `${routePrefix}/${encodedPath}/` : `${routePrefix}/${encodedPath}`;
-}
-
-function isHiddenPathSegment(segment: string): boolean {
-  return segment.startsWith(".");
-}
-
-function buildDirectoryListing(
-  routePrefix: string,
-  shareRootPath: string,
-  directoryPath: string,
-  segments: string[],
-): string | undefined {
-  try {
-    const entries = readdirSync(directoryPath, { withFileTypes: true })
-      .filter((entry) => !isHiddenPathSegment(entry.name))
-      .map((entry) => ({
-        entryType: entry.isDirectory() ? "dir" : "file",
-        displayName: entry.isDirectory() ? `${entry.name}/` : entry.name,
-        href: buildRouteHref(routePrefix, [...segments, entry.name], entry.isDirectory()),
-      }))
-      .sort((a, b) => a.displayName.localeCompare(b.displayName, undefined, { sensitivity: "base", numeric: true }));
-
-    const listItems: string[] = [];
-    if (segments.length > 0) {
-      listItems.push(
-        `<li class="entry entry-up"><a href="${escapeHtml(buildRouteHref(routePrefix, segments.slice(0, -1), true))}">../</a></li>`,
-      );
-    }
-
-    for (const entry of entries) {
-      listItems.push(
-        `<li class="entry entry-${entry.entryType}"><a href="${escapeHtml(entry.href)}">${escapeHtml(entry.displayName)}</a></li>`,
-      );
-    }
-
-    const rootName = path.basename(shareRootPath) || shareRootPath;
-    const title = segments.length === 0 ? rootName : `${rootName}/${segments.join("/")}`;
-    const entryCountText = `${entries.length} item${entries.length === 1 ? "" : "s"}`;
-
-    return [
-      "<!doctype html>",
-      "<html lang=\"en\">",
-      "<head>",
-      "  <meta charset=\"utf-8\">",
-      `  <title>Index of ${escapeHtml(title)}</title>`,
-      "  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">",
-      "  <style>",
-      "    :root {",
-      "      color-scheme: light;",
-      "      font-family: \"Segoe UI\", \"Helvetica Neue\", Helvetica, Arial, sans-serif;",
-      "    }",
-      "    body {",
-      "      margin: 0;",
-      "      background: #f3f5fa;",
-      "      color: #0f172a;",
-      "    }",
-      "    main {",
-      "      box-sizing: border-box;",
-      "      width: min(760px, 100vw - 2rem);",
-      "      margin: 2rem auto;",
-      "      padding: 1.25rem;",
-      "      background: #ffffff;",
-      "      border: 1px solid #d7deea;",
-      "      border-radius: 12px;",
-      "      box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);",
-      "    }",
-      "    h1 {",
-      "      margin: 0;",
-      "      font-size: 1.25rem;",
-      "      line-height: 1.4;",
-      "      font-weight: 700;",
-      "    }",
-      "    .path {",
-      "      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace;",
-      "      font-size: 0.95em;",
-      "    }",
-      "    .meta {",
-      "      margin: 0.5rem 0 1rem;",
-      "      color: #475569;",
-      "      font-size: 0.92rem;",
-      "    }",
-      "    .entries {",
-      "      margin: 0;",
-      "      padding: 0;",
-      "      list-style: none;",
-      "      border: 1px solid #d7deea;",
-      "      border-radius: 10px;",
-      "      overflow: hidden;",
-      "      background: #ffffff;",
-      "    }",
-      "    .entry + .entry {",
-      "      border-top: 1px solid #e2e8f0;",
-      "    }",
-      "    .entry a {",
-      "      display: block;",
-      "      padding: 0.65rem 0.85rem;",
-      "      color: inherit;",
-      "      text-decoration: none;",
-      "      transition: background-color 120ms ease;",
-      "    }",
-      "    .entry a:hover {",
-      "      background: #eff6ff;",
-      "    }",
-      "  </style>",
-      "</head>",
-      "<body>",
-      "  <main>",
-      `    <h1>Index of <span class="path">${escapeHtml(title)}</span></h1>`,
-      `    <p class="meta">${entryCountText}</p>`,
-      `    <ul class="entries">${listItems.join("")}</ul>`,
-      "  </main>",
-      "</body>",
-      "</html>",
-    ].join("\n");
-  } catch {
-    return undefined;
-  }
-}
-
 function formatDashboardValue(value: string | null | undefined): string {
   if (typeof value !== "string" || value.length === 0) {
     return "N/A";
@@ -226,15 +272,56 @@ function toDashboardStatusIndicator(value: unknown): { label: string; icon: stri
   return { label: "unknown", icon: "⏳" };
 }
 
+function formatDashboardExpiry(share: ShareRecord): string {
+  const expiry = share.expiresAt ?? "persistent";
+  const downloadsLeft = toDownloadsLeft(share);
+  return downloadsLeft === undefined ? expiry : `${expiry} (${formatDownloadsLeft(downloadsLeft)})`;
+}
+
 function toDashboardAccess(value: unknown): string {
   return value === true ? "public" : "tailnet";
 }
 
+// loading="lazy" keeps closed popovers from fetching their image.
+function toDashboardUrlCell(href: string): string {
+  return [
+    `  <td><a href="${escapeHtml(href)}">${escapeHtml(href)}</a>`,
+    `    <details class="qr"><summary title="Show QR code">QR</summary><img src="/api/qr?url=${escapeHtml(encodeURIComponent(href))}" alt="QR code for ${escapeHtml(href)}" width="180" height="180" loading="lazy"></details>`,
+    "  </td>",
+  ].join("\n");
+}
+
+function toDashboardStatsCells(stats: RouteStats | undefined): string[] {
+  return [
+    `  <td>${stats ? stats.requests : 0}</td>`,
+    `  <td>${stats ? stats.viewers.length : 0}</td>`,
+    `  <td>${escapeHtml(formatByteSize(stats?.bytesSent ?? 0))}</td>`,
+    `  <td>${escapeHtml(formatDashboardValue(stats?.lastAccessAt))}</td>`,
+  ];
+}
+
+function toDashboardDisplayPath(share: ShareRecord): string {
+  if (share.type === "proxy") {
+    return `localhost:${share.port ?? "N/A"}`;
+  }
+
+  if (share.type === "collection") {
+    return formatCollectionSummary(share);
+  }
+
+  if (share.sourcePath !== undefined && share.snapshot !== undefined) {
+    return `${share.sourcePath} @${share.snapshot.slice(0, 12)}`;
+  }
+
+  return formatDashboardValue(share.path);
+}
+
 function buildDashboardHtml(state: TailserveState): string {
   const origin = toShareOrigin(state);
+  const analytics = readRouteAnalytics();
   const shareRows = Object.entries(state.shares)
     .map(([shareId, share]) => {
-      const displayPath = share.type === "proxy" ? `localhost:${share.port ?? "N/A"}` : formatDashboardValue(share.path);
+      const displayPath = toDashboardDisplayPath(share);
       const status = toDashboardStatusIndicator(share.status);
       const access = toDashboardAccess(share.public);
       const href = `${origin}/s/${shareId}`;
@@ -244,11 +331,12 @@ function buildDashboardHtml(state: TailserveState): string {
         `  <td>${escapeHtml(shareId)}</td>`,
         `  <td>${escapeHtml(share.type)}</td>`,
         `  <td>${escapeHtml(displayPath)}</td>`,
-        `  <td><a href="${escapeHtml(href)}">${escapeHtml(href)}</a></td>`,
+        toDashboardUrlCell(href),
         `  <td>${escapeHtml(access)}</td>`,
         `  <td><span class="status-icon" title="${escapeHtml(status.label)}">${status.icon}</span>${escapeHtml(status.label)}</td>`,
-        `  <td>${escapeHtml(share.expiresAt ?? "persistent")}</td>`,
+        `  <td>${escapeHtml(formatDashboardExpiry(share))}</td>`,
         `  <td>${escapeHtml(formatDashboardValue(share.lastSeen))}</td>`,
+        ...toDashboardStatsCells(analytics.shares[shareId]),
         "</tr>",
       ].join("\n");
     })
@@ -271,11 +359,12 @@ function buildDashboardHtml(state: TailserveState): string {
         `  <td>${escapeHtml(name)}</td>`,
         "  <td>project</td>",
         `  <td>${escapeHtml(project.path)}</td>`,
-        `  <td><a href="${escapeHtml(href)}">${escapeHtml(href)}</a></td>`,
+        toDashboardUrlCell(href),
         `  <td>${escapeHtml(access)}</td>`,
         `  <td><span class="status-icon" title="${escapeHtml(status.label)}">${status.icon}</span>${escapeHtml(status.label)}</td>`,
         "  <td>persistent</td>",
         `  <td>${escapeHtml(formatDashboardValue(toProjectLastSeen(projectValue)))}</td>`,
+        ...toDashboardStatsCells(analytics.projects[projectKey]),
         "</tr>",
       ].join("\n");
     })
@@ -346,6 +435,9 @@ function buildDashboardHtml(state: TailserveState): string {
     "    a { color: var(--link); }",
     "    .status-icon { display: inline-block; width: 1.2rem; }",
     "    .empty { color: var(--muted); font-style: italic; }",
+    "    .qr { display: inline-block; position: relative; margin-left: 0.4rem; }",
+    "    .qr summary { cursor: pointer; color: var(--muted); font-size: 0.78rem; list-style: none; }",
+    "    .qr img { position: absolute; z-index: 1; top: 1.4rem; left: 0; padding: 0.4rem; border-radius: 8px; background: #fff; }",
     "  </style>",
     "  <script>",
     "    const DASHBOARD_POLL_INTERVAL_MS = 10000;",
@@ -373,7 +465,7 @@ function buildDashboardHtml(state: TailserveState): string {
     shareRows.length > 0
       ? [
           "      <table>",
-          "        <thead><tr><th>Name / ID</th><th>Type</th><th>Path</th><th>URL</th><th>Access</th><th>Status</th><th>TTL / Expires</th><th>Last Health Check</th></tr></thead>",
+          "        <thead><tr><th>Name / ID</th><th>Type</th><th>Path</th><th>URL</th><th>Access</th><th>Status</th><th>TTL / Expires</th><th>Last Health Check</th><th>Hits</th><th>Viewers</th><th>Sent</th><th>Last Access</th></tr></thead>",
           `        <tbody>${shareRows}</tbody>`,
           "      </table>",
         ].join("\n")
@@ -384,7 +476,7 @@ function buildDashboardHtml(state: TailserveState): string {
     projectRows.length > 0
       ? [
           "      <table>",
-          "        <thead><tr><th>Name / ID</th><th>Type</th><th>Path</th><th>URL</th><th>Access</th><th>Status</th><th>TTL / Expires</th><th>Last Health Check</th></tr></thead>",
+          "        <thead><tr><th>Name / ID</th><th>Type</th><th>Path</th><th>URL</th><th>Access</th><th>Status</th><th>TTL / Expires</th><th>Last Health Check</th><th>Hits</th><th>Viewers</th><th>Sent</th><th>Last Access</th></tr></thead>",
           `        <tbody>${projectRows}</tbody>`,
           "      </table>",
         ].join("\n")
@@ -410,20 +502,44 @@ function buildDashboardHtml(state: TailserveState): string {
 interface ParsedSharePath {
   id: string;
   segments: string[];
+  trailingSlash: boolean;
 }
 
 interface ParsedProjectPath {
   name: string;
   segments: string[];
+  trailingSlash: boolean;
 }
 
 interface ParsedSubPath {
   segments: string[];
+  trailingSlash: boolean;
 }
 
 interface ProjectRecord {
   path: string;
   port?: number;
+  public?: boolean;
+  site?: SiteMode;
+  live?: boolean;
+  passwordHash?: string;
+  tokenHash?: string;
+  allow?: string[];
+}
+
+interface AccessTarget {
+  scope: AccessScope;
+  allow?: string[];
+  routePrefix: string;
+  title: string;
+}
+
+type RouteAccess = { allowed: true; setCookie?: string } | { allowed: false; resolved: ResolvedRequest };
+
+interface LiveReloadTarget {
+  key: string;
+  path: string;
+  isDirectory: boolean;
 }
 
 interface AutoRestartProjectRecord {
@@ -462,12 +578,12 @@ export interface ProjectProxyRuntime {
   ) => ProxyRequest;
   connect?: (options: { host: string; port: number }) => Socket;
   nowIso?: () => string;
-  writeState?: (state: TailserveState) => void;
+  updateState?: (mutator: StateMutator) => void;
 }
 
 export interface ProxyHealthCheckRuntime {
   readState: () => TailserveState;
-  writeState: (state: TailserveState) => void;
+  updateState: (mutator: StateMutator) => void;
   nowIso: () => string;
   checkPort: (port: number) => Promise<boolean>;
 }
@@ -502,6 +618,7 @@ function parseSubPath(rawSubPath: string): ParsedSubPath | undefined {
   if (rawSubPath.length === 0) {
     return {
       segments: [],
+      trailingSlash: false,
     };
   }
 
@@ -533,11 +650,12 @@ function parseSubPath(rawSubPath: string): ParsedSubPath | undefined {
 
   return {
     segments,
+    trailingSlash: rawSubPath.endsWith("/"),
   };
 }
 
 function parseSharePath(pathname: string): ParsedSharePath | undefined {
-  const shareMatch = new RegExp(`^/s/([A-Za-z0-9_-]{${SHARE_ID_LENGTH}})(?:/(.*))?$`).exec(pathname);
+  const shareMatch = SHARE_PATH_PATTERN.exec(pathname);
   if (!shareMatch) {
     return undefined;
   }
@@ -550,6 +668,8 @@ function parseSharePath(pathname: string): ParsedSharePath | undefined {
   return {
     id: shareMatch[1],
     segments: parsedSubPath.segments,
+    // "/s/<id>/" has an empty sub-path but still ends in a slash.
+    trailingSlash: parsedSubPath.trailingSlash || shareMatch[2] === "",
   };
 }
 
@@ -567,6 +687,7 @@ function parseProjectPath(pathname: string): ParsedProjectPath | undefined {
   return {
     name: projectMatch[1],
     segments: parsedSubPath.segments,
+    trailingSlash: parsedSubPath.trailingSlash || projectMatch[2] === "",
   };
 }
 
@@ -595,7 +716,9 @@ function hasShareExpired(share: ShareRecord, nowMs: number): boolean {
 }
 
 function isShareType(value: unknown): value is ShareType {
-  return value === "file" || value === "dir" || value === "edit" || value === "proxy";
+  return (
+    value === "file" || value === "dir" || value === "edit" || value === "proxy" || value === "inbox" || value === "collection"
+  );
 }
 
 function isEditContentPath(segments: string[]): boolean {
@@ -606,6 +729,118 @@ function isEditSavePath(segments: string[]): boolean {
   return segments.length === 2 && segments[0] === "api" && segments[1] === "save";
 }
 
+// /api/history lists revisions, /api/history/<rev> is one revision's content
+// and POST /api/history/<rev>/restore brings it back.
+function isEditHistoryPath(segments: string[]): boolean {
+  return segments.length >= 2 && segments.length <= 3 && segments[0] === "api" && segments[1] === "history";
+}
+
+function isEditRestorePath(segments: string[]): boolean {
+  return segments.length === 4 && segments[0] === "api" && segments[1] === "history" && segments[3] === "restore";
+}
+
+function resolveInboxShareRequest(
+  parsedSharePath: ParsedSharePath,
+  share: ShareRecord & { path: string },
+): ResolvedRequest {
+  if (parsedSharePath.segments.length > 0) {
+    return {
+      statusCode: 404,
+    };
+  }
+
+  return {
+    statusCode: 200,
+    contentType: "text/html; charset=utf-8",
+    body: renderInboxPage({
+      title: `Upload to ${path.basename(share.path)}`,
+      uploadHref: `/s/${parsedSharePath.id}`,
+      maxBytes: share.maxBytes ?? DEFAULT_INBOX_MAX_BYTES,
+      allowedExtensions: share.allowedExtensions,
+    }),
+  };
+}
+
+function resolveCollectionShareRequest(
+  request: Pick<IncomingMessage, "method" | "url"> & { headers?: IncomingHttpHeaders },
+  requestUrl: URL,
+  parsedSharePath: ParsedSharePath,
+  share: ShareRecord & { items: CollectionItem[] },
+): ResolvedRequest {
+  const routePrefix = `/s/${parsedSharePath.id}`;
+  if (parsedSharePath.segments.length === 0) {
+    const title = share.title ?? `Collection ${parsedSharePath.id}`;
+    const entries = readCollectionEntries(routePrefix, share.items);
+    return toListingFormat(requestUrl, request.headers) === "json"
+      ? { statusCode: 200, contentType: "application/json; charset=utf-8", body: toCollectionJson(title, entries) }
+      : {
+          statusCode: 200,
+          contentType: "text/html; charset=utf-8",
+          compress: share.compress,
+          body: renderCollectionPage(title, entries, `${routePrefix}?format=json`),
+        };
+  }
+
+  const [name, ...segments] = parsedSharePath.segments;
+  const item = findCollectionItem(share.items, name);
+  let stats;
+  try {
+    stats = item === undefined ? undefined : statSync(item.path);
+  } catch {
+    stats = undefined;
+  }
+
+  if (item === undefined || stats === undefined) {
+    return {
+      statusCode: 404,
+    };
+  }
+
+  const itemPrefix = buildRouteHref(routePrefix, [name], false);
+  if (stats.isDirectory()) {
+    return resolveStaticDirectoryRequest(itemPrefix, item.path, segments, {
+      cachePolicy: share.cache,
+      compress: share.compress,
+      allowArchives: true,
+      archive: requestUrl.searchParams.get("archive"),
+      sort: parseListingSort(requestUrl.searchParams),
+      listingFormat: toListingFormat(requestUrl, request.headers),
+      trailingSlash: parsedSharePath.trailingSlash,
+      raw: requestUrl.searchParams.get("raw") === "1",
+      acceptsHtml: acceptsHtml(request.headers),
+      dataView: toDataViewQuery(requestUrl.searchParams),
+    });
+  }
+
+  if (segments.length > 0) {
+    return {
+      statusCode: 404,
+    };
+  }
+
+  if (requestUrl.searchParams.get("raw") !== "1") {
+    const preview = resolveFilePreview(item.path, stats, {
+      routePrefix,
+      segments: [name],
+      compress: share.compress,
+      acceptsHtml: acceptsHtml(request.headers),
+      dataView: toDataViewQuery(requestUrl.searchParams),
+    });
+    if (preview) {
+      return preview;
+    }
+  }
+
+  return {
+    statusCode: 200,
+    filePath: item.path,
+    contentType: resolveMimeType(item.path),
+    cachePolicy: share.cache ?? DEFAULT_CACHE_POLICY,
+    compress: share.compress,
+    vary: requestUrl.searchParams.get("raw") === "1" ? undefined : toPreviewVary(item.path),
+  };
+}
+
 function resolveEditShareRequest(
   parsedSharePath: ParsedSharePath,
   share: ShareRecord & { path: string },
@@ -626,10 +861,12 @@ function resolveEditShareRequest(
 
   if (isEditContentPath(parsedSharePath.segments)) {
     try {
+      const snapshot = readEditSnapshot(share.path);
       return {
         statusCode: 200,
         contentType: "text/plain; charset=utf-8",
-        body: readFileSync(share.path, "utf8"),
+        body: snapshot.content,
+        etag: toEditEtag(snapshot.version),
       };
     } catch {
       return {
@@ -638,11 +875,38 @@ function resolveEditShareRequest(
     }
   }
 
+  if (isEditHistoryPath(parsedSharePath.segments)) {
+    return resolveEditHistoryRequest(parsedSharePath, share);
+  }
+
   return {
     statusCode: 404,
   };
 }
 
+function resolveEditHistoryRequest(parsedSharePath: ParsedSharePath, share: ShareRecord & { path: string }): ResolvedRequest {
+  const rev = parsedSharePath.segments[2];
+  try {
+    if (rev === undefined) {
+      return {
+        statusCode: 200,
+        contentType: "application/json; charset=utf-8",
+        body: JSON.stringify({ revisions: listEditRevisions(parsedSharePath.id, share) }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      contentType: "text/plain; charset=utf-8",
+      body: readEditRevision(parsedSharePath.id, share, rev),
+    };
+  } catch {
+    return {
+      statusCode: 404,
+    };
+  }
+}
+
 function isProjectRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
@@ -682,6 +946,78 @@ function toRestoredShareRecord(shareId: string, value: unknown): ShareRecord | u
     baseShare.mimeType = value.mimeType;
   }
 
+  if (typeof value.contentType === "string" && value.contentType.length > 0) {
+    baseShare.contentType = value.contentType;
+  }
+
+  if (typeof value.sourcePath === "string" && value.sourcePath.length > 0) {
+    baseShare.sourcePath = value.sourcePath;
+  }
+
+  if (typeof value.snapshot === "string" && value.snapshot.length > 0) {
+    baseShare.snapshot = value.snapshot;
+  }
+
+  if (value.public === true) {
+    baseShare.public = true;
+  }
+
+  if (isCachePolicy(value.cache)) {
+    baseShare.cache = value.cache;
+  }
+
+  if (value.compress === false) {
+    baseShare.compress = false;
+  }
+
+  if (isSiteMode(value.site)) {
+    baseShare.site = value.site;
+  }
+
+  if (value.live === true) {
+    baseShare.live = true;
+  }
+
+  if (typeof value.maxBytes === "number" && Number.isSafeInteger(value.maxBytes) && value.maxBytes > 0) {
+    baseShare.maxBytes = value.maxBytes;
+  }
+
+  if (Array.isArray(value.allowedExtensions) && value.allowedExtensions.every((extension) => typeof extension === "string")) {
+    baseShare.allowedExtensions = value.allowedExtensions;
+  }
+
+  if (typeof value.passwordHash === "string" && value.passwordHash.length > 0) {
+    baseShare.passwordHash = value.passwordHash;
+  }
+
+  if (typeof value.tokenHash === "string" && value.tokenHash.length > 0) {
+    baseShare.tokenHash = value.tokenHash;
+  }
+
+  if (isStringList(value.allow) && value.allow.length > 0) {
+    baseShare.allow = value.allow;
+  }
+
+  if (typeof value.maxDownloads === "number" && Number.isSafeInteger(value.maxDownloads) && value.maxDownloads > 0) {
+    baseShare.maxDownloads = value.maxDownloads;
+  }
+
+  if (typeof value.downloads === "number" && Number.isSafeInteger(value.downloads) && value.downloads > 0) {
+    baseShare.downloads = value.downloads;
+  }
+
+  if (value.git === true) {
+    baseShare.git = true;
+  }
+
+  if (typeof value.historyLimit === "number" && Number.isSafeInteger(value.historyLimit) && value.historyLimit >= 0) {
+    baseShare.historyLimit = value.historyLimit;
+  }
+
+  if (typeof value.historyMaxAgeMs === "number" && Number.isSafeInteger(value.historyMaxAgeMs) && value.historyMaxAgeMs > 0) {
+    baseShare.historyMaxAgeMs = value.historyMaxAgeMs;
+  }
+
   if (value.status === "online" || value.status === "offline") {
     baseShare.status = value.status;
   }
@@ -690,6 +1026,22 @@ function toRestoredShareRecord(shareId: string, value: unknown): ShareRecord | u
     baseShare.lastSeen = value.lastSeen;
   }
 
+  if (value.type === "collection") {
+    if (!Array.isArray(value.items)) {
+      return undefined;
+    }
+
+    const items = value.items.filter(
+      (item): item is CollectionItem =>
+        isProjectRecord(item) && typeof item.name === "string" && item.name.length > 0 && typeof item.path === "string" && item.path.length > 0,
+    );
+    return {
+      ...baseShare,
+      title: typeof value.title === "string" && value.title.length > 0 ? value.title : undefined,
+      items: items.map((item) => ({ name: item.name, path: item.path })),
+    };
+  }
+
   if (value.type === "proxy") {
     if (typeof value.port !== "number" || !Number.isInteger(value.port) || value.port <= 0 || value.port > 65_535) {
       return undefined;
@@ -720,19 +1072,42 @@ function toProjectRecord(value: unknown): ProjectRecord | undefined {
     return undefined;
   }
 
+  const project: ProjectRecord = { path: value.path };
+  if (value.public === true) {
+    project.public = true;
+  }
+
+  if (typeof value.passwordHash === "string" && value.passwordHash.length > 0) {
+    project.passwordHash = value.passwordHash;
+  }
+
+  if (typeof value.tokenHash === "string" && value.tokenHash.length > 0) {
+    project.tokenHash = value.tokenHash;
+  }
+
+  if (isStringList(value.allow) && value.allow.length > 0) {
+    project.allow = value.allow;
+  }
+
   const rawPort = value.port;
   if (rawPort === undefined) {
-    return { path: value.path };
+    if (isSiteMode(value.site)) {
+      project.site = value.site;
+    }
+
+    if (value.live === true) {
+      project.live = true;
+    }
+
+    return project;
   }
 
   if (typeof rawPort !== "number" || !Number.isInteger(rawPort) || rawPort <= 0 || rawPort > 65_535) {
     return undefined;
   }
 
-  return {
-    path: value.path,
-    port: rawPort,
-  };
+  project.port = rawPort;
+  return project;
 }
 
 function toAutoRestartProjectRecord(value: unknown): AutoRestartProjectRecord | undefined {
@@ -802,10 +1177,13 @@ function toProjectLastSeen(value: unknown): string | undefined {
   return typeof value.lastSeen === "string" && value.lastSeen.length > 0 ? value.lastSeen : undefined;
 }
 
+// The status is written to the request's snapshot for the rest of the
+// request, and to the state file under the lock so a concurrent stop or
+// download count is not overwritten.
 function updateProjectProxyStatus(
+  projectKey: string,
   projectState: unknown,
   status: "online" | "offline",
-  state: TailserveState,
   runtime: ProjectProxyRuntime,
 ): void {
   if (!isProjectRecord(projectState)) {
@@ -816,30 +1194,48 @@ function updateProjectProxyStatus(
     return;
   }
 
-  projectState.status = status;
-  if (status === "online") {
-    projectState.lastSeen = (runtime.nowIso ?? (() => new Date().toISOString()))();
-  }
+  const lastSeen = status === "online" ? (runtime.nowIso ?? (() => new Date().toISOString()))() : undefined;
+  const applyStatus = (project: Record<string, unknown>): void => {
+    project.status = status;
+    if (lastSeen !== undefined) {
+      project.lastSeen = lastSeen;
+    }
+  };
 
-  runtime.writeState?.(state);
+  applyStatus(projectState);
+  runtime.updateState?.((state) => {
+    const currentProject = state.projects[projectKey];
+    if (isProjectRecord(currentProject)) {
+      applyStatus(currentProject);
+    }
+  });
 }
 
 function updateShareProxyStatus(
+  shareId: string,
   share: ShareRecord & { port: number },
   status: "online" | "offline",
-  state: TailserveState,
   runtime: ProjectProxyRuntime,
 ): void {
   if (share.status === status) {
     return;
   }
 
-  share.status = status;
-  if (status === "online") {
-    share.lastSeen = (runtime.nowIso ?? (() => new Date().toISOString()))();
-  }
+  const lastSeen = status === "online" ? (runtime.nowIso ?? (() => new Date().toISOString()))() : undefined;
+  const applyStatus = (record: ShareRecord): void => {
+    record.status = status;
+    if (lastSeen !== undefined) {
+      record.lastSeen = lastSeen;
+    }
+  };
 
-  runtime.writeState?.(state);
+  applyStatus(share);
+  runtime.updateState?.((state) => {
+    const currentShare = state.shares[shareId];
+    if (isProxyShare(currentShare)) {
+      applyStatus(currentShare);
+    }
+  });
 }
 
 function checkPortOverTcp(port: number): Promise<boolean> {
@@ -876,7 +1272,7 @@ function checkPortOverTcp(port: number): Promise<boolean> {
 function buildDefaultProxyHealthCheckRuntime(): ProxyHealthCheckRuntime {
   return {
     readState,
-    writeState,
+    updateState,
     nowIso: () => new Date().toISOString(),
     checkPort: checkPortOverTcp,
   };
@@ -908,36 +1304,15 @@ function getProjectHealthTargets(state: TailserveState): ProjectHealthTarget[] {
   return targets;
 }
 
-export async function runProxyHealthCheck(runtime = buildDefaultProxyHealthCheckRuntime()): Promise<void> {
-  const state = runtime.readState();
-  const proxyShares = Object.values(state.shares).filter(isProxyShare);
-  const projectTargets = getProjectHealthTargets(state);
-  if (proxyShares.length === 0 && projectTargets.length === 0) {
-    return;
-  }
-
-  const uniquePorts = new Set<number>();
-  for (const share of proxyShares) {
-    uniquePorts.add(share.port);
-  }
-  for (const target of projectTargets) {
-    uniquePorts.add(target.port);
-  }
-
-  const healthByPort = new Map<number, boolean>(
-    await Promise.all(
-      Array.from(uniquePorts, async (port) => {
-        const isOnline = await runtime.checkPort(port);
-        return [port, isOnline] as const;
-      }),
-    ),
-  );
-
-  const nowIso = runtime.nowIso();
+function applyProxyHealth(state: TailserveState, healthByPort: ReadonlyMap<number, boolean>, nowIso: string): boolean {
   let hasUpdates = false;
 
-  for (const share of proxyShares) {
-    const isOnline = healthByPort.get(share.port) === true;
+  for (const share of Object.values(state.shares).filter(isProxyShare)) {
+    const isOnline = healthByPort.get(share.port);
+    if (isOnline === undefined) {
+      continue;
+    }
+
     const status = isOnline ? "online" : "offline";
     if (share.status !== status) {
       share.status = status;
@@ -950,8 +1325,12 @@ export async function runProxyHealthCheck(runtime = buildDefaultProxyHealthCheck
     }
   }
 
-  for (const target of projectTargets) {
-    const isOnline = healthByPort.get(target.port) === true;
+  for (const target of getProjectHealthTargets(state)) {
+    const isOnline = healthByPort.get(target.port);
+    if (isOnline === undefined) {
+      continue;
+    }
+
     const status = isOnline ? "online" : "offline";
     if (target.project.status !== status) {
       target.project.status = status;
@@ -964,25 +1343,58 @@ export async function runProxyHealthCheck(runtime = buildDefaultProxyHealthCheck
     }
   }
 
-  if (hasUpdates) {
-    runtime.writeState(state);
-  }
+  return hasUpdates;
 }
 
-function startProxyHealthCheckLoop(runHealthCheck: () => Promise<void>): NodeJS.Timeout {
-  let isRunning = false;
-  const runTick = (): void => {
-    if (isRunning) {
-      return;
-    }
+export async function runProxyHealthCheck(runtime = buildDefaultProxyHealthCheckRuntime()): Promise<void> {
+  const state = runtime.readState();
+  const proxyShares = Object.values(state.shares).filter(isProxyShare);
+  const projectTargets = getProjectHealthTargets(state);
+  if (proxyShares.length === 0 && projectTargets.length === 0) {
+    return;
+  }
 
-    isRunning = true;
-    void runHealthCheck()
-      .catch(() => {
-        return;
-      })
-      .finally(() => {
-        isRunning = false;
+  const uniquePorts = new Set<number>();
+  for (const share of proxyShares) {
+    uniquePorts.add(share.port);
+  }
+  for (const target of projectTargets) {
+    uniquePorts.add(target.port);
+  }
+
+  const healthByPort = new Map<number, boolean>(
+    await Promise.all(
+      Array.from(uniquePorts, async (port) => {
+        const isOnline = await runtime.checkPort(port);
+        return [port, isOnline] as const;
+      }),
+    ),
+  );
+
+  // Checks take a while, so the results are applied to a fresh copy under the
+  // lock; routes stopped in the meantime stay stopped.
+  const nowIso = runtime.nowIso();
+  if (applyProxyHealth(state, healthByPort, nowIso)) {
+    runtime.updateState((currentState) => {
+      applyProxyHealth(currentState, healthByPort, nowIso);
+    });
+  }
+}
+
+function startProxyHealthCheckLoop(runHealthCheck: () => Promise<void>): NodeJS.Timeout {
+  let isRunning = false;
+  const runTick = (): void => {
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    void runHealthCheck()
+      .catch(() => {
+        return;
+      })
+      .finally(() => {
+        isRunning = false;
       });
   };
 
@@ -1010,7 +1422,291 @@ function stopTrackedTunnels(state: TailserveState): void {
   }
 }
 
-function resolveStaticDirectoryRequest(routePrefix: string, rootPath: string, segments: string[]): ResolvedRequest {
+interface FilePreviewOptions {
+  routePrefix: string;
+  segments: string[];
+  compress?: boolean;
+  acceptsHtml?: boolean;
+  dataView?: DataViewQuery;
+}
+
+function toDataViewQuery(searchParams: URLSearchParams): DataViewQuery {
+  const query = searchParams.get("q") ?? undefined;
+  return {
+    page: parsePageNumber(searchParams.get("page")),
+    query: query === undefined || query.trim().length === 0 ? undefined : query,
+  };
+}
+
+function readFileSample(filePath: string): Buffer | undefined {
+  let fd: number | undefined;
+  try {
+    fd = openSync(filePath, "r");
+    const sample = Buffer.alloc(TEXT_SAMPLE_BYTES);
+    const bytesRead = readSync(fd, sample, 0, sample.length, 0);
+    return sample.subarray(0, bytesRead);
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) {
+      closeSync(fd);
+    }
+  }
+}
+
+function isViewableAsCode(filePath: string): boolean {
+  // Known source extensions win over mime-types, which maps ".ts" to MPEG-TS video.
+  if (detectLanguageFromName(filePath) !== undefined) {
+    return true;
+  }
+
+  const mimeType = lookupMimeType(filePath);
+  if (typeof mimeType !== "string") {
+    return true;
+  }
+
+  // Pages and media keep their native rendering; everything else is sniffed.
+  return !/^(?:text\/html|application\/xhtml\+xml|image\/|audio\/|video\/|font\/)/.test(mimeType);
+}
+
+// Data files and code get a viewer only when the browser asks for HTML, so
+// their raw bytes depend on Accept as well. Markdown is rendered whatever the
+// Accept header says.
+function toPreviewVary(filePath: string): string | undefined {
+  if (isMarkdownPath(filePath)) {
+    return undefined;
+  }
+
+  return detectDataFormat(filePath) !== undefined || isViewableAsCode(filePath) ? "Accept" : undefined;
+}
+
+function resolveFilePreview(filePath: string, stats: Stats, options: FilePreviewOptions): ResolvedRequest | undefined {
+  const { routePrefix, segments } = options;
+  const title = segments.length === 0 ? path.basename(filePath) : segments.join("/");
+  const rawHref = `${buildRouteHref(routePrefix, segments, false)}?raw=1`;
+
+  if (isMarkdownPath(filePath)) {
+    // Very large documents are served as-is rather than rendered in memory.
+    if (stats.size > MARKDOWN_PREVIEW_MAX_BYTES) {
+      return undefined;
+    }
+
+    let source: string;
+    try {
+      source = readFileSync(filePath, "utf8");
+    } catch {
+      return undefined;
+    }
+
+    return {
+      statusCode: 200,
+      contentType: "text/html; charset=utf-8",
+      compress: options.compress,
+      body: renderMarkdownPreview({
+        title,
+        source,
+        routePrefix,
+        baseSegments: segments.slice(0, -1),
+        rawHref,
+      }),
+    };
+  }
+
+  // Only browser navigations get the viewer; scripts and stylesheets loaded
+  // by a shared page must still receive their raw bytes.
+  if (options.acceptsHtml !== true) {
+    return undefined;
+  }
+
+  const dataFormat = detectDataFormat(filePath);
+  if (dataFormat !== undefined) {
+    const dataView = options.dataView ?? { page: 1 };
+    const context: DataViewContext = {
+      title,
+      fileName: path.basename(filePath),
+      format: dataFormat,
+      rawHref,
+      documentHref: buildRouteHref(routePrefix, segments, false),
+      query: dataView.query,
+    };
+
+    if (dataFormat !== "json") {
+      return {
+        statusCode: 200,
+        contentType: "text/html; charset=utf-8",
+        compress: options.compress,
+        vary: "Accept",
+        table: {
+          filePath,
+          format: dataFormat,
+          page: dataView.page,
+          context,
+        },
+      };
+    }
+
+    // Documents too large or malformed for the tree fall through to the code viewer or raw bytes.
+    if (stats.size <= JSON_TREE_MAX_BYTES) {
+      try {
+        return {
+          statusCode: 200,
+          contentType: "text/html; charset=utf-8",
+          compress: options.compress,
+          vary: "Accept",
+          body: renderJsonTreeHtml(context, JSON.parse(readFileSync(filePath, "utf8"))),
+        };
+      } catch {
+        // Fall through.
+      }
+    }
+  }
+
+  if (stats.size > CODE_PREVIEW_MAX_BYTES || !isViewableAsCode(filePath)) {
+    return undefined;
+  }
+
+  const sample = readFileSample(filePath);
+  const language = sample === undefined ? undefined : detectLanguage(filePath, sample);
+  if (language === undefined) {
+    return undefined;
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  return {
+    statusCode: 200,
+    contentType: "text/html; charset=utf-8",
+    compress: options.compress,
+    vary: "Accept",
+    body: renderCodePreview({
+      title,
+      fileName: path.basename(filePath),
+      source,
+      language,
+      rawHref,
+    }),
+  };
+}
+
+function resolveFileSharePreview(
+  share: ShareRecord & { path: string },
+  shareId: string,
+  acceptsHtml: boolean,
+  dataView: DataViewQuery,
+): ResolvedRequest | undefined {
+  let stats;
+  try {
+    stats = statSync(share.path);
+  } catch {
+    return undefined;
+  }
+
+  return resolveFilePreview(share.path, stats, {
+    routePrefix: `/s/${shareId}`,
+    segments: [],
+    compress: share.compress,
+    acceptsHtml,
+    dataView,
+  });
+}
+
+function toStaticFileRequest(filePath: string, options: StaticDirectoryOptions): ResolvedRequest {
+  return {
+    statusCode: 200,
+    filePath,
+    contentType: resolveMimeType(filePath),
+    cachePolicy: options.cachePolicy ?? DEFAULT_CACHE_POLICY,
+    compress: options.compress,
+    precompressed: true,
+  };
+}
+
+function isRegularFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function resolveSiteNotFound(rootPath: string): ResolvedRequest {
+  try {
+    return {
+      statusCode: 404,
+      contentType: "text/html; charset=utf-8",
+      body: readFileSync(path.join(rootPath, "404.html"), "utf8"),
+    };
+  } catch {
+    return {
+      statusCode: 404,
+    };
+  }
+}
+
+function resolveSiteRequest(
+  routePrefix: string,
+  rootPath: string,
+  segments: string[],
+  options: StaticDirectoryOptions,
+): ResolvedRequest {
+  const resolvedPath = segments.some(isHiddenPathSegment) ? undefined : resolveSharePath(rootPath, segments);
+  if (!resolvedPath) {
+    return resolveSiteNotFound(rootPath);
+  }
+
+  let stats;
+  try {
+    stats = statSync(resolvedPath);
+  } catch {
+    stats = undefined;
+  }
+
+  if (stats?.isDirectory()) {
+    // Relative asset URLs in index.html only resolve against the directory
+    // once the URL ends in a slash.
+    if (options.trailingSlash !== true) {
+      return {
+        statusCode: 301,
+        location: buildRouteHref(routePrefix, segments, true),
+      };
+    }
+
+    const indexPath = path.join(resolvedPath, "index.html");
+    if (isRegularFile(indexPath)) {
+      return toStaticFileRequest(indexPath, options);
+    }
+  } else if (stats?.isFile()) {
+    return toStaticFileRequest(resolvedPath, options);
+  } else if (segments.length > 0 && isRegularFile(`${resolvedPath}.html`)) {
+    return toStaticFileRequest(`${resolvedPath}.html`, options);
+  }
+
+  // Paths with an extension are asset requests; answering a missing script
+  // with index.html would only surface as a confusing MIME error.
+  const lastSegment = segments[segments.length - 1] ?? "";
+  const rootIndexPath = path.join(rootPath, "index.html");
+  if (options.siteMode === "spa" && path.extname(lastSegment).length === 0 && isRegularFile(rootIndexPath)) {
+    return toStaticFileRequest(rootIndexPath, options);
+  }
+
+  return resolveSiteNotFound(rootPath);
+}
+
+function resolveStaticDirectoryRequest(
+  routePrefix: string,
+  rootPath: string,
+  segments: string[],
+  options: StaticDirectoryOptions = {},
+): ResolvedRequest {
+  if (options.siteMode !== undefined) {
+    return resolveSiteRequest(routePrefix, rootPath, segments, options);
+  }
+
   if (segments.some(isHiddenPathSegment)) {
     return {
       statusCode: 404,
@@ -1033,18 +1729,60 @@ function resolveStaticDirectoryRequest(routePrefix: string, rootPath: string, se
     };
   }
 
+  if (stats.isDirectory() && options.allowArchives === true && typeof options.archive === "string") {
+    if (!isArchiveFormat(options.archive)) {
+      return {
+        statusCode: 400,
+        contentType: "text/plain; charset=utf-8",
+        body: "Unsupported archive format (expected zip or tgz)\n",
+      };
+    }
+
+    return {
+      statusCode: 200,
+      archive: {
+        format: options.archive,
+        rootPath,
+        directoryPath: resolvedPath,
+        name: segments[segments.length - 1] ?? (path.basename(rootPath) || "share"),
+      },
+    };
+  }
+
   if (stats.isDirectory()) {
-    const listing = buildDirectoryListing(routePrefix, rootPath, resolvedPath, segments);
+    const sort = options.sort ?? parseListingSort(new URLSearchParams());
+    const listing = readDirectoryListing({
+      routePrefix,
+      shareRootPath: rootPath,
+      directoryPath: resolvedPath,
+      segments,
+      sort,
+    });
     if (listing === undefined) {
       return {
         statusCode: 404,
       };
     }
 
+    if (options.listingFormat === "json") {
+      return {
+        statusCode: 200,
+        contentType: "application/json; charset=utf-8",
+        compress: options.compress,
+        vary: "Accept",
+        listing: true,
+        body: toDirectoryListingJson(listing, sort),
+      };
+    }
+
+    const directoryHref = buildRouteHref(routePrefix, segments, true);
     return {
       statusCode: 200,
       contentType: "text/html; charset=utf-8",
-      body: listing,
+      compress: options.compress,
+      vary: "Accept",
+      listing: true,
+      body: renderDirectoryListingHtml(listing, directoryHref, sort, options.allowArchives === true),
     };
   }
 
@@ -1054,41 +1792,46 @@ function resolveStaticDirectoryRequest(routePrefix: string, rootPath: string, se
     };
   }
 
-  return {
-    statusCode: 200,
-    filePath: resolvedPath,
-    contentType: resolveMimeType(resolvedPath),
-  };
+  if (options.raw !== true) {
+    const preview = resolveFilePreview(resolvedPath, stats, {
+      routePrefix,
+      segments,
+      compress: options.compress,
+      acceptsHtml: options.acceptsHtml,
+      dataView: options.dataView,
+    });
+    if (preview) {
+      return preview;
+    }
+  }
+
+  return { ...toStaticFileRequest(resolvedPath, options), vary: options.raw === true ? undefined : toPreviewVary(resolvedPath) };
 }
 
 export function restorePersistedRoutesOnStartup(nowMs = Date.now()): void {
-  const state = readState();
-  let changed = false;
-
-  for (const [shareId, rawShare] of Object.entries(state.shares as Record<string, unknown>)) {
-    const share = toRestoredShareRecord(shareId, rawShare);
-    // Remove malformed or expired shares. Keep both persistent and ephemeral
-    // shares that haven't expired — the reaper interval handles TTL cleanup,
-    // and dropping ephemeral shares here races with the CLI creating them.
-    if (!share || hasShareExpired(share, nowMs)) {
-      delete state.shares[shareId];
-      changed = true;
-    } else {
-      // Normalize: toRestoredShareRecord may fix the id to match the key
-      state.shares[shareId] = share;
+  // Under the state lock, so a released blob cannot be one the CLI is placing
+  // for a new share at the same time.
+  updateState((state) => {
+    for (const [shareId, rawShare] of Object.entries(state.shares as Record<string, unknown>)) {
+      const share = toRestoredShareRecord(shareId, rawShare);
+      // Remove malformed or expired shares. Keep both persistent and ephemeral
+      // shares that haven't expired — the reaper interval handles TTL cleanup,
+      // and dropping ephemeral shares here races with the CLI creating them.
+      if (!share || hasShareExpired(share, nowMs)) {
+        delete state.shares[shareId];
+        releaseBlob(state, share?.path);
+      } else {
+        // Normalize: toRestoredShareRecord may fix the id to match the key
+        state.shares[shareId] = share;
+      }
     }
-  }
 
-  for (const [projectName, project] of Object.entries(state.projects)) {
-    if (!toProjectRecord(project)) {
-      delete state.projects[projectName];
-      changed = true;
+    for (const [projectName, project] of Object.entries(state.projects)) {
+      if (!toProjectRecord(project)) {
+        delete state.projects[projectName];
+      }
     }
-  }
-
-  if (changed) {
-    writeState(state);
-  }
+  });
 }
 
 function writeNotFound(response: ServerResponse): void {
@@ -1102,8 +1845,22 @@ function writeJson(response: ServerResponse, statusCode: number, payload: Record
   response.end(JSON.stringify(payload));
 }
 
+function acceptsHtml(headers: IncomingHttpHeaders | undefined): boolean {
+  return (headers?.accept ?? "").includes("text/html");
+}
+
+function toListingFormat(requestUrl: URL, headers: IncomingHttpHeaders | undefined): "html" | "json" {
+  const format = requestUrl.searchParams.get("format");
+  if (format === "json" || format === "html") {
+    return format;
+  }
+
+  const accept = headers?.accept ?? "";
+  return accept.includes("application/json") && !accept.includes("text/html") ? "json" : "html";
+}
+
 export function resolveRequest(
-  request: Pick<IncomingMessage, "method" | "url">,
+  request: Pick<IncomingMessage, "method" | "url"> & { headers?: IncomingHttpHeaders },
   state = readState(),
 ): ResolvedRequest {
   if (request.method !== "GET") {
@@ -1122,6 +1879,10 @@ export function resolveRequest(
     };
   }
 
+  if (requestUrl.pathname === "/api/qr") {
+    return toQrCodeRequest(requestUrl.searchParams.get("url"));
+  }
+
   if (requestUrl.pathname === "/") {
     return {
       statusCode: 200,
@@ -1130,6 +1891,20 @@ export function resolveRequest(
     };
   }
 
+  const access = resolveRouteAccess(request, state);
+  if (!access.allowed) {
+    return access.resolved;
+  }
+
+  const resolved = resolveRouteRequest(request, requestUrl, state);
+  return access.setCookie === undefined ? resolved : { ...resolved, setCookie: access.setCookie };
+}
+
+function resolveRouteRequest(
+  request: Pick<IncomingMessage, "method" | "url"> & { headers?: IncomingHttpHeaders },
+  requestUrl: URL,
+  state: TailserveState,
+): ResolvedRequest {
   const parsedSharePath = parseSharePath(requestUrl.pathname);
   if (parsedSharePath) {
     const share = state.shares[parsedSharePath.id];
@@ -1137,8 +1912,29 @@ export function resolveRequest(
       return resolveEditShareRequest(parsedSharePath, share);
     }
 
+    if (isInboxShare(share)) {
+      return resolveInboxShareRequest(parsedSharePath, share);
+    }
+
+    if (isCollectionShare(share)) {
+      return resolveCollectionShareRequest(request, requestUrl, parsedSharePath, share);
+    }
+
     if (isDirectoryShare(share)) {
-      return resolveStaticDirectoryRequest(`/s/${parsedSharePath.id}`, share.path, parsedSharePath.segments);
+      const resolved = resolveStaticDirectoryRequest(`/s/${parsedSharePath.id}`, share.path, parsedSharePath.segments, {
+        cachePolicy: share.cache,
+        compress: share.compress,
+        allowArchives: true,
+        archive: requestUrl.searchParams.get("archive"),
+        sort: parseListingSort(requestUrl.searchParams),
+        listingFormat: toListingFormat(requestUrl, request.headers),
+        siteMode: share.site,
+        trailingSlash: parsedSharePath.trailingSlash,
+        raw: requestUrl.searchParams.get("raw") === "1",
+        acceptsHtml: acceptsHtml(request.headers),
+        dataView: toDataViewQuery(requestUrl.searchParams),
+      });
+      return withLiveReload(resolved, share.live, `/s/${parsedSharePath.id}`);
     }
 
     if (!isFileShare(share)) {
@@ -1153,11 +1949,30 @@ export function resolveRequest(
       };
     }
 
-    return {
-      statusCode: 200,
-      filePath: share.path,
-      contentType: resolveMimeType(share.path, share.mimeType),
-    };
+    if (requestUrl.searchParams.get("raw") !== "1" && share.contentType === undefined) {
+      const preview = resolveFileSharePreview(
+        share,
+        parsedSharePath.id,
+        acceptsHtml(request.headers),
+        toDataViewQuery(requestUrl.searchParams),
+      );
+      if (preview) {
+        return withLiveReload(preview, share.live, `/s/${parsedSharePath.id}`);
+      }
+    }
+
+    return withLiveReload(
+      {
+        statusCode: 200,
+        filePath: share.path,
+        contentType: share.contentType ?? resolveMimeType(share.path, share.mimeType),
+        cachePolicy: share.cache ?? DEFAULT_CACHE_POLICY,
+        compress: share.compress,
+        vary: requestUrl.searchParams.get("raw") === "1" || share.contentType !== undefined ? undefined : toPreviewVary(share.path),
+      },
+      share.live,
+      `/s/${parsedSharePath.id}`,
+    );
   }
 
   const parsedProjectPath = parseProjectPath(requestUrl.pathname);
@@ -1174,10 +1989,710 @@ export function resolveRequest(
     };
   }
 
-  return resolveStaticDirectoryRequest(`/p/${parsedProjectPath.name}`, project.path, parsedProjectPath.segments);
+  const resolved = resolveStaticDirectoryRequest(`/p/${parsedProjectPath.name}`, project.path, parsedProjectPath.segments, {
+    sort: parseListingSort(requestUrl.searchParams),
+    listingFormat: toListingFormat(requestUrl, request.headers),
+    siteMode: project.site,
+    trailingSlash: parsedProjectPath.trailingSlash,
+    raw: requestUrl.searchParams.get("raw") === "1",
+    acceptsHtml: acceptsHtml(request.headers),
+    dataView: toDataViewQuery(requestUrl.searchParams),
+  });
+  return withLiveReload(resolved, project.live, `/p/${parsedProjectPath.name}`);
+}
+
+const MAX_LOGIN_BODY_BYTES = 16 * 1024;
+const routeAccessCache = new WeakMap<object, RouteAccess>();
+
+function resolveAccessTarget(pathname: string, state: TailserveState): AccessTarget | undefined {
+  const parsedSharePath = parseSharePath(pathname);
+  if (parsedSharePath) {
+    const share = state.shares[parsedSharePath.id];
+    if (!share || (!isProtected(share) && share.allow === undefined)) {
+      return undefined;
+    }
+
+    return {
+      scope: {
+        cookieName: `tailserve_s_${parsedSharePath.id}`,
+        cookiePath: `/s/${parsedSharePath.id}`,
+        credentials: { passwordHash: share.passwordHash, tokenHash: share.tokenHash },
+      },
+      allow: share.allow,
+      routePrefix: `/s/${parsedSharePath.id}`,
+      title: "This share is protected",
+    };
+  }
+
+  const parsedProjectPath = parseProjectPath(pathname);
+  if (!parsedProjectPath) {
+    return undefined;
+  }
+
+  const project = toProjectRecord(state.projects[parsedProjectPath.name]);
+  if (!project || (!isProtected(project) && project.allow === undefined)) {
+    return undefined;
+  }
+
+  return {
+    scope: {
+      cookieName: `tailserve_p_${parsedProjectPath.name}`,
+      cookiePath: `/p/${parsedProjectPath.name}`,
+      credentials: { passwordHash: project.passwordHash, tokenHash: project.tokenHash },
+    },
+    allow: project.allow,
+    routePrefix: `/p/${parsedProjectPath.name}`,
+    title: "This project is protected",
+  };
+}
+
+function toAccessDeniedRequest(
+  target: AccessTarget,
+  headers: IncomingHttpHeaders | undefined,
+  next: string,
+  error?: string,
+): ResolvedRequest {
+  // Browsers get the login form; a WWW-Authenticate header would pop the native dialog instead.
+  if (target.scope.credentials.passwordHash !== undefined && acceptsHtml(headers)) {
+    return {
+      statusCode: 401,
+      contentType: "text/html; charset=utf-8",
+      body: renderLoginPage({
+        title: target.title,
+        action: `${target.routePrefix}/${LOGIN_SEGMENT}`,
+        next,
+        error,
+      }),
+    };
+  }
+
+  return {
+    statusCode: 401,
+    contentType: "text/plain; charset=utf-8",
+    body: "Unauthorized\n",
+    wwwAuthenticate: target.scope.credentials.passwordHash !== undefined ? 'Basic realm="tailserve", charset="UTF-8"' : 'Bearer realm="tailserve"',
+  };
+}
+
+// Allow lists are checked before any credentials: a password does not let
+// someone outside the list in.
+function toForbiddenRequest(
+  target: AccessTarget,
+  headers: IncomingHttpHeaders | undefined,
+  state: TailserveState,
+): ResolvedRequest | undefined {
+  if (target.allow === undefined) {
+    return undefined;
+  }
+
+  const identity = readTailscaleIdentity(headers);
+  if (isIdentityAllowed(target.allow, identity, state.groups)) {
+    return undefined;
+  }
+
+  if (acceptsHtml(headers)) {
+    return {
+      statusCode: 403,
+      contentType: "text/html; charset=utf-8",
+      body: renderForbiddenPage({ title: target.title, login: identity?.login }),
+    };
+  }
+
+  return {
+    statusCode: 403,
+    contentType: "text/plain; charset=utf-8",
+    body: "Forbidden\n",
+  };
+}
+
+function isSecureRequest(headers: IncomingHttpHeaders | undefined): boolean {
+  return headers?.["x-forwarded-proto"] === "https";
+}
+
+// Internet origins only see public routes; everything else, including the
+// dashboard and /api/*, is reported as missing rather than forbidden.
+function isVisibleToInternet(pathname: string, origin: RequestOrigin, headers: IncomingHttpHeaders | undefined, state: TailserveState): boolean {
+  const parsedSharePath = parseSharePath(pathname);
+  if (parsedSharePath) {
+    const share = state.shares[parsedSharePath.id];
+    if (share?.public !== true) {
+      return false;
+    }
+
+    // A quick tunnel URL only reaches the share it was started for.
+    if (origin === "quick-tunnel") {
+      const tunnel = state.tunnels[parsedSharePath.id];
+      return tunnel !== undefined && URL.canParse(tunnel.url) && new URL(tunnel.url).hostname === toRequestHostname(headers);
+    }
+
+    return true;
+  }
+
+  const parsedProjectPath = parseProjectPath(pathname);
+  if (parsedProjectPath && origin !== "quick-tunnel") {
+    return toProjectRecord(state.projects[parsedProjectPath.name])?.public === true;
+  }
+
+  return false;
+}
+
+// Checked by every entry point that serves a route; memoised so one request
+// never pays for the password hash twice.
+function resolveRouteAccess(
+  request: Pick<IncomingMessage, "url"> & { headers?: IncomingHttpHeaders; socket?: { remoteAddress?: string } },
+  state: TailserveState,
+): RouteAccess {
+  const cached = routeAccessCache.get(request);
+  if (cached) {
+    return cached;
+  }
+
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const origin = classifyRequestOrigin(request.headers, state, request.socket?.remoteAddress);
+  const target = resolveAccessTarget(requestUrl.pathname, state);
+  const forbidden = target === undefined ? undefined : toForbiddenRequest(target, request.headers, state);
+  let access: RouteAccess;
+  if (isInternetOrigin(origin) && !isVisibleToInternet(requestUrl.pathname, origin, request.headers, state)) {
+    access = { allowed: false, resolved: { statusCode: 404 } };
+  } else if (forbidden) {
+    access = { allowed: false, resolved: forbidden };
+  } else if (!target || !isProtected(target.scope.credentials) || hasValidSession(request.headers, target.scope)) {
+    access = { allowed: true };
+  } else if (verifyPresentedCredentials(target.scope.credentials, readPresentedCredentials(request.headers, requestUrl.searchParams))) {
+    access = { allowed: true, setCookie: createSessionCookie(target.scope, isSecureRequest(request.headers)) };
+  } else {
+    access = {
+      allowed: false,
+      resolved: toAccessDeniedRequest(target, request.headers, `${requestUrl.pathname}${requestUrl.search}`),
+    };
+  }
+
+  routeAccessCache.set(request, access);
+  return access;
+}
+
+function toQrCodeRequest(value: string | null): ResolvedRequest {
+  if (value === null || value.trim().length === 0) {
+    return {
+      statusCode: 400,
+      contentType: "text/plain; charset=utf-8",
+      body: "Missing url parameter\n",
+    };
+  }
+
+  try {
+    return {
+      statusCode: 200,
+      contentType: "image/svg+xml; charset=utf-8",
+      body: renderQrSvg(value),
+    };
+  } catch (error: unknown) {
+    return {
+      statusCode: 400,
+      contentType: "text/plain; charset=utf-8",
+      body: `${error instanceof Error ? error.message : String(error)}\n`,
+    };
+  }
+}
+
+function isWithinRoute(href: string, routePrefix: string): boolean {
+  return href === routePrefix || href.startsWith(`${routePrefix}/`) || href.startsWith(`${routePrefix}?`);
+}
+
+// Read off the socket, so the count includes the status line and headers.
+// The end is taken when the response finishes, before a kept-alive socket
+// moves on to the next request.
+function countResponseBytes(response: ServerResponse): () => number {
+  const socket = response.socket;
+  const startBytes = socket?.bytesWritten ?? 0;
+  let endBytes: number | undefined;
+  const settle = (): void => {
+    endBytes ??= socket?.bytesWritten ?? startBytes;
+  };
+  response.once("finish", settle);
+  response.once("close", settle);
+  return () => (endBytes ?? socket?.bytesWritten ?? startBytes) - startBytes;
+}
+
+function toViewerIdentity(headers: IncomingHttpHeaders): string | undefined {
+  const login = readTailscaleIdentity(headers)?.login;
+  if (login !== undefined) {
+    return login;
+  }
+
+  const address = readSingleHeader(headers, "cf-connecting-ip") ?? readSingleHeader(headers, "x-forwarded-for")?.split(",")[0].trim();
+  return address === undefined || address.length === 0 ? undefined : `ip:${address}`;
+}
+
+function toObservedRoute(pathname: string, state: TailserveState): { kind: RouteKind; key: string; segments: string[] } | undefined {
+  const parsedSharePath = parseSharePath(pathname);
+  if (parsedSharePath) {
+    return parsedSharePath.id in state.shares ? { kind: "shares", key: parsedSharePath.id, segments: parsedSharePath.segments } : undefined;
+  }
+
+  const parsedProjectPath = parseProjectPath(pathname);
+  if (parsedProjectPath && toProjectRecord(state.projects[parsedProjectPath.name]) !== undefined) {
+    return { kind: "projects", key: parsedProjectPath.name, segments: parsedProjectPath.segments };
+  }
+
+  return undefined;
+}
+
+// Every request for an existing share is logged once the response closes,
+// including denied and aborted ones. Access tokens never reach the log.
+// Share and project requests also feed the dashboard analytics.
+function observeRouteAccess(
+  request: IncomingMessage,
+  response: ServerResponse,
+  state: TailserveState,
+  analytics: RouteAnalyticsRecorder,
+): void {
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const route = toObservedRoute(requestUrl.pathname, state);
+  if (!route || isLiveReloadPath(route.segments)) {
+    return;
+  }
+
+  const startedAtMs = Date.now();
+  const readBytes = countResponseBytes(response);
+  const viewer = toViewerIdentity(request.headers);
+  const origin = classifyRequestOrigin(request.headers, state, request.socket?.remoteAddress);
+  const login = readTailscaleIdentity(request.headers)?.login;
+  requestUrl.searchParams.delete("t");
+  response.once("close", () => {
+    const time = new Date(startedAtMs).toISOString();
+    analytics.record(route.kind, route.key, { viewer, bytes: readBytes(), at: time });
+    if (route.kind !== "shares") {
+      return;
+    }
+
+    try {
+      appendAccessLogEntry(route.key, {
+        time,
+        method: request.method ?? "GET",
+        path: `${requestUrl.pathname}${requestUrl.search}`,
+        status: response.statusCode,
+        bytes: readBytes(),
+        durationMs: Date.now() - startedAtMs,
+        login,
+        origin,
+      });
+    } catch {
+      // Logging must never break serving.
+    }
+  });
+}
+
+function flushRouteAnalytics(analytics: RouteAnalyticsRecorder): void {
+  if (!analytics.hasPending()) {
+    return;
+  }
+
+  try {
+    const state = readState();
+    analytics.flush({ shares: new Set(Object.keys(state.shares)), projects: new Set(Object.keys(state.projects)) });
+  } catch {
+    // Counters are best effort; a failed write must not take the server down.
+  }
+}
+
+// Limited shares count complete GET 200 responses, whether the file is sent raw,
+// rendered as a preview or as an archive. Directory listings, HEAD requests,
+// 304s, ranges and streams the client aborts ("close" without "finish") are
+// free.
+function trackShareDownload(
+  request: IncomingMessage,
+  response: ServerResponse,
+  state: TailserveState,
+  resolved: ResolvedRequest,
+): void {
+  if (request.method !== "GET") {
+    return;
+  }
+
+  if (resolved.statusCode !== 200 || resolved.listing === true) {
+    return;
+  }
+
+  const parsedSharePath = parseSharePath(new URL(request.url ?? "/", "http://localhost").pathname);
+  if (!parsedSharePath) {
+    return;
+  }
+
+  if (state.shares[parsedSharePath.id]?.maxDownloads === undefined) {
+    return;
+  }
+
+  response.once("finish", () => {
+    if (response.statusCode === 200) {
+      recordShareDownload(parsedSharePath.id);
+    }
+  });
+}
+
+function handleLoginRequest(request: IncomingMessage, response: ServerResponse, state: TailserveState): boolean {
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const target = resolveAccessTarget(requestUrl.pathname, state);
+  if (!target || !isProtected(target.scope.credentials) || requestUrl.pathname !== `${target.routePrefix}/${LOGIN_SEGMENT}`) {
+    return false;
+  }
+
+  // Hidden routes fall through to the access check, which answers 404.
+  const origin = classifyRequestOrigin(request.headers, state, request.socket?.remoteAddress);
+  if (isInternetOrigin(origin) && !isVisibleToInternet(requestUrl.pathname, origin, request.headers, state)) {
+    return false;
+  }
+
+  const forbidden = toForbiddenRequest(target, request.headers, state);
+  if (forbidden) {
+    handleResolvedRequest(request, response, forbidden);
+    return true;
+  }
+
+  if (request.method !== "POST") {
+    response.statusCode = 405;
+    response.setHeader("Allow", "POST");
+    response.end("Method not allowed\n");
+    return true;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  request.on("data", (chunk: Buffer | string) => {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size <= MAX_LOGIN_BODY_BYTES) {
+      chunks.push(buffer);
+    }
+  });
+  request.on("end", () => {
+    const form = new URLSearchParams(size <= MAX_LOGIN_BODY_BYTES ? Buffer.concat(chunks).toString("utf8") : "");
+    const requestedNext = form.get("next") ?? "";
+    const next = isWithinRoute(requestedNext, target.routePrefix) ? requestedNext : target.routePrefix;
+    if (!verifyPresentedCredentials(target.scope.credentials, { password: form.get("password") ?? undefined })) {
+      handleResolvedRequest(request, response, toAccessDeniedRequest(target, { accept: "text/html" }, next, "Incorrect password"));
+      return;
+    }
+
+    response.statusCode = 303;
+    response.setHeader("Set-Cookie", createSessionCookie(target.scope, isSecureRequest(request.headers)));
+    response.setHeader("Location", next);
+    response.end();
+  });
+  return true;
+}
+
+// Live routes serve HTML from memory so the reload script can be injected.
+function withLiveReload(resolved: ResolvedRequest, live: boolean | undefined, routePrefix: string): ResolvedRequest {
+  if (live !== true || resolved.contentType?.startsWith("text/html") !== true) {
+    return resolved;
+  }
+
+  const liveReload = toLiveReloadHref(routePrefix);
+  if (typeof resolved.filePath !== "string" || resolved.body !== undefined) {
+    return { ...resolved, liveReload };
+  }
+
+  let body: string;
+  try {
+    body = readFileSync(resolved.filePath, "utf8");
+  } catch {
+    return resolved;
+  }
+
+  return {
+    statusCode: resolved.statusCode,
+    contentType: resolved.contentType,
+    compress: resolved.compress,
+    vary: resolved.vary,
+    body,
+    liveReload,
+  };
+}
+
+function resolveLiveReloadTarget(pathname: string, state: TailserveState): LiveReloadTarget | undefined {
+  const parsedSharePath = parseSharePath(pathname);
+  if (parsedSharePath) {
+    const share = state.shares[parsedSharePath.id];
+    if (!isLiveReloadPath(parsedSharePath.segments) || !share || share.live !== true || hasShareExpired(share, Date.now())) {
+      return undefined;
+    }
+
+    if (!isFileShare(share) && !isDirectoryShare(share)) {
+      return undefined;
+    }
+
+    return { key: `s:${share.id}`, path: share.path, isDirectory: isDirectoryShare(share) };
+  }
+
+  const parsedProjectPath = parseProjectPath(pathname);
+  if (!parsedProjectPath || !isLiveReloadPath(parsedProjectPath.segments)) {
+    return undefined;
+  }
+
+  const project = toProjectRecord(state.projects[parsedProjectPath.name]);
+  if (!project || project.port !== undefined || project.live !== true) {
+    return undefined;
+  }
+
+  return { key: `p:${parsedProjectPath.name}`, path: project.path, isDirectory: true };
+}
+
+function collectLiveReloadKeys(state: TailserveState): Set<string> {
+  const keys = new Set<string>();
+  const nowMs = Date.now();
+  for (const share of Object.values(state.shares)) {
+    if (share.live === true && !hasShareExpired(share, nowMs)) {
+      keys.add(`s:${share.id}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(state.projects)) {
+    const project = toProjectRecord(value);
+    if (project?.live === true && project.port === undefined) {
+      keys.add(`p:${name}`);
+    }
+  }
+
+  return keys;
+}
+
+function handleLiveReloadRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  state: TailserveState,
+  liveReload: LiveReloadHub,
+): boolean {
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const target = resolveLiveReloadTarget(requestUrl.pathname, state);
+  if (!target) {
+    return false;
+  }
+
+  if (request.method !== "GET") {
+    response.statusCode = 405;
+    response.setHeader("Allow", "GET");
+    response.end("Method not allowed\n");
+    return true;
+  }
+
+  if (!liveReload.subscribe(target.key, target.path, target.isDirectory, response)) {
+    writeNotFound(response);
+  }
+
+  return true;
+}
+
+function writeRangeNotSatisfiable(response: ServerResponse, size: number): void {
+  response.statusCode = 416;
+  response.setHeader("Content-Range", formatUnsatisfiedContentRange(size));
+  response.end("Range not satisfiable\n");
+}
+
+function pipeFileStream(
+  response: ServerResponse,
+  filePath: string,
+  range: ByteRange | undefined,
+  onEnd: () => void,
+): void {
+  const stream = range ? createReadStream(filePath, { start: range.start, end: range.end }) : createReadStream(filePath);
+  stream.on("error", () => {
+    if (!response.headersSent) {
+      writeNotFound(response);
+      return;
+    }
+
+    response.destroy();
+  });
+  stream.on("end", onEnd);
+  stream.pipe(response, { end: false });
+}
+
+function pipeCompressedFileStream(
+  response: ServerResponse,
+  filePath: string,
+  encoding: ContentEncoding,
+  size: number,
+): void {
+  const stream = createReadStream(filePath);
+  const compressor = createCompressionStream(encoding, size);
+  stream.on("error", () => {
+    if (!response.headersSent) {
+      response.removeHeader("Content-Encoding");
+      writeNotFound(response);
+      return;
+    }
+
+    response.destroy();
+  });
+  compressor.on("error", () => {
+    response.destroy();
+  });
+  stream.pipe(compressor).pipe(response);
+}
+
+function selectFileRepresentation(
+  request: Pick<IncomingMessage, "headers">,
+  response: ServerResponse,
+  resolved: ResolvedRequest,
+  filePath: string,
+  stats: Stats,
+  contentType: string,
+): FileRepresentation {
+  const identity: FileRepresentation = { filePath, stats, compressOnTheFly: false };
+  if (resolved.vary !== undefined) {
+    response.setHeader("Vary", resolved.vary);
+  }
+
+  if (resolved.compress === false) {
+    return identity;
+  }
+
+  const compressible = isCompressibleType(contentType);
+  if (compressible || resolved.precompressed === true) {
+    response.setHeader("Vary", resolved.vary === undefined ? "Accept-Encoding" : `${resolved.vary}, Accept-Encoding`);
+  }
+
+  const encodings = negotiateEncodings(request.headers);
+  if (encodings.length === 0) {
+    return identity;
+  }
+
+  if (resolved.precompressed === true) {
+    const sibling = findPrecompressedSibling(filePath, stats, encodings);
+    if (sibling) {
+      return {
+        filePath: sibling.filePath,
+        stats: sibling.stats,
+        encoding: sibling.encoding,
+        compressOnTheFly: false,
+      };
+    }
+  }
+
+  // Range requests always get identity bytes so resumed downloads line up
+  // with the file on disk.
+  if (!compressible || stats.size < COMPRESSION_THRESHOLD_BYTES || request.headers.range !== undefined) {
+    return identity;
+  }
+
+  return {
+    filePath,
+    stats,
+    encoding: encodings[0],
+    compressOnTheFly: true,
+  };
+}
+
+function streamArchive(response: ServerResponse, archive: ResolvedArchive): void {
+  const filename = toArchiveFilename(archive.name, archive.format);
+  const entries = listArchiveEntries(archive.rootPath, archive.directoryPath, archive.name, isHiddenPathSegment);
+  const stream = createArchiveStream(archive.format, entries);
+  response.setHeader("Content-Type", toArchiveContentType(archive.format));
+  response.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+  response.setHeader("Cache-Control", "no-store");
+  stream.on("error", () => {
+    if (!response.headersSent) {
+      response.removeHeader("Content-Disposition");
+      writeNotFound(response);
+      return;
+    }
+
+    response.destroy();
+  });
+  stream.pipe(response);
+}
+
+function streamTableView(
+  request: Pick<IncomingMessage, "headers">,
+  response: ServerResponse,
+  table: ResolvedTableView,
+  resolved: ResolvedRequest,
+): void {
+  readDataPage(table.filePath, table.format, { page: table.page, query: table.context.query })
+    .then((page) => {
+      writeBodyResponse(request, response, renderDataTableHtml(table.context, page), resolved);
+    })
+    .catch(() => {
+      writeNotFound(response);
+    });
+}
+
+function writeBodyResponse(
+  request: Pick<IncomingMessage, "headers">,
+  response: ServerResponse,
+  body: string,
+  resolved: ResolvedRequest,
+): void {
+  const contentType = resolved.contentType ?? "text/html; charset=utf-8";
+  const text = resolved.liveReload === undefined ? body : injectLiveReloadScript(body, resolved.liveReload);
+
+  response.setHeader("Content-Type", contentType);
+  if (resolved.vary !== undefined) {
+    response.setHeader("Vary", resolved.vary);
+  }
+
+  if (resolved.etag !== undefined) {
+    response.setHeader("ETag", resolved.etag);
+  }
+
+  if (resolved.compress === false || !isCompressibleType(contentType)) {
+    response.end(text);
+    return;
+  }
+
+  response.setHeader("Vary", resolved.vary === undefined ? "Accept-Encoding" : `${resolved.vary}, Accept-Encoding`);
+  const payload = Buffer.from(text, "utf8");
+  const encoding = negotiateEncodings(request.headers)[0];
+  if (!encoding || payload.length < COMPRESSION_THRESHOLD_BYTES) {
+    response.end(text);
+    return;
+  }
+
+  const compressed = compressBuffer(encoding, payload);
+  response.setHeader("Content-Encoding", encoding);
+  response.setHeader("Content-Length", String(compressed.length));
+  response.end(compressed);
+}
+
+function streamMultipartRanges(
+  response: ServerResponse,
+  filePath: string,
+  ranges: ByteRange[],
+  size: number,
+  contentType: string,
+): void {
+  const boundary = randomBytes(12).toString("hex");
+  const body = buildMultipartRangeBody(ranges, size, contentType, boundary);
+  response.statusCode = 206;
+  response.setHeader("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+  response.setHeader("Content-Length", String(body.contentLength));
+
+  const writePart = (index: number): void => {
+    const part = body.parts[index];
+    if (!part) {
+      response.end(body.trailer);
+      return;
+    }
+
+    response.write(part.header);
+    pipeFileStream(response, filePath, part.range, () => {
+      writePart(index + 1);
+    });
+  };
+
+  writePart(0);
 }
 
-function handleResolvedRequest(response: ServerResponse, resolved: ResolvedRequest): void {
+function handleResolvedRequest(
+  request: Pick<IncomingMessage, "headers">,
+  response: ServerResponse,
+  resolved: ResolvedRequest,
+): void {
+  if (resolved.setCookie !== undefined) {
+    response.setHeader("Set-Cookie", resolved.setCookie);
+  }
+
   if (resolved.statusCode === 405) {
     response.statusCode = 405;
     response.setHeader("Allow", resolved.allow ?? "GET");
@@ -1185,14 +2700,43 @@ function handleResolvedRequest(response: ServerResponse, resolved: ResolvedReque
     return;
   }
 
+  if (resolved.statusCode === 301 && typeof resolved.location === "string") {
+    response.statusCode = 301;
+    response.setHeader("Location", resolved.location);
+    response.end();
+    return;
+  }
+
   if (resolved.statusCode !== 200) {
+    if (typeof resolved.body === "string") {
+      response.statusCode = resolved.statusCode;
+      if (resolved.wwwAuthenticate !== undefined) {
+        response.setHeader("WWW-Authenticate", resolved.wwwAuthenticate);
+      }
+
+      response.setHeader("Content-Type", resolved.contentType ?? "text/plain; charset=utf-8");
+      response.end(
+        resolved.liveReload === undefined ? resolved.body : injectLiveReloadScript(resolved.body, resolved.liveReload),
+      );
+      return;
+    }
+
     writeNotFound(response);
     return;
   }
 
+  if (resolved.archive) {
+    streamArchive(response, resolved.archive);
+    return;
+  }
+
+  if (resolved.table) {
+    streamTableView(request, response, resolved.table, resolved);
+    return;
+  }
+
   if (typeof resolved.body === "string") {
-    response.setHeader("Content-Type", resolved.contentType ?? "text/html; charset=utf-8");
-    response.end(resolved.body);
+    writeBodyResponse(request, response, resolved.body, resolved);
     return;
   }
 
@@ -1201,30 +2745,108 @@ function handleResolvedRequest(response: ServerResponse, resolved: ResolvedReque
     return;
   }
 
-  response.setHeader("Content-Type", resolved.contentType ?? "application/octet-stream");
+  let stats;
+  try {
+    stats = statSync(resolved.filePath);
+  } catch {
+    writeNotFound(response);
+    return;
+  }
+
+  const contentType = resolved.contentType ?? "application/octet-stream";
+  const representation = selectFileRepresentation(request, response, resolved, resolved.filePath, stats, contentType);
+  const { filePath, encoding } = representation;
+  const size = representation.stats.size;
+  const cachePolicy = resolved.cachePolicy ?? DEFAULT_CACHE_POLICY;
+  const validators = cachePolicy === "no-store" ? undefined : buildFileValidators(representation.stats, encoding);
+  // On-the-fly output has no stable byte offsets, so ranges are only offered
+  // for identity and precompressed representations.
+  response.setHeader("Accept-Ranges", representation.compressOnTheFly ? "none" : "bytes");
+  response.setHeader("Cache-Control", toCacheControl(cachePolicy));
+  if (encoding) {
+    response.setHeader("Content-Encoding", encoding);
+  }
+
+  if (validators) {
+    response.setHeader("ETag", validators.etag);
+    response.setHeader("Last-Modified", validators.lastModified);
 
-  const stream = createReadStream(resolved.filePath);
-  stream.on("error", () => {
-    if (!response.headersSent) {
-      writeNotFound(response);
+    if (isNotModified(request.headers, validators)) {
+      response.statusCode = 304;
+      response.end();
       return;
     }
+  }
 
-    response.destroy();
+  response.setHeader("Content-Type", contentType);
+  if (representation.compressOnTheFly && encoding) {
+    pipeCompressedFileStream(response, filePath, encoding, size);
+    return;
+  }
+
+  const parsedRange = isRangeStillValid(request.headers, validators)
+    ? parseRangeHeader(request.headers.range, size)
+    : ({ kind: "full" } as const);
+  if (parsedRange.kind === "unsatisfiable") {
+    writeRangeNotSatisfiable(response, size);
+    return;
+  }
+
+  if (parsedRange.kind === "partial" && parsedRange.ranges.length > 1) {
+    streamMultipartRanges(response, filePath, parsedRange.ranges, size, contentType);
+    return;
+  }
+
+  const range = parsedRange.kind === "partial" ? parsedRange.ranges[0] : undefined;
+  if (range) {
+    response.statusCode = 206;
+    response.setHeader("Content-Range", formatContentRange(range, size));
+    response.setHeader("Content-Length", String(range.end - range.start + 1));
+  } else {
+    response.setHeader("Content-Length", String(size));
+  }
+
+  pipeFileStream(response, filePath, range, () => {
+    response.end();
   });
-  stream.pipe(response);
 }
 
-function handleShareRequest(request: IncomingMessage, response: ServerResponse, state: TailserveState): void {
-  if (handleEditSaveRequest(request, response, state)) {
+function handleShareRequest(request: IncomingMessage, response: ServerResponse, state: TailserveState, editSync: EditSyncHub): void {
+  if (handleEditSaveRequest(request, response, state, editSync)) {
+    return;
+  }
+
+  if (handleEditRestoreRequest(request, response, state, editSync)) {
+    return;
+  }
+
+  if (handleInboxUploadRequest(request, response, state)) {
     return;
   }
 
   const resolved = resolveRequest(request, state);
-  handleResolvedRequest(response, resolved);
+  trackShareDownload(request, response, state, resolved);
+  handleResolvedRequest(request, response, resolved);
+}
+
+function toEditEtag(version: string): string {
+  return `"${version}"`;
+}
+
+// Saves name the version they were edited from in If-Match, as the ETag that
+// /api/content returned.
+function parseEditIfMatch(headers: IncomingHttpHeaders): string | undefined {
+  const ifMatch = readSingleHeader(headers, "if-match")?.trim();
+  const version = ifMatch?.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+  return version === undefined || version.length === 0 ? undefined : version;
 }
 
-function handleEditSaveRequest(request: IncomingMessage, response: ServerResponse, state: TailserveState): boolean {
+function handleEditSaveRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  state: TailserveState,
+  editSync: EditSyncHub,
+): boolean {
   const requestUrl = new URL(request.url ?? "/", "http://localhost");
   const parsedSharePath = parseSharePath(requestUrl.pathname);
   if (!parsedSharePath || !isEditSavePath(parsedSharePath.segments)) {
@@ -1248,6 +2870,12 @@ function handleEditSaveRequest(request: IncomingMessage, response: ServerRespons
     return true;
   }
 
+  const baseVersion = parseEditIfMatch(request.headers);
+  if (baseVersion === undefined) {
+    writeJson(response, 428, { ok: false, error: "version_required" });
+    return true;
+  }
+
   const chunks: Buffer[] = [];
   let settled = false;
   const settle = (statusCode: number, payload: Record<string, unknown>): void => {
@@ -1270,17 +2898,253 @@ function handleEditSaveRequest(request: IncomingMessage, response: ServerRespons
       return;
     }
 
+    const content = Buffer.concat(chunks).toString("utf8");
+    let result: EditSaveResult;
     try {
-      writeFileSync(share.path, Buffer.concat(chunks).toString("utf8"), "utf8");
-      settle(200, { ok: true });
+      result = saveEditContent(parsedSharePath.id, share, content, baseVersion, {
+        summary: "Saved",
+        author: toPresenceName(request.headers),
+      });
     } catch {
       settle(500, { ok: false, error: "write_failed" });
+      return;
     }
+
+    settled = true;
+    writeEditSaveResult(response, parsedSharePath.id, content, result, editSync);
   });
 
   return true;
 }
 
+// Restores are saves of an old revision: they need the same If-Match version
+// and reach open editors the same way.
+function handleEditRestoreRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  state: TailserveState,
+  editSync: EditSyncHub,
+): boolean {
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const parsedSharePath = parseSharePath(requestUrl.pathname);
+  if (!parsedSharePath || !isEditRestorePath(parsedSharePath.segments)) {
+    return false;
+  }
+
+  const share = state.shares[parsedSharePath.id];
+  if (!isEditShare(share)) {
+    return false;
+  }
+
+  if (request.method !== "POST") {
+    response.statusCode = 405;
+    response.setHeader("Allow", "POST");
+    response.end("Method not allowed\n");
+    return true;
+  }
+
+  if (share.readonly) {
+    writeJson(response, 403, { ok: false, error: "readonly" });
+    return true;
+  }
+
+  const baseVersion = parseEditIfMatch(request.headers);
+  if (baseVersion === undefined) {
+    writeJson(response, 428, { ok: false, error: "version_required" });
+    return true;
+  }
+
+  const rev = parsedSharePath.segments[2];
+  let content: string;
+  try {
+    content = readEditRevision(parsedSharePath.id, share, rev);
+  } catch {
+    writeJson(response, 404, { ok: false, error: "not_found" });
+    return true;
+  }
+
+  let result: EditSaveResult;
+  try {
+    result = saveEditContent(parsedSharePath.id, share, content, baseVersion, {
+      summary: `Restored revision ${rev}`,
+      author: toPresenceName(request.headers),
+    });
+  } catch {
+    writeJson(response, 500, { ok: false, error: "write_failed" });
+    return true;
+  }
+
+  writeEditSaveResult(response, parsedSharePath.id, content, result, editSync);
+  return true;
+}
+
+function writeEditSaveResult(
+  response: ServerResponse,
+  shareId: string,
+  content: string,
+  result: EditSaveResult,
+  editSync: EditSyncHub,
+): void {
+  if (result.status === "conflict") {
+    response.setHeader("ETag", toEditEtag(result.current.version));
+    writeJson(response, 409, { ok: false, error: "conflict", content: result.current.content, version: result.current.version });
+    return;
+  }
+
+  response.setHeader("ETag", toEditEtag(result.version));
+  writeJson(response, 200, { ok: true, version: result.version });
+  editSync.publish(shareId, { content, version: result.version });
+}
+
+function handleInboxUploadRequest(request: IncomingMessage, response: ServerResponse, state: TailserveState): boolean {
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const parsedSharePath = parseSharePath(requestUrl.pathname);
+  if (!parsedSharePath) {
+    return false;
+  }
+
+  const share = state.shares[parsedSharePath.id];
+  if (!isInboxShare(share) || request.method === "GET") {
+    return false;
+  }
+
+  if (request.method === "POST" && parsedSharePath.segments.length === 0) {
+    receiveInboxUpload(request, response, parsedSharePath.id, share, undefined);
+    return true;
+  }
+
+  // Raw uploads name the file in the URL: PUT /s/<id>/<filename>.
+  if (request.method === "PUT" && parsedSharePath.segments.length === 1) {
+    receiveInboxUpload(request, response, parsedSharePath.id, share, parsedSharePath.segments[0]);
+    return true;
+  }
+
+  response.statusCode = 405;
+  response.setHeader("Allow", "GET, POST, PUT");
+  response.end("Method not allowed\n");
+  return true;
+}
+
+function receiveInboxUpload(
+  request: IncomingMessage,
+  response: ServerResponse,
+  shareId: string,
+  share: ShareRecord & { path: string },
+  rawFileName: string | undefined,
+): void {
+  const limits: InboxLimits = {
+    directory: share.path,
+    maxBytes: share.maxBytes ?? DEFAULT_INBOX_MAX_BYTES,
+    allowedExtensions: share.allowedExtensions,
+  };
+  const writers: InboxFileWriter[] = [];
+  let failed = false;
+  const fail = (error: unknown): void => {
+    if (failed) {
+      return;
+    }
+
+    failed = true;
+    for (const writer of writers) {
+      writer.abort();
+    }
+
+    const uploadError = error instanceof InboxUploadError ? error : new InboxUploadError(500, "write_failed", "Upload failed");
+    response.setHeader("Connection", "close");
+    writeJson(response, uploadError.statusCode, { ok: false, error: uploadError.code, message: uploadError.message });
+  };
+  const openWriter = (fileName: string): InboxFileWriter => {
+    const writer = new InboxFileWriter(limits, fileName);
+    writers.push(writer);
+    return writer;
+  };
+
+  let consume: (chunk: Buffer) => void;
+  let finish: () => void;
+  try {
+    if (rawFileName !== undefined) {
+      const declaredLength = Number(request.headers["content-length"]);
+      if (Number.isFinite(declaredLength) && declaredLength > limits.maxBytes) {
+        throw new InboxUploadError(413, "too_large", "Upload exceeds the size limit");
+      }
+
+      const writer = openWriter(rawFileName);
+      consume = (chunk) => {
+        writer.write(chunk);
+      };
+      finish = () => {
+        writer.close();
+      };
+    } else {
+      const boundary = parseMultipartBoundary(request.headers["content-type"]);
+      if (boundary === undefined) {
+        throw new InboxUploadError(400, "bad_request", "Expected a multipart/form-data upload");
+      }
+
+      const parser = new MultipartParser(boundary, (headers) => {
+        // Plain form fields carry no filename and are ignored.
+        const fileName = parseContentDispositionFileName(headers["content-disposition"]);
+        if (fileName === undefined || fileName.length === 0) {
+          return undefined;
+        }
+
+        const writer = openWriter(fileName);
+        return {
+          write: (chunk) => {
+            writer.write(chunk);
+          },
+          end: () => {
+            writer.close();
+          },
+        };
+      });
+      consume = (chunk) => {
+        parser.push(chunk);
+      };
+      finish = () => {
+        parser.end();
+      };
+    }
+  } catch (error: unknown) {
+    fail(error);
+    request.resume();
+    return;
+  }
+
+  request.on("data", (chunk: Buffer | string) => {
+    if (failed) {
+      return;
+    }
+
+    try {
+      consume(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    } catch (error: unknown) {
+      fail(error);
+    }
+  });
+  request.on("error", () => {
+    fail(new InboxUploadError(400, "read_failed", "Upload was interrupted"));
+  });
+  request.on("end", () => {
+    if (failed) {
+      return;
+    }
+
+    try {
+      finish();
+      if (writers.length === 0) {
+        throw new InboxUploadError(400, "no_files", "No files were uploaded");
+      }
+
+      const uploads = writers.map((writer) => writer.commit());
+      appendInboxUploads(shareId, uploads);
+      writeJson(response, 201, { ok: true, files: uploads.map(({ name, size }) => ({ name, size })) });
+    } catch (error: unknown) {
+      fail(error);
+    }
+  });
+}
+
 function buildUpgradeHeaderLines(request: UpgradeProxyRequest, backendHost: string): string[] {
   const headerLines: string[] = [];
   let hasHost = false;
@@ -1346,6 +3210,20 @@ function writeUpgradeHttpResponse(socket: Duplex, statusCode: number, statusText
   socket.destroy();
 }
 
+function writeUpgradeAccessDenied(socket: Duplex, resolved: ResolvedRequest): void {
+  if (resolved.statusCode === 404) {
+    writeUpgradeHttpResponse(socket, 404, "Not Found", "Not found\n");
+    return;
+  }
+
+  if (resolved.statusCode === 403) {
+    writeUpgradeHttpResponse(socket, 403, "Forbidden", "Forbidden\n");
+    return;
+  }
+
+  writeUpgradeHttpResponse(socket, 401, "Unauthorized", "Unauthorized\n");
+}
+
 function proxyUpgradeToBackend(
   request: UpgradeProxyRequest,
   socket: Duplex,
@@ -1413,6 +3291,13 @@ export function proxyProjectRequest(
   if (!project || project.port === undefined) {
     return false;
   }
+
+  const access = resolveRouteAccess(request, state);
+  if (!access.allowed) {
+    handleResolvedRequest(request, response, access.resolved);
+    return true;
+  }
+
   const projectPort = project.port;
   const projectName = toProjectName(parsedProjectPath.name, projectState);
   const projectLastSeen = toProjectLastSeen(projectState);
@@ -1433,7 +3318,7 @@ export function proxyProjectRequest(
       },
     },
     (upstreamResponse) => {
-      updateProjectProxyStatus(projectState, "online", state, runtime);
+      updateProjectProxyStatus(parsedProjectPath.name, projectState, "online", runtime);
       response.statusCode = upstreamResponse.statusCode ?? 502;
       for (const [headerName, headerValue] of Object.entries(upstreamResponse.headers)) {
         if (headerValue !== undefined) {
@@ -1441,12 +3326,16 @@ export function proxyProjectRequest(
         }
       }
 
+      if (access.setCookie !== undefined) {
+        response.appendHeader("Set-Cookie", access.setCookie);
+      }
+
       upstreamResponse.pipe(response);
     },
   );
 
   proxy.on("error", () => {
-    updateProjectProxyStatus(projectState, "offline", state, runtime);
+    updateProjectProxyStatus(parsedProjectPath.name, projectState, "offline", runtime);
     if (response.headersSent) {
       response.destroy();
       return;
@@ -1486,6 +3375,13 @@ export function proxyProjectUpgradeRequest(
   if (!project || project.port === undefined) {
     return false;
   }
+
+  const access = resolveRouteAccess(request, state);
+  if (!access.allowed) {
+    writeUpgradeAccessDenied(socket, access.resolved);
+    return true;
+  }
+
   const projectPort = project.port;
   const projectName = toProjectName(parsedProjectPath.name, projectState);
   const projectLastSeen = toProjectLastSeen(projectState);
@@ -1502,10 +3398,10 @@ export function proxyProjectUpgradeRequest(
     projectPort,
     runtime,
     () => {
-      updateProjectProxyStatus(projectState, "online", state, runtime);
+      updateProjectProxyStatus(parsedProjectPath.name, projectState, "online", runtime);
     },
     () => {
-      updateProjectProxyStatus(projectState, "offline", state, runtime);
+      updateProjectProxyStatus(parsedProjectPath.name, projectState, "offline", runtime);
       writeUpgradeHttpResponse(
         socket,
         503,
@@ -1540,6 +3436,12 @@ export function proxyShareRequest(
     return false;
   }
 
+  const access = resolveRouteAccess(request, state);
+  if (!access.allowed) {
+    handleResolvedRequest(request, response, access.resolved);
+    return true;
+  }
+
   const sharePrefix = `/s/${parsedSharePath.id}`;
   const backendPathname = requestUrl.pathname.slice(sharePrefix.length);
   const backendPath = `${backendPathname.length === 0 ? "/" : backendPathname}${requestUrl.search}`;
@@ -1556,7 +3458,7 @@ export function proxyShareRequest(
       },
     },
     (upstreamResponse) => {
-      updateShareProxyStatus(share, "online", state, runtime);
+      updateShareProxyStatus(parsedSharePath.id, share, "online", runtime);
       response.statusCode = upstreamResponse.statusCode ?? 502;
       for (const [headerName, headerValue] of Object.entries(upstreamResponse.headers)) {
         if (headerValue !== undefined) {
@@ -1564,12 +3466,16 @@ export function proxyShareRequest(
         }
       }
 
+      if (access.setCookie !== undefined) {
+        response.appendHeader("Set-Cookie", access.setCookie);
+      }
+
       upstreamResponse.pipe(response);
     },
   );
 
   proxy.on("error", () => {
-    updateShareProxyStatus(share, "offline", state, runtime);
+    updateShareProxyStatus(parsedSharePath.id, share, "offline", runtime);
     if (response.headersSent) {
       response.destroy();
       return;
@@ -1609,6 +3515,12 @@ export function proxyShareUpgradeRequest(
     return false;
   }
 
+  const access = resolveRouteAccess(request, state);
+  if (!access.allowed) {
+    writeUpgradeAccessDenied(socket, access.resolved);
+    return true;
+  }
+
   const sharePrefix = `/s/${parsedSharePath.id}`;
   const backendPathname = requestUrl.pathname.slice(sharePrefix.length);
   const backendPath = `${backendPathname.length === 0 ? "/" : backendPathname}${requestUrl.search}`;
@@ -1621,10 +3533,10 @@ export function proxyShareUpgradeRequest(
     share.port,
     runtime,
     () => {
-      updateShareProxyStatus(share, "online", state, runtime);
+      updateShareProxyStatus(parsedSharePath.id, share, "online", runtime);
     },
     () => {
-      updateShareProxyStatus(share, "offline", state, runtime);
+      updateShareProxyStatus(parsedSharePath.id, share, "offline", runtime);
       writeUpgradeHttpResponse(
         socket,
         503,
@@ -1642,6 +3554,58 @@ export function proxyShareUpgradeRequest(
   return true;
 }
 
+function collectEditShareIds(state: TailserveState): Set<string> {
+  const nowMs = Date.now();
+  return new Set(
+    Object.values(state.shares)
+      .filter((share) => isEditShare(share) && !hasShareExpired(share, nowMs))
+      .map((share) => share.id),
+  );
+}
+
+// Shown to the other people editing the same share.
+function toPresenceName(headers: IncomingHttpHeaders): string {
+  const identity = readTailscaleIdentity(headers);
+  return identity?.name ?? identity?.login ?? "Guest";
+}
+
+function handleEditShareUpgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  state: TailserveState,
+  editSync: EditSyncHub,
+): boolean {
+  const requestUrl = new URL(request.url ?? "/", "http://localhost");
+  const parsedSharePath = parseSharePath(requestUrl.pathname);
+  if (!parsedSharePath || parsedSharePath.segments.length > 0) {
+    return false;
+  }
+
+  const share = state.shares[parsedSharePath.id];
+  if (!isEditShare(share) || hasShareExpired(share, Date.now())) {
+    return false;
+  }
+
+  if (!isSameOriginRequest(request.headers)) {
+    writeUpgradeHttpResponse(socket, 403, "Forbidden", "Forbidden\n");
+    return true;
+  }
+
+  const access = resolveRouteAccess(request, state);
+  if (!access.allowed) {
+    writeUpgradeAccessDenied(socket, access.resolved);
+    return true;
+  }
+
+  const connection = acceptWebSocket(request.headers, socket, head);
+  if (connection) {
+    editSync.join(parsedSharePath.id, connection, toPresenceName(request.headers));
+  }
+
+  return true;
+}
+
 export function createTailserveServer(options?: CreateTailserveServerOptions): Server {
   cleanupStaleTailscaleServeRoutes();
   restorePersistedRoutesOnStartup();
@@ -1655,15 +3619,40 @@ export function createTailserveServer(options?: CreateTailserveServerOptions): S
   attemptProjectAutoRestart(startupState);
   if (hasRestoredRoutes) {
     ensureTailscaleServeForRestoredRoutes(startupState);
-    writeState(startupState);
+    // Only the serve settings changed; shares may have been added, used up or
+    // stopped since startupState was read.
+    updateState((state) => {
+      state.tsHostname = startupState.tsHostname;
+      state.tsPort = startupState.tsPort;
+      state.tsProtocol = startupState.tsProtocol;
+    });
   }
 
+  const liveReload = new LiveReloadHub();
+  const editSync = new EditSyncHub();
+  const analytics = new RouteAnalyticsRecorder();
   const server = createServer((request, response) => {
+    if (request.url === "/" || request.url?.startsWith("/?")) {
+      flushRouteAnalytics(analytics);
+    }
+
     const state = readState();
+    observeRouteAccess(request, response, state, analytics);
+    if (handleLoginRequest(request, response, state)) {
+      return;
+    }
+
+    // Edit saves, uploads and live-reload streams bypass resolveRequest, so deny them here.
+    const access = resolveRouteAccess(request, state);
+    if (!access.allowed) {
+      handleResolvedRequest(request, response, access.resolved);
+      return;
+    }
+
     const proxyRuntime: ProjectProxyRuntime = {
       request: httpRequest,
       nowIso: () => new Date().toISOString(),
-      writeState,
+      updateState,
     };
     if (proxyShareRequest(request, response, state, proxyRuntime)) {
       return;
@@ -1673,7 +3662,11 @@ export function createTailserveServer(options?: CreateTailserveServerOptions): S
       return;
     }
 
-    handleShareRequest(request, response, state);
+    if (handleLiveReloadRequest(request, response, state, liveReload)) {
+      return;
+    }
+
+    handleShareRequest(request, response, state, editSync);
   });
 
   server.on("upgrade", (request, socket, head) => {
@@ -1682,7 +3675,7 @@ export function createTailserveServer(options?: CreateTailserveServerOptions): S
       request: httpRequest,
       connect: connectTcp,
       nowIso: () => new Date().toISOString(),
-      writeState,
+      updateState,
     };
 
     if (proxyShareUpgradeRequest(request, socket, head, state, proxyRuntime)) {
@@ -1693,18 +3686,35 @@ export function createTailserveServer(options?: CreateTailserveServerOptions): S
       return;
     }
 
+    if (handleEditShareUpgrade(request, socket, head, state, editSync)) {
+      return;
+    }
+
     writeUpgradeHttpResponse(socket, 404, "Not Found", "Not found\n");
   });
 
   const reaper = setInterval(() => {
     removeExpiredShares();
+    pruneAccessLogs();
+    const state = readState();
+    pruneEditHistory(new Set(Object.keys(state.shares)));
+    liveReload.prune(collectLiveReloadKeys(state));
+    editSync.prune(collectEditShareIds(state));
   }, SHARE_REAPER_INTERVAL_MS);
   reaper.unref();
+  const analyticsFlusher = setInterval(() => {
+    flushRouteAnalytics(analytics);
+  }, ANALYTICS_FLUSH_INTERVAL_MS);
+  analyticsFlusher.unref();
   const proxyHealthChecker = startProxyHealthCheckLoop(options?.healthCheckRunner ?? runProxyHealthCheck);
 
   server.once("close", () => {
     clearInterval(reaper);
+    clearInterval(analyticsFlusher);
     clearInterval(proxyHealthChecker);
+    liveReload.closeAll();
+    editSync.closeAll();
+    flushRouteAnalytics(analytics);
 
     try {
       const state = readState();
@@ -0,0 +1,67 @@
+import { randomInt } from "node:crypto";
+
+export const SHARE_ID_MAX_LENGTH = 64;
+// Random ids, slugs and word ids all fit this; it is what /s/<id> accepts.
+export const SHARE_ID_SOURCE = `[A-Za-z0-9_-]{1,${SHARE_ID_MAX_LENGTH}}`;
+
+const SHARE_ID_PATTERN = new RegExp(`^${SHARE_ID_SOURCE}$`);
+const SLUG_PATTERN = new RegExp(`^[a-z0-9](?:[a-z0-9-]{1,${SHARE_ID_MAX_LENGTH - 2}})[a-z0-9]$`);
+
+// Names that read like commands or routes in `ts stop <id>`, URLs and logs.
+const RESERVED_SLUGS = new Set([
+  "admin",
+  "all",
+  "api",
+  "assets",
+  "dashboard",
+  "health",
+  "login",
+  "logout",
+  "new",
+  "project",
+  "projects",
+  "share",
+  "shares",
+  "static",
+  "tailserve",
+  "tunnel",
+  "tunnels",
+]);
+
+const WORD_ID_ADJECTIVES = [
+  "amber", "bold", "brave", "bright", "calm", "clever", "cosy", "crisp", "daring", "eager", "fancy", "fuzzy",
+  "gentle", "glad", "golden", "happy", "humble", "jolly", "keen", "kind", "lively", "lucky", "mellow", "merry",
+  "misty", "nimble", "noble", "plucky", "proud", "quick", "quiet", "rapid", "rosy", "rustic", "shiny", "silent",
+  "silver", "sleek", "snowy", "sunny", "swift", "tidy", "tiny", "vivid", "warm", "wild", "witty", "zesty",
+];
+
+const WORD_ID_ANIMALS = [
+  "badger", "bear", "beaver", "bison", "crane", "cricket", "deer", "dolphin", "eagle", "falcon", "ferret", "finch",
+  "fox", "gecko", "heron", "ibis", "koala", "lemur", "lion", "llama", "lynx", "magpie", "marmot", "mole",
+  "moose", "newt", "otter", "owl", "panda", "parrot", "penguin", "puffin", "quail", "rabbit", "raven", "robin",
+  "salmon", "seal", "sparrow", "stoat", "swan", "tiger", "toad", "turtle", "walrus", "whale", "wolf", "yak",
+];
+
+export function isShareId(value: string): boolean {
+  return SHARE_ID_PATTERN.test(value);
+}
+
+export function parseShareSlug(value: string): string {
+  const slug = value.trim();
+  if (!SLUG_PATTERN.test(slug)) {
+    throw new Error(`Invalid slug: ${value} (use 3-${SHARE_ID_MAX_LENGTH} lowercase letters, digits and hyphens, e.g. q3-report)`);
+  }
+
+  if (RESERVED_SLUGS.has(slug)) {
+    throw new Error(`Reserved slug: ${slug}`);
+  }
+
+  return slug;
+}
+
+// e.g. "brave-otter-42"
+export function generateWordShareId(): string {
+  const adjective = WORD_ID_ADJECTIVES[randomInt(WORD_ID_ADJECTIVES.length)];
+  const animal = WORD_ID_ANIMALS[randomInt(WORD_ID_ANIMALS.length)];
+  return `${adjective}-${animal}-${randomInt(2, 100)}`;
+}
@@ -1,15 +1,30 @@
-import { statSync } from "node:fs";
+import { mkdirSync, statSync } from "node:fs";
 import path from "node:path";
 
 import { lookup as lookupMimeType } from "mime-types";
 import { nanoid } from "nanoid";
 
+import { discardStagedBlob, placeBlob, releaseBlob, type StagedBlob, stageBlob, stageSnapshot } from "./blobs.js";
+import { allocateCollectionItemName } from "./collection.js";
+import { isInsideGitRepository } from "./history.js";
 import { ensureTailserveServerRunning } from "./server-process.js";
+import { generateWordShareId, parseShareSlug } from "./share-id.js";
 import { enableTailscaleFunnelRoute, ensureTailscaleServeForFirstShare } from "./tailscale.js";
-import { type ShareRecord, type TailserveState, readState, toShareUrl, updateState, writeState } from "./state.js";
+import {
+  type CachePolicy,
+  type CollectionItem,
+  type ShareRecord,
+  type SiteMode,
+  type TailserveState,
+  readState,
+  toShareUrl,
+  updateState,
+  writeState,
+} from "./state.js";
 
 const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
 export const SHARE_ID_LENGTH = 8;
+const WORD_ID_ATTEMPTS = 20;
 
 export interface CreateShareResult {
   id: string;
@@ -18,39 +33,142 @@ export interface CreateShareResult {
   warning?: string;
 }
 
-export interface CreateFileShareOptions {
+export interface ShareAccessOptions {
+  passwordHash?: string;
+  tokenHash?: string;
+  allow?: string[];
+}
+
+export interface CreateFileShareOptions extends ShareAccessOptions {
+  slug?: string;
+  ttlMs?: number;
+  maxDownloads?: number;
+  persist?: boolean;
+  public?: boolean;
+  cache?: CachePolicy;
+  compress?: boolean;
+  site?: SiteMode;
+  live?: boolean;
+  snapshot?: boolean;
+  contentType?: string;
+}
+
+export interface CreateCollectionShareOptions extends ShareAccessOptions {
+  slug?: string;
+  title?: string;
   ttlMs?: number;
   persist?: boolean;
   public?: boolean;
+  cache?: CachePolicy;
+  compress?: boolean;
 }
 
-export interface CreateEditShareOptions {
+export interface CreateEditShareOptions extends ShareAccessOptions {
   readonly?: boolean;
   ttlMs?: number;
   persist?: boolean;
+  git?: boolean;
+  historyLimit?: number;
+  historyMaxAgeMs?: number;
 }
 
-export interface CreateProxyShareOptions {
+export interface CreateInboxShareOptions extends ShareAccessOptions {
+  ttlMs?: number;
+  persist?: boolean;
+  maxBytes?: number;
+  allowedExtensions?: string[];
+}
+
+export interface CreateProxyShareOptions extends ShareAccessOptions {
   ensureServerRunning?: boolean;
   setupTailscaleRoute?: boolean;
   public?: boolean;
   state?: TailserveState;
 }
 
+// Tunnels are keyed by share id too, so a stale tunnel record also blocks the id.
+function isShareIdTaken(state: TailserveState, id: string): boolean {
+  return id in state.shares || id in state.tunnels;
+}
+
+function assertShareIdAvailable(state: TailserveState, id: string): void {
+  if (isShareIdTaken(state, id)) {
+    throw new Error(`Share id already in use: ${id}`);
+  }
+}
+
+function allocateShareId(state: TailserveState, slug?: string): string {
+  if (slug !== undefined) {
+    const id = parseShareSlug(slug);
+    assertShareIdAvailable(state, id);
+    return id;
+  }
+
+  if (state.idStyle === "words") {
+    for (let attempt = 0; attempt < WORD_ID_ATTEMPTS; attempt += 1) {
+      const id = generateWordShareId();
+      if (!isShareIdTaken(state, id)) {
+        return id;
+      }
+    }
+  }
+
+  return nanoid(SHARE_ID_LENGTH);
+}
+
+function deleteShare(state: TailserveState, id: string): boolean {
+  const share = state.shares[id];
+  if (!share) {
+    return false;
+  }
+
+  delete state.shares[id];
+  releaseBlob(state, share.path);
+  return true;
+}
+
 export function removeShareById(id: string): boolean {
   const normalizedId = id.trim();
   if (normalizedId.length === 0) {
     throw new Error("Share id is required");
   }
 
-  const state = readState();
-  if (!(normalizedId in state.shares)) {
-    return false;
+  let removed = false;
+  updateState((state) => {
+    removed = deleteShare(state, normalizedId);
+  });
+  return removed;
+}
+
+export function toDownloadsLeft(share: ShareRecord): number | undefined {
+  if (share.maxDownloads === undefined) {
+    return undefined;
   }
 
-  delete state.shares[normalizedId];
-  writeState(state);
-  return true;
+  return Math.max(share.maxDownloads - (share.downloads ?? 0), 0);
+}
+
+export function formatDownloadsLeft(downloadsLeft: number): string {
+  return `${downloadsLeft} ${downloadsLeft === 1 ? "download" : "downloads"} left`;
+}
+
+// Counted under the state lock so the server and CLI never lose an increment;
+// the share is removed as soon as its last download completes.
+export function recordShareDownload(id: string): number | undefined {
+  let downloadsLeft: number | undefined;
+  updateState((state) => {
+    const share = state.shares[id];
+    if (!share || share.maxDownloads === undefined) {
+      return;
+    }
+
+    share.downloads = (share.downloads ?? 0) + 1;
+    downloadsLeft = toDownloadsLeft(share);
+    if (downloadsLeft === 0) {
+      deleteShare(state, id);
+    }
+  });
+  return downloadsLeft;
 }
 
 export function removeEphemeralShares(): number {
@@ -64,52 +182,59 @@ export function removeEphemeralShares(): number {
   }
 
   for (const id of ephemeralIds) {
-    delete state.shares[id];
+    deleteShare(state, id);
   }
 
   writeState(state);
   return ephemeralIds.length;
 }
 
-export function removeExpiredShares(nowMs = Date.now()): number {
-  const state = readState();
-  const expiredIds = Object.entries(state.shares)
-    .filter(([, share]) => {
-      if (share.expiresAt === null) {
-        return false;
-      }
+export function isShareExpired(share: ShareRecord, nowMs: number): boolean {
+  if (share.expiresAt === null) {
+    return false;
+  }
 
-      const expiresAtMs = Date.parse(share.expiresAt);
-      if (Number.isNaN(expiresAtMs)) {
-        return false;
-      }
+  const expiresAtMs = Date.parse(share.expiresAt);
+  if (Number.isNaN(expiresAtMs)) {
+    return false;
+  }
 
-      return expiresAtMs <= nowMs;
-    })
-    .map(([id]) => id);
+  return expiresAtMs <= nowMs;
+}
 
-  if (expiredIds.length === 0) {
+export function removeExpiredShares(nowMs = Date.now()): number {
+  if (!Object.values(readState().shares).some((share) => isShareExpired(share, nowMs))) {
     return 0;
   }
 
-  for (const id of expiredIds) {
-    delete state.shares[id];
-  }
-
-  writeState(state);
-  return expiredIds.length;
+  // Re-checked under the lock so a download counted meanwhile is not overwritten.
+  let removedCount = 0;
+  updateState((state) => {
+    for (const [id, share] of Object.entries(state.shares)) {
+      if (isShareExpired(share, nowMs) && deleteShare(state, id)) {
+        removedCount += 1;
+      }
+    }
+  });
+  return removedCount;
 }
 
 export function createFileShare(targetPath: string, options?: CreateFileShareOptions): CreateShareResult {
+  return createFileShareRecord(targetPath, options);
+}
+
+// `blob` is stdin content staged by createBlobShare; it is placed under the
+// state lock together with the share, like a snapshot.
+function createFileShareRecord(targetPath: string, options: CreateFileShareOptions | undefined, blob?: StagedBlob): CreateShareResult {
   if (targetPath.trim().length === 0) {
     throw new Error("Path is required");
   }
 
-  const absolutePath = path.resolve(targetPath);
+  const absolutePath = blob?.path ?? path.resolve(targetPath);
 
   let stats;
   try {
-    stats = statSync(absolutePath);
+    stats = statSync(blob?.stagingPath ?? absolutePath);
   } catch {
     throw new Error(`File not found: ${targetPath}`);
   }
@@ -123,36 +248,174 @@ export function createFileShare(targetPath: string, options?: CreateFileShareOpt
     throw new Error(`Not a file or directory: ${targetPath}`);
   }
 
+  if (options?.site !== undefined && shareType !== "dir") {
+    throw new Error(`--${options.site} requires a directory: ${targetPath}`);
+  }
+
+  if (options?.snapshot === true && options.live === true) {
+    throw new Error("Do not use --live with --snapshot");
+  }
+
   const state = readState();
+  const id = allocateShareId(state, options?.slug);
   const firstShareSetup = options?.public === true ? enableTailscaleFunnelRoute(state) : ensureTailscaleServeForFirstShare(state);
-  const id = nanoid(SHARE_ID_LENGTH);
   const createdAt = new Date();
   const persist = options?.persist === true;
   const ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
   const mimeType = shareType === "file" ? lookupMimeType(absolutePath) : undefined;
+  const snapshot = options?.snapshot === true ? stageSnapshot(absolutePath) : undefined;
+  const stagedBlob = blob ?? snapshot;
 
   const share: ShareRecord = {
     id,
     type: shareType,
-    path: absolutePath,
+    path: snapshot?.path ?? absolutePath,
+    sourcePath: snapshot === undefined ? undefined : absolutePath,
+    snapshot: snapshot?.digest,
     createdAt: createdAt.toISOString(),
     expiresAt: persist ? null : new Date(createdAt.getTime() + ttlMs).toISOString(),
     persist,
     readonly: false,
     mimeType: typeof mimeType === "string" ? mimeType : undefined,
     public: options?.public === true ? true : undefined,
+    cache: options?.cache,
+    compress: options?.compress === false ? false : undefined,
+    site: options?.site,
+    live: options?.live === true ? true : undefined,
+    maxDownloads: options?.maxDownloads,
+    contentType: options?.contentType,
+    passwordHash: options?.passwordHash,
+    tokenHash: options?.tokenHash,
+    allow: options?.allow,
+  };
+
+  let persistedState: TailserveState;
+  try {
+    persistedState = updateState((currentState) => {
+      currentState.tsHostname = state.tsHostname;
+      currentState.tsPort = state.tsPort;
+      currentState.tsProtocol = state.tsProtocol;
+      assertShareIdAvailable(currentState, id);
+      if (stagedBlob) {
+        placeBlob(stagedBlob);
+      }
+      currentState.shares[id] = share;
+    });
+  } catch (error: unknown) {
+    if (stagedBlob) {
+      discardStagedBlob(stagedBlob);
+      releaseBlob(readState(), stagedBlob.path);
+    }
+    throw error;
+  }
+
+  let urlState = persistedState;
+
+  // Start the server AFTER writing state so the server's startup cleanup
+  // sees the new share and doesn't race to overwrite it.
+  try {
+    const serverStarted = ensureTailserveServerRunning({ state: persistedState });
+    if (serverStarted) {
+      urlState = readState();
+    }
+  } catch (error: unknown) {
+    updateState((currentState) => {
+      deleteShare(currentState, id);
+    });
+    throw error;
+  }
+
+  return {
+    id,
+    url: toShareUrl(urlState, id),
+    share,
+    warning: firstShareSetup.warning,
+  };
+}
+
+// For content without a file on disk, such as command output piped to `ts share -`.
+export function createBlobShare(contents: Buffer, name: string, options?: CreateFileShareOptions): CreateShareResult {
+  const blob = stageBlob(contents, name);
+  try {
+    // Blobs never change, so there is nothing to snapshot.
+    return createFileShareRecord(name, { ...options, snapshot: undefined }, blob);
+  } catch (error: unknown) {
+    discardStagedBlob(blob);
+    throw error;
+  }
+}
+
+function resolveCollectionPaths(targetPaths: string[]): string[] {
+  return targetPaths.map((targetPath) => {
+    if (targetPath.trim().length === 0) {
+      throw new Error("Path is required");
+    }
+
+    const absolutePath = path.resolve(targetPath);
+    let stats;
+    try {
+      stats = statSync(absolutePath);
+    } catch {
+      throw new Error(`File not found: ${targetPath}`);
+    }
+
+    if (!stats.isFile() && !stats.isDirectory()) {
+      throw new Error(`Not a file or directory: ${targetPath}`);
+    }
+
+    return absolutePath;
+  });
+}
+
+function toCollectionItems(absolutePaths: string[], existingItems: CollectionItem[]): CollectionItem[] {
+  const takenNames = new Set(existingItems.map((item) => item.name));
+  return absolutePaths.map((absolutePath) => {
+    const name = allocateCollectionItemName(takenNames, path.basename(absolutePath));
+    takenNames.add(name);
+    return { name, path: absolutePath };
+  });
+}
+
+export function createCollectionShare(targetPaths: string[], options?: CreateCollectionShareOptions): CreateShareResult {
+  if (targetPaths.length === 0) {
+    throw new Error("Path is required");
+  }
+
+  const items = toCollectionItems(resolveCollectionPaths(targetPaths), []);
+  const state = readState();
+  const id = allocateShareId(state, options?.slug);
+  const firstShareSetup = options?.public === true ? enableTailscaleFunnelRoute(state) : ensureTailscaleServeForFirstShare(state);
+  const createdAt = new Date();
+  const persist = options?.persist === true;
+  const ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
+  const title = options?.title?.trim();
+
+  const share: ShareRecord = {
+    id,
+    type: "collection",
+    title: title === undefined || title.length === 0 ? undefined : title,
+    items,
+    createdAt: createdAt.toISOString(),
+    expiresAt: persist ? null : new Date(createdAt.getTime() + ttlMs).toISOString(),
+    persist,
+    readonly: false,
+    public: options?.public === true ? true : undefined,
+    cache: options?.cache,
+    compress: options?.compress === false ? false : undefined,
+    passwordHash: options?.passwordHash,
+    tokenHash: options?.tokenHash,
+    allow: options?.allow,
   };
 
   const persistedState = updateState((currentState) => {
     currentState.tsHostname = state.tsHostname;
     currentState.tsPort = state.tsPort;
     currentState.tsProtocol = state.tsProtocol;
+    assertShareIdAvailable(currentState, id);
     currentState.shares[id] = share;
   });
-  let urlState = persistedState;
 
-  // Start the server AFTER writing state so the server's startup cleanup
-  // sees the new share and doesn't race to overwrite it.
+  let urlState = persistedState;
   try {
     const serverStarted = ensureTailserveServerRunning({ state: persistedState });
     if (serverStarted) {
@@ -160,7 +423,7 @@ export function createFileShare(targetPath: string, options?: CreateFileShareOpt
     }
   } catch (error: unknown) {
     updateState((currentState) => {
-      delete currentState.shares[id];
+      deleteShare(currentState, id);
     });
     throw error;
   }
@@ -173,6 +436,32 @@ export function createFileShare(targetPath: string, options?: CreateFileShareOpt
   };
 }
 
+// Appends under the state lock so concurrent `ts share --add` calls never
+// hand out the same member name.
+export function addCollectionItems(id: string, targetPaths: string[]): CollectionItem[] {
+  if (targetPaths.length === 0) {
+    throw new Error("Path is required");
+  }
+
+  const absolutePaths = resolveCollectionPaths(targetPaths);
+  let added: CollectionItem[] = [];
+  updateState((state) => {
+    const share = state.shares[id];
+    if (!share) {
+      throw new Error(`Share not found: ${id}`);
+    }
+
+    if (share.type !== "collection") {
+      throw new Error(`Not a collection share: ${id}`);
+    }
+
+    const existingItems = share.items ?? [];
+    added = toCollectionItems(absolutePaths, existingItems);
+    share.items = [...existingItems, ...added];
+  });
+  return added;
+}
+
 export function createEditShare(targetPath: string, options?: CreateEditShareOptions): CreateShareResult {
   if (targetPath.trim().length === 0) {
     throw new Error("Path is required");
@@ -191,6 +480,10 @@ export function createEditShare(targetPath: string, options?: CreateEditShareOpt
     throw new Error(`Not a regular file: ${targetPath}`);
   }
 
+  if (options?.git === true && !isInsideGitRepository(absolutePath)) {
+    throw new Error(`Not inside a git repository: ${targetPath}`);
+  }
+
   let state = readState();
   const serverStarted = ensureTailserveServerRunning({ state });
   if (serverStarted) {
@@ -198,7 +491,7 @@ export function createEditShare(targetPath: string, options?: CreateEditShareOpt
   }
   const firstShareSetup = ensureTailscaleServeForFirstShare(state);
 
-  const id = nanoid(SHARE_ID_LENGTH);
+  const id = allocateShareId(state);
   const createdAt = new Date();
   const persist = options?.persist === true;
   const ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
@@ -211,12 +504,78 @@ export function createEditShare(targetPath: string, options?: CreateEditShareOpt
     expiresAt: persist ? null : new Date(createdAt.getTime() + ttlMs).toISOString(),
     persist,
     readonly: options?.readonly === true,
+    passwordHash: options?.passwordHash,
+    tokenHash: options?.tokenHash,
+    allow: options?.allow,
+    git: options?.git === true ? true : undefined,
+    historyLimit: options?.historyLimit,
+    historyMaxAgeMs: options?.historyMaxAgeMs,
+  };
+
+  updateState((currentState) => {
+    currentState.tsHostname = state.tsHostname;
+    currentState.tsPort = state.tsPort;
+    currentState.tsProtocol = state.tsProtocol;
+    assertShareIdAvailable(currentState, id);
+    currentState.shares[id] = share;
+  });
+
+  return {
+    id,
+    url: toShareUrl(state, id),
+    share,
+    warning: firstShareSetup.warning,
+  };
+}
+
+export function createInboxShare(targetPath: string, options?: CreateInboxShareOptions): CreateShareResult {
+  if (targetPath.trim().length === 0) {
+    throw new Error("Path is required");
+  }
+
+  const absolutePath = path.resolve(targetPath);
+  try {
+    mkdirSync(absolutePath, { recursive: true });
+  } catch {
+    throw new Error(`Not a directory: ${targetPath}`);
+  }
+
+  if (!statSync(absolutePath).isDirectory()) {
+    throw new Error(`Not a directory: ${targetPath}`);
+  }
+
+  let state = readState();
+  const serverStarted = ensureTailserveServerRunning({ state });
+  if (serverStarted) {
+    state = readState();
+  }
+  const firstShareSetup = ensureTailscaleServeForFirstShare(state);
+
+  const id = allocateShareId(state);
+  const createdAt = new Date();
+  const persist = options?.persist === true;
+  const ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
+
+  const share: ShareRecord = {
+    id,
+    type: "inbox",
+    path: absolutePath,
+    createdAt: createdAt.toISOString(),
+    expiresAt: persist ? null : new Date(createdAt.getTime() + ttlMs).toISOString(),
+    persist,
+    readonly: false,
+    maxBytes: options?.maxBytes,
+    allowedExtensions: options?.allowedExtensions,
+    passwordHash: options?.passwordHash,
+    tokenHash: options?.tokenHash,
+    allow: options?.allow,
   };
 
   updateState((currentState) => {
     currentState.tsHostname = state.tsHostname;
     currentState.tsPort = state.tsPort;
     currentState.tsProtocol = state.tsProtocol;
+    assertShareIdAvailable(currentState, id);
     currentState.shares[id] = share;
   });
 
@@ -247,7 +606,7 @@ export function createProxyShare(port: number, options?: CreateProxyShareOptions
       : options?.public === true
         ? enableTailscaleFunnelRoute(state)
         : ensureTailscaleServeForFirstShare(state);
-  const id = nanoid(SHARE_ID_LENGTH);
+  const id = allocateShareId(state);
   const createdAt = new Date();
 
   const share: ShareRecord = {
@@ -259,12 +618,16 @@ export function createProxyShare(port: number, options?: CreateProxyShareOptions
     persist: false,
     readonly: false,
     public: options?.public === true ? true : undefined,
+    passwordHash: options?.passwordHash,
+    tokenHash: options?.tokenHash,
+    allow: options?.allow,
   };
 
   updateState((currentState) => {
     currentState.tsHostname = state.tsHostname;
     currentState.tsPort = state.tsPort;
     currentState.tsProtocol = state.tsProtocol;
+    assertShareIdAvailable(currentState, id);
     currentState.shares[id] = share;
   });
 
@@ -2,25 +2,68 @@ import { existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync,
 import { homedir } from "node:os";
 import path from "node:path";
 
-export type ShareType = "file" | "dir" | "edit" | "proxy";
+import { isShareId } from "./share-id.js";
+
+export type ShareType = "file" | "dir" | "edit" | "proxy" | "inbox" | "collection";
+
+export type CachePolicy = "no-store" | "revalidate" | "immutable";
+
+export type SiteMode = "site" | "spa";
+
+export type ShareIdStyle = "random" | "words";
+
+export interface CollectionItem {
+  name: string;
+  path: string;
+}
 
 export interface ShareRecord {
   id: string;
   type: ShareType;
   path?: string;
+  // Collection shares have no `path`; each member is served at /s/<id>/<name>.
+  title?: string;
+  items?: CollectionItem[];
+  // With --snapshot, `path` is the copy in the blob store and these record
+  // where it came from and the digest of its content.
+  sourcePath?: string;
+  snapshot?: string;
   port?: number;
   createdAt: string;
   expiresAt: string | null;
   persist: boolean;
   readonly: boolean;
   mimeType?: string;
+  // Set by `ts share - --type`; served as-is, without previews.
+  contentType?: string;
   public?: boolean;
+  cache?: CachePolicy;
+  compress?: boolean;
+  site?: SiteMode;
+  live?: boolean;
+  maxBytes?: number;
+  allowedExtensions?: string[];
+  passwordHash?: string;
+  tokenHash?: string;
+  allow?: string[];
+  maxDownloads?: number;
+  downloads?: number;
+  // Edit shares: each save is kept as a revision (at most historyLimit of them,
+  // 0 turns history off) or, with git, committed to the file's repository.
+  git?: boolean;
+  historyLimit?: number;
+  historyMaxAgeMs?: number;
   status?: "online" | "offline";
   lastSeen?: string;
 }
 
 export interface ProjectRecord {
   public?: boolean;
+  site?: SiteMode;
+  live?: boolean;
+  passwordHash?: string;
+  tokenHash?: string;
+  allow?: string[];
   [key: string]: unknown;
 }
 
@@ -44,6 +87,10 @@ export interface TailserveState {
   tsPort: number;
   tsProtocol?: "https" | "http";
   protectedPorts: number[];
+  // Members of the group:<name> entries used by --allow, keyed by name.
+  groups?: Record<string, string[]>;
+  // "words" gives new shares ids like brave-otter-42 instead of random ones.
+  idStyle?: ShareIdStyle;
   shares: Record<string, ShareRecord>;
   projects: Record<string, ProjectRecord>;
   tunnels: Record<string, TunnelRecord>;
@@ -74,7 +121,21 @@ function toObjectRecord(value: unknown): Record<string, unknown> {
 }
 
 function isShareType(value: unknown): value is ShareType {
-  return value === "file" || value === "dir" || value === "edit" || value === "proxy";
+  return (
+    value === "file" || value === "dir" || value === "edit" || value === "proxy" || value === "inbox" || value === "collection"
+  );
+}
+
+export function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+export function isCachePolicy(value: unknown): value is CachePolicy {
+  return value === "no-store" || value === "revalidate" || value === "immutable";
+}
+
+export function isSiteMode(value: unknown): value is SiteMode {
+  return value === "site" || value === "spa";
 }
 
 function parseConfiguredPort(value: string | undefined): number | undefined {
@@ -174,6 +235,10 @@ function parsePersistedProtectedPorts(value: unknown): number[] | undefined {
   return normalizePortList(value.filter((entry): entry is string | number => typeof entry === "string" || typeof entry === "number"));
 }
 
+function isCollectionItemName(name: string): boolean {
+  return name.length > 0 && name !== "." && name !== ".." && !name.includes("/") && !name.includes("\\");
+}
+
 function parsePersistedShareRecord(shareId: string, value: unknown): ShareRecord | undefined {
   const rawShare = toObjectRecord(value);
   if (!isShareType(rawShare.type)) {
@@ -205,10 +270,78 @@ function parsePersistedShareRecord(shareId: string, value: unknown): ShareRecord
     share.mimeType = rawShare.mimeType;
   }
 
+  if (typeof rawShare.sourcePath === "string" && path.isAbsolute(rawShare.sourcePath)) {
+    share.sourcePath = rawShare.sourcePath;
+  }
+
+  if (typeof rawShare.snapshot === "string" && /^[0-9a-f]{64}$/.test(rawShare.snapshot)) {
+    share.snapshot = rawShare.snapshot;
+  }
+
+  if (typeof rawShare.contentType === "string" && rawShare.contentType.length > 0) {
+    share.contentType = rawShare.contentType;
+  }
+
   if (rawShare.public === true) {
     share.public = true;
   }
 
+  if (isCachePolicy(rawShare.cache)) {
+    share.cache = rawShare.cache;
+  }
+
+  if (rawShare.compress === false) {
+    share.compress = false;
+  }
+
+  if (isSiteMode(rawShare.site)) {
+    share.site = rawShare.site;
+  }
+
+  if (rawShare.live === true) {
+    share.live = true;
+  }
+
+  if (typeof rawShare.maxBytes === "number" && Number.isSafeInteger(rawShare.maxBytes) && rawShare.maxBytes > 0) {
+    share.maxBytes = rawShare.maxBytes;
+  }
+
+  if (Array.isArray(rawShare.allowedExtensions) && rawShare.allowedExtensions.every((value) => typeof value === "string")) {
+    share.allowedExtensions = rawShare.allowedExtensions;
+  }
+
+  if (typeof rawShare.passwordHash === "string" && rawShare.passwordHash.length > 0) {
+    share.passwordHash = rawShare.passwordHash;
+  }
+
+  if (typeof rawShare.tokenHash === "string" && rawShare.tokenHash.length > 0) {
+    share.tokenHash = rawShare.tokenHash;
+  }
+
+  if (isStringList(rawShare.allow) && rawShare.allow.length > 0) {
+    share.allow = rawShare.allow;
+  }
+
+  if (typeof rawShare.maxDownloads === "number" && Number.isSafeInteger(rawShare.maxDownloads) && rawShare.maxDownloads > 0) {
+    share.maxDownloads = rawShare.maxDownloads;
+  }
+
+  if (typeof rawShare.downloads === "number" && Number.isSafeInteger(rawShare.downloads) && rawShare.downloads > 0) {
+    share.downloads = rawShare.downloads;
+  }
+
+  if (rawShare.git === true) {
+    share.git = true;
+  }
+
+  if (typeof rawShare.historyLimit === "number" && Number.isSafeInteger(rawShare.historyLimit) && rawShare.historyLimit >= 0) {
+    share.historyLimit = rawShare.historyLimit;
+  }
+
+  if (typeof rawShare.historyMaxAgeMs === "number" && Number.isSafeInteger(rawShare.historyMaxAgeMs) && rawShare.historyMaxAgeMs > 0) {
+    share.historyMaxAgeMs = rawShare.historyMaxAgeMs;
+  }
+
   if (rawShare.status === "online" || rawShare.status === "offline") {
     share.status = rawShare.status;
   }
@@ -217,6 +350,24 @@ function parsePersistedShareRecord(shareId: string, value: unknown): ShareRecord
     share.lastSeen = rawShare.lastSeen;
   }
 
+  if (rawShare.type === "collection") {
+    if (!Array.isArray(rawShare.items)) {
+      return undefined;
+    }
+
+    share.items = rawShare.items.flatMap((value) => {
+      const item = toObjectRecord(value);
+      return typeof item.name === "string" && isCollectionItemName(item.name) && typeof item.path === "string" && path.isAbsolute(item.path)
+        ? [{ name: item.name, path: item.path }]
+        : [];
+    });
+    if (typeof rawShare.title === "string" && rawShare.title.length > 0) {
+      share.title = rawShare.title;
+    }
+
+    return share;
+  }
+
   if (rawShare.type === "proxy") {
     const sharePort = parsePersistedPort(rawShare.port);
     if (sharePort === undefined) {
@@ -242,6 +393,10 @@ function parsePersistedShareRecord(shareId: string, value: unknown): ShareRecord
 function parsePersistedShares(value: unknown): Record<string, ShareRecord> {
   const shares: Record<string, ShareRecord> = {};
   for (const [shareId, rawShare] of Object.entries(toObjectRecord(value))) {
+    if (!isShareId(shareId)) {
+      continue;
+    }
+
     const parsedShare = parsePersistedShareRecord(shareId, rawShare);
     if (!parsedShare) {
       continue;
@@ -417,6 +572,8 @@ function parsePersistedState(parsed: Record<string, unknown>, env: NodeJS.Proces
     tsPort,
     tsProtocol: parsed.tsProtocol === "http" ? "http" : "https",
     protectedPorts,
+    groups: parsePersistedGroups(parsed.groups),
+    idStyle: parsed.idStyle === "words" ? "words" : undefined,
     shares: parsePersistedShares(parsed.shares),
     projects: toObjectRecord(parsed.projects) as Record<string, ProjectRecord>,
     tunnels: parsePersistedTunnels(parsed.tunnels),
@@ -424,6 +581,17 @@ function parsePersistedState(parsed: Record<string, unknown>, env: NodeJS.Proces
   };
 }
 
+function parsePersistedGroups(value: unknown): Record<string, string[]> | undefined {
+  const groups: Record<string, string[]> = {};
+  for (const [name, members] of Object.entries(toObjectRecord(value))) {
+    if (isStringList(members)) {
+      groups[name] = members;
+    }
+  }
+
+  return Object.keys(groups).length > 0 ? groups : undefined;
+}
+
 function readStateFile(statePath: string, env: NodeJS.ProcessEnv): TailserveState {
   if (!existsSync(statePath)) {
     return createDefaultState(env);
@@ -0,0 +1,291 @@
+import { createHash } from "node:crypto";
+import { type IncomingHttpHeaders } from "node:http";
+import { type Duplex } from "node:stream";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+// Editor saves carry the whole document, so this bounds the largest file a
+// browser can save over the socket.
+const MAX_WEBSOCKET_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED_DATA = 1003;
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+function isWebSocketUpgrade(headers: IncomingHttpHeaders): boolean {
+  return headers.upgrade?.toLowerCase() === "websocket";
+}
+
+function toWebSocketAccept(key: string): string {
+  return createHash("sha1").update(`${key}${WEBSOCKET_GUID}`).digest("base64");
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length <= 0xffff) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+// Server side of RFC 6455 for text messages: client frames must be masked,
+// fragments are reassembled, pings are answered and binary data is refused.
+export class WebSocketConnection {
+  private readonly socket: Duplex;
+  private chunks: Buffer[] = [];
+  private bufferedBytes = 0;
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private closed = false;
+  private readonly messageListeners: Array<(message: string) => void> = [];
+  private readonly closeListeners: Array<() => void> = [];
+
+  constructor(socket: Duplex) {
+    this.socket = socket;
+    socket.on("data", (chunk: Buffer) => {
+      this.receive(chunk);
+    });
+    // HTTP server sockets allow half-open connections, so a peer that goes
+    // away without a close frame has to be answered explicitly.
+    socket.on("end", () => {
+      socket.end();
+      this.finish();
+    });
+    socket.on("close", () => {
+      this.finish();
+    });
+    socket.on("error", () => {
+      this.finish();
+    });
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  onMessage(listener: (message: string) => void): void {
+    this.messageListeners.push(listener);
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  send(message: string): void {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(message, "utf8")));
+    }
+  }
+
+  ping(): void {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+    }
+  }
+
+  close(code = CLOSE_NORMAL): void {
+    if (this.closed) {
+      return;
+    }
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    this.finish();
+  }
+
+  receive(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.bufferedBytes += chunk.length;
+    let complete = true;
+    while (complete && !this.closed) {
+      complete = this.readFrame();
+    }
+  }
+
+  // The first `length` buffered bytes as one buffer. Chunks are joined only
+  // once that many have arrived, so a frame split over many reads is copied
+  // once rather than on every read.
+  private peek(length: number): Buffer | undefined {
+    if (this.bufferedBytes < length) {
+      return undefined;
+    }
+
+    if (this.chunks[0].length < length) {
+      this.chunks = [Buffer.concat(this.chunks, this.bufferedBytes)];
+    }
+
+    return this.chunks[0];
+  }
+
+  // Only called right after peek(length) succeeded.
+  private consume(length: number): void {
+    const rest = this.chunks[0].subarray(length);
+    if (rest.length === 0) {
+      this.chunks.shift();
+    } else {
+      this.chunks[0] = rest;
+    }
+
+    this.bufferedBytes -= length;
+  }
+
+  private readFrame(): boolean {
+    let header = this.peek(2);
+    if (!header) {
+      return false;
+    }
+
+    const final = (header[0] & 0x80) !== 0;
+    const opcode = header[0] & 0x0f;
+    const masked = (header[1] & 0x80) !== 0;
+    let length = header[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      header = this.peek(4);
+      if (!header) {
+        return false;
+      }
+
+      length = header.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      header = this.peek(10);
+      if (!header) {
+        return false;
+      }
+
+      const longLength = header.readBigUInt64BE(2);
+      if (longLength > BigInt(MAX_WEBSOCKET_MESSAGE_BYTES)) {
+        this.close(CLOSE_MESSAGE_TOO_BIG);
+        return false;
+      }
+
+      length = Number(longLength);
+      offset = 10;
+    }
+
+    if (!masked) {
+      this.close(CLOSE_PROTOCOL_ERROR);
+      return false;
+    }
+
+    if (this.fragmentBytes + length > MAX_WEBSOCKET_MESSAGE_BYTES) {
+      this.close(CLOSE_MESSAGE_TOO_BIG);
+      return false;
+    }
+
+    const frame = this.peek(offset + 4 + length);
+    if (!frame) {
+      return false;
+    }
+
+    const mask = frame.subarray(offset, offset + 4);
+    const payload = Buffer.from(frame.subarray(offset + 4, offset + 4 + length));
+    for (let index = 0; index < payload.length; index += 1) {
+      payload[index] ^= mask[index % 4];
+    }
+
+    this.consume(offset + 4 + length);
+    this.handleFrame(final, opcode, payload);
+    return true;
+  }
+
+  private handleFrame(final: boolean, opcode: number, payload: Buffer): void {
+    if (opcode === OPCODE_CLOSE) {
+      this.close();
+      return;
+    }
+
+    if (opcode === OPCODE_PING) {
+      this.socket.write(encodeFrame(OPCODE_PONG, payload));
+      return;
+    }
+
+    if (opcode === OPCODE_PONG) {
+      return;
+    }
+
+    if (opcode === OPCODE_BINARY) {
+      this.close(CLOSE_UNSUPPORTED_DATA);
+      return;
+    }
+
+    // A text frame starts a message and continuation frames extend it; anything else is out of order.
+    const startsMessage = opcode === OPCODE_TEXT;
+    if ((!startsMessage && opcode !== OPCODE_CONTINUATION) || startsMessage !== (this.fragments.length === 0)) {
+      this.close(CLOSE_PROTOCOL_ERROR);
+      return;
+    }
+
+    this.fragments.push(payload);
+    this.fragmentBytes += payload.length;
+    if (!final) {
+      return;
+    }
+
+    const message = Buffer.concat(this.fragments).toString("utf8");
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    for (const listener of this.messageListeners) {
+      listener(message);
+    }
+  }
+
+  private finish(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    for (const listener of this.closeListeners) {
+      listener();
+    }
+  }
+}
+
+// Completes the handshake; returns undefined after answering 400 when the
+// request is not a usable WebSocket upgrade.
+export function acceptWebSocket(headers: IncomingHttpHeaders, socket: Duplex, head: Buffer): WebSocketConnection | undefined {
+  const key = headers["sec-websocket-key"];
+  if (!isWebSocketUpgrade(headers) || typeof key !== "string" || key.trim().length === 0 || headers["sec-websocket-version"] !== "13") {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Length: 0\r\n\r\n");
+    return undefined;
+  }
+
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${toWebSocketAccept(key.trim())}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+  const connection = new WebSocketConnection(socket);
+  if (head.length > 0) {
+    connection.receive(head);
+  }
+
+  return connection;
+}
@@ -0,0 +1,173 @@
+import { readdirSync, utimesSync, writeFileSync } from "node:fs";
+import { Agent, request as httpRequest } from "node:http";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { appendAccessLogEntry, getAccessLogDirectory, pruneAccessLogs, readAccessLog } from "../src/access-log.js";
+import { hashSecret } from "../src/auth.js";
+import { run } from "../src/cli.js";
+import { createTailserveServer } from "../src/server.js";
+import { createFileShare, removeShareById } from "../src/shares.js";
+import { closeServer, dispatchServerRequest, listen, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function toEntry(pathname: string) {
+  return {
+    time: "2026-10-19T12:00:00.000Z",
+    method: "GET",
+    path: pathname,
+    status: 200,
+    bytes: 10,
+    durationMs: 3,
+    origin: "tailnet" as const,
+  };
+}
+
+afterEach(restoreHome);
+
+describe("share access logs", () => {
+  it("records viewer identity, origin, status and bytes for every share request", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const { id } = createFileShare(filePath, { tokenHash: hashSecret("abc123") });
+    const server = createTailserveServer();
+
+    try {
+      await dispatchServerRequest(server, `/s/${id}`);
+      await dispatchServerRequest(server, `/s/${id}?t=abc123`, {
+        "tailscale-user-login": "alice@example.com",
+        "x-forwarded-for": "100.64.0.7",
+      });
+      await dispatchServerRequest(server, "/");
+    } finally {
+      server.emit("close");
+    }
+
+    const { entries } = readAccessLog(id);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ method: "GET", path: `/s/${id}`, status: 401, origin: "local" });
+    expect(entries[0].login).toBeUndefined();
+    expect(entries[1]).toMatchObject({
+      method: "GET",
+      path: `/s/${id}`,
+      status: 200,
+      bytes: "quarterly report\n".length,
+      login: "alice@example.com",
+      origin: "tailnet",
+    });
+    expect(entries[1].durationMs).toBeGreaterThanOrEqual(0);
+    expect(Number.isNaN(Date.parse(entries[1].time))).toBe(false);
+  });
+
+  it("counts the bytes of each response on a kept-alive connection separately", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const agent = new Agent({ keepAlive: true, maxSockets: 1 });
+
+    try {
+      for (let index = 0; index < 2; index += 1) {
+        await new Promise<void>((resolve, reject) => {
+          const request = httpRequest({ host: "127.0.0.1", port, path: `/s/${id}`, agent }, (response) => {
+            response.resume();
+            response.on("end", resolve);
+          });
+          request.on("error", reject);
+          request.end();
+        });
+      }
+    } finally {
+      agent.destroy();
+      await closeServer(server);
+    }
+
+    const { entries } = readAccessLog(id);
+    expect(entries).toHaveLength(2);
+    expect(entries[0].bytes).toBeGreaterThan("quarterly report\n".length);
+    expect(entries[1].bytes).toBe(entries[0].bytes);
+  });
+
+  it("keeps entries written just before a rotation when following from a position", () => {
+    useTempHome();
+    appendAccessLogEntry("follow12", toEntry("/s/follow12/a"));
+    const { position } = readAccessLog("follow12");
+
+    appendAccessLogEntry("follow12", toEntry(`/s/follow12/b/${"x".repeat(1024 * 1024)}`));
+    appendAccessLogEntry("follow12", toEntry("/s/follow12/c"));
+    const next = readAccessLog("follow12", position);
+    expect(next.entries.map((entry) => entry.path.split("/")[3])).toEqual(["b", "c"]);
+    expect(readAccessLog("follow12", next.position).entries).toEqual([]);
+  });
+
+  it("rotates large logs, keeps three generations and reads them oldest first", () => {
+    useTempHome();
+    const padding = "x".repeat(1024 * 1024);
+    for (let index = 1; index <= 5; index += 1) {
+      appendAccessLogEntry("rotated1", toEntry(`/s/rotated1/${index}/${padding}`));
+    }
+
+    expect(readdirSync(getAccessLogDirectory()).sort()).toEqual([
+      "rotated1.1.jsonl",
+      "rotated1.2.jsonl",
+      "rotated1.3.jsonl",
+      "rotated1.jsonl",
+    ]);
+    const paths = readAccessLog("rotated1").entries.map((entry) => entry.path.split("/")[3]);
+    expect(paths).toEqual(["2", "3", "4", "5"]);
+  });
+
+  it("removes logs past the retention period", () => {
+    useTempHome();
+    appendAccessLogEntry("fresh123", toEntry("/s/fresh123"));
+    appendAccessLogEntry("stale123", toEntry("/s/stale123"));
+    const staleTime = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    utimesSync(path.join(getAccessLogDirectory(), "stale123.jsonl"), staleTime, staleTime);
+
+    expect(pruneAccessLogs()).toBe(1);
+    expect(readdirSync(getAccessLogDirectory())).toEqual(["fresh123.jsonl"]);
+  });
+});
+
+describe("ts logs", () => {
+  it("prints entries as text or JSON lines, even after the share is removed", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const { id } = createFileShare(filePath);
+    appendAccessLogEntry(id, { ...toEntry(`/s/${id}`), login: "alice@example.com" });
+    removeShareById(id);
+
+    const stdout = new MemoryOutput();
+    expect(await run(["node", "ts", "logs", id], stdout, new MemoryOutput())).toBe(0);
+    expect(stdout.toString()).toBe(`2026-10-19T12:00:00.000Z  GET /s/${id}  200  10 B  3ms  alice@example.com  tailnet\n`);
+
+    const jsonStdout = new MemoryOutput();
+    expect(await run(["node", "ts", "logs", id, "--json", "--follow"], jsonStdout, new MemoryOutput())).toBe(0);
+    expect(JSON.parse(jsonStdout.toString())).toMatchObject({ path: `/s/${id}`, login: "alice@example.com" });
+  });
+
+  it("rejects unknown shares", async () => {
+    useTempHome();
+    const stderr = new MemoryOutput();
+
+    expect(await run(["node", "ts", "logs", "missing1"], new MemoryOutput(), stderr)).toBe(1);
+    expect(stderr.toString()).toContain("Share not found: missing1");
+  });
+});
@@ -0,0 +1,111 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { readRouteAnalytics, RouteAnalyticsRecorder } from "../src/analytics.js";
+import { run } from "../src/cli.js";
+import { createTailserveServer } from "../src/server.js";
+import { createFileShare } from "../src/shares.js";
+import { dispatchServerRequest, restoreHome, type ServerResponsePayload, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+afterEach(restoreHome);
+
+describe("route analytics", () => {
+  it("counts hits, unique viewers and bytes per share and shows them on the dashboard", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+
+    let dashboard: ServerResponsePayload;
+    try {
+      await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "alice@example.com" });
+      await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "alice@example.com" });
+      await dispatchServerRequest(server, `/s/${id}`, { "x-forwarded-for": "100.64.0.9" });
+      dashboard = await dispatchServerRequest(server, "/");
+    } finally {
+      server.emit("close");
+    }
+
+    const stats = readRouteAnalytics().shares[id];
+    expect(stats).toMatchObject({
+      requests: 3,
+      viewers: ["alice@example.com", "ip:100.64.0.9"],
+      bytesSent: 3 * "quarterly report\n".length,
+    });
+    expect(dashboard.body).toContain("<th>Hits</th><th>Viewers</th><th>Sent</th><th>Last Access</th>");
+    expect(dashboard.body).toContain(`  <td>3</td>\n  <td>2</td>\n  <td>51 B</td>\n  <td>${stats.lastAccessAt}</td>`);
+  });
+
+  it("merges flushes into the saved counters and drops routes that no longer exist", () => {
+    useTempHome();
+    const recorder = new RouteAnalyticsRecorder();
+    recorder.record("shares", "keep1234", { viewer: "alice@example.com", bytes: 10, at: "2026-10-19T12:00:00.000Z" });
+    recorder.record("shares", "gone1234", { bytes: 5, at: "2026-10-19T12:00:00.000Z" });
+    recorder.record("projects", "docs", { bytes: 7, at: "2026-10-19T12:00:00.000Z" });
+    recorder.flush({ shares: new Set(["keep1234", "gone1234"]), projects: new Set(["docs"]) });
+    expect(recorder.hasPending()).toBe(false);
+
+    recorder.record("shares", "keep1234", { viewer: "bob@example.com", bytes: 20, at: "2026-10-19T13:00:00.000Z" });
+    recorder.flush({ shares: new Set(["keep1234"]), projects: new Set(["docs"]) });
+
+    expect(readRouteAnalytics()).toEqual({
+      shares: {
+        keep1234: {
+          requests: 2,
+          viewers: ["alice@example.com", "bob@example.com"],
+          bytesSent: 30,
+          firstAccessAt: "2026-10-19T12:00:00.000Z",
+          lastAccessAt: "2026-10-19T13:00:00.000Z",
+        },
+      },
+      projects: {
+        docs: {
+          requests: 1,
+          viewers: [],
+          bytesSent: 7,
+          firstAccessAt: "2026-10-19T12:00:00.000Z",
+          lastAccessAt: "2026-10-19T12:00:00.000Z",
+        },
+      },
+    });
+  });
+
+  it("includes a stats summary in ts list --json", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const { id } = createFileShare(filePath);
+    const { id: quietId } = createFileShare(filePath);
+    const recorder = new RouteAnalyticsRecorder();
+    recorder.record("shares", id, { viewer: "alice@example.com", bytes: 17, at: "2026-10-19T12:00:00.000Z" });
+    recorder.flush({ shares: new Set([id, quietId]), projects: new Set() });
+
+    const stdout = new MemoryOutput();
+    expect(await run(["node", "ts", "list", "--json"], stdout, new MemoryOutput())).toBe(0);
+    const rows = JSON.parse(stdout.toString()) as Array<{ id: string; stats?: unknown }>;
+    expect(rows.find((row) => row.id === id)?.stats).toEqual({
+      requests: 1,
+      uniqueViewers: 1,
+      bytesSent: 17,
+      firstAccessAt: "2026-10-19T12:00:00.000Z",
+      lastAccessAt: "2026-10-19T12:00:00.000Z",
+    });
+    expect(rows.find((row) => row.id === quietId)?.stats).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { spawnSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+function readZipEntries(archive: Buffer): Map<string, string> {
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, string>();
+
+  for (let index = 0; index < entryCount; index += 1) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const localExtraLength = archive.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    entries.set(name, archive.subarray(dataStart, dataStart + size).toString("utf8"));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function createArtifactsDirectory(workspace: string): string {
+  const dirPath = path.join(workspace, "artifacts");
+  mkdirSync(path.join(dirPath, "logs"), { recursive: true });
+  mkdirSync(path.join(dirPath, ".cache"), { recursive: true });
+  writeFileSync(path.join(dirPath, "build.txt"), "build output\n", "utf8");
+  writeFileSync(path.join(dirPath, "logs", "run.log"), "log line\n", "utf8");
+  writeFileSync(path.join(dirPath, ".env"), "SECRET=1\n", "utf8");
+  writeFileSync(path.join(dirPath, ".cache", "blob"), "cached\n", "utf8");
+
+  const outsidePath = path.join(workspace, "outside.txt");
+  writeFileSync(outsidePath, "outside the share\n", "utf8");
+  symlinkSync(outsidePath, path.join(dirPath, "escape.txt"));
+  symlinkSync(path.join(dirPath, "build.txt"), path.join(dirPath, "alias.txt"));
+  return dirPath;
+}
+
+afterEach(restoreHome);
+
+describe("directory archives", () => {
+  it("links zip and tar.gz downloads from directory share listings", () => {
+    const workspace = useTempHome();
+    const dirPath = createArtifactsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/logs/` });
+
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.body).toContain(`href="/s/${id}/logs/?archive=zip"`);
+    expect(resolved.body).toContain(`href="/s/${id}/logs/?archive=tgz"`);
+    expect(resolved.body).toContain("Download all");
+  });
+
+  it("streams a zip of the share without hidden files or escaping symlinks", async () => {
+    const workspace = useTempHome();
+    const dirPath = createArtifactsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/?archive=zip`);
+      const entries = readZipEntries(response.raw);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/zip");
+      expect(response.headers["content-disposition"]).toBe("attachment; filename*=UTF-8''artifacts.zip");
+      expect([...entries.keys()]).toEqual([
+        "artifacts/",
+        "artifacts/alias.txt",
+        "artifacts/build.txt",
+        "artifacts/logs/",
+        "artifacts/logs/run.log",
+      ]);
+      expect(entries.get("artifacts/logs/run.log")).toBe("log line\n");
+      expect(entries.get("artifacts/alias.txt")).toBe("build output\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("streams a tar.gz of a subdirectory", async () => {
+    const workspace = useTempHome();
+    const dirPath = createArtifactsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/logs/?archive=tgz`);
+      const archivePath = path.join(workspace, "logs.tar.gz");
+      const extractDir = mkdtempSync(path.join(tmpdir(), "tailserve-extract-"));
+      writeFileSync(archivePath, response.raw);
+      const extract = spawnSync("tar", ["-xzf", archivePath, "-C", extractDir], { encoding: "utf8" });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/gzip");
+      expect(response.headers["content-disposition"]).toBe("attachment; filename*=UTF-8''logs.tar.gz");
+      expect(extract.status).toBe(0);
+      expect(readFileSync(path.join(extractDir, "logs", "run.log"), "utf8")).toBe("log line\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("keeps long paths intact in tar archives", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "deep");
+    const longName = `${"nested-directory-name-".repeat(6)}end`;
+    mkdirSync(path.join(dirPath, longName), { recursive: true });
+    writeFileSync(path.join(dirPath, longName, "file.txt"), "deep\n", "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}?archive=tgz`);
+      const archivePath = path.join(workspace, "deep.tar.gz");
+      writeFileSync(archivePath, response.raw);
+      const listing = spawnSync("tar", ["-tzf", archivePath], { encoding: "utf8" });
+
+      expect(listing.status).toBe(0);
+      expect(listing.stdout.split("\n")).toContain(`deep/${longName}/file.txt`);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("rejects unknown archive formats", () => {
+    const workspace = useTempHome();
+    const dirPath = createArtifactsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/?archive=rar` });
+
+    expect(resolved.statusCode).toBe(400);
+    expect(resolved.body).toContain("Unsupported archive format");
+  });
+});
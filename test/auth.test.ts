@@ -0,0 +1,317 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { hashSecret, verifySecret } from "../src/auth.js";
+import { run } from "../src/cli.js";
+import { createEditShare, createFileShare, createProxyShare } from "../src/shares.js";
+import { createTailserveServer, proxyShareUpgradeRequest } from "../src/server.js";
+import { readState, writeState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome, type ServerResponsePayload, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function readSetCookie(payload: ServerResponsePayload): string {
+  return (payload.headers["set-cookie"] ?? "").split(";")[0];
+}
+
+afterEach(restoreHome);
+
+describe("share access hashes", () => {
+  it("verifies secrets against salted scrypt hashes", () => {
+    const first = hashSecret("hunter2");
+    const second = hashSecret("hunter2");
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain("hunter2");
+    expect(verifySecret("hunter2", first)).toBe(true);
+    expect(verifySecret("hunter3", first)).toBe(false);
+    expect(verifySecret("hunter2", "plain")).toBe(false);
+  });
+});
+
+describe("protected shares", () => {
+  it("shows a login form to browsers and asks other clients for basic auth", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.txt");
+    writeFileSync(filePath, "secret notes\n", "utf8");
+    const { id } = createFileShare(filePath, { passwordHash: hashSecret("hunter2") });
+    const server = createTailserveServer();
+
+    try {
+      const browser = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html" });
+      expect(browser.statusCode).toBe(401);
+      expect(browser.body).toContain(`action="/s/${id}/.tailserve-login"`);
+      expect(browser.body).not.toContain("secret notes");
+      expect(browser.headers["www-authenticate"]).toBeUndefined();
+
+      const client = await dispatchServerRequest(server, `/s/${id}`);
+      expect(client.statusCode).toBe(401);
+      expect(client.headers["www-authenticate"]).toContain("Basic");
+
+      const wrong = await dispatchServerRequest(server, `/s/${id}`, {
+        authorization: `Basic ${Buffer.from("user:nope").toString("base64")}`,
+      });
+      expect(wrong.statusCode).toBe(401);
+
+      const basic = await dispatchServerRequest(server, `/s/${id}`, {
+        authorization: `Basic ${Buffer.from("user:hunter2").toString("base64")}`,
+      });
+      expect(basic.statusCode).toBe(200);
+      expect(basic.body).toBe("secret notes\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("accepts tokens from the query string or a bearer header and remembers them in a cookie", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.txt");
+    writeFileSync(filePath, "secret notes\n", "utf8");
+    const { id } = createFileShare(filePath, { tokenHash: hashSecret("abc123") });
+    const server = createTailserveServer();
+
+    try {
+      const denied = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html" });
+      expect(denied.statusCode).toBe(401);
+      expect(denied.headers["www-authenticate"]).toContain("Bearer");
+
+      const bearer = await dispatchServerRequest(server, `/s/${id}`, { authorization: "Bearer abc123" });
+      expect(bearer.statusCode).toBe(200);
+
+      const query = await dispatchServerRequest(server, `/s/${id}?t=abc123`);
+      expect(query.statusCode).toBe(200);
+      expect(query.headers["set-cookie"]).toContain(`Path=/s/${id}`);
+      expect(query.headers["set-cookie"]).toContain("HttpOnly");
+
+      const cookie = readSetCookie(query);
+      const remembered = await dispatchServerRequest(server, `/s/${id}`, { cookie });
+      expect(remembered.statusCode).toBe(200);
+      expect(remembered.body).toBe("secret notes\n");
+
+      const tampered = await dispatchServerRequest(server, `/s/${id}`, { cookie: `${cookie}x` });
+      expect(tampered.statusCode).toBe(401);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("sets a session cookie after a correct login form submission", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.txt");
+    writeFileSync(filePath, "secret notes\n", "utf8");
+    const { id } = createFileShare(filePath, { passwordHash: hashSecret("hunter2") });
+    const server = createTailserveServer();
+    const formHeaders = { "content-type": "application/x-www-form-urlencoded" };
+
+    try {
+      const wrong = await dispatchServerRequest(server, `/s/${id}/.tailserve-login`, formHeaders, "POST", `password=nope&next=/s/${id}`);
+      expect(wrong.statusCode).toBe(401);
+      expect(wrong.body).toContain("Incorrect password");
+
+      const login = await dispatchServerRequest(
+        server,
+        `/s/${id}/.tailserve-login`,
+        formHeaders,
+        "POST",
+        "password=hunter2&next=https%3A%2F%2Fevil.example%2F",
+      );
+      expect(login.statusCode).toBe(303);
+      expect(login.headers.location).toBe(`/s/${id}`);
+
+      const page = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html", cookie: readSetCookie(login) });
+      expect(page.statusCode).toBe(200);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("rejects unauthenticated edit saves", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "draft.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath, { passwordHash: hashSecret("hunter2") });
+    const server = createTailserveServer();
+
+    try {
+      const save = await dispatchServerRequest(server, `/s/${id}/api/save`, { "content-type": "text/plain" }, "POST", "# Changed\n");
+      expect(save.statusCode).toBe(401);
+      expect(readFileSync(filePath, "utf8")).toBe("# Draft\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("refuses WebSocket upgrades to protected proxy shares", () => {
+    useTempHome();
+    const { id } = createProxyShare(8794, {
+      ensureServerRunning: false,
+      setupTailscaleRoute: false,
+      tokenHash: hashSecret("abc123"),
+    });
+    const socketWrite = vi.fn();
+    const clientSocket = { write: socketWrite, destroy: vi.fn(), on: vi.fn(), end: vi.fn() } as never;
+    const connect = vi.fn();
+
+    const handled = proxyShareUpgradeRequest(
+      {
+        method: "GET",
+        url: `/s/${id}`,
+        headers: { connection: "Upgrade", upgrade: "websocket", host: "tailserve.local" },
+        rawHeaders: ["Connection", "Upgrade", "Upgrade", "websocket", "Host", "tailserve.local"],
+        httpVersion: "1.1",
+      },
+      clientSocket,
+      Buffer.alloc(0),
+      readState(),
+      { request: vi.fn() as never, connect: connect as never },
+    );
+
+    expect(handled).toBe(true);
+    expect(connect).not.toHaveBeenCalled();
+    expect(socketWrite.mock.calls[0]?.[0]).toContain("HTTP/1.1 401 Unauthorized");
+  });
+});
+
+describe("tailnet identity allow lists", () => {
+  it("only serves tailnet users on the allow list", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "hr report\n", "utf8");
+    const { id } = createFileShare(filePath, { allow: ["alice@example.com"], public: true });
+    const server = createTailserveServer();
+
+    try {
+      const alice = await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "Alice@example.com" });
+      expect(alice.statusCode).toBe(200);
+      expect(alice.body).toBe("hr report\n");
+
+      const bob = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html", "tailscale-user-login": "bob@example.com" });
+      expect(bob.statusCode).toBe(403);
+      expect(bob.body).toContain("<code>bob@example.com</code>");
+      expect(bob.body).not.toContain("hr report");
+
+      const anonymous = await dispatchServerRequest(server, `/s/${id}`);
+      expect(anonymous.statusCode).toBe(403);
+      expect(anonymous.body).toBe("Forbidden\n");
+
+      const funnelled = await dispatchServerRequest(server, `/s/${id}`, {
+        "tailscale-funnel-request": "?1",
+        "tailscale-user-login": "alice@example.com",
+      });
+      expect(funnelled.statusCode).toBe(403);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("matches domains, groups and explicitly allowed anonymous requests", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "hr report\n", "utf8");
+    const { id } = createFileShare(filePath, { allow: ["*@corp.example", "group:eng", "anonymous"] });
+    const state = readState();
+    state.groups = { eng: ["dana@contractor.example"] };
+    writeState(state);
+    const server = createTailserveServer();
+
+    try {
+      expect((await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "carol@corp.example" })).statusCode).toBe(200);
+      expect((await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "dana@contractor.example" })).statusCode).toBe(200);
+      expect((await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "eve@contractor.example" })).statusCode).toBe(403);
+      expect((await dispatchServerRequest(server, `/s/${id}`)).statusCode).toBe(200);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("checks the allow list before asking for a password", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "hr report\n", "utf8");
+    const { id } = createFileShare(filePath, { allow: ["alice@example.com"], passwordHash: hashSecret("hunter2") });
+    const server = createTailserveServer();
+    const basic = `Basic ${Buffer.from("user:hunter2").toString("base64")}`;
+
+    try {
+      const outsider = await dispatchServerRequest(server, `/s/${id}`, { authorization: basic, "tailscale-user-login": "bob@example.com" });
+      expect(outsider.statusCode).toBe(403);
+
+      const alice = await dispatchServerRequest(server, `/s/${id}`, { "tailscale-user-login": "alice@example.com" });
+      expect(alice.statusCode).toBe(401);
+
+      const unlocked = await dispatchServerRequest(server, `/s/${id}`, { authorization: basic, "tailscale-user-login": "alice@example.com" });
+      expect(unlocked.statusCode).toBe(200);
+    } finally {
+      server.emit("close");
+    }
+  });
+});
+
+describe("ts share access flags", () => {
+  it("prints a token URL and stores only hashes", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.txt");
+    writeFileSync(filePath, "secret notes\n", "utf8");
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+
+    const exitCode = await run(["node", "ts", "share", filePath, "--password", "hunter2", "--token"], stdout, stderr);
+
+    expect(exitCode).toBe(0);
+    expect(stderr.toString()).toBe("");
+    const url = new URL(stdout.toString().trim());
+    const token = url.searchParams.get("t") ?? "";
+    expect(token.length).toBeGreaterThan(16);
+
+    const stateText = readFileSync(path.join(process.env.HOME ?? "", ".tailserve", "state.json"), "utf8");
+    expect(stateText).not.toContain("hunter2");
+    expect(stateText).not.toContain(token);
+    const share = Object.values(readState().shares)[0];
+    expect(verifySecret("hunter2", share.passwordHash ?? "")).toBe(true);
+    expect(verifySecret(token, share.tokenHash ?? "")).toBe(true);
+  });
+
+  it("stores a normalised allow list and rejects malformed entries", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.txt");
+    writeFileSync(filePath, "secret notes\n", "utf8");
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+
+    const exitCode = await run(["node", "ts", "share", filePath, "--allow", " Alice@Example.com, group:eng ,alice@example.com"], stdout, stderr);
+
+    expect(exitCode).toBe(0);
+    expect(Object.values(readState().shares)[0].allow).toEqual(["alice@example.com", "group:eng"]);
+
+    const invalidStderr = new MemoryOutput();
+    const invalidExitCode = await run(["node", "ts", "share", filePath, "--allow", "alice"], new MemoryOutput(), invalidStderr);
+    expect(invalidExitCode).toBe(1);
+    expect(invalidStderr.toString()).toContain("Invalid allow list: alice");
+  });
+
+  it("rejects an empty password", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.txt");
+    writeFileSync(filePath, "secret notes\n", "utf8");
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+
+    const exitCode = await run(["node", "ts", "share", filePath, "--password", ""], stdout, stderr);
+
+    expect(exitCode).toBe(1);
+    expect(stderr.toString()).toContain("Password must not be empty");
+  });
+});
@@ -0,0 +1,108 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { getBlobDirectory } from "../src/blobs.js";
+import { run } from "../src/cli.js";
+import { createTailserveServer } from "../src/server.js";
+import { removeExpiredShares } from "../src/shares.js";
+import { readState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function withStdin(contents: string) {
+  return {
+    openUrl: () => undefined,
+    readStdin: async () => Buffer.from(contents, "utf8"),
+  };
+}
+
+async function shareStdin(contents: string, args: string[]): Promise<string> {
+  const stdout = new MemoryOutput();
+  const stderr = new MemoryOutput();
+  expect(await run(["node", "ts", "share", "-", ...args], stdout, stderr, withStdin(contents))).toBe(0);
+  const match = /\/s\/([A-Za-z0-9_-]+)$/.exec(stdout.toString().trim());
+  expect(match).not.toBeNull();
+  return match?.[1] ?? "";
+}
+
+afterEach(restoreHome);
+
+describe("stdin shares", () => {
+  it("stores piped content in the blob store and serves it under the given name", async () => {
+    useTempHome();
+    const id = await shareStdin("build output\n", ["--name", "output.txt"]);
+
+    const blobPath = readState().shares[id].path ?? "";
+    expect(path.dirname(path.dirname(blobPath))).toBe(getBlobDirectory());
+    expect(path.basename(blobPath)).toBe("output.txt");
+    expect(readFileSync(blobPath, "utf8")).toBe("build output\n");
+
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}?raw=1`);
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe("build output\n");
+      expect(response.headers["content-type"]).toContain("text/plain");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("serves --type as the Content-Type without previews", async () => {
+    useTempHome();
+    const id = await shareStdin("<h1>Report</h1>\n", ["--name", "report.txt", "--type", "text/html"]);
+    const server = createTailserveServer();
+
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html" });
+      expect(response.headers["content-type"]).toBe("text/html");
+      expect(response.body).toBe("<h1>Report</h1>\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("deletes a blob once no share references it", async () => {
+    useTempHome();
+    const firstId = await shareStdin("same bytes\n", ["--name", "output.txt"]);
+    const secondId = await shareStdin("same bytes\n", ["--name", "output.txt", "--ttl", "1m"]);
+    const blobPath = readState().shares[firstId].path ?? "";
+    expect(readState().shares[secondId].path).toBe(blobPath);
+
+    expect(await run(["node", "ts", "stop", firstId], new MemoryOutput(), new MemoryOutput())).toBe(0);
+    expect(existsSync(blobPath)).toBe(true);
+
+    expect(removeExpiredShares(Date.now() + 2 * 60 * 1000)).toBe(1);
+    expect(existsSync(blobPath)).toBe(false);
+    expect(existsSync(path.dirname(blobPath))).toBe(false);
+  });
+
+  it("rejects --name and --type without stdin and malformed content types", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+
+    const stderr = new MemoryOutput();
+    expect(await run(["node", "ts", "share", filePath, "--name", "x.txt"], new MemoryOutput(), stderr)).toBe(1);
+    expect(stderr.toString()).toContain("--name and --type only apply to stdin (ts share -)");
+
+    const typeStderr = new MemoryOutput();
+    expect(await run(["node", "ts", "share", "-", "--type", "html"], new MemoryOutput(), typeStderr, withStdin("x"))).toBe(1);
+    expect(typeStderr.toString()).toContain("Invalid content type: html");
+    expect(readState().shares).toEqual({});
+  });
+});
@@ -0,0 +1,134 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { detectLanguage, highlightLines } from "../src/highlight.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+const BROWSER_ACCEPT = "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8";
+
+afterEach(restoreHome);
+
+describe("highlightLines", () => {
+  it("highlights keywords, strings, numbers and comments per line", () => {
+    const lines = highlightLines("const answer = 42; // <why>\nreturn \"ok\";\n", "typescript");
+
+    expect(lines).toEqual([
+      '<span class="tok-keyword">const</span> answer = <span class="tok-number">42</span>; <span class="tok-comment">// &lt;why&gt;</span>',
+      '<span class="tok-keyword">return</span> <span class="tok-string">&quot;ok&quot;</span>;',
+    ]);
+  });
+
+  it("splits multi-line tokens so every line is self-contained", () => {
+    expect(highlightLines("/* a\nb */ x", "javascript")).toEqual([
+      '<span class="tok-comment">/* a</span>',
+      '<span class="tok-comment">b */</span> x',
+    ]);
+  });
+
+  it("colours diff and log lines", () => {
+    expect(highlightLines("@@ -1 +1 @@\n-old\n+new", "diff")).toEqual([
+      '<span class="tok-hunk">@@ -1 +1 @@</span>',
+      '<span class="tok-removed">-old</span>',
+      '<span class="tok-added">+new</span>',
+    ]);
+    expect(highlightLines("12:00 ERROR boom", "log")).toEqual(['<span class="tok-error">12:00 ERROR boom</span>']);
+  });
+});
+
+describe("detectLanguage", () => {
+  it("uses the file name, then a shebang, then falls back to plain text", () => {
+    expect(detectLanguage("/tmp/app.py", Buffer.from("print(1)\n"))).toBe("python");
+    expect(detectLanguage("/tmp/Dockerfile", Buffer.from("FROM node:20\n"))).toBe("dockerfile");
+    expect(detectLanguage("/tmp/deploy", Buffer.from("#!/usr/bin/env bash\necho hi\n"))).toBe("shell");
+    expect(detectLanguage("/tmp/NOTES", Buffer.from("just words\n"))).toBe("plaintext");
+  });
+
+  it("rejects binary content", () => {
+    expect(detectLanguage("/tmp/blob.bin", Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0x01]))).toBeUndefined();
+    expect(detectLanguage("/tmp/data.ts", Buffer.from([0xff, 0xfe, 0xfd, 0x80, 0x81, 0x41]))).toBeUndefined();
+  });
+});
+
+describe("code viewer", () => {
+  it("renders shared source files with line numbers and raw/download links for browsers", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "server.ts");
+    writeFileSync(filePath, "export const port = 8080;\nconsole.log(port);\n", "utf8");
+
+    const { id } = createFileShare(filePath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}`, headers: { accept: BROWSER_ACCEPT } });
+
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.contentType).toBe("text/html; charset=utf-8");
+    expect(resolved.body).toContain(
+      '<div class="line" id="L1"><a class="ln" href="#L1" data-line="1">1</a><span class="lc"><span class="tok-keyword">export</span>',
+    );
+    expect(resolved.body).toContain('id="L2"');
+    expect(resolved.body).not.toContain('id="L3"');
+    expect(resolved.body).toContain("typescript · 2 lines");
+    expect(resolved.body).toContain(`<a class="download" href="/s/${id}?raw=1">Raw</a>`);
+    expect(resolved.body).toContain(`href="/s/${id}?raw=1" download="server.ts">Download</a>`);
+    expect(resolved.body).toContain('id="wrap-toggle"');
+  });
+
+  it("sniffs extension-less text files inside directory shares", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "scripts");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "deploy"), "#!/bin/sh\necho $TARGET\n", "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/deploy`, headers: { accept: BROWSER_ACCEPT } });
+
+    expect(resolved.body).toContain("<title>deploy</title>");
+    expect(resolved.body).toContain("shell · 2 lines");
+    expect(resolved.body).toContain('<span class="tok-variable">$TARGET</span>');
+  });
+
+  it("serves raw bytes to non-navigation requests and for ?raw=1", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "site");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "app.js"), "console.log(1);\n", "utf8");
+    writeFileSync(path.join(dirPath, "notes"), "plain notes\n", "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const scriptResponse = await dispatchServerRequest(server, `/s/${id}/app.js`, { accept: "*/*" });
+      const viewerResponse = await dispatchServerRequest(server, `/s/${id}/app.js`, { accept: BROWSER_ACCEPT });
+      const rawResponse = await dispatchServerRequest(server, `/s/${id}/notes?raw=1`, { accept: BROWSER_ACCEPT });
+
+      expect(scriptResponse.headers["content-type"]).toBe("text/javascript");
+      expect(scriptResponse.body).toBe("console.log(1);\n");
+      expect(scriptResponse.headers.vary).toBe("Accept, Accept-Encoding");
+      expect(viewerResponse.headers["content-type"]).toBe("text/html; charset=utf-8");
+      expect(viewerResponse.headers.vary).toBe("Accept, Accept-Encoding");
+      expect(rawResponse.headers["content-type"]).toBe("text/plain; charset=utf-8");
+      expect(rawResponse.body).toBe("plain notes\n");
+      expect(rawResponse.headers.vary).toBe("Accept-Encoding");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("leaves HTML pages, images and binary files alone", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "assets");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "index.html"), "<h1>hi</h1>\n", "utf8");
+    writeFileSync(path.join(dirPath, "blob.bin"), Buffer.from([0, 1, 2, 3]));
+
+    const { id } = createFileShare(dirPath);
+    const page = resolveRequest({ method: "GET", url: `/s/${id}/index.html`, headers: { accept: BROWSER_ACCEPT } });
+    const blob = resolveRequest({ method: "GET", url: `/s/${id}/blob.bin`, headers: { accept: BROWSER_ACCEPT } });
+
+    expect(page.filePath).toBe(path.join(dirPath, "index.html"));
+    expect(blob.filePath).toBe(path.join(dirPath, "blob.bin"));
+    expect(blob.contentType).toBe("application/octet-stream");
+  });
+});
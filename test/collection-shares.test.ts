@@ -0,0 +1,154 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { createTailserveServer } from "../src/server.js";
+import { addCollectionItems, createCollectionShare, createFileShare } from "../src/shares.js";
+import { readState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function toShareId(output: string): string {
+  return /\/s\/([A-Za-z0-9_-]+)$/.exec(output.trim())?.[1] ?? "";
+}
+
+afterEach(restoreHome);
+
+describe("collection shares", () => {
+  it("serves an index page and each member under its own name", async () => {
+    const workspace = useTempHome();
+    mkdirSync(path.join(workspace, "logs"));
+    mkdirSync(path.join(workspace, "old"));
+    writeFileSync(path.join(workspace, "chart.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    writeFileSync(path.join(workspace, "logs", "run.txt"), "step 1 ok\nstep 2 <failed>\n", "utf8");
+    writeFileSync(path.join(workspace, "old", "run.txt"), "previous run\n", "utf8");
+
+    const stdout = new MemoryOutput();
+    const exitCode = await run(
+      [
+        "node",
+        "ts",
+        "share",
+        path.join(workspace, "chart.png"),
+        path.join(workspace, "logs", "run.txt"),
+        path.join(workspace, "old", "run.txt"),
+        "--title",
+        "Nightly run",
+      ],
+      stdout,
+      new MemoryOutput(),
+    );
+    expect(exitCode).toBe(0);
+
+    const id = toShareId(stdout.toString());
+    const share = readState().shares[id];
+    expect(share.type).toBe("collection");
+    expect(share.title).toBe("Nightly run");
+    expect(share.items?.map((item) => item.name)).toEqual(["chart.png", "run.txt", "run-2.txt"]);
+
+    const server = createTailserveServer();
+    try {
+      const index = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html" });
+      expect(index.statusCode).toBe(200);
+      expect(index.body).toContain("<h1>Nightly run</h1>");
+      expect(index.body).toContain("3 items");
+      expect(index.body).toContain(`<img class="preview" src="/s/${id}/chart.png"`);
+      expect(index.body).toContain("26 B");
+      expect(index.body).toContain("step 2 &lt;failed&gt;");
+
+      const member = await dispatchServerRequest(server, `/s/${id}/run-2.txt`);
+      expect(member.statusCode).toBe(200);
+      expect(member.body).toBe("previous run\n");
+
+      const json = JSON.parse((await dispatchServerRequest(server, `/s/${id}?format=json`)).body) as {
+        title: string;
+        items: Array<{ name: string; href: string; size: number }>;
+      };
+      expect(json.title).toBe("Nightly run");
+      expect(json.items.map((item) => [item.name, item.href, item.size])).toEqual([
+        ["chart.png", `/s/${id}/chart.png`, 4],
+        ["run.txt", `/s/${id}/run.txt`, 26],
+        ["run-2.txt", `/s/${id}/run-2.txt`, 13],
+      ]);
+
+      expect((await dispatchServerRequest(server, `/s/${id}/missing.txt`)).statusCode).toBe(404);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("serves directory members with their own listing", async () => {
+    const workspace = useTempHome();
+    mkdirSync(path.join(workspace, "assets"));
+    writeFileSync(path.join(workspace, "assets", "app.css"), "body { margin: 0; }\n", "utf8");
+    writeFileSync(path.join(workspace, "notes.txt"), "notes\n", "utf8");
+
+    const { id } = createCollectionShare([path.join(workspace, "notes.txt"), path.join(workspace, "assets")]);
+
+    const server = createTailserveServer();
+    try {
+      const listing = await dispatchServerRequest(server, `/s/${id}/assets/`);
+      expect(listing.statusCode).toBe(200);
+      expect(listing.body).toContain(`href="/s/${id}/assets/app.css"`);
+
+      const file = await dispatchServerRequest(server, `/s/${id}/assets/app.css`);
+      expect(file.body).toBe("body { margin: 0; }\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("appends members with ts share --add and prints their URLs", async () => {
+    const workspace = useTempHome();
+    writeFileSync(path.join(workspace, "a.txt"), "a\n", "utf8");
+    mkdirSync(path.join(workspace, "later"));
+    writeFileSync(path.join(workspace, "later", "a.txt"), "later a\n", "utf8");
+    writeFileSync(path.join(workspace, "b.txt"), "b\n", "utf8");
+
+    const { id, url } = createCollectionShare([path.join(workspace, "a.txt")], { title: "Drops" });
+
+    const stdout = new MemoryOutput();
+    const exitCode = await run(
+      ["node", "ts", "share", "--add", id, path.join(workspace, "later", "a.txt"), path.join(workspace, "b.txt")],
+      stdout,
+      new MemoryOutput(),
+    );
+    expect(exitCode).toBe(0);
+    expect(stdout.toString()).toBe(`${url}/a-2.txt\n${url}/b.txt\n`);
+    expect(readState().shares[id].items?.map((item) => item.name)).toEqual(["a.txt", "a-2.txt", "b.txt"]);
+  });
+
+  it("rejects single-path flags and non-collection targets", async () => {
+    const workspace = useTempHome();
+    writeFileSync(path.join(workspace, "a.txt"), "a\n", "utf8");
+    writeFileSync(path.join(workspace, "b.txt"), "b\n", "utf8");
+
+    const stderr = new MemoryOutput();
+    const exitCode = await run(
+      ["node", "ts", "share", "--live", path.join(workspace, "a.txt"), path.join(workspace, "b.txt")],
+      new MemoryOutput(),
+      stderr,
+    );
+    expect(exitCode).toBe(1);
+    expect(stderr.toString()).toContain("--live does not apply to collection shares");
+    expect(Object.keys(readState().shares)).toHaveLength(0);
+
+    const { id } = createFileShare(path.join(workspace, "a.txt"));
+    expect(() => addCollectionItems(id, [path.join(workspace, "b.txt")])).toThrow(`Not a collection share: ${id}`);
+    expect(() => addCollectionItems("nope", [path.join(workspace, "b.txt")])).toThrow("Share not found: nope");
+  });
+});
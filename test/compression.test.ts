@@ -0,0 +1,182 @@
+import { mkdirSync, utimesSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { brotliDecompressSync, gunzipSync, gzipSync } from "node:zlib";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { negotiateEncodings } from "../src/compression.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+function largeJson(): string {
+  return `${JSON.stringify(Array.from({ length: 400 }, (_, index) => ({ index, label: `row-${index}` })))}\n`;
+}
+
+afterEach(restoreHome);
+
+describe("negotiateEncodings", () => {
+  it("prefers brotli on ties and honours q-values", () => {
+    expect(negotiateEncodings({ "accept-encoding": "gzip, deflate, br" })).toEqual(["br", "gzip"]);
+    expect(negotiateEncodings({ "accept-encoding": "gzip;q=1, br;q=0.5" })).toEqual(["gzip", "br"]);
+    expect(negotiateEncodings({ "accept-encoding": "br;q=0, gzip" })).toEqual(["gzip"]);
+    expect(negotiateEncodings({ "accept-encoding": "*" })).toEqual(["br", "gzip"]);
+    expect(negotiateEncodings({ "accept-encoding": "identity" })).toEqual([]);
+    expect(negotiateEncodings({})).toEqual([]);
+  });
+});
+
+describe("response compression", () => {
+  it("compresses large compressible files on the fly", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "trace.json");
+    const content = largeJson();
+    writeFileSync(filePath, content, "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const brotli = await dispatchServerRequest(server, `/s/${id}`, { "accept-encoding": "gzip, br" });
+      const gzip = await dispatchServerRequest(server, `/s/${id}`, { "accept-encoding": "gzip" });
+
+      expect(brotli.statusCode).toBe(200);
+      expect(brotli.headers["content-encoding"]).toBe("br");
+      // JSON gets the tree viewer in browsers, so it varies on Accept as well.
+      expect(brotli.headers.vary).toBe("Accept, Accept-Encoding");
+      expect(brotli.headers["content-length"]).toBeUndefined();
+      expect(brotli.headers.etag).toMatch(/-br"$/);
+      expect(brotliDecompressSync(brotli.raw).toString("utf8")).toBe(content);
+      expect(brotli.raw.length).toBeLessThan(Buffer.byteLength(content));
+
+      expect(gzip.headers["content-encoding"]).toBe("gzip");
+      expect(gunzipSync(gzip.raw).toString("utf8")).toBe(content);
+
+      const revalidated = await dispatchServerRequest(server, `/s/${id}`, {
+        "accept-encoding": "br",
+        "if-none-match": brotli.headers.etag ?? "",
+      });
+      expect(revalidated.statusCode).toBe(304);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("leaves small files, binary types and range requests uncompressed", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "out");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "small.txt"), "tiny\n", "utf8");
+    writeFileSync(path.join(dirPath, "trace.json"), largeJson(), "utf8");
+    writeFileSync(path.join(dirPath, "image.png"), Buffer.alloc(4096, 1));
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const small = await dispatchServerRequest(server, `/s/${id}/small.txt`, { "accept-encoding": "br" });
+      const image = await dispatchServerRequest(server, `/s/${id}/image.png`, { "accept-encoding": "br" });
+      const ranged = await dispatchServerRequest(server, `/s/${id}/trace.json`, {
+        "accept-encoding": "br",
+        range: "bytes=0-9",
+      });
+
+      expect(small.headers["content-encoding"]).toBeUndefined();
+      expect(small.body).toBe("tiny\n");
+      expect(image.headers["content-encoding"]).toBeUndefined();
+      expect(ranged.statusCode).toBe(206);
+      expect(ranged.headers["content-encoding"]).toBeUndefined();
+      expect(ranged.body).toBe(largeJson().slice(0, 10));
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("serves precompressed siblings from directory shares, including byte ranges", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "dist");
+    mkdirSync(dirPath, { recursive: true });
+    const bundle = "console.log('bundle');\n".repeat(10);
+    const precompressed = gzipSync(Buffer.from(bundle, "utf8"));
+    writeFileSync(path.join(dirPath, "app.js"), bundle, "utf8");
+    writeFileSync(path.join(dirPath, "app.js.gz"), precompressed);
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/app.js`, { "accept-encoding": "gzip" });
+      const ranged = await dispatchServerRequest(server, `/s/${id}/app.js`, {
+        "accept-encoding": "gzip",
+        range: "bytes=0-3",
+      });
+
+      expect(response.headers["content-encoding"]).toBe("gzip");
+      expect(response.headers["content-type"]).toBe("text/javascript");
+      expect(response.headers["content-length"]).toBe(String(precompressed.length));
+      expect(response.headers["accept-ranges"]).toBe("bytes");
+      expect(response.raw.equals(precompressed)).toBe(true);
+      expect(ranged.statusCode).toBe(206);
+      expect(ranged.headers["content-range"]).toBe(`bytes 0-3/${precompressed.length}`);
+      expect(ranged.raw.equals(precompressed.subarray(0, 4))).toBe(true);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("skips precompressed siblings older than the source file", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "dist");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "app.js.gz"), gzipSync(Buffer.from("console.log('old');\n", "utf8")));
+    writeFileSync(path.join(dirPath, "app.js"), "console.log('new');\n", "utf8");
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    utimesSync(path.join(dirPath, "app.js.gz"), hourAgo, hourAgo);
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/app.js`, { "accept-encoding": "gzip" });
+
+      expect(response.headers["content-encoding"]).toBeUndefined();
+      expect(response.body).toBe("console.log('new');\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("compresses large directory listings", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "many");
+    mkdirSync(dirPath, { recursive: true });
+    for (let index = 0; index < 40; index += 1) {
+      writeFileSync(path.join(dirPath, `artifact-${index}.txt`), `${index}\n`, "utf8");
+    }
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`, { "accept-encoding": "gzip" });
+
+      expect(response.headers["content-encoding"]).toBe("gzip");
+      expect(gunzipSync(response.raw).toString("utf8")).toContain(">artifact-39.txt<");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("skips compression for shares created with compression disabled", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "trace.json");
+    writeFileSync(filePath, largeJson(), "utf8");
+
+    const { id } = createFileShare(filePath, { compress: false });
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`, { "accept-encoding": "br, gzip" });
+
+      expect(response.headers["content-encoding"]).toBeUndefined();
+      expect(response.headers.vary).toBe("Accept");
+      expect(response.body).toBe(largeJson());
+    } finally {
+      server.emit("close");
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { mkdirSync, readFileSync, utimesSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+afterEach(restoreHome);
+
+describe("conditional GET", () => {
+  it("emits ETag, Last-Modified and a revalidate Cache-Control by default", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.html");
+    writeFileSync(filePath, "<h1>report</h1>\n", "utf8");
+    utimesSync(filePath, new Date("2026-02-16T00:00:00.000Z"), new Date("2026-02-16T00:00:00.000Z"));
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers.etag).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+      expect(response.headers["last-modified"]).toBe("Mon, 16 Feb 2026 00:00:00 GMT");
+      expect(response.headers["cache-control"]).toBe("no-cache");
+      expect(response.headers.vary).toBe("Accept-Encoding");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("returns 304 when If-None-Match or If-Modified-Since still match the file", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.html");
+    writeFileSync(filePath, "<h1>report</h1>\n", "utf8");
+    utimesSync(filePath, new Date("2026-02-16T00:00:00.000Z"), new Date("2026-02-16T00:00:00.000Z"));
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const first = await dispatchServerRequest(server, `/s/${id}`);
+      const byEtag = await dispatchServerRequest(server, `/s/${id}`, { "if-none-match": `W/${first.headers.etag}` });
+      const byDate = await dispatchServerRequest(server, `/s/${id}`, { "if-modified-since": "Mon, 16 Feb 2026 00:00:00 GMT" });
+
+      expect(byEtag.statusCode).toBe(304);
+      expect(byEtag.body).toBe("");
+      expect(byEtag.headers.vary).toBe("Accept-Encoding");
+      expect(byDate.statusCode).toBe(304);
+
+      writeFileSync(filePath, "<h1>regenerated report</h1>\n", "utf8");
+      const changed = await dispatchServerRequest(server, `/s/${id}`, { "if-none-match": first.headers.etag ?? "" });
+
+      expect(changed.statusCode).toBe(200);
+      expect(changed.body).toBe("<h1>regenerated report</h1>\n");
+      expect(changed.headers.etag).not.toBe(first.headers.etag);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("ignores a Range header when If-Range no longer matches", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "artifacts");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "data.txt"), "0123456789", "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const first = await dispatchServerRequest(server, `/s/${id}/data.txt`);
+      const matching = await dispatchServerRequest(server, `/s/${id}/data.txt`, {
+        range: "bytes=0-1",
+        "if-range": first.headers.etag ?? "",
+      });
+      const stale = await dispatchServerRequest(server, `/s/${id}/data.txt`, {
+        range: "bytes=0-1",
+        "if-range": "\"stale\"",
+      });
+
+      expect(matching.statusCode).toBe(206);
+      expect(matching.body).toBe("01");
+      expect(stale.statusCode).toBe(200);
+      expect(stale.body).toBe("0123456789");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("omits validators and always sends the body for no-store shares", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "secret.txt");
+    writeFileSync(filePath, "secret\n", "utf8");
+
+    const { id } = createFileShare(filePath, { cache: "no-store" });
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`, { "if-none-match": "*" });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["cache-control"]).toBe("no-store");
+      expect(response.headers.etag).toBeUndefined();
+      expect(response.body).toBe("secret\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("stores the --cache policy on the share record", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "bundle.js");
+    writeFileSync(filePath, "console.log(1);\n", "utf8");
+
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+    const exitCode = await run(["node", "ts", "share", "--cache", "immutable", filePath], stdout, stderr);
+    const state = JSON.parse(readFileSync(path.join(process.env.HOME ?? "", ".tailserve", "state.json"), "utf8")) as {
+      shares: Record<string, { cache?: string }>;
+    };
+
+    expect(exitCode).toBe(0);
+    expect(Object.values(state.shares)[0]?.cache).toBe("immutable");
+
+    const server = createTailserveServer();
+    try {
+      const id = Object.keys(state.shares)[0];
+      const response = await dispatchServerRequest(server, `/s/${id}`);
+      expect(response.headers["cache-control"]).toBe("public, max-age=31536000, immutable");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("rejects unknown cache policies", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "bundle.js");
+    writeFileSync(filePath, "console.log(1);\n", "utf8");
+
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+    const exitCode = await run(["node", "ts", "share", "--cache", "forever", filePath], stdout, stderr);
+
+    expect(exitCode).toBe(1);
+    expect(stdout.toString()).toBe("");
+    expect(stderr.toString()).toContain("Invalid cache policy: forever");
+  });
+});
@@ -0,0 +1,155 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { readDataPage } from "../src/data-view.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+const BROWSER_ACCEPT = "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8";
+
+afterEach(restoreHome);
+
+describe("readDataPage", () => {
+  it("parses quoted CSV fields that contain delimiters, quotes and newlines", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "people.csv");
+    writeFileSync(filePath, '\uFEFFname,notes\r\n"Doe, Jane","said ""hi""\nthen left"\r\nBob,\r\n', "utf8");
+
+    const page = await readDataPage(filePath, "csv", { page: 1 });
+
+    expect(page.columns).toEqual(["name", "notes"]);
+    expect(page.rows).toEqual([
+      ["Doe, Jane", 'said "hi"\nthen left'],
+      ["Bob", ""],
+    ]);
+    expect(page.hasNextPage).toBe(false);
+  });
+
+  it("pages and filters rows without reading past the requested page", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "numbers.tsv");
+    const lines = ["n\tparity"];
+    for (let index = 1; index <= 50; index += 1) {
+      lines.push(`${index}\t${index % 2 === 0 ? "even" : "odd"}`);
+    }
+    writeFileSync(filePath, `${lines.join("\n")}\n`, "utf8");
+
+    const second = await readDataPage(filePath, "tsv", { page: 2, pageSize: 20 });
+    expect(second.rows[0]).toEqual(["21", "odd"]);
+    expect(second.rows).toHaveLength(20);
+    expect(second.hasNextPage).toBe(true);
+
+    const last = await readDataPage(filePath, "tsv", { page: 3, pageSize: 20 });
+    expect(last.rows).toHaveLength(10);
+    expect(last.hasNextPage).toBe(false);
+
+    const filtered = await readDataPage(filePath, "tsv", { page: 1, pageSize: 20, query: "EVEN" });
+    expect(filtered.rows).toHaveLength(20);
+    expect(filtered.rows[0]).toEqual(["2", "even"]);
+    expect(filtered.hasNextPage).toBe(true);
+  });
+
+  it("collects NDJSON keys into columns", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "events.ndjson");
+    writeFileSync(filePath, '{"id":1,"kind":"open"}\n\n{"id":2,"meta":{"a":true}}\n[1,2]\n', "utf8");
+
+    const page = await readDataPage(filePath, "ndjson", { page: 1 });
+
+    expect(page.columns).toEqual(["id", "kind", "meta", "value"]);
+    expect(page.rows).toEqual([
+      ["1", "open", "", ""],
+      ["2", "", '{"a":true}', ""],
+      ["", "", "", "[1,2]"],
+    ]);
+  });
+});
+
+describe("data viewer", () => {
+  it("renders CSV shares as a sortable table with filter and pagination links", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.csv");
+    const lines = ["city,population"];
+    for (let index = 1; index <= 250; index += 1) {
+      lines.push(`City ${index},${index * 1000}`);
+    }
+    writeFileSync(filePath, `${lines.join("\n")}\n`, "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const first = await dispatchServerRequest(server, `/s/${id}`, { accept: BROWSER_ACCEPT });
+      expect(first.statusCode).toBe(200);
+      expect(first.headers["content-type"]).toBe("text/html; charset=utf-8");
+      expect(first.body).toContain('<th data-column="1"><button class="sort" type="button">city</button></th>');
+      expect(first.body).toContain('<tr><td class="row-number">1</td><td>City 1</td><td>1000</td></tr>');
+      expect(first.body).toContain("CSV · rows 1–200");
+      expect(first.body).toContain('name="q"');
+      expect(first.body).toContain(`href="/s/${id}?page=2" rel="next"`);
+      expect(first.body).toContain(`<a class="download" href="/s/${id}?raw=1">Raw</a>`);
+
+      const second = await dispatchServerRequest(server, `/s/${id}?page=2`, { accept: BROWSER_ACCEPT });
+      expect(second.body).toContain("CSV · rows 201–250");
+      expect(second.body).toContain(`href="/s/${id}" rel="prev"`);
+      expect(second.body).not.toContain('rel="next"');
+
+      const filtered = await dispatchServerRequest(server, `/s/${id}?q=City%2025`, { accept: BROWSER_ACCEPT });
+      expect(filtered.body).toContain("<td>City 25</td>");
+      expect(filtered.body).toContain("<td>City 250</td>");
+      expect(filtered.body).not.toContain("<td>City 24</td>");
+      expect(filtered.body).toContain('value="City 25"');
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("renders JSON files in directory shares as a collapsible tree", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "exports");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "config.json"), '{"name":"<app>","ports":[80,443],"debug":false}', "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/config.json`, headers: { accept: BROWSER_ACCEPT } });
+
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.body).toContain('<details open><summary><span class="json-summary">{3 keys}</span></summary>');
+    expect(resolved.body).toContain('<span class="json-key">name</span>: <span class="json-string">&quot;&lt;app&gt;&quot;</span>');
+    expect(resolved.body).toContain('<span class="json-summary">[2 items]</span>');
+    expect(resolved.body).toContain('<span class="json-literal">false</span>');
+  });
+
+  it("falls back to the code viewer for malformed JSON", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "broken.json");
+    writeFileSync(filePath, '{"name": \n', "utf8");
+
+    const { id } = createFileShare(filePath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}`, headers: { accept: BROWSER_ACCEPT } });
+
+    expect(resolved.body).toContain("json · 1 line");
+  });
+
+  it("keeps the original bytes for ?raw=1 and non-navigation requests", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "data.ndjson");
+    writeFileSync(filePath, '{"id":1}\n', "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const raw = await dispatchServerRequest(server, `/s/${id}?raw=1`, { accept: BROWSER_ACCEPT });
+      const fetched = await dispatchServerRequest(server, `/s/${id}`, { accept: "*/*" });
+
+      expect(raw.body).toBe('{"id":1}\n');
+      expect(raw.headers.vary).toBe("Accept-Encoding");
+      expect(fetched.body).toBe('{"id":1}\n');
+      expect(fetched.headers.vary).toBe("Accept, Accept-Encoding");
+    } finally {
+      server.emit("close");
+    }
+  });
+});
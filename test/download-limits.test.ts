@@ -0,0 +1,185 @@
+import { EventEmitter } from "node:events";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { createTailserveServer, restorePersistedRoutesOnStartup } from "../src/server.js";
+import { createFileShare, recordShareDownload } from "../src/shares.js";
+import { readState } from "../src/state.js";
+import { dispatchServerRequest, MockWritableResponse, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function createLimitedShare(workspace: string, maxDownloads: number): string {
+  const filePath = path.join(workspace, "secret.txt");
+  writeFileSync(filePath, "top secret\n", "utf8");
+  return createFileShare(filePath, { maxDownloads }).id;
+}
+
+afterEach(restoreHome);
+
+describe("download-limited shares", () => {
+  it("counts only complete GET responses and removes the share at the limit", async () => {
+    const workspace = useTempHome();
+    const id = createLimitedShare(workspace, 2);
+    const server = createTailserveServer();
+
+    try {
+      expect((await dispatchServerRequest(server, `/s/${id}`, {}, "HEAD")).statusCode).not.toBe(200);
+      expect((await dispatchServerRequest(server, `/s/${id}`, { range: "bytes=0-2" })).statusCode).toBe(206);
+      expect(readState().shares[id].downloads).toBeUndefined();
+
+      const first = await dispatchServerRequest(server, `/s/${id}`);
+      expect(first.statusCode).toBe(200);
+      expect(readState().shares[id].downloads).toBe(1);
+
+      const dashboard = await dispatchServerRequest(server, "/");
+      expect(dashboard.body).toContain("(1 download left)");
+
+      const second = await dispatchServerRequest(server, `/s/${id}`);
+      expect(second.statusCode).toBe(200);
+      expect(second.body).toBe("top secret\n");
+      expect(readState().shares[id]).toBeUndefined();
+
+      expect((await dispatchServerRequest(server, `/s/${id}`)).statusCode).toBe(404);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("counts previews, raw files and archives from a directory share but not listings", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "reports");
+    mkdirSync(dirPath);
+    writeFileSync(path.join(dirPath, "notes.md"), "# Notes\n", "utf8");
+    writeFileSync(path.join(dirPath, "data.csv"), "a,b\n1,2\n", "utf8");
+    const { id } = createFileShare(dirPath, { maxDownloads: 4 });
+    const server = createTailserveServer();
+
+    try {
+      expect((await dispatchServerRequest(server, `/s/${id}/`)).statusCode).toBe(200);
+      expect((await dispatchServerRequest(server, `/s/${id}/`, { accept: "application/json" })).statusCode).toBe(200);
+      expect(readState().shares[id].downloads).toBeUndefined();
+
+      expect((await dispatchServerRequest(server, `/s/${id}/notes.md`, { accept: "text/html" })).body).toContain("<h1");
+      expect(readState().shares[id].downloads).toBe(1);
+      expect((await dispatchServerRequest(server, `/s/${id}/data.csv`, { accept: "text/html" })).statusCode).toBe(200);
+      expect(readState().shares[id].downloads).toBe(2);
+
+      const raw = await dispatchServerRequest(server, `/s/${id}/notes.md?raw=1`);
+      expect(raw.body).toBe("# Notes\n");
+      expect(readState().shares[id].downloads).toBe(3);
+
+      expect((await dispatchServerRequest(server, `/s/${id}/?archive=zip`)).statusCode).toBe(200);
+      expect(readState().shares[id]).toBeUndefined();
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("uses up a single-download share when it is opened as a browser preview", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Notes\n", "utf8");
+    const { id } = createFileShare(filePath, { maxDownloads: 1 });
+    const server = createTailserveServer();
+
+    try {
+      const preview = await dispatchServerRequest(server, `/s/${id}`, { accept: "text/html" });
+      expect(preview.statusCode).toBe(200);
+      expect(preview.body).toContain("<h1");
+      expect(readState().shares[id]).toBeUndefined();
+
+      expect((await dispatchServerRequest(server, `/s/${id}?raw=1`)).statusCode).toBe(404);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("does not count a download the client aborts", async () => {
+    const workspace = useTempHome();
+    const id = createLimitedShare(workspace, 1);
+    const server = createTailserveServer();
+
+    try {
+      const request = new EventEmitter() as EventEmitter & { method?: string; url?: string; headers?: Record<string, string> };
+      request.method = "GET";
+      request.url = `/s/${id}`;
+      request.headers = {};
+      const closed = new Promise<void>((resolve) => {
+        const response = new MockWritableResponse(() => {
+          resolve();
+        });
+        server.emit("request", request as never, response as never);
+        response.destroy();
+      });
+      await closed;
+
+      expect(readState().shares[id]).toBeDefined();
+      expect(readState().shares[id].downloads).toBeUndefined();
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("keeps download counts across daemon restarts", () => {
+    const workspace = useTempHome();
+    const id = createLimitedShare(workspace, 3);
+
+    expect(recordShareDownload(id)).toBe(2);
+    restorePersistedRoutesOnStartup();
+
+    const share = readState().shares[id];
+    expect(share.maxDownloads).toBe(3);
+    expect(share.downloads).toBe(1);
+    expect(recordShareDownload(id)).toBe(1);
+    expect(recordShareDownload(id)).toBe(0);
+    expect(readState().shares[id]).toBeUndefined();
+  });
+});
+
+describe("ts share download limits", () => {
+  it("stores --once as a single download and lists the remaining count", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "secret.txt");
+    writeFileSync(filePath, "top secret\n", "utf8");
+
+    const exitCode = await run(["node", "ts", "share", filePath, "--once"], new MemoryOutput(), new MemoryOutput());
+    expect(exitCode).toBe(0);
+    const [share] = Object.values(readState().shares);
+    expect(share.maxDownloads).toBe(1);
+
+    const stdout = new MemoryOutput();
+    expect(await run(["node", "ts", "list", "--json"], stdout, new MemoryOutput())).toBe(0);
+    const [row] = JSON.parse(stdout.toString()) as Array<{ downloadsLeft?: number }>;
+    expect(row.downloadsLeft).toBe(1);
+  });
+
+  it("rejects invalid or conflicting limits", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "secret.txt");
+    writeFileSync(filePath, "top secret\n", "utf8");
+
+    const invalidStderr = new MemoryOutput();
+    expect(await run(["node", "ts", "share", filePath, "--max-downloads", "0"], new MemoryOutput(), invalidStderr)).toBe(1);
+    expect(invalidStderr.toString()).toContain("Invalid download limit: 0");
+
+    const conflictStderr = new MemoryOutput();
+    expect(await run(["node", "ts", "share", filePath, "--once", "--max-downloads", "3"], new MemoryOutput(), conflictStderr)).toBe(1);
+    expect(conflictStderr.toString()).toContain("Use either --once or --max-downloads");
+    expect(readState().shares).toEqual({});
+  });
+});
@@ -0,0 +1,227 @@
+import { spawnSync } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { request as httpRequest } from "node:http";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { readEditSnapshot, saveEditContent } from "../src/edit-sync.js";
+import { getHistoryDirectory, listEditRevisions, pruneEditHistory, readEditRevision, recordEditRevision } from "../src/history.js";
+import { createTailserveServer } from "../src/server.js";
+import { createEditShare, removeShareById } from "../src/shares.js";
+import { readState } from "../src/state.js";
+import { closeServer, listen, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function send(
+  port: number,
+  method: string,
+  requestPath: string,
+  headers: Record<string, string> = {},
+  body?: string,
+): Promise<{ statusCode: number; body: string }> {
+  return await new Promise((resolve, reject) => {
+    const request = httpRequest({ host: "127.0.0.1", port, method, path: requestPath, headers }, (response) => {
+      const chunks: Buffer[] = [];
+      response.on("data", (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+      response.on("end", () => {
+        resolve({ statusCode: response.statusCode ?? 0, body: Buffer.concat(chunks).toString("utf8") });
+      });
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+function git(cwd: string, args: string[]): string {
+  const result = spawnSync("git", args, {
+    cwd,
+    encoding: "utf8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "Test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+  });
+  expect(result.status).toBe(0);
+  return result.stdout;
+}
+
+afterEach(restoreHome);
+
+describe("edit share history", () => {
+  it("keeps the original and each save, lists them over HTTP and restores one", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath);
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    try {
+      const save = await send(port, "POST", `/s/${id}/api/save`, { "If-Match": `"${readEditSnapshot(filePath).version}"` }, "# Draft\n\nMore\n");
+      expect(save.statusCode).toBe(200);
+
+      const listing = await send(port, "GET", `/s/${id}/api/history`);
+      expect(listing.statusCode).toBe(200);
+      const { revisions } = JSON.parse(listing.body) as { revisions: Array<{ rev: string; summary: string; author: string | null; size: number }> };
+      expect(revisions.map(({ rev, summary, author, size }) => ({ rev, summary, author, size }))).toEqual([
+        { rev: "2", summary: "Saved", author: "Guest", size: 14 },
+        { rev: "1", summary: "Original file", author: null, size: 8 },
+      ]);
+      expect(existsSync(path.join(getHistoryDirectory(), id, "1.gz"))).toBe(true);
+
+      const original = await send(port, "GET", `/s/${id}/api/history/1`);
+      expect(original.body).toBe("# Draft\n");
+      expect((await send(port, "GET", `/s/${id}/api/history/9`)).statusCode).toBe(404);
+
+      const stale = await send(port, "POST", `/s/${id}/api/history/1/restore`, { "If-Match": '"stale"' });
+      expect(stale.statusCode).toBe(409);
+
+      const restore = await send(port, "POST", `/s/${id}/api/history/1/restore`, { "If-Match": `"${readEditSnapshot(filePath).version}"` });
+      expect(restore.statusCode).toBe(200);
+      expect(JSON.parse(restore.body)).toEqual({ ok: true, version: readEditSnapshot(filePath).version });
+      expect(readFileSync(filePath, "utf8")).toBe("# Draft\n");
+      expect(listEditRevisions(id, { path: filePath })[0]).toMatchObject({ rev: "3", summary: "Restored revision 1" });
+    } finally {
+      await closeServer(server);
+    }
+  });
+
+  it("records outside changes and applies the revision count and age limits", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    const share = { path: filePath, historyLimit: 3, historyMaxAgeMs: 7 * DAY_MS };
+    const start = Date.parse("2026-03-01T00:00:00.000Z");
+
+    recordEditRevision("ab12cd34", share, "one\n", "two\n", { summary: "Saved" }, start);
+    recordEditRevision("ab12cd34", share, "changed on disk\n", "three\n", { summary: "Saved" }, start + DAY_MS);
+    expect(listEditRevisions("ab12cd34", share).map((revision) => [revision.rev, revision.summary])).toEqual([
+      ["4", "Saved"],
+      ["3", "Changed on disk"],
+      ["2", "Saved"],
+    ]);
+    expect(() => readEditRevision("ab12cd34", share, "1")).toThrow("Revision not found: 1");
+
+    recordEditRevision("ab12cd34", share, "three\n", "four\n", { summary: "Saved" }, start + 9 * DAY_MS);
+    expect(listEditRevisions("ab12cd34", share).map((revision) => revision.rev)).toEqual(["5"]);
+    expect(readEditRevision("ab12cd34", share, "5")).toBe("four\n");
+
+    recordEditRevision("ef56gh78", { path: filePath, historyLimit: 0 }, "one\n", "two\n", { summary: "Saved" });
+    expect(existsSync(path.join(getHistoryDirectory(), "ef56gh78"))).toBe(false);
+  });
+
+  it("commits saves to the file's repository with --git", () => {
+    const workspace = useTempHome();
+    git(workspace, ["init", "--quiet"]);
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    git(workspace, ["add", "notes.md"]);
+    git(workspace, ["commit", "--quiet", "-m", "Add notes"]);
+
+    process.env.GIT_AUTHOR_NAME = "Test";
+    process.env.GIT_AUTHOR_EMAIL = "test@example.com";
+    process.env.GIT_COMMITTER_NAME = "Test";
+    process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+    try {
+      const share = { path: filePath, git: true };
+      const result = saveEditContent("ab12cd34", share, "# Draft\n\nFrom the browser\n", readEditSnapshot(filePath).version, {
+        summary: "Saved",
+        author: "Alice",
+      });
+      expect(result.status).toBe("saved");
+
+      const revisions = listEditRevisions("ab12cd34", share);
+      expect(revisions.map((revision) => revision.summary)).toEqual(["notes.md: saved by Alice", "Add notes"]);
+      expect(readEditRevision("ab12cd34", share, revisions[1].rev)).toBe("# Draft\n");
+      expect(git(workspace, ["status", "--porcelain"])).toBe("");
+      expect(existsSync(getHistoryDirectory())).toBe(false);
+    } finally {
+      delete process.env.GIT_AUTHOR_NAME;
+      delete process.env.GIT_AUTHOR_EMAIL;
+      delete process.env.GIT_COMMITTER_NAME;
+      delete process.env.GIT_COMMITTER_EMAIL;
+    }
+  });
+
+  it("prunes the history of stopped shares by each share's max age", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    recordEditRevision("ab12cd34", { path: filePath, historyMaxAgeMs: 7 * DAY_MS }, "one\n", "two\n", { summary: "Saved" });
+    recordEditRevision("ef56gh78", { path: filePath }, "one\n", "two\n", { summary: "Saved" });
+    recordEditRevision("ij90kl12", { path: filePath, historyMaxAgeMs: 7 * DAY_MS }, "one\n", "two\n", { summary: "Saved" });
+
+    expect(pruneEditHistory(new Set(["ij90kl12"]), Date.now() + 8 * DAY_MS)).toBe(1);
+    expect(existsSync(path.join(getHistoryDirectory(), "ab12cd34"))).toBe(false);
+    expect(existsSync(path.join(getHistoryDirectory(), "ef56gh78"))).toBe(true);
+    expect(existsSync(path.join(getHistoryDirectory(), "ij90kl12"))).toBe(true);
+
+    expect(pruneEditHistory(new Set(["ij90kl12"]), Date.now() + 31 * DAY_MS)).toBe(1);
+    expect(existsSync(path.join(getHistoryDirectory(), "ef56gh78"))).toBe(false);
+  });
+
+  it("lists and restores revisions from the CLI, also after the share is stopped", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id, share } = createEditShare(filePath, { historyLimit: 10 });
+    expect(readState().shares[id].historyLimit).toBe(10);
+    saveEditContent(id, { ...share, path: filePath }, "# Final\n", readEditSnapshot(filePath).version, { summary: "Saved", author: "Alice" });
+    removeShareById(id);
+
+    const stdout = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", "history", id, "--json"], stdout, new MemoryOutput())).toBe(0);
+    expect((JSON.parse(stdout.toString()) as Array<{ rev: string }>).map((revision) => revision.rev)).toEqual(["2", "1"]);
+
+    const table = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", "history", id], table, new MemoryOutput())).toBe(0);
+    expect(table.toString()).toContain("Rev");
+    expect(table.toString()).toContain("Original file");
+
+    const stderr = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", "restore", id, "1"], new MemoryOutput(), stderr)).toBe(0);
+    expect(stderr.toString()).toContain(`Restored ${filePath} to revision 1`);
+    expect(readFileSync(filePath, "utf8")).toBe("# Draft\n");
+
+    const missing = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", "restore", id, "7"], new MemoryOutput(), missing)).toBe(1);
+    expect(missing.toString()).toContain("Revision not found: 7");
+  });
+
+  it("rejects --git outside a repository and history limits combined with --git", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+
+    const outside = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", filePath, "--git"], new MemoryOutput(), outside)).toBe(1);
+    expect(outside.toString()).toContain("Not inside a git repository");
+
+    const combined = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", filePath, "--git", "--history", "5"], new MemoryOutput(), combined)).toBe(1);
+    expect(combined.toString()).toContain("--history and --history-max-age do not apply with --git");
+
+    const invalid = new MemoryOutput();
+    expect(await run(["node", "ts", "edit", filePath, "--history", "-1"], new MemoryOutput(), invalid)).toBe(1);
+    expect(invalid.toString()).toContain("Invalid history limit: -1");
+  });
+});
@@ -1,121 +1,15 @@
-import { EventEmitter } from "node:events";
 import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import path from "node:path";
-import { Writable } from "node:stream";
 
 import { afterEach, describe, expect, it } from "vitest";
 
 import { createEditShare } from "../src/shares.js";
 import { createTailserveServer } from "../src/server.js";
 import { readState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome } from "./helpers/server-harness.js";
 
-const originalHome = process.env.HOME;
-
-interface ServerResponsePayload {
-  statusCode: number;
-  headers: Record<string, string>;
-  body: string;
-}
-
-class MockWritableResponse extends Writable {
-  public headersSent = false;
-  public statusCode = 200;
-  public readonly headers: Record<string, string> = {};
-  private readonly chunks: Buffer[] = [];
-  private settled = false;
-  private readonly onSettle: (payload: ServerResponsePayload) => void;
-
-  constructor(onSettle: (payload: ServerResponsePayload) => void) {
-    super();
-    this.onSettle = onSettle;
-    this.on("finish", () => {
-      this.settle();
-    });
-    this.on("close", () => {
-      this.settle();
-    });
-  }
-
-  override _write(
-    chunk: Buffer | string,
-    _encoding: BufferEncoding,
-    callback: (error?: Error | null) => void,
-  ): void {
-    this.chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    callback();
-  }
-
-  setHeader(name: string, value: number | string | string[]): void {
-    this.headers[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
-  }
-
-  override end(chunk?: string | Buffer): this {
-    this.headersSent = true;
-    return chunk === undefined ? super.end() : super.end(chunk);
-  }
-
-  override destroy(error?: Error): this {
-    this.headersSent = true;
-    return super.destroy(error);
-  }
-
-  private settle(): void {
-    if (this.settled) {
-      return;
-    }
-
-    this.settled = true;
-    this.onSettle({
-      statusCode: this.statusCode,
-      headers: this.headers,
-      body: Buffer.concat(this.chunks).toString("utf8"),
-    });
-  }
-}
-
-async function dispatchServerRequest(
-  server: ReturnType<typeof createTailserveServer>,
-  options: {
-    method: string;
-    url: string;
-    body?: string;
-  },
-): Promise<ServerResponsePayload> {
-  return await new Promise((resolve) => {
-    const request = new EventEmitter() as EventEmitter & {
-      method?: string;
-      url?: string;
-      headers?: Record<string, string>;
-      setEncoding?: (encoding: BufferEncoding) => void;
-    };
-
-    request.method = options.method;
-    request.url = options.url;
-    request.headers = {};
-    request.setEncoding = () => {
-      return;
-    };
-
-    const response = new MockWritableResponse(resolve);
-    server.emit("request", request as never, response as never);
-
-    if (typeof options.body === "string") {
-      request.emit("data", options.body);
-    }
-
-    request.emit("end");
-  });
-}
-
-afterEach(() => {
-  if (originalHome === undefined) {
-    delete process.env.HOME;
-    return;
-  }
-
-  process.env.HOME = originalHome;
-});
+afterEach(restoreHome);
 
 describe("edit share integration", () => {
   it("creates an edit share for a temp file and persists type=edit in state", () => {
@@ -146,30 +40,63 @@ describe("edit share integration", () => {
     const server = createTailserveServer();
 
     try {
-      const contentResponse = await dispatchServerRequest(server, {
-        method: "GET",
-        url: `/s/${id}/api/content`,
-      });
+      const contentResponse = await dispatchServerRequest(server, `/s/${id}/api/content`);
 
       expect(contentResponse.statusCode).toBe(200);
       expect(contentResponse.headers["content-type"]).toBe("text/plain; charset=utf-8");
       expect(contentResponse.body).toBe("# before\n");
+      const etag = contentResponse.headers.etag;
+      expect(etag).toMatch(/^"[0-9a-z]+-[0-9a-f]{16}"$/);
 
-      const saveResponse = await dispatchServerRequest(server, {
-        method: "POST",
-        url: `/s/${id}/api/save`,
-        body: "# after\n",
-      });
+      const saveResponse = await dispatchServerRequest(server, `/s/${id}/api/save`, { "if-match": etag }, "POST", "# after\n");
 
       expect(saveResponse.statusCode).toBe(200);
       expect(saveResponse.headers["content-type"]).toBe("application/json; charset=utf-8");
-      expect(saveResponse.body).toBe(JSON.stringify({ ok: true }));
+      const saved = JSON.parse(saveResponse.body) as { ok: boolean; version: string };
+      expect(saved.ok).toBe(true);
+      expect(saveResponse.headers.etag).toBe(`"${saved.version}"`);
+      expect(saved.version).not.toBe(etag.slice(1, -1));
       expect(readFileSync(filePath, "utf8")).toBe("# after\n");
     } finally {
       server.emit("close");
     }
   });
 
+  it("answers stale or unversioned saves without touching the file", async () => {
+    const homeDir = mkdtempSync(path.join(tmpdir(), "tailserve-home-"));
+    process.env.HOME = homeDir;
+
+    const workspace = mkdtempSync(path.join(tmpdir(), "tailserve-work-"));
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# before\n", "utf8");
+
+    const { id } = createEditShare(filePath);
+    const server = createTailserveServer();
+
+    try {
+      const contentResponse = await dispatchServerRequest(server, `/s/${id}/api/content`);
+      const staleEtag = contentResponse.headers.etag;
+      writeFileSync(filePath, "# changed by the agent\n", "utf8");
+
+      const unversioned = await dispatchServerRequest(server, `/s/${id}/api/save`, {}, "POST", "# mine\n");
+      expect(unversioned.statusCode).toBe(428);
+      expect(unversioned.body).toBe(JSON.stringify({ ok: false, error: "version_required" }));
+
+      const stale = await dispatchServerRequest(server, `/s/${id}/api/save`, { "if-match": staleEtag }, "POST", "# mine\n");
+      expect(stale.statusCode).toBe(409);
+      const conflict = JSON.parse(stale.body) as { ok: boolean; error: string; content: string; version: string };
+      expect(conflict).toMatchObject({ ok: false, error: "conflict", content: "# changed by the agent\n" });
+      expect(stale.headers.etag).toBe(`"${conflict.version}"`);
+      expect(readFileSync(filePath, "utf8")).toBe("# changed by the agent\n");
+
+      const retried = await dispatchServerRequest(server, `/s/${id}/api/save`, { "if-match": `"${conflict.version}"` }, "POST", "# merged\n");
+      expect(retried.statusCode).toBe(200);
+      expect(readFileSync(filePath, "utf8")).toBe("# merged\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
   it("returns 403 on readonly save requests and leaves file unchanged", async () => {
     const homeDir = mkdtempSync(path.join(tmpdir(), "tailserve-home-"));
     process.env.HOME = homeDir;
@@ -182,11 +109,7 @@ describe("edit share integration", () => {
     const server = createTailserveServer();
 
     try {
-      const response = await dispatchServerRequest(server, {
-        method: "POST",
-        url: `/s/${id}/api/save`,
-        body: "# blocked\n",
-      });
+      const response = await dispatchServerRequest(server, `/s/${id}/api/save`, {}, "POST", "# blocked\n");
 
       expect(response.statusCode).toBe(403);
       expect(response.headers["content-type"]).toBe("application/json; charset=utf-8");
@@ -212,19 +135,13 @@ describe("edit share integration", () => {
     const server = createTailserveServer();
 
     try {
-      const markdownResponse = await dispatchServerRequest(server, {
-        method: "GET",
-        url: `/s/${markdownShare.id}`,
-      });
+      const markdownResponse = await dispatchServerRequest(server, `/s/${markdownShare.id}`);
 
       expect(markdownResponse.statusCode).toBe(200);
       expect(markdownResponse.headers["content-type"]).toBe("text/html; charset=utf-8");
       expect(markdownResponse.body).toContain("@tiptap/core");
 
-      const codeResponse = await dispatchServerRequest(server, {
-        method: "GET",
-        url: `/s/${codeShare.id}`,
-      });
+      const codeResponse = await dispatchServerRequest(server, `/s/${codeShare.id}`);
 
       expect(codeResponse.statusCode).toBe(200);
       expect(codeResponse.headers["content-type"]).toBe("text/html; charset=utf-8");
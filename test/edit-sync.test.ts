@@ -0,0 +1,363 @@
+import { randomBytes } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { request as httpRequest } from "node:http";
+import { connect, type Socket } from "node:net";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { hashSecret } from "../src/auth.js";
+import { readEditSnapshot } from "../src/edit-sync.js";
+import { createTailserveServer } from "../src/server.js";
+import { createEditShare } from "../src/shares.js";
+import { updateState } from "../src/state.js";
+import { closeServer, listen, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+function encodeClientFrame(text: string): Buffer {
+  const payload = Buffer.from(text, "utf8");
+  const mask = randomBytes(4);
+  const masked = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]));
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, 0x80 | payload.length]);
+  } else {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(payload.length, 2);
+  }
+
+  return Buffer.concat([header, mask, masked]);
+}
+
+// Just enough of a browser WebSocket client to talk to the edit channel.
+class TestSocket {
+  readonly handshake: Promise<string>;
+  private readonly socket: Socket;
+  private buffer = Buffer.alloc(0);
+  private upgraded = false;
+  private readonly messages: Array<Record<string, unknown>> = [];
+  private readonly waiters: Array<(message: Record<string, unknown>) => void> = [];
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    this.handshake = new Promise((resolve) => {
+      socket.on("data", (chunk: Buffer) => {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        if (!this.upgraded) {
+          const end = this.buffer.indexOf("\r\n\r\n");
+          if (end === -1) {
+            return;
+          }
+
+          this.upgraded = true;
+          resolve(this.buffer.subarray(0, end).toString("utf8"));
+          this.buffer = this.buffer.subarray(end + 4);
+        }
+
+        this.drain();
+      });
+    });
+  }
+
+  send(payload: Record<string, unknown>): void {
+    this.socket.write(encodeClientFrame(JSON.stringify(payload)));
+  }
+
+  async sendInChunks(payload: Record<string, unknown>, chunkBytes: number): Promise<void> {
+    const frame = encodeClientFrame(JSON.stringify(payload));
+    for (let offset = 0; offset < frame.length; offset += chunkBytes) {
+      await new Promise<void>((resolve) => {
+        this.socket.write(frame.subarray(offset, offset + chunkBytes), () => {
+          resolve();
+        });
+      });
+    }
+  }
+
+  async next(): Promise<Record<string, unknown>> {
+    const message = this.messages.shift();
+    if (message) {
+      return message;
+    }
+
+    return await new Promise((resolve) => {
+      this.waiters.push(resolve);
+    });
+  }
+
+  async nextOfType(type: string): Promise<Record<string, unknown>> {
+    for (;;) {
+      const message = await this.next();
+      if (message.type === type) {
+        return message;
+      }
+    }
+  }
+
+  destroy(): void {
+    this.socket.destroy();
+  }
+
+  private drain(): void {
+    while (this.buffer.length >= 2) {
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      }
+
+      if (this.buffer.length < offset + length) {
+        return;
+      }
+
+      const opcode = this.buffer[0] & 0x0f;
+      const payload = this.buffer.subarray(offset, offset + length).toString("utf8");
+      this.buffer = this.buffer.subarray(offset + length);
+      if (opcode !== 0x1) {
+        continue;
+      }
+
+      const message = JSON.parse(payload) as Record<string, unknown>;
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter(message);
+      } else {
+        this.messages.push(message);
+      }
+    }
+  }
+}
+
+async function openEditorSocket(port: number, shareId: string, headers: Record<string, string> = {}): Promise<TestSocket> {
+  const socket = connect({ host: "127.0.0.1", port });
+  const extraHeaders = Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join("");
+  socket.write(
+    `GET /s/${shareId} HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+      `Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n${extraHeaders}\r\n`,
+  );
+
+  const client = new TestSocket(socket);
+  const handshake = await client.handshake;
+  expect(handshake).toContain("HTTP/1.1 101 Switching Protocols");
+  expect(handshake).toContain("Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+  return client;
+}
+
+async function postSave(port: number, shareId: string, content: string, version: string): Promise<number> {
+  return await new Promise((resolve, reject) => {
+    const headers = { "If-Match": `"${version}"` };
+    const request = httpRequest({ host: "127.0.0.1", port, method: "POST", path: `/s/${shareId}/api/save`, headers }, (response) => {
+      response.resume();
+      response.on("end", () => {
+        resolve(response.statusCode ?? 0);
+      });
+    });
+    request.on("error", reject);
+    request.end(content);
+  });
+}
+
+afterEach(restoreHome);
+
+describe("edit share WebSocket channel", () => {
+  it("saves over the socket, pushes the change to other editors and tracks presence", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath);
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const sockets: TestSocket[] = [];
+    try {
+      const alice = await openEditorSocket(port, id, { "Tailscale-User-Login": "alice@example.com", "Tailscale-User-Name": "Alice" });
+      sockets.push(alice);
+      expect(await alice.nextOfType("presence")).toEqual({ type: "presence", count: 1, viewers: ["Alice"] });
+
+      const bob = await openEditorSocket(port, id, { "Tailscale-User-Login": "bob@example.com" });
+      sockets.push(bob);
+      expect(await bob.nextOfType("presence")).toEqual({ type: "presence", count: 2, viewers: ["Alice", "bob@example.com"] });
+      expect(await alice.nextOfType("presence")).toEqual({ type: "presence", count: 2, viewers: ["Alice", "bob@example.com"] });
+
+      alice.send({ type: "save", content: "# Draft\n\nFrom Alice\n", version: readEditSnapshot(filePath).version });
+      const saved = await alice.next();
+      expect(saved).toEqual({ type: "saved", version: readEditSnapshot(filePath).version });
+      expect(await bob.next()).toEqual({ type: "update", content: "# Draft\n\nFrom Alice\n", version: saved.version });
+      expect(readFileSync(filePath, "utf8")).toBe("# Draft\n\nFrom Alice\n");
+
+      expect(await postSave(port, id, "# Draft\n\nOver HTTP\n", saved.version as string)).toBe(200);
+      const httpVersion = readEditSnapshot(filePath).version;
+      expect(await alice.next()).toEqual({ type: "update", content: "# Draft\n\nOver HTTP\n", version: httpVersion });
+      expect(await bob.next()).toEqual({ type: "update", content: "# Draft\n\nOver HTTP\n", version: httpVersion });
+
+      bob.destroy();
+      expect(await alice.nextOfType("presence")).toEqual({ type: "presence", count: 1, viewers: ["Alice"] });
+    } finally {
+      await closeServer(server, sockets);
+    }
+  });
+
+  it("refuses socket saves to read-only shares and rejects malformed messages", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Locked\n", "utf8");
+    const { id } = createEditShare(filePath, { readonly: true });
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const sockets: TestSocket[] = [];
+    try {
+      const viewer = await openEditorSocket(port, id);
+      sockets.push(viewer);
+      expect(await viewer.nextOfType("presence")).toEqual({ type: "presence", count: 1, viewers: ["Guest"] });
+
+      viewer.send({ type: "save", content: "overwritten", version: readEditSnapshot(filePath).version });
+      expect(await viewer.next()).toEqual({ type: "error", error: "readonly" });
+      expect(readFileSync(filePath, "utf8")).toBe("# Locked\n");
+
+      viewer.send({ type: "rename" });
+      expect(await viewer.next()).toEqual({ type: "error", error: "invalid_message" });
+    } finally {
+      await closeServer(server, sockets);
+    }
+  });
+
+  it("stops accepting socket saves once the share has expired", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath);
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const sockets: TestSocket[] = [];
+    try {
+      const editor = await openEditorSocket(port, id);
+      sockets.push(editor);
+      await editor.nextOfType("presence");
+
+      updateState((state) => {
+        state.shares[id].expiresAt = new Date(Date.now() - 1000).toISOString();
+      });
+      editor.send({ type: "save", content: "# Too late\n", version: readEditSnapshot(filePath).version });
+      expect(await editor.next()).toEqual({ type: "error", error: "not_found" });
+      expect(readFileSync(filePath, "utf8")).toBe("# Draft\n");
+    } finally {
+      await closeServer(server, sockets);
+    }
+  });
+
+  it("answers socket saves from a stale version with the current content", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath);
+    const staleVersion = readEditSnapshot(filePath).version;
+    writeFileSync(filePath, "# Draft\n\nFrom the agent\n", "utf8");
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const sockets: TestSocket[] = [];
+    try {
+      const editor = await openEditorSocket(port, id);
+      sockets.push(editor);
+      await editor.nextOfType("presence");
+
+      editor.send({ type: "save", content: "# Draft\n\nFrom the browser\n", version: staleVersion });
+      expect(await editor.next()).toEqual({
+        type: "conflict",
+        content: "# Draft\n\nFrom the agent\n",
+        version: readEditSnapshot(filePath).version,
+      });
+      expect(readFileSync(filePath, "utf8")).toBe("# Draft\n\nFrom the agent\n");
+    } finally {
+      await closeServer(server, sockets);
+    }
+  });
+
+  it("reassembles a save frame that arrives in many small reads", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath);
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const sockets: TestSocket[] = [];
+    try {
+      const editor = await openEditorSocket(port, id);
+      sockets.push(editor);
+      await editor.nextOfType("presence");
+
+      const content = `# Draft\n\n${"More text. ".repeat(40)}\n`;
+      await editor.sendInChunks({ type: "save", content, version: readEditSnapshot(filePath).version }, 7);
+      expect(await editor.nextOfType("saved")).toEqual({ type: "saved", version: readEditSnapshot(filePath).version });
+      expect(readFileSync(filePath, "utf8")).toBe(content);
+    } finally {
+      await closeServer(server, sockets);
+    }
+  });
+
+  it("refuses upgrades from pages on another origin", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Draft\n", "utf8");
+    const { id } = createEditShare(filePath);
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    const sockets: TestSocket[] = [];
+    try {
+      const socket = connect({ host: "127.0.0.1", port });
+      socket.write(
+        `GET /s/${id} HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nOrigin: https://evil.example\r\n` +
+          "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n",
+      );
+      const response = await new Promise<string>((resolve) => {
+        let received = "";
+        socket.on("data", (chunk: Buffer) => {
+          received += chunk.toString("utf8");
+        });
+        socket.on("close", () => {
+          resolve(received);
+        });
+      });
+      expect(response).toContain("HTTP/1.1 403 Forbidden");
+
+      sockets.push(await openEditorSocket(port, id, { Origin: `http://127.0.0.1:${port}` }));
+    } finally {
+      await closeServer(server, sockets);
+    }
+  });
+
+  it("answers upgrades for protected edit shares without credentials with 401", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Secret\n", "utf8");
+    const { id } = createEditShare(filePath, { tokenHash: hashSecret("letmein") });
+
+    const server = createTailserveServer();
+    const port = await listen(server);
+    try {
+      const socket = connect({ host: "127.0.0.1", port });
+      socket.write(
+        `GET /s/${id} HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+          "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n",
+      );
+      const response = await new Promise<string>((resolve) => {
+        let received = "";
+        socket.on("data", (chunk: Buffer) => {
+          received += chunk.toString("utf8");
+        });
+        socket.on("close", () => {
+          resolve(received);
+        });
+      });
+      expect(response).toContain("HTTP/1.1 401 Unauthorized");
+    } finally {
+      await closeServer(server, []);
+    }
+  });
+});
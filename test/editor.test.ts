@@ -74,7 +74,8 @@ describe("generateCodeEditorHtml", () => {
     const html = generateCodeEditorHtml("app.ts", false);
 
     expect(html).toContain("const SAVE_DEBOUNCE_MS = 1000;");
-    expect(html).toContain("ws.send(JSON.stringify({ type: \"save\", content }));");
+    expect(html).toContain("ws.send(JSON.stringify({ type: \"save\", content, version: baseVersion }));");
+    expect(html).toContain("\"If-Match\": \"\\\"\" + baseVersion + \"\\\"\"");
     expect(html).toContain("method: \"POST\"");
     expect(html).toContain("setTimeout(save, SAVE_DEBOUNCE_MS)");
     expect(html).toContain("const saveUrl = sharePrefix + \"/api/save\";");
@@ -88,7 +89,7 @@ describe("generateCodeEditorHtml", () => {
     expect(readonlyHtml).toContain("const READONLY = true;");
     expect(editableHtml).toContain("const READONLY = false;");
     expect(readonlyHtml).toContain("EditorView.editable.of(false)");
-    expect(readonlyHtml).toContain("if (READONLY || sharePrefix.length === 0) {");
+    expect(readonlyHtml).toContain("if (sharePrefix.length === 0) {");
     expect(readonlyHtml).toContain("if (READONLY) {");
     expect(readonlyHtml).toContain("updateStatus(\"Read-only\", \"readonly\");");
   });
@@ -138,7 +139,8 @@ describe("generateMarkdownEditorHtml", () => {
     expect(html).toContain("fetch(saveUrl, {");
     expect(html).toContain("return turndownService.turndown(editor.getHTML());");
     expect(html).toContain("setTimeout(save, SAVE_DEBOUNCE_MS)");
-    expect(html).toContain("ws.send(JSON.stringify({ type: \"save\", content }));");
+    expect(html).toContain("ws.send(JSON.stringify({ type: \"save\", content, version: baseVersion }));");
+    expect(html).toContain("\"If-Match\": \"\\\"\" + baseVersion + \"\\\"\"");
   });
 
   it("supports readonly mode via Tiptap editable config", () => {
@@ -148,8 +150,39 @@ describe("generateMarkdownEditorHtml", () => {
     expect(readonlyHtml).toContain("const READONLY = true;");
     expect(editableHtml).toContain("const READONLY = false;");
     expect(readonlyHtml).toContain("editable: !READONLY,");
-    expect(readonlyHtml).toContain("if (READONLY || sharePrefix.length === 0) {");
+    expect(readonlyHtml).toContain("if (sharePrefix.length === 0) {");
     expect(readonlyHtml).toContain("if (READONLY) {");
     expect(readonlyHtml).toContain("updateStatus(\"Read-only\", \"readonly\");");
   });
 });
+
+describe("edit conflict merge view", () => {
+  it("opens a three-way merge when a save comes back as a conflict in either editor", () => {
+    for (const html of [generateCodeEditorHtml("app.ts", false), generateMarkdownEditorHtml("notes.md", false)]) {
+      expect(html).toContain("<div id=\"merge\" hidden>");
+      expect(html).toContain("<pre id=\"merge-base\"></pre>");
+      expect(html).toContain("<pre id=\"merge-mine\"></pre>");
+      expect(html).toContain("<pre id=\"merge-theirs\"></pre>");
+      expect(html).toContain("<textarea id=\"merge-result\" spellcheck=\"false\"></textarea>");
+      expect(html).toContain("baseVersion = parseVersion(response.headers.get(\"ETag\"));");
+      expect(html).toContain("} else if (data.type === \"conflict\" && typeof data.content === \"string\") {");
+      expect(html).toContain("if (response.status === 409) {");
+      expect(html).toContain("openMergeView(baseContent, mine, content, (result) => {");
+      expect(html).toContain("output.push(\"<<<<<<< mine\", ...mineChunk, \"=======\", ...theirsChunk, \">>>>>>> theirs\");");
+    }
+  });
+});
+
+describe("edit history panel", () => {
+  it("lists revisions, diffs them against the current version and restores with the base version", () => {
+    for (const html of [generateCodeEditorHtml("app.ts", false), generateMarkdownEditorHtml("notes.md", false)]) {
+      expect(html).toContain("<button type=\"button\" id=\"status-history\">History</button>");
+      expect(html).toContain("<div id=\"history\" hidden>");
+      expect(html).toContain("fetch(sharePrefix + \"/api/history\", { cache: \"no-store\" })");
+      expect(html).toContain("renderLineDiff(historyCurrent, content);");
+      expect(html).toContain("fetch(sharePrefix + \"/api/history/\" + encodeURIComponent(rev) + \"/restore\", {");
+      expect(html).toContain("openHistoryView(baseContent, restoreRevision);");
+      expect(html).toContain("historyRestore.hidden = READONLY;");
+    }
+  });
+});
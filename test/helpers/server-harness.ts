@@ -0,0 +1,157 @@
+import { EventEmitter } from "node:events";
+import { mkdtempSync } from "node:fs";
+import { type Server } from "node:http";
+import { type AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Writable } from "node:stream";
+
+// Shared by the server tests: requests are emitted straight at the server
+// with an in-memory response, so no port is opened.
+
+const originalHome = process.env.HOME;
+
+export interface ServerResponsePayload {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  raw: Buffer;
+}
+
+export class MockWritableResponse extends Writable {
+  public headersSent = false;
+  public statusCode = 200;
+  public readonly headers: Record<string, string> = {};
+  // Stands in for the connection; only the body is written here, so byte
+  // counts in the access log and analytics equal the body length.
+  public readonly socket = { bytesWritten: 0 };
+  private readonly chunks: Buffer[] = [];
+  private settled = false;
+  private readonly onSettle: (payload: ServerResponsePayload) => void;
+
+  constructor(onSettle: (payload: ServerResponsePayload) => void) {
+    super();
+    this.onSettle = onSettle;
+    this.on("finish", () => {
+      this.settle();
+    });
+    this.on("close", () => {
+      this.settle();
+    });
+  }
+
+  override _write(
+    chunk: Buffer | string,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.headersSent = true;
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    this.chunks.push(buffer);
+    this.socket.bytesWritten += buffer.length;
+    callback();
+  }
+
+  setHeader(name: string, value: number | string | string[]): void {
+    this.headers[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
+  }
+
+  removeHeader(name: string): void {
+    delete this.headers[name.toLowerCase()];
+  }
+
+  override end(chunk?: string | Buffer): this {
+    this.headersSent = true;
+    return chunk === undefined ? super.end() : super.end(chunk);
+  }
+
+  override destroy(error?: Error): this {
+    this.headersSent = true;
+    return super.destroy(error);
+  }
+
+  private settle(): void {
+    if (this.settled) {
+      return;
+    }
+
+    this.settled = true;
+    const raw = Buffer.concat(this.chunks);
+    this.onSettle({
+      statusCode: this.statusCode,
+      headers: this.headers,
+      body: raw.toString("utf8"),
+      raw,
+    });
+  }
+}
+
+export async function dispatchServerRequest(
+  server: Server,
+  url: string,
+  headers: Record<string, string> = {},
+  method = "GET",
+  body?: string,
+): Promise<ServerResponsePayload> {
+  return await new Promise((resolve) => {
+    const request = new EventEmitter() as EventEmitter & {
+      method?: string;
+      url?: string;
+      headers?: Record<string, string>;
+      setEncoding?: (encoding: BufferEncoding) => void;
+    };
+
+    request.method = method;
+    request.url = url;
+    request.headers = headers;
+    request.setEncoding = () => {
+      return;
+    };
+
+    const response = new MockWritableResponse(resolve);
+    server.emit("request", request as never, response as never);
+
+    if (typeof body === "string") {
+      request.emit("data", body);
+    }
+
+    request.emit("end");
+  });
+}
+
+// Points HOME at a fresh directory so state, blobs and logs stay per test, and
+// returns a separate workspace for the files being shared.
+export function useTempHome(): string {
+  const homeDir = mkdtempSync(path.join(tmpdir(), "tailserve-home-"));
+  process.env.HOME = homeDir;
+  return mkdtempSync(path.join(tmpdir(), "tailserve-work-"));
+}
+
+export function restoreHome(): void {
+  if (originalHome === undefined) {
+    delete process.env.HOME;
+    return;
+  }
+
+  process.env.HOME = originalHome;
+}
+
+export async function listen(server: Server): Promise<number> {
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  return (server.address() as AddressInfo).port;
+}
+
+export async function closeServer(server: Server, sockets: Array<{ destroy(): void }> = []): Promise<void> {
+  for (const socket of sockets) {
+    socket.destroy();
+  }
+
+  await new Promise<void>((resolve) => {
+    server.close(() => {
+      resolve();
+    });
+    server.closeAllConnections();
+  });
+}
@@ -0,0 +1,252 @@
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { sanitizeUploadName } from "../src/inbox.js";
+import { createInboxShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { MockWritableResponse, restoreHome, type ServerResponsePayload, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+async function dispatchUpload(
+  server: ReturnType<typeof createTailserveServer>,
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  chunks: Buffer[],
+): Promise<ServerResponsePayload> {
+  return await new Promise((resolve) => {
+    const request = new PassThrough() as PassThrough & {
+      method?: string;
+      url?: string;
+      headers?: Record<string, string>;
+    };
+
+    request.method = method;
+    request.url = url;
+    request.headers = headers;
+
+    const response = new MockWritableResponse(resolve);
+    server.emit("request", request as never, response as never);
+    for (const chunk of chunks) {
+      request.write(chunk);
+    }
+    request.end();
+  });
+}
+
+function buildMultipartBody(boundary: string, parts: Array<{ name: string; filename?: string; content: string }>): Buffer {
+  const lines: string[] = [];
+  for (const part of parts) {
+    const filename = part.filename === undefined ? "" : `; filename="${part.filename}"`;
+    lines.push(`--${boundary}\r\nContent-Disposition: form-data; name="${part.name}"${filename}\r\n\r\n${part.content}\r\n`);
+  }
+
+  lines.push(`--${boundary}--\r\n`);
+  return Buffer.from(lines.join(""), "utf8");
+}
+
+function splitIntoBytes(payload: Buffer): Buffer[] {
+  return Array.from({ length: payload.length }, (_unused, index) => payload.subarray(index, index + 1));
+}
+
+function readUploadEvents(shareId: string): Array<{ name: string; size: number; path: string }> {
+  const eventsPath = path.join(process.env.HOME ?? "", ".tailserve", "inbox", `${shareId}.jsonl`);
+  return readFileSync(eventsPath, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as { name: string; size: number; path: string });
+}
+
+afterEach(restoreHome);
+
+describe("sanitizeUploadName", () => {
+  it("keeps only a safe final path segment", () => {
+    expect(sanitizeUploadName("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeUploadName("C:\\Users\\me\\shot.png")).toBe("shot.png");
+    expect(sanitizeUploadName(".env")).toBe("env");
+    expect(sanitizeUploadName("a\u0000b<c>.txt")).toBe("ab_c_.txt");
+    expect(sanitizeUploadName("..")).toBe("upload");
+    expect(sanitizeUploadName(`${"x".repeat(300)}.png`)).toHaveLength(200);
+  });
+});
+
+describe("inbox shares", () => {
+  it("serves an upload page with the configured limits", () => {
+    const workspace = useTempHome();
+    const { id } = createInboxShare(path.join(workspace, "incoming"), { maxBytes: 1024 * 1024, allowedExtensions: [".png", ".jpg"] });
+
+    const page = resolveRequest({ method: "GET", url: `/s/${id}` });
+    const nested = resolveRequest({ method: "GET", url: `/s/${id}/anything` });
+
+    expect(page.statusCode).toBe(200);
+    expect(page.body).toContain("<title>Upload to incoming</title>");
+    expect(page.body).toContain(`action="/s/${id}" enctype="multipart/form-data"`);
+    expect(page.body).toContain("Up to 1 MB per file · Accepted: .png, .jpg");
+    expect(page.body).toContain('accept=".png,.jpg"');
+    expect(nested.statusCode).toBe(404);
+  });
+
+  it("streams multipart uploads to disk with sanitised names and records upload events", async () => {
+    const workspace = useTempHome();
+    const inboxPath = path.join(workspace, "incoming");
+    const { id } = createInboxShare(inboxPath);
+    const boundary = "----tailserve-test";
+    const payload = buildMultipartBody(boundary, [
+      { name: "note", content: "ignored field" },
+      { name: "file", filename: "../../secret.txt", content: "line one\r\n--not-a-boundary\r\n" },
+      { name: "file", filename: "screenshot.png", content: "PNGDATA" },
+    ]);
+
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchUpload(
+        server,
+        "POST",
+        `/s/${id}`,
+        { "content-type": `multipart/form-data; boundary=${boundary}` },
+        splitIntoBytes(payload),
+      );
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body)).toEqual({
+        ok: true,
+        files: [
+          { name: "secret.txt", size: 28 },
+          { name: "screenshot.png", size: 7 },
+        ],
+      });
+    } finally {
+      server.emit("close");
+    }
+
+    expect(readdirSync(inboxPath).sort()).toEqual(["screenshot.png", "secret.txt"]);
+    expect(readFileSync(path.join(inboxPath, "secret.txt"), "utf8")).toBe("line one\r\n--not-a-boundary\r\n");
+    expect(readUploadEvents(id).map((event) => [event.name, event.path])).toEqual([
+      ["secret.txt", path.join(inboxPath, "secret.txt")],
+      ["screenshot.png", path.join(inboxPath, "screenshot.png")],
+    ]);
+  });
+
+  it("accepts raw PUT uploads without overwriting existing files", async () => {
+    const workspace = useTempHome();
+    const inboxPath = path.join(workspace, "incoming");
+    mkdirSync(inboxPath, { recursive: true });
+    writeFileSync(path.join(inboxPath, "report.csv"), "original", "utf8");
+    const { id } = createInboxShare(inboxPath);
+
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchUpload(server, "PUT", `/s/${id}/report.csv`, {}, [Buffer.from("a,b\n"), Buffer.from("1,2\n")]);
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body)).toEqual({ ok: true, files: [{ name: "report (1).csv", size: 8 }] });
+    } finally {
+      server.emit("close");
+    }
+
+    expect(readFileSync(path.join(inboxPath, "report.csv"), "utf8")).toBe("original");
+    expect(readFileSync(path.join(inboxPath, "report (1).csv"), "utf8")).toBe("a,b\n1,2\n");
+  });
+
+  it("rejects oversized files and disallowed extensions without leaving partial files", async () => {
+    const workspace = useTempHome();
+    const inboxPath = path.join(workspace, "incoming");
+    const { id } = createInboxShare(inboxPath, { maxBytes: 10, allowedExtensions: [".txt"] });
+    const boundary = "limit-boundary";
+
+    const server = createTailserveServer();
+    try {
+      const tooLarge = await dispatchUpload(
+        server,
+        "POST",
+        `/s/${id}`,
+        { "content-type": `multipart/form-data; boundary=${boundary}` },
+        [
+          buildMultipartBody(boundary, [
+            { name: "file", filename: "small.txt", content: "ok" },
+            { name: "file", filename: "big.txt", content: "x".repeat(64) },
+          ]),
+        ],
+      );
+      const declaredTooLarge = await dispatchUpload(server, "PUT", `/s/${id}/big.txt`, { "content-length": "11" }, [Buffer.from("x".repeat(11))]);
+      const wrongType = await dispatchUpload(server, "PUT", `/s/${id}/run.sh`, {}, [Buffer.from("echo hi")]);
+      const notMultipart = await dispatchUpload(server, "POST", `/s/${id}`, { "content-type": "text/plain" }, [Buffer.from("hi")]);
+
+      expect(tooLarge.statusCode).toBe(413);
+      expect(JSON.parse(tooLarge.body)).toMatchObject({ ok: false, error: "too_large" });
+      expect(declaredTooLarge.statusCode).toBe(413);
+      expect(wrongType.statusCode).toBe(415);
+      expect(JSON.parse(wrongType.body)).toMatchObject({ ok: false, error: "extension_not_allowed" });
+      expect(notMultipart.statusCode).toBe(400);
+    } finally {
+      server.emit("close");
+    }
+
+    expect(readdirSync(inboxPath)).toEqual([]);
+  });
+
+  it("prints the inbox URL and then one JSON line per upload with --count", async () => {
+    const workspace = useTempHome();
+    const inboxPath = path.join(workspace, "incoming");
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+    const exitCodePromise = run(["node", "ts", "inbox", inboxPath, "--ext", "png,.JPG", "--max-size", "1mb", "--count", "1"], stdout, stderr);
+
+    let shareId: string | undefined;
+    for (let attempt = 0; attempt < 50 && shareId === undefined; attempt += 1) {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 20);
+      });
+      const statePath = path.join(process.env.HOME ?? "", ".tailserve", "state.json");
+      try {
+        const state = JSON.parse(readFileSync(statePath, "utf8")) as { shares: Record<string, { type: string }> };
+        shareId = Object.keys(state.shares)[0];
+      } catch {
+        continue;
+      }
+    }
+
+    const server = createTailserveServer();
+    try {
+      await dispatchUpload(server, "PUT", `/s/${shareId}/photo.JPG`, {}, [Buffer.from("jpeg")]);
+    } finally {
+      server.emit("close");
+    }
+
+    const exitCode = await exitCodePromise;
+    const state = JSON.parse(readFileSync(path.join(process.env.HOME ?? "", ".tailserve", "state.json"), "utf8")) as {
+      shares: Record<string, { type: string; maxBytes?: number; allowedExtensions?: string[] }>;
+    };
+    const lines = stdout.toString().trim().split("\n");
+
+    expect(exitCode).toBe(0);
+    expect(state.shares[shareId ?? ""]).toMatchObject({ type: "inbox", maxBytes: 1024 * 1024, allowedExtensions: [".png", ".jpg"] });
+    expect(lines[0]).toContain(`/s/${shareId}`);
+    expect(JSON.parse(lines[1] ?? "{}")).toMatchObject({ name: "photo.JPG", size: 4, path: path.join(inboxPath, "photo.JPG") });
+  });
+
+  it("rejects invalid inbox limits", async () => {
+    const workspace = useTempHome();
+    const stderr = new MemoryOutput();
+    const exitCode = await run(["node", "ts", "inbox", path.join(workspace, "incoming"), "--max-size", "lots"], new MemoryOutput(), stderr);
+
+    expect(exitCode).toBe(1);
+    expect(stderr.toString()).toContain("Invalid size: lots");
+  });
+});
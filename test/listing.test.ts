@@ -0,0 +1,125 @@
+import { mkdirSync, utimesSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { renderMarkdown } from "../src/markdown.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+function createReportsDirectory(workspace: string): string {
+  const dirPath = path.join(workspace, "reports");
+  mkdirSync(path.join(dirPath, "archive"), { recursive: true });
+  writeFileSync(path.join(dirPath, "small.txt"), "tiny\n", "utf8");
+  writeFileSync(path.join(dirPath, "large.json"), JSON.stringify({ rows: "x".repeat(4096) }), "utf8");
+  writeFileSync(path.join(dirPath, "README.md"), "# Weekly reports\n\nGenerated by **cron**.\n\n<script>alert(1)</script>\n", "utf8");
+  utimesSync(path.join(dirPath, "small.txt"), new Date("2026-01-02T03:04:05Z"), new Date("2026-01-02T03:04:05Z"));
+  return dirPath;
+}
+
+afterEach(restoreHome);
+
+describe("directory listings", () => {
+  it("shows size, modification time and MIME type columns", () => {
+    const workspace = useTempHome();
+    const dirPath = createReportsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/` });
+
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.body).toContain("<th class=\"col-size\">");
+    expect(resolved.body).toContain("<td class=\"col-size\">5 B</td>");
+    expect(resolved.body).toContain("<td class=\"col-size\">4.0 KB</td>");
+    expect(resolved.body).toContain("<time datetime=\"2026-01-02T03:04:05.000Z\">2026-01-02 03:04</time>");
+    expect(resolved.body).toContain("<td class=\"col-type\">application/json</td>");
+    expect(resolved.body).toContain("id=\"filter\"");
+  });
+
+  it("sorts entries by the requested column with directories first", () => {
+    const workspace = useTempHome();
+    const dirPath = createReportsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/?sort=size&order=desc` });
+    const body = resolved.body ?? "";
+
+    expect(body.indexOf(">archive/<")).toBeLessThan(body.indexOf(">large.json<"));
+    expect(body.indexOf(">large.json<")).toBeLessThan(body.indexOf(">README.md<"));
+    expect(body.indexOf(">README.md<")).toBeLessThan(body.indexOf(">small.txt<"));
+    expect(body).toContain(`href="/s/${id}/?sort=size&amp;order=asc">Size ▼</a>`);
+  });
+
+  it("renders README.md below the entries without passing through raw HTML", () => {
+    const workspace = useTempHome();
+    const dirPath = createReportsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/` });
+    const body = resolved.body ?? "";
+
+    expect(body).toContain("<h1 id=\"weekly-reports\">Weekly reports</h1>");
+    expect(body).toContain("Generated by <strong>cron</strong>.");
+    expect(body).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(body.indexOf("class=\"readme\"")).toBeGreaterThan(body.indexOf("class=\"entries\""));
+  });
+
+  it("returns the listing as JSON for ?format=json", () => {
+    const workspace = useTempHome();
+    const dirPath = createReportsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/?format=json&sort=name&order=desc` });
+    const listing = JSON.parse(resolved.body ?? "{}") as {
+      path: string;
+      entries: Array<{ name: string; type: string; size: number | null; mimeType: string | null; href: string }>;
+    };
+
+    expect(resolved.contentType).toBe("application/json; charset=utf-8");
+    expect(listing.path).toBe("/");
+    expect(listing.entries.map((entry) => entry.name)).toEqual(["archive", "small.txt", "README.md", "large.json"]);
+    expect(listing.entries[0]).toMatchObject({ type: "dir", size: null, mimeType: null, href: `/s/${id}/archive/` });
+    expect(listing.entries[1]).toMatchObject({ type: "file", size: 5, mimeType: "text/plain", href: `/s/${id}/small.txt` });
+  });
+
+  it("negotiates JSON from the Accept header and varies on it", async () => {
+    const workspace = useTempHome();
+    const dirPath = createReportsDirectory(workspace);
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const jsonResponse = await dispatchServerRequest(server, `/s/${id}/archive/`, { accept: "application/json" });
+      const htmlResponse = await dispatchServerRequest(server, `/s/${id}/archive/`, {
+        accept: "text/html,application/xhtml+xml,application/json;q=0.9",
+      });
+
+      expect(jsonResponse.headers["content-type"]).toBe("application/json; charset=utf-8");
+      expect(jsonResponse.headers.vary).toBe("Accept, Accept-Encoding");
+      expect(JSON.parse(jsonResponse.body)).toMatchObject({ path: "/archive/", parent: `/s/${id}/`, entries: [] });
+      expect(htmlResponse.headers["content-type"]).toBe("text/html; charset=utf-8");
+    } finally {
+      server.emit("close");
+    }
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("renders common block and inline syntax", () => {
+    const { html } = renderMarkdown(
+      ["## Setup", "", "- [x] install `npm ci`", "- run *tests*", "", "```sh", "echo <done>", "```"].join("\n"),
+    );
+
+    expect(html).toContain("<h2 id=\"setup\">Setup</h2>");
+    expect(html).toContain("<li class=\"task\"><input type=\"checkbox\" disabled checked> install <code>npm ci</code></li>");
+    expect(html).toContain("<li>run <em>tests</em></li>");
+    expect(html).toContain("<pre><code class=\"language-sh\">echo &lt;done&gt;</code></pre>");
+  });
+
+  it("neutralizes script URLs in links", () => {
+    expect(renderMarkdown("[docs](./docs.md) [bad](javascript:alert)").html).toBe(
+      "<p><a href=\"./docs.md\">docs</a> <a href=\"#\">bad</a></p>",
+    );
+  });
+});
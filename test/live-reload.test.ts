@@ -0,0 +1,159 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { injectLiveReloadScript, LiveReloadHub } from "../src/live-reload.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, MockWritableResponse, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function readStateFile(): {
+  shares: Record<string, { live?: boolean }>;
+  projects: Record<string, { live?: boolean }>;
+} {
+  return JSON.parse(readFileSync(path.join(process.env.HOME ?? "", ".tailserve", "state.json"), "utf8")) as {
+    shares: Record<string, { live?: boolean }>;
+    projects: Record<string, { live?: boolean }>;
+  };
+}
+
+async function delay(ms: number): Promise<void> {
+  await new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+afterEach(restoreHome);
+
+describe("injectLiveReloadScript", () => {
+  it("inserts the reload script before </body> or appends it", () => {
+    const injected = injectLiveReloadScript("<html><body><p>hi</p></BODY></html>", "/s/abc/.tailserve-live");
+
+    expect(injected).toContain('new EventSource("/s/abc/.tailserve-live")');
+    expect(injected.indexOf("<script>")).toBeLessThan(injected.indexOf("</BODY>"));
+    expect(injectLiveReloadScript("<p>fragment</p>", "/p/docs/.tailserve-live")).toMatch(/^<p>fragment<\/p>\n<script>/);
+  });
+});
+
+describe("live reload", () => {
+  it("injects the reload script into HTML served from live shares only", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "report");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "index.html"), "<html><body><h1>Report</h1></body></html>", "utf8");
+    writeFileSync(path.join(dirPath, "style.css"), "h1 { color: red; }", "utf8");
+
+    const live = createFileShare(dirPath, { live: true });
+    const plain = createFileShare(dirPath);
+    const liveHtml = resolveRequest({ method: "GET", url: `/s/${live.id}/index.html` });
+    const liveCss = resolveRequest({ method: "GET", url: `/s/${live.id}/style.css` });
+    const plainHtml = resolveRequest({ method: "GET", url: `/s/${plain.id}/index.html` });
+
+    expect(liveHtml.filePath).toBeUndefined();
+    expect(liveHtml.body).toBe("<html><body><h1>Report</h1></body></html>");
+    expect(liveHtml.liveReload).toBe(`/s/${live.id}/.tailserve-live`);
+    expect(liveCss.filePath).toBe(path.join(dirPath, "style.css"));
+    expect(liveCss.liveReload).toBeUndefined();
+    expect(plainHtml.filePath).toBe(path.join(dirPath, "index.html"));
+    expect(plainHtml.liveReload).toBeUndefined();
+  });
+
+  it("streams debounced reload and css events over SSE", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "site");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "index.html"), "<html><body>v1</body></html>", "utf8");
+    writeFileSync(path.join(dirPath, "style.css"), "body {}", "utf8");
+
+    const { id } = createFileShare(dirPath, { live: true });
+    const server = createTailserveServer();
+    let pageBody = "";
+    let eventStream: Promise<{ statusCode: number; headers: Record<string, string>; body: string }> | undefined;
+    try {
+      pageBody = (await dispatchServerRequest(server, `/s/${id}/index.html`)).body;
+      eventStream = dispatchServerRequest(server, `/s/${id}/.tailserve-live`);
+      await delay(100);
+      writeFileSync(path.join(dirPath, "style.css"), "body { margin: 0; }", "utf8");
+      await delay(400);
+      writeFileSync(path.join(dirPath, "index.html"), "<html><body>v2</body></html>", "utf8");
+      writeFileSync(path.join(dirPath, "style.css"), "body { margin: 1px; }", "utf8");
+      await delay(400);
+    } finally {
+      server.emit("close");
+    }
+
+    const events = await eventStream;
+    expect(pageBody).toContain(`new EventSource("/s/${id}/.tailserve-live")`);
+    expect(events?.headers["content-type"]).toBe("text/event-stream; charset=utf-8");
+    expect(events?.body).toContain('event: css\ndata: {"paths":["style.css"]}');
+    expect(events?.body.match(/event: reload/g)).toHaveLength(1);
+  });
+
+  it("ends open streams when the watched route is pruned", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "page.html");
+    writeFileSync(filePath, "<p>hi</p>", "utf8");
+
+    const hub = new LiveReloadHub();
+    const settled = new Promise<{ statusCode: number; headers: Record<string, string>; body: string }>((resolve) => {
+      const response = new MockWritableResponse(resolve);
+      expect(hub.subscribe("s:abc", filePath, false, response as never)).toBe(true);
+    });
+
+    expect(hub.keys()).toEqual(["s:abc"]);
+    hub.prune(new Set(["s:other"]));
+    const payload = await settled;
+    hub.closeAll();
+
+    expect(payload.body).toContain("retry: 1000");
+    expect(hub.keys()).toEqual([]);
+  });
+
+  it("does not expose the event stream for shares without --live", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "page.html");
+    writeFileSync(filePath, "<p>hi</p>", "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/.tailserve-live`);
+      expect(response.statusCode).toBe(404);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("stores --live on shares and static projects", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "docs");
+    mkdirSync(dirPath, { recursive: true });
+
+    const shareExitCode = await run(["node", "ts", "share", "--live", dirPath], new MemoryOutput(), new MemoryOutput());
+    const projectExitCode = await run(["node", "ts", "project", dirPath, "--name", "docs", "--live"], new MemoryOutput(), new MemoryOutput());
+    const portStderr = new MemoryOutput();
+    const portExitCode = await run(["node", "ts", "project", dirPath, "--port", "8080", "--live"], new MemoryOutput(), portStderr);
+
+    expect(shareExitCode).toBe(0);
+    expect(Object.values(readStateFile().shares)[0]?.live).toBe(true);
+    expect(projectExitCode).toBe(0);
+    expect(readStateFile().projects.docs?.live).toBe(true);
+    expect(portExitCode).toBe(1);
+    expect(portStderr.toString()).toContain("Do not use --live with --port");
+  });
+});
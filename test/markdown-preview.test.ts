@@ -0,0 +1,101 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+const REPORT_MARKDOWN = [
+  "# Release report",
+  "",
+  "## Summary",
+  "",
+  "See [the details](../details.md#numbers), [the index](/index.md) and ![chart](./chart.png).",
+  "",
+  "## Next steps",
+  "",
+  "- [ ] ship it",
+].join("\n");
+
+afterEach(restoreHome);
+
+describe("markdown preview", () => {
+  it("renders a shared .md file as HTML with a table of contents and raw link", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.md");
+    writeFileSync(filePath, REPORT_MARKDOWN, "utf8");
+
+    const { id } = createFileShare(filePath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}` });
+
+    expect(resolved.statusCode).toBe(200);
+    expect(resolved.contentType).toBe("text/html; charset=utf-8");
+    expect(resolved.filePath).toBeUndefined();
+    expect(resolved.body).toContain("<title>report.md</title>");
+    expect(resolved.body).toContain(`href="/s/${id}?raw=1">Raw</a>`);
+    expect(resolved.body).toContain('<nav class="toc"');
+    expect(resolved.body).toContain('<a href="#summary">Summary</a>');
+    expect(resolved.body).toContain('<h2 id="next-steps">Next steps</h2>');
+  });
+
+  it("resolves relative links and images against the share root", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "docs");
+    mkdirSync(path.join(dirPath, "reports"), { recursive: true });
+    writeFileSync(path.join(dirPath, "reports", "q3.mdx"), REPORT_MARKDOWN, "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/reports/q3.mdx` });
+
+    expect(resolved.body).toContain("<title>reports/q3.mdx</title>");
+    expect(resolved.body).toContain(`<a href="/s/${id}/details.md#numbers">the details</a>`);
+    expect(resolved.body).toContain(`<a href="/s/${id}/index.md">the index</a>`);
+    expect(resolved.body).toContain(`<img src="/s/${id}/reports/chart.png" alt="chart">`);
+    expect(resolved.body).toContain(`href="/s/${id}/reports/q3.mdx?raw=1">Raw</a>`);
+  });
+
+  it("keeps relative links from climbing above the share root", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "docs");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "notes.md"), "[escape](../../../etc/passwd)\n", "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/notes.md` });
+
+    expect(resolved.body).toContain(`<a href="/s/${id}/etc/passwd">escape</a>`);
+  });
+
+  it("returns the original bytes for ?raw=1", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.md");
+    writeFileSync(filePath, REPORT_MARKDOWN, "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}?raw=1`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["content-type"]).toBe("text/markdown");
+      expect(response.body).toBe(REPORT_MARKDOWN);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("serves markdown verbatim from static-site shares", () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "site");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "CHANGELOG.md"), "# Changes\n", "utf8");
+
+    const { id } = createFileShare(dirPath, { site: "site" });
+    const resolved = resolveRequest({ method: "GET", url: `/s/${id}/CHANGELOG.md` });
+
+    expect(resolved.filePath).toBe(path.join(dirPath, "CHANGELOG.md"));
+    expect(resolved.body).toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { classifyRequestOrigin } from "../src/origin.js";
+import { createTailserveServer, restorePersistedRoutesOnStartup } from "../src/server.js";
+import { createFileShare } from "../src/shares.js";
+import { readState, writeState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+const funnelHeaders = { host: "demo.tailnet.ts.net", "tailscale-funnel-request": "?1" };
+
+function createSharedFile(workspace: string, name: string, isPublic: boolean): string {
+  const filePath = path.join(workspace, name);
+  writeFileSync(filePath, `${name}\n`, "utf8");
+  return createFileShare(filePath, { public: isPublic }).id;
+}
+
+afterEach(restoreHome);
+
+describe("classifyRequestOrigin", () => {
+  const state = {
+    namedTunnel: {
+      name: "tailserve",
+      uuid: "f47ac10b-58cc-4372-a567-0e02b2c3d479",
+      hostname: "share.example.com",
+      credentialsPath: "/tmp/tailserve.json",
+    },
+  };
+
+  it("tells relays apart from their forwarded headers and the peer address", () => {
+    expect(classifyRequestOrigin({ host: "localhost:7899" }, state, "127.0.0.1")).toBe("local");
+    expect(classifyRequestOrigin({ "tailscale-user-login": "alice@example.com" }, state, "127.0.0.1")).toBe("tailnet");
+    expect(classifyRequestOrigin({ "x-forwarded-for": "100.101.102.103" }, state, "::1")).toBe("tailnet");
+    expect(classifyRequestOrigin(funnelHeaders, state, "127.0.0.1")).toBe("funnel");
+    expect(classifyRequestOrigin({ host: "share.example.com", "cf-ray": "8a1" }, state)).toBe("named-tunnel");
+    expect(classifyRequestOrigin({ host: "quiet-meadow.trycloudflare.com", "cf-ray": "8a1" }, state)).toBe("quick-tunnel");
+    expect(classifyRequestOrigin({ host: "localhost:7899" }, state, "192.168.1.20")).toBe("remote");
+  });
+
+  it("treats tailnet identity headers on relayed internet requests as internet traffic", () => {
+    expect(
+      classifyRequestOrigin({ "tailscale-user-login": "alice@example.com", "cf-connecting-ip": "203.0.113.7" }, state),
+    ).toBe("quick-tunnel");
+  });
+});
+
+describe("internet origin scoping", () => {
+  it("hides the dashboard, the API and private shares from funnel requests", async () => {
+    const workspace = useTempHome();
+    const privateId = createSharedFile(workspace, "private.txt", false);
+    const publicId = createSharedFile(workspace, "public.txt", true);
+    const server = createTailserveServer();
+
+    try {
+      expect((await dispatchServerRequest(server, "/", funnelHeaders)).statusCode).toBe(404);
+      expect((await dispatchServerRequest(server, "/api/health", funnelHeaders)).statusCode).toBe(404);
+      expect((await dispatchServerRequest(server, `/s/${privateId}`, funnelHeaders)).statusCode).toBe(404);
+
+      const publicResponse = await dispatchServerRequest(server, `/s/${publicId}`, funnelHeaders);
+      expect(publicResponse.statusCode).toBe(200);
+      expect(publicResponse.body).toBe("public.txt\n");
+
+      const tailnetHeaders = { "tailscale-user-login": "alice@example.com" };
+      expect((await dispatchServerRequest(server, "/", tailnetHeaders)).statusCode).toBe(200);
+      expect((await dispatchServerRequest(server, `/s/${privateId}`, tailnetHeaders)).statusCode).toBe(200);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("only serves public projects through the named tunnel hostname", async () => {
+    const workspace = useTempHome();
+    writeFileSync(path.join(workspace, "index.html"), "<h1>project</h1>\n", "utf8");
+    const state = readState();
+    state.namedTunnel = {
+      name: "tailserve",
+      uuid: "f47ac10b-58cc-4372-a567-0e02b2c3d479",
+      hostname: "share.example.com",
+      credentialsPath: path.join(workspace, "tailserve.json"),
+    };
+    state.projects.docs = { name: "docs", path: workspace, public: true };
+    state.projects.internal = { name: "internal", path: workspace };
+    writeState(state);
+    const server = createTailserveServer();
+    const tunnelHeaders = { host: "share.example.com", "cf-ray": "8a1", "cf-connecting-ip": "203.0.113.7" };
+
+    try {
+      expect((await dispatchServerRequest(server, "/p/docs/", tunnelHeaders)).statusCode).toBe(200);
+      expect((await dispatchServerRequest(server, "/p/internal/", tunnelHeaders)).statusCode).toBe(404);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("limits a quick tunnel to the share it was started for", async () => {
+    const workspace = useTempHome();
+    const tunnelledId = createSharedFile(workspace, "tunnelled.txt", true);
+    const otherId = createSharedFile(workspace, "other.txt", true);
+    const state = readState();
+    state.tunnels[tunnelledId] = {
+      pid: 4242,
+      url: "https://quiet-meadow.trycloudflare.com",
+      port: state.port,
+      createdAt: new Date().toISOString(),
+    };
+    writeState(state);
+    const server = createTailserveServer();
+    const tunnelHeaders = { host: "quiet-meadow.trycloudflare.com", "cf-ray": "8a1" };
+
+    try {
+      expect((await dispatchServerRequest(server, `/s/${tunnelledId}`, tunnelHeaders)).statusCode).toBe(200);
+      expect((await dispatchServerRequest(server, `/s/${otherId}`, tunnelHeaders)).statusCode).toBe(404);
+      expect((await dispatchServerRequest(server, "/", tunnelHeaders)).statusCode).toBe(404);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("keeps the public flag when restored shares are rewritten on startup", () => {
+    const workspace = useTempHome();
+    const publicId = createSharedFile(workspace, "public.txt", true);
+    const expiredId = createSharedFile(workspace, "expired.txt", false);
+    const state = readState();
+    state.shares[expiredId].expiresAt = "2000-01-01T00:00:00.000Z";
+    writeState(state);
+
+    restorePersistedRoutesOnStartup();
+
+    const restored = readState();
+    expect(restored.shares[expiredId]).toBeUndefined();
+    expect(restored.shares[publicId].public).toBe(true);
+  });
+});
@@ -236,7 +236,6 @@ describe("public share flags", () => {
 
     expect(exitCode).toBe(0);
     expect(stderr.toString()).toBe("");
-    expect(stdout.toString()).toBe("https://independent.trycloudflare.com\n");
 
     const state = JSON.parse(readFileSync(path.join(homeDir, ".tailserve", "state.json"), "utf8")) as {
       shares: Record<string, { id: string; public?: boolean }>;
@@ -245,7 +244,8 @@ describe("public share flags", () => {
     };
     const [shareId, share] = Object.entries(state.shares)[0];
     expect(share.id).toBe(shareId);
-    expect(share.public).toBeUndefined();
+    expect(stdout.toString()).toBe(`https://independent.trycloudflare.com/s/${shareId}\n`);
+    expect(share.public).toBe(true);
     expect(state.tunnels[shareId]?.url).toBe("https://independent.trycloudflare.com");
     expect(state.namedTunnel?.hostname).toBe("share.example.com");
 
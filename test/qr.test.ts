@@ -0,0 +1,102 @@
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { encodeQrCode, renderQrSvg, renderQrTerminal } from "../src/qr.js";
+import { resolveRequest } from "../src/server.js";
+import { createFileShare } from "../src/shares.js";
+import { restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function hasFinderPattern(modules: boolean[][], left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy += 1) {
+    for (let dx = 0; dx < 7; dx += 1) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      if (modules[top + dy][left + dx] !== (ring !== 2)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+afterEach(restoreHome);
+
+describe("QR encoder", () => {
+  it("picks the smallest version and draws the finder patterns", () => {
+    const small = encodeQrCode("https://a.ts");
+    expect(small).toHaveLength(21);
+    expect(hasFinderPattern(small, 0, 0)).toBe(true);
+    expect(hasFinderPattern(small, 14, 0)).toBe(true);
+    expect(hasFinderPattern(small, 0, 14)).toBe(true);
+
+    const url = "https://demo.tailnet.ts.net:8443/s/brave-otter-42?t=abc123def456";
+    expect(encodeQrCode(url)).toHaveLength(37);
+    expect(encodeQrCode(url)).toEqual(encodeQrCode(url));
+  });
+
+  it("rejects text beyond version 40", () => {
+    expect(() => encodeQrCode("x".repeat(2400))).toThrow("Too long for a QR code: 2400 bytes");
+  });
+
+  it("renders two module rows per terminal line with a quiet zone", () => {
+    const lines = renderQrTerminal("https://a.ts").trimEnd().split("\n");
+    expect(lines).toHaveLength(15);
+    expect(lines.every((line) => line.length === 29)).toBe(true);
+    expect(lines[0]).toBe("█".repeat(29));
+  });
+
+  it("renders an SVG with one square per dark module", () => {
+    const svg = renderQrSvg("https://a.ts");
+    const darkCount = encodeQrCode("https://a.ts").flat().filter(Boolean).length;
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(darkCount);
+  });
+});
+
+describe("QR output", () => {
+  it("prints the QR code on stderr and only the URL on stdout for ts share --qr", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+
+    expect(await run(["node", "ts", "share", "--qr", filePath], stdout, stderr)).toBe(0);
+    const url = stdout.toString().trim();
+    expect(url).toMatch(/\/s\/[A-Za-z0-9_-]{8}$/);
+    expect(stderr.toString()).toContain(renderQrTerminal(url));
+  });
+
+  it("serves QR codes as SVG from /api/qr and links them from the dashboard", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    const { url } = createFileShare(filePath);
+
+    const qr = resolveRequest({ method: "GET", url: `/api/qr?url=${encodeURIComponent(url)}` });
+    expect(qr.statusCode).toBe(200);
+    expect(qr.contentType).toBe("image/svg+xml; charset=utf-8");
+    expect(qr.body).toBe(renderQrSvg(url));
+
+    expect(resolveRequest({ method: "GET", url: "/api/qr" })).toMatchObject({ statusCode: 400, body: "Missing url parameter\n" });
+
+    const dashboard = resolveRequest({ method: "GET", url: "/" });
+    expect(dashboard.body).toContain(`<img src="/api/qr?url=${encodeURIComponent(url)}"`);
+  });
+});
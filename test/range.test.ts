@@ -0,0 +1,132 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { parseRangeHeader } from "../src/range.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+afterEach(restoreHome);
+
+describe("parseRangeHeader", () => {
+  it("parses bounded, open-ended and suffix ranges", () => {
+    expect(parseRangeHeader("bytes=0-4", 10)).toEqual({ kind: "partial", ranges: [{ start: 0, end: 4 }] });
+    expect(parseRangeHeader("bytes=6-", 10)).toEqual({ kind: "partial", ranges: [{ start: 6, end: 9 }] });
+    expect(parseRangeHeader("bytes=-3", 10)).toEqual({ kind: "partial", ranges: [{ start: 7, end: 9 }] });
+    expect(parseRangeHeader("bytes=5-100", 10)).toEqual({ kind: "partial", ranges: [{ start: 5, end: 9 }] });
+  });
+
+  it("merges overlapping ranges and keeps disjoint ones", () => {
+    expect(parseRangeHeader("bytes=0-2, 1-4, 7-8", 10)).toEqual({
+      kind: "partial",
+      ranges: [
+        { start: 0, end: 4 },
+        { start: 7, end: 8 },
+      ],
+    });
+  });
+
+  it("reports unsatisfiable ranges and ignores malformed headers", () => {
+    expect(parseRangeHeader("bytes=20-30", 10)).toEqual({ kind: "unsatisfiable" });
+    expect(parseRangeHeader("bytes=-0", 10)).toEqual({ kind: "unsatisfiable" });
+    expect(parseRangeHeader("bytes=5-2", 10)).toEqual({ kind: "full" });
+    expect(parseRangeHeader("items=0-2", 10)).toEqual({ kind: "full" });
+    expect(parseRangeHeader(undefined, 10)).toEqual({ kind: "full" });
+  });
+});
+
+describe("range requests", () => {
+  it("advertises byte ranges and serves the full file without a Range header", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "data.txt");
+    writeFileSync(filePath, "0123456789", "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["accept-ranges"]).toBe("bytes");
+      expect(response.headers["content-length"]).toBe("10");
+      expect(response.body).toBe("0123456789");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("serves a single range from a file share with 206 and Content-Range", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "data.txt");
+    writeFileSync(filePath, "0123456789", "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`, { range: "bytes=2-5" });
+
+      expect(response.statusCode).toBe(206);
+      expect(response.headers["content-range"]).toBe("bytes 2-5/10");
+      expect(response.headers["content-length"]).toBe("4");
+      expect(response.headers["content-type"]).toBe("text/plain");
+      expect(response.body).toBe("2345");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("serves multiple ranges from a directory share entry as multipart/byteranges", async () => {
+    const workspace = useTempHome();
+    const dirPath = path.join(workspace, "site");
+    mkdirSync(dirPath, { recursive: true });
+    writeFileSync(path.join(dirPath, "data.txt"), "0123456789", "utf8");
+
+    const { id } = createFileShare(dirPath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/data.txt`, { range: "bytes=0-1,8-" });
+      const boundary = /boundary=([0-9a-f]+)$/.exec(response.headers["content-type"] ?? "")?.[1];
+
+      expect(response.statusCode).toBe(206);
+      expect(boundary).toBeDefined();
+      expect(response.headers["content-length"]).toBe(String(Buffer.byteLength(response.body)));
+      expect(response.body).toBe(
+        [
+          `--${boundary}`,
+          "Content-Type: text/plain",
+          "Content-Range: bytes 0-1/10",
+          "",
+          "01",
+          `--${boundary}`,
+          "Content-Type: text/plain",
+          "Content-Range: bytes 8-9/10",
+          "",
+          "89",
+          `--${boundary}--`,
+          "",
+        ].join("\r\n"),
+      );
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("returns 416 with the file size for ranges past the end", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "data.txt");
+    writeFileSync(filePath, "0123456789", "utf8");
+
+    const { id } = createFileShare(filePath);
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`, { range: "bytes=50-60" });
+
+      expect(response.statusCode).toBe(416);
+      expect(response.headers["content-range"]).toBe("bytes */10");
+    } finally {
+      server.emit("close");
+    }
+  });
+});
@@ -4,9 +4,9 @@ import path from "node:path";
 
 import { afterEach, describe, expect, it, vi } from "vitest";
 
-import { createFileShare } from "../src/shares.js";
+import { createFileShare, createProxyShare, removeShareById } from "../src/shares.js";
 import { createTailserveServer, proxyShareRequest, resolveRequest, runProxyHealthCheck, type ProjectProxyRuntime } from "../src/server.js";
-import { readState, writeState } from "../src/state.js";
+import { readState, type StateMutator, updateState, writeState } from "../src/state.js";
 
 const originalHome = process.env.HOME;
 const originalTailscaleDryRun = process.env.TAILSERVE_TAILSCALE_DRY_RUN;
@@ -564,12 +564,14 @@ describe("tailserve server methods", () => {
       },
     };
 
-    const writeStateMock = vi.fn();
+    const updateStateMock = vi.fn((mutator: StateMutator) => {
+      mutator(state);
+    });
     const checkPortMock = vi.fn(async (port: number) => port === 3000);
 
     await runProxyHealthCheck({
       readState: () => state,
-      writeState: writeStateMock,
+      updateState: updateStateMock,
       nowIso: () => checkedAt,
       checkPort: checkPortMock,
     });
@@ -577,7 +579,7 @@ describe("tailserve server methods", () => {
     expect(checkPortMock).toHaveBeenCalledTimes(2);
     expect(checkPortMock).toHaveBeenNthCalledWith(1, 3000);
     expect(checkPortMock).toHaveBeenNthCalledWith(2, 4000);
-    expect(writeStateMock).toHaveBeenCalledTimes(1);
+    expect(updateStateMock).toHaveBeenCalledTimes(1);
 
     expect(state.shares.onshare1.status).toBe("online");
     expect(state.shares.onshare1.lastSeen).toBe(checkedAt);
@@ -594,6 +596,28 @@ describe("tailserve server methods", () => {
     expect(staticProject.lastSeen).toBeUndefined();
   });
 
+  it("does not bring back a proxy share stopped while its health check runs", async () => {
+    const homeDir = mkdtempSync(path.join(tmpdir(), "tailserve-home-"));
+    process.env.HOME = homeDir;
+    const { id: stoppedId } = createProxyShare(3000);
+    const { id: keptId } = createProxyShare(4000);
+
+    await runProxyHealthCheck({
+      readState,
+      updateState,
+      nowIso: () => "2026-02-16T00:30:00.000Z",
+      checkPort: async (port: number) => {
+        removeShareById(stoppedId);
+        return port === 4000;
+      },
+    });
+
+    const state = readState();
+    expect(state.shares[stoppedId]).toBeUndefined();
+    expect(state.shares[keptId].status).toBe("online");
+    expect(state.shares[keptId].lastSeen).toBe("2026-02-16T00:30:00.000Z");
+  });
+
   it("runs backend health checks every 10 seconds", async () => {
     vi.useFakeTimers();
     const homeDir = mkdtempSync(path.join(tmpdir(), "tailserve-home-"));
@@ -868,7 +892,7 @@ describe("tailserve server methods", () => {
         };
       }),
       nowIso: () => "2026-02-16T00:20:00.000Z",
-      writeState,
+      updateState,
     };
 
     const healthCheckRunner = vi.fn(async () => {
@@ -803,12 +803,12 @@ describe("tailserve server", () => {
       on: socketOn,
     } as never;
 
-    const writeStateMock = vi.fn();
+    const updateStateMock = vi.fn();
     const runtime: ProjectProxyRuntime = {
       request: vi.fn() as never,
       connect: vi.fn(() => backendSocket),
       nowIso: () => "2026-02-16T23:40:00.000Z",
-      writeState: writeStateMock,
+      updateState: updateStateMock,
     };
 
     const state: TailserveState = {
@@ -873,7 +873,7 @@ describe("tailserve server", () => {
     expect(socketWrite).not.toHaveBeenCalled();
     expect(socketDestroy).not.toHaveBeenCalled();
     expect(backendDestroy).not.toHaveBeenCalled();
-    expect(writeStateMock).toHaveBeenCalledTimes(1);
+    expect(updateStateMock).toHaveBeenCalledTimes(1);
     expect((state.projects.reelfit as Record<string, unknown>).status).toBe("online");
     expect((state.projects.reelfit as Record<string, unknown>).lastSeen).toBe("2026-02-16T23:40:00.000Z");
   });
@@ -906,12 +906,12 @@ describe("tailserve server", () => {
       on: socketOn,
     } as never;
 
-    const writeStateMock = vi.fn();
+    const updateStateMock = vi.fn();
     const runtime: ProjectProxyRuntime = {
       request: vi.fn() as never,
       connect: vi.fn(() => backendSocket),
       nowIso: () => "2026-02-16T23:45:00.000Z",
-      writeState: writeStateMock,
+      updateState: updateStateMock,
     };
 
     const state: TailserveState = {
@@ -974,7 +974,7 @@ describe("tailserve server", () => {
     expect(socketWrite).not.toHaveBeenCalled();
     expect(socketDestroy).not.toHaveBeenCalled();
     expect(backendDestroy).not.toHaveBeenCalled();
-    expect(writeStateMock).toHaveBeenCalledTimes(1);
+    expect(updateStateMock).toHaveBeenCalledTimes(1);
     expect(state.shares.prox8794.status).toBe("online");
     expect(state.shares.prox8794.lastSeen).toBe("2026-02-16T23:45:00.000Z");
   });
@@ -1007,11 +1007,11 @@ describe("tailserve server", () => {
       on: socketOn,
     } as never;
 
-    const writeStateMock = vi.fn();
+    const updateStateMock = vi.fn();
     const runtime: ProjectProxyRuntime = {
       request: vi.fn() as never,
       connect: vi.fn(() => backendSocket),
-      writeState: writeStateMock,
+      updateState: updateStateMock,
     };
 
     const state: TailserveState = {
@@ -1072,7 +1072,7 @@ describe("tailserve server", () => {
     expect(backendWrite).not.toHaveBeenCalled();
     expect(socketDestroy).toHaveBeenCalledTimes(1);
     expect(backendDestroy).not.toHaveBeenCalled();
-    expect(writeStateMock).toHaveBeenCalledTimes(1);
+    expect(updateStateMock).toHaveBeenCalledTimes(1);
     expect(state.shares.prox8794.status).toBe("offline");
   });
 
@@ -1179,7 +1179,7 @@ describe("tailserve server", () => {
     expect(readFileSync(resolved.filePath ?? "", "utf8")).toBe(body);
   });
 
-  it("returns 404 for /s/:id when id length is not 8", () => {
+  it("returns 404 for /s/:id when the id is unknown", () => {
     const homeDir = mkdtempSync(path.join(tmpdir(), "tailserve-home-"));
     process.env.HOME = homeDir;
 
@@ -0,0 +1,112 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { createTailserveServer } from "../src/server.js";
+import { generateWordShareId, parseShareSlug } from "../src/share-id.js";
+import { createEditShare, createFileShare } from "../src/shares.js";
+import { readState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function writeStateFile(state: Record<string, unknown>): void {
+  const statePath = path.join(process.env.HOME ?? "", ".tailserve", "state.json");
+  mkdirSync(path.dirname(statePath), { recursive: true });
+  writeFileSync(statePath, `${JSON.stringify(state)}\n`, "utf8");
+}
+
+afterEach(restoreHome);
+
+describe("share slugs", () => {
+  it("serves, lists and stops a share created with --slug", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+
+    const stdout = new MemoryOutput();
+    expect(await run(["node", "ts", "share", "--slug", "q3-report", filePath], stdout, new MemoryOutput())).toBe(0);
+    expect(stdout.toString().trim()).toMatch(/\/s\/q3-report$/);
+
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, "/s/q3-report");
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe("quarterly report\n");
+    } finally {
+      server.emit("close");
+    }
+
+    const listStdout = new MemoryOutput();
+    expect(await run(["node", "ts", "list", "--json"], listStdout, new MemoryOutput())).toBe(0);
+    expect((JSON.parse(listStdout.toString()) as Array<{ id: string }>).map((row) => row.id)).toContain("q3-report");
+
+    expect(await run(["node", "ts", "stop", "q3-report"], new MemoryOutput(), new MemoryOutput())).toBe(0);
+    expect(readState().shares["q3-report"]).toBeUndefined();
+  });
+
+  it("rejects malformed, reserved and duplicate slugs", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    createFileShare(filePath, { slug: "q3-report" });
+
+    expect(() => parseShareSlug("Q3 Report")).toThrow("Invalid slug: Q3 Report");
+    expect(() => parseShareSlug("-draft")).toThrow("Invalid slug: -draft");
+    expect(() => parseShareSlug("api")).toThrow("Reserved slug: api");
+    expect(() => createFileShare(filePath, { slug: "q3-report" })).toThrow("Share id already in use: q3-report");
+
+    const stderr = new MemoryOutput();
+    expect(await run(["node", "ts", "share", "--slug", "all", filePath], new MemoryOutput(), stderr)).toBe(1);
+    expect(stderr.toString()).toContain("Reserved slug: all");
+    expect(Object.keys(readState().shares)).toEqual(["q3-report"]);
+  });
+
+  it("keeps a slug from colliding with a tunnel left behind by an old share", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.txt");
+    writeFileSync(filePath, "quarterly report\n", "utf8");
+    writeStateFile({
+      shares: {},
+      projects: {},
+      tunnels: { "q3-report": { pid: 4242, url: "https://q3.trycloudflare.com", port: 7899, createdAt: "2026-10-19T12:00:00.000Z" } },
+    });
+
+    expect(() => createFileShare(filePath, { slug: "q3-report" })).toThrow("Share id already in use: q3-report");
+  });
+});
+
+describe("word share ids", () => {
+  it("generates adjective-animal-number ids", () => {
+    for (let index = 0; index < 20; index += 1) {
+      expect(generateWordShareId()).toMatch(/^[a-z]+-[a-z]+-\d{1,2}$/);
+    }
+  });
+
+  it("uses word ids for new shares when idStyle is words", () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "notes.md");
+    writeFileSync(filePath, "# Notes\n", "utf8");
+    writeStateFile({ idStyle: "words", shares: {}, projects: {}, tunnels: {} });
+
+    const { id } = createFileShare(filePath);
+    const { id: editId } = createEditShare(filePath);
+
+    expect(id).toMatch(/^[a-z]+-[a-z]+-\d{1,2}$/);
+    expect(editId).toMatch(/^[a-z]+-[a-z]+-\d{1,2}$/);
+    expect(readState().idStyle).toBe("words");
+  });
+});
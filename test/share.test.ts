@@ -939,7 +939,6 @@ describe("ts share", () => {
 
     expect(exitCode).toBe(0);
     expect(stderr.toString()).toBe("");
-    expect(stdout.toString()).toBe("https://share-test.trycloudflare.com\n");
 
     const state = JSON.parse(readFileSync(path.join(homeDir, ".tailserve", "state.json"), "utf8")) as {
       shares: Record<
@@ -967,6 +966,7 @@ describe("ts share", () => {
     expect(share.id).toBe(shareId);
     expect(share.type).toBe("file");
     expect(share.path).toBe(path.resolve(filePath));
+    expect(stdout.toString()).toBe(`https://share-test.trycloudflare.com/s/${shareId}\n`);
 
     const tunnel = state.tunnels[shareId];
     expect(tunnel).toBeDefined();
@@ -0,0 +1,164 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { run } from "../src/cli.js";
+import { createFileShare } from "../src/shares.js";
+import { createTailserveServer, resolveRequest } from "../src/server.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function createBuiltSite(workspace: string, withNotFoundPage = true): string {
+  const dirPath = path.join(workspace, "dist");
+  mkdirSync(path.join(dirPath, "assets"), { recursive: true });
+  mkdirSync(path.join(dirPath, "docs"), { recursive: true });
+  writeFileSync(path.join(dirPath, "index.html"), "<h1>home</h1>\n", "utf8");
+  writeFileSync(path.join(dirPath, "about.html"), "<h1>about</h1>\n", "utf8");
+  writeFileSync(path.join(dirPath, "docs", "index.html"), "<h1>docs</h1>\n", "utf8");
+  writeFileSync(path.join(dirPath, "assets", "app.js"), "console.log(1);\n", "utf8");
+  if (withNotFoundPage) {
+    writeFileSync(path.join(dirPath, "404.html"), "<h1>custom missing</h1>\n", "utf8");
+  }
+
+  return dirPath;
+}
+
+function readStateFile(): {
+  shares: Record<string, { site?: string }>;
+  projects: Record<string, { site?: string }>;
+} {
+  return JSON.parse(readFileSync(path.join(process.env.HOME ?? "", ".tailserve", "state.json"), "utf8")) as {
+    shares: Record<string, { site?: string }>;
+    projects: Record<string, { site?: string }>;
+  };
+}
+
+afterEach(restoreHome);
+
+describe("static site mode", () => {
+  it("serves index.html for directories and resolves clean URLs", () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace);
+
+    const { id } = createFileShare(dirPath, { site: "site" });
+    const root = resolveRequest({ method: "GET", url: `/s/${id}/` });
+    const docs = resolveRequest({ method: "GET", url: `/s/${id}/docs/` });
+    const about = resolveRequest({ method: "GET", url: `/s/${id}/about` });
+    const asset = resolveRequest({ method: "GET", url: `/s/${id}/assets/app.js` });
+
+    expect(root.filePath).toBe(path.join(dirPath, "index.html"));
+    expect(root.contentType).toBe("text/html");
+    expect(docs.filePath).toBe(path.join(dirPath, "docs", "index.html"));
+    expect(about.filePath).toBe(path.join(dirPath, "about.html"));
+    expect(asset.filePath).toBe(path.join(dirPath, "assets", "app.js"));
+  });
+
+  it("redirects directory URLs without a trailing slash", async () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace);
+
+    const { id } = createFileShare(dirPath, { site: "site" });
+    const server = createTailserveServer();
+    try {
+      const rootResponse = await dispatchServerRequest(server, `/s/${id}`);
+      const docsResponse = await dispatchServerRequest(server, `/s/${id}/docs`);
+
+      expect(rootResponse.statusCode).toBe(301);
+      expect(rootResponse.headers.location).toBe(`/s/${id}/`);
+      expect(docsResponse.statusCode).toBe(301);
+      expect(docsResponse.headers.location).toBe(`/s/${id}/docs/`);
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("answers unknown paths with the site's 404.html", async () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace);
+
+    const { id } = createFileShare(dirPath, { site: "site" });
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}/missing`);
+
+      expect(response.statusCode).toBe(404);
+      expect(response.headers["content-type"]).toBe("text/html; charset=utf-8");
+      expect(response.body).toBe("<h1>custom missing</h1>\n");
+    } finally {
+      server.emit("close");
+    }
+  });
+
+  it("falls back to index.html for unknown routes in SPA mode but not for missing assets", () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace, false);
+
+    const { id } = createFileShare(dirPath, { site: "spa" });
+    const route = resolveRequest({ method: "GET", url: `/s/${id}/settings/profile` });
+    const missingAsset = resolveRequest({ method: "GET", url: `/s/${id}/assets/missing.js` });
+
+    expect(route.statusCode).toBe(200);
+    expect(route.filePath).toBe(path.join(dirPath, "index.html"));
+    expect(missingAsset.statusCode).toBe(404);
+    expect(missingAsset.body).toBeUndefined();
+  });
+
+  it("stores --spa on the share record", async () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace);
+
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+    const exitCode = await run(["node", "ts", "share", "--spa", dirPath], stdout, stderr);
+
+    expect(exitCode).toBe(0);
+    expect(Object.values(readStateFile().shares)[0]?.site).toBe("spa");
+  });
+
+  it("serves static projects registered with --site", async () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace);
+
+    const stdout = new MemoryOutput();
+    const stderr = new MemoryOutput();
+    const exitCode = await run(["node", "ts", "project", dirPath, "--name", "marketing", "--site"], stdout, stderr);
+    const resolved = resolveRequest({ method: "GET", url: "/p/marketing/about" });
+
+    expect(exitCode).toBe(0);
+    expect(readStateFile().projects.marketing?.site).toBe("site");
+    expect(resolved.filePath).toBe(path.join(dirPath, "about.html"));
+  });
+
+  it("rejects conflicting or inapplicable site flags", async () => {
+    const workspace = useTempHome();
+    const dirPath = createBuiltSite(workspace);
+    const filePath = path.join(dirPath, "about.html");
+
+    const bothStderr = new MemoryOutput();
+    const bothExitCode = await run(["node", "ts", "share", "--site", "--spa", dirPath], new MemoryOutput(), bothStderr);
+    const fileStderr = new MemoryOutput();
+    const fileExitCode = await run(["node", "ts", "share", "--site", filePath], new MemoryOutput(), fileStderr);
+    const portStderr = new MemoryOutput();
+    const portExitCode = await run(["node", "ts", "project", dirPath, "--port", "8080", "--spa"], new MemoryOutput(), portStderr);
+
+    expect(bothExitCode).toBe(1);
+    expect(bothStderr.toString()).toContain("Do not use --site with --spa");
+    expect(fileExitCode).toBe(1);
+    expect(fileStderr.toString()).toContain("--site requires a directory");
+    expect(portExitCode).toBe(1);
+    expect(portStderr.toString()).toContain("Do not use --spa with --port");
+  });
+});
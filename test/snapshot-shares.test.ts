@@ -0,0 +1,109 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { getBlobDirectory } from "../src/blobs.js";
+import { run } from "../src/cli.js";
+import { createTailserveServer } from "../src/server.js";
+import { createFileShare, removeShareById } from "../src/shares.js";
+import { readState } from "../src/state.js";
+import { dispatchServerRequest, restoreHome, useTempHome } from "./helpers/server-harness.js";
+
+class MemoryOutput {
+  private readonly chunks: string[] = [];
+
+  write(chunk: string | Uint8Array): boolean {
+    this.chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8"));
+    return true;
+  }
+
+  toString(): string {
+    return this.chunks.join("");
+  }
+}
+
+function writeSite(rootPath: string, indexHtml: string): void {
+  mkdirSync(path.join(rootPath, "css"), { recursive: true });
+  writeFileSync(path.join(rootPath, "index.html"), indexHtml, "utf8");
+  writeFileSync(path.join(rootPath, "css", "site.css"), "body { margin: 0; }\n", "utf8");
+}
+
+afterEach(restoreHome);
+
+describe("snapshot shares", () => {
+  it("keeps serving the content from share time after the file changes", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.html");
+    writeFileSync(filePath, "<h1>Reviewed</h1>\n", "utf8");
+
+    const stdout = new MemoryOutput();
+    expect(await run(["node", "ts", "share", "--snapshot", filePath], stdout, new MemoryOutput())).toBe(0);
+    const id = /\/s\/([A-Za-z0-9_-]+)$/.exec(stdout.toString().trim())?.[1] ?? "";
+    writeFileSync(filePath, "<h1>Rewritten</h1>\n", "utf8");
+
+    const share = readState().shares[id];
+    expect(share.sourcePath).toBe(filePath);
+    expect(share.snapshot).toBe(createHash("sha256").update("<h1>Reviewed</h1>\n").digest("hex"));
+    expect(share.path).toBe(path.join(getBlobDirectory(), share.snapshot ?? "", "report.html"));
+
+    const server = createTailserveServer();
+    try {
+      const response = await dispatchServerRequest(server, `/s/${id}`);
+      expect(response.body).toBe("<h1>Reviewed</h1>\n");
+      expect(response.headers["content-type"]).toContain("text/html");
+    } finally {
+      server.emit("close");
+    }
+
+    const listStdout = new MemoryOutput();
+    expect(await run(["node", "ts", "list"], listStdout, new MemoryOutput())).toBe(0);
+    expect(listStdout.toString()).toContain(`${filePath} @${share.snapshot?.slice(0, 12)}`);
+  });
+
+  it("copies directory trees and deduplicates identical content", () => {
+    const workspace = useTempHome();
+    const sitePath = path.join(workspace, "site");
+    writeSite(sitePath, "<h1>v1</h1>\n");
+
+    const first = createFileShare(sitePath, { snapshot: true });
+    const second = createFileShare(sitePath, { snapshot: true });
+    writeSite(sitePath, "<h1>v2</h1>\n");
+    const third = createFileShare(sitePath, { snapshot: true });
+
+    expect(first.share.type).toBe("dir");
+    expect(second.share.path).toBe(first.share.path);
+    expect(third.share.snapshot).not.toBe(first.share.snapshot);
+    expect(readFileSync(path.join(first.share.path ?? "", "index.html"), "utf8")).toBe("<h1>v1</h1>\n");
+    expect(readFileSync(path.join(first.share.path ?? "", "css", "site.css"), "utf8")).toBe("body { margin: 0; }\n");
+  });
+
+  it("removes the copy once the last share using it is gone", () => {
+    const workspace = useTempHome();
+    const sitePath = path.join(workspace, "site");
+    writeSite(sitePath, "<h1>v1</h1>\n");
+    const first = createFileShare(sitePath, { snapshot: true });
+    const second = createFileShare(sitePath, { snapshot: true });
+    const copyPath = first.share.path ?? "";
+
+    removeShareById(first.id);
+    expect(existsSync(copyPath)).toBe(true);
+
+    removeShareById(second.id);
+    expect(existsSync(copyPath)).toBe(false);
+    expect(existsSync(path.dirname(copyPath))).toBe(false);
+    expect(existsSync(sitePath)).toBe(true);
+  });
+
+  it("rejects --live with --snapshot", async () => {
+    const workspace = useTempHome();
+    const filePath = path.join(workspace, "report.html");
+    writeFileSync(filePath, "<h1>Reviewed</h1>\n", "utf8");
+    const stderr = new MemoryOutput();
+
+    expect(await run(["node", "ts", "share", "--snapshot", "--live", filePath], new MemoryOutput(), stderr)).toBe(1);
+    expect(stderr.toString()).toContain("Do not use --live with --snapshot");
+    expect(existsSync(getBlobDirectory())).toBe(false);
+  });
+});